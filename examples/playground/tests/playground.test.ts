@@ -171,7 +171,7 @@ describe('playground bindings — Queue', () => {
 
 		await t.env.MY_QUEUE.send({ action: 'do-something' })
 
-		const row = t.db.query("SELECT * FROM queue_messages WHERE queue = 'MY_QUEUE'").get() as any
+		const row = t.db.query("SELECT * FROM queue_messages WHERE queue = 'my-queue'").get() as any
 		expect(row).not.toBeNull()
 	})
 
@@ -183,7 +183,7 @@ describe('playground bindings — Queue', () => {
 			{ body: { n: 2 } },
 		])
 
-		const rows = t.db.query("SELECT * FROM queue_messages WHERE queue = 'MY_QUEUE'").all()
+		const rows = t.db.query("SELECT * FROM queue_messages WHERE queue = 'my-queue'").all()
 		expect(rows).toHaveLength(2)
 	})
 })
@@ -2,21 +2,26 @@ import { withCors } from './cors'
 import { handlers as ai } from './handlers/ai'
 import { handlers as analyticsEngine } from './handlers/analytics-engine'
 import { handlers as cache } from './handlers/cache'
+import { handlers as cf } from './handlers/cf'
 import { handlers as config } from './handlers/config'
 import { handlers as containers } from './handlers/containers'
 import { handlers as d1 } from './handlers/d1'
 import { handlers as durableObjects } from './handlers/do'
 import { handlers as email } from './handlers/email'
 import { handlers as errors } from './handlers/errors'
+import { handlers as flagship } from './handlers/flagship'
 import { handlers as generations } from './handlers/generations'
 import { handlers as hosts } from './handlers/hosts'
 import { handlers as kv } from './handlers/kv'
 import { handlers as overview } from './handlers/overview'
 import { handlers as queue } from './handlers/queue'
 import { handlers as r2 } from './handlers/r2'
+import { handlers as ratelimit } from './handlers/ratelimit'
 import { handlers as routes } from './handlers/routes'
 import { handlers as scheduled } from './handlers/scheduled'
+import { handlers as secretsStore } from './handlers/secrets-store'
 import { handlers as traces } from './handlers/traces'
+import { handlers as vectorize } from './handlers/vectorize'
 import { handlers as warnings } from './handlers/warnings'
 import { handlers as workers } from './handlers/workers'
 import { handlers as workflows } from './handlers/workflows'
@@ -39,11 +44,16 @@ const allHandlers = {
 	...errors,
 	...scheduled,
 	...email,
+	...flagship,
+	...secretsStore,
+	...ratelimit,
+	...vectorize,
 	...ai,
 	...analyticsEngine,
 	...warnings,
 	...routes,
 	...hosts,
+	...cf,
 }
 
 export type Procedures = {
@@ -3,9 +3,9 @@ import { getDatabase } from '../../db'
 import type { AiRequest, HandlerContext, OkResponse } from '../types'
 
 export const handlers = {
-	'ai.list'({ model, status, limit = 50 }: { model?: string; status?: string; limit?: number }): AiRequest[] {
+	'ai.list'({ model, status, provider, limit = 50 }: { model?: string; status?: string; provider?: string; limit?: number }): AiRequest[] {
 		const db = getDatabase()
-		let query = 'SELECT id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, created_at FROM ai_requests'
+		let query = 'SELECT id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, provider, created_at FROM ai_requests'
 		const conditions: string[] = []
 		const params: SQLQueryBindings[] = []
 
@@ -17,6 +17,10 @@ export const handlers = {
 			conditions.push('status = ?')
 			params.push(status)
 		}
+		if (provider) {
+			conditions.push('provider = ?')
+			params.push(provider)
+		}
 		if (conditions.length) {
 			query += ' WHERE ' + conditions.join(' AND ')
 		}
@@ -29,7 +33,7 @@ export const handlers = {
 	'ai.get'({ id }: { id: string }): AiRequest | null {
 		const db = getDatabase()
 		return db.query<AiRequest, [string]>(
-			'SELECT id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, created_at FROM ai_requests WHERE id = ?',
+			'SELECT id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, provider, created_at FROM ai_requests WHERE id = ?',
 		).get(id)
 	},
 
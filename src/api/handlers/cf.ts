@@ -0,0 +1,18 @@
+import type { CfProfileState, HandlerContext, OkResponse } from '../types'
+
+export const handlers = {
+	'cf.getProfiles'(_input: {}, ctx: HandlerContext): CfProfileState {
+		const resolver = ctx.cfResolver
+		if (!resolver) return { profiles: [], active: null }
+		return {
+			profiles: [null, ...Object.keys(resolver.profiles)].map(name => ({ name, cf: resolver.profileCf(name) })),
+			active: resolver.activeProfile,
+		}
+	},
+
+	'cf.setActiveProfile'({ name }: { name: string | null }, ctx: HandlerContext): OkResponse {
+		if (!ctx.cfResolver) throw new Error('No request.cf resolver (dev server not running)')
+		ctx.cfResolver.setActiveProfile(name)
+		return { ok: true }
+	},
+}
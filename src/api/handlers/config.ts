@@ -1,3 +1,4 @@
+import { rateLimitBindings } from '../../bindings/rate-limit'
 import type { HandlerContext } from '../types'
 import { getAllConfigs } from '../types'
 
@@ -129,6 +130,32 @@ export const handlers = {
 					if (items.length) groups.push({ title: 'Bindings', items })
 					break
 				}
+
+				case 'secrets_store': {
+					const items = (config.secrets_store_secrets ?? []).map(s => ({ name: s.binding, value: `${s.store_id} · ${s.secret_name}` }))
+					if (items.length) groups.push({ title: 'Bindings', items })
+					break
+				}
+
+				case 'vectorize': {
+					const items = (config.vectorize ?? []).map(vi => ({ name: vi.binding, value: vi.index_name }))
+					if (items.length) groups.push({ title: 'Bindings', items })
+					break
+				}
+
+				case 'ratelimit': {
+					const items = rateLimitBindings(config).map(rl => ({
+						name: rl.binding,
+						value: `${rl.namespaceId} · ${rl.limit} per ${rl.period}s`,
+					}))
+					if (items.length) groups.push({ title: 'Bindings', items })
+					break
+				}
+
+				case 'flagship': {
+					if (config.flagship) groups.push({ title: 'Bindings', items: [{ name: config.flagship.binding, value: config.flagship.app_id }] })
+					break
+				}
 			}
 		}
 
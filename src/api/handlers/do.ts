@@ -1,6 +1,8 @@
 import { Database } from 'bun:sqlite'
 import { existsSync } from 'node:fs'
 import { join } from 'node:path'
+import { type BookmarkInfo, DurableObjectBookmarks } from '../../bindings/do-bookmarks'
+import { restoreDurableObjectBookmark } from '../../bindings/durable-object'
 import { getDatabase, getDataDir } from '../../db'
 import { generateSqlFromPrompt } from '../generate-sql'
 import type { D1Table, DoDetail, DoInstance, DoNamespace, HandlerContext, OkResponse, QueryResult } from '../types'
@@ -101,6 +103,24 @@ export const handlers = {
 		return { ok: true }
 	},
 
+	'do.listBookmarks'({ ns, id }: { ns: string; id: string }): BookmarkInfo[] {
+		return new DurableObjectBookmarks(getDatabase(), ns, id, getDataDir()).list()
+	},
+
+	async 'do.restoreToTime'(
+		{ ns, id, timestamp }: { ns: string; id: string; timestamp: number },
+		ctx: HandlerContext,
+	): Promise<{ restoredFrom: string; bookmark: string }> {
+		const db = getDatabase()
+		const bookmark = new DurableObjectBookmarks(db, ns, id, getDataDir()).forTime(timestamp)
+		if (!bookmark) throw new Error(`No bookmark exists at or before ${new Date(timestamp).toISOString()}`)
+		const namespace = getDoNamespace(ctx, ns)
+		const restored = namespace
+			? await namespace.restoreInstance(id, bookmark)
+			: restoreDurableObjectBookmark(db, ns, id, getDataDir(), bookmark)
+		return { restoredFrom: bookmark, bookmark: restored }
+	},
+
 	'do.deleteInstance'({ ns, id }: { ns: string; id: string }, ctx: HandlerContext): OkResponse {
 		const namespace = getDoNamespace(ctx, ns)
 		if (!namespace) throw new Error(`Durable Object namespace "${ns}" not found (worker not loaded?)`)
@@ -0,0 +1,54 @@
+import { deleteFlag, evaluateFlag, listFlags, parseFlagValue, setFlagEnabled, setFlagRules, setFlagValue, validateFlagRules } from '../../bindings/flagship'
+import type { FlagDetails, FlagRecord, FlagType } from '../../bindings/flagship'
+import { getDatabase } from '../../db'
+import type { FlagshipApp, HandlerContext, OkResponse } from '../types'
+import { getAllConfigs } from '../types'
+
+export const handlers = {
+	'flagship.listApps'(_input: {}, ctx: HandlerContext): FlagshipApp[] {
+		const db = getDatabase()
+		const counts = new Map(
+			db.query<{ app_id: string; count: number }, []>('SELECT app_id, COUNT(*) as count FROM flagship_flags GROUP BY app_id').all()
+				.map(r => [r.app_id, r.count]),
+		)
+		const apps = new Map<string, FlagshipApp>()
+		for (const config of getAllConfigs(ctx)) {
+			if (config.flagship && !apps.has(config.flagship.app_id)) {
+				const appId = config.flagship.app_id
+				apps.set(appId, { appId, binding: config.flagship.binding, count: counts.get(appId) ?? 0 })
+			}
+		}
+		return Array.from(apps.values())
+	},
+
+	'flagship.listFlags'({ appId }: { appId: string }): FlagRecord[] {
+		return listFlags(getDatabase(), appId)
+	},
+
+	'flagship.setFlag'(
+		{ appId, key, type, value, variant }: { appId: string; key: string; type: FlagType; value: string; variant?: string },
+	): OkResponse {
+		setFlagValue(getDatabase(), appId, key, type, parseFlagValue(type, value), variant || undefined)
+		return { ok: true }
+	},
+
+	'flagship.setEnabled'({ appId, key, enabled }: { appId: string; key: string; enabled: boolean }): OkResponse {
+		setFlagEnabled(getDatabase(), appId, key, enabled)
+		return { ok: true }
+	},
+
+	'flagship.setRules'({ appId, key, type, rules }: { appId: string; key: string; type: FlagType; rules: string }): OkResponse {
+		const parsed = rules.trim() ? validateFlagRules(type, JSON.parse(rules)) : []
+		setFlagRules(getDatabase(), appId, key, parsed)
+		return { ok: true }
+	},
+
+	'flagship.deleteFlag'({ appId, key }: { appId: string; key: string }): OkResponse {
+		deleteFlag(getDatabase(), appId, key)
+		return { ok: true }
+	},
+
+	'flagship.evaluate'({ appId, key, context }: { appId: string; key: string; context?: string }): FlagDetails<unknown> | null {
+		return evaluateFlag(getDatabase(), appId, key, context?.trim() ? JSON.parse(context) : undefined)
+	},
+}
@@ -0,0 +1,30 @@
+import { listRateLimitCounters, rateLimitBindings, resetRateLimits } from '../../bindings/rate-limit'
+import { getDatabase } from '../../db'
+import type { HandlerContext, OkResponse, RateLimitNamespace } from '../types'
+import { getAllConfigs } from '../types'
+
+export const handlers = {
+	'ratelimit.list'(_input: {}, ctx: HandlerContext): RateLimitNamespace[] {
+		const namespaces = new Map<string, RateLimitNamespace>()
+		for (const config of getAllConfigs(ctx)) {
+			for (const rl of rateLimitBindings(config)) {
+				let ns = namespaces.get(rl.namespaceId)
+				if (!ns) {
+					ns = { namespaceId: rl.namespaceId, limit: rl.limit, period: rl.period, bindings: [], counters: [] }
+					namespaces.set(rl.namespaceId, ns)
+				}
+				if (!ns.bindings.includes(rl.binding)) ns.bindings.push(rl.binding)
+			}
+		}
+		const db = getDatabase()
+		for (const ns of namespaces.values()) {
+			ns.counters = listRateLimitCounters(db, ns.namespaceId, ns.period)
+		}
+		return Array.from(namespaces.values()).sort((a, b) => a.namespaceId.localeCompare(b.namespaceId))
+	},
+
+	'ratelimit.reset'({ namespaceId, key }: { namespaceId?: string; key?: string }): OkResponse {
+		resetRateLimits(getDatabase(), namespaceId, key)
+		return { ok: true }
+	},
+}
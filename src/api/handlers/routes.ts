@@ -1,5 +1,11 @@
 import { extractPathPattern } from '../../route-matcher'
-import type { HandlerContext, RouteInfo } from '../types'
+import type { HandlerContext, RouteInfo, RouteResolution } from '../types'
+
+function mainWorkerName(ctx: HandlerContext): string {
+	return ctx.registry
+		? Array.from(ctx.registry.listManagers().keys())[0] ?? 'main'
+		: ctx.config?.name || 'main'
+}
 
 export const handlers = {
 	'routes.list'(_input: {}, ctx: HandlerContext): RouteInfo[] {
@@ -13,7 +19,13 @@ export const handlers = {
 		if (ctx.routeDispatcher) {
 			for (const r of ctx.routeDispatcher.getRegisteredRoutes()) {
 				if (r.hostPatterns) continue // already shown as host routes
-				routes.push({ pattern: r.pattern, workerName: r.workerName, isFallback: false })
+				routes.push({
+					pattern: r.route,
+					workerName: r.workerName,
+					isFallback: false,
+					type: r.customDomain ? 'custom_domain' : 'path',
+					zoneName: r.zoneName,
+				})
 			}
 		}
 
@@ -27,11 +39,23 @@ export const handlers = {
 		}
 
 		// Add main/fallback worker entry
-		const mainName = ctx.registry
-			? Array.from(ctx.registry.listManagers().keys())[0] ?? 'main'
-			: ctx.config?.name || 'main'
-		routes.push({ pattern: '/*', workerName: mainName, isFallback: true })
+		routes.push({ pattern: '/*', workerName: mainWorkerName(ctx), isFallback: true })
 
 		return routes
 	},
+
+	'routes.resolve'({ url }: { url: string }, ctx: HandlerContext): RouteResolution {
+		const parsed = new URL(/^[a-z]+:\/\//i.test(url) ? url : `http://${url}`)
+		if (!ctx.routeDispatcher) {
+			return { workerName: mainWorkerName(ctx), route: null, isFallback: true, hostnames: [parsed.hostname], domainAware: false }
+		}
+		const result = ctx.routeDispatcher.explain(parsed.pathname, parsed.hostname)
+		return {
+			workerName: result.workerName ?? mainWorkerName(ctx),
+			route: result.route,
+			isFallback: result.workerName === null,
+			hostnames: result.hostnames,
+			domainAware: result.domainAware,
+		}
+	},
 }
@@ -0,0 +1,38 @@
+import { LocalSecretsStore } from '../../bindings/secrets-store'
+import { getDataDir } from '../../db'
+import type { HandlerContext, OkResponse, SecretsStoreEntry } from '../types'
+import { getAllConfigs } from '../types'
+
+// Values never leave this module: the dashboard can set and delete secrets,
+// but only ever lists them masked.
+export const handlers = {
+	'secretsStore.list'(_input: {}, ctx: HandlerContext): SecretsStoreEntry[] {
+		const entries = new Map<string, SecretsStoreEntry>()
+		for (const secret of new LocalSecretsStore(getDataDir()).list()) {
+			entries.set(`${secret.storeId}/${secret.name}`, { ...secret, bindings: [], exists: true })
+		}
+		for (const config of getAllConfigs(ctx)) {
+			for (const s of config.secrets_store_secrets ?? []) {
+				const key = `${s.store_id}/${s.secret_name}`
+				let entry = entries.get(key)
+				if (!entry) {
+					entry = { storeId: s.store_id, name: s.secret_name, bindings: [], exists: false }
+					entries.set(key, entry)
+				}
+				if (!entry.bindings.includes(s.binding)) entry.bindings.push(s.binding)
+			}
+		}
+		return Array.from(entries.values()).sort((a, b) => a.storeId.localeCompare(b.storeId) || a.name.localeCompare(b.name))
+	},
+
+	'secretsStore.put'({ storeId, name, value, comment }: { storeId: string; name: string; value: string; comment?: string }): OkResponse {
+		if (!value) throw new Error('Secret value must not be empty')
+		new LocalSecretsStore(getDataDir()).put(storeId.trim(), name.trim(), value, comment)
+		return { ok: true }
+	},
+
+	'secretsStore.delete'({ storeId, name }: { storeId: string; name: string }): OkResponse {
+		new LocalSecretsStore(getDataDir()).delete(storeId, name)
+		return { ok: true }
+	},
+}
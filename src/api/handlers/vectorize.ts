@@ -0,0 +1,77 @@
+import type { SQLQueryBindings } from 'bun:sqlite'
+import { deleteVectorizeIndex, listVectorizeIndexes, SqliteVectorizeIndex } from '../../bindings/vectorize'
+import { getDatabase } from '../../db'
+import type {
+	HandlerContext,
+	OkResponse,
+	Paginated,
+	VectorizeIndexSummary,
+	VectorizeSimilarMatch,
+	VectorizeVectorDetail,
+	VectorizeVectorRow,
+} from '../types'
+import { getAllConfigs } from '../types'
+
+export const handlers = {
+	'vectorize.listIndexes'(_input: {}, ctx: HandlerContext): VectorizeIndexSummary[] {
+		const indexes = new Map<string, VectorizeIndexSummary>()
+		for (const index of listVectorizeIndexes(getDatabase())) {
+			indexes.set(index.name, { ...index, bindings: [] })
+		}
+		for (const config of getAllConfigs(ctx)) {
+			for (const vi of config.vectorize ?? []) {
+				let entry = indexes.get(vi.index_name)
+				if (!entry) {
+					entry = { name: vi.index_name, dimensions: null, metric: null, description: null, vectorCount: 0, bindings: [] }
+					indexes.set(vi.index_name, entry)
+				}
+				if (!entry.bindings.includes(vi.binding)) entry.bindings.push(vi.binding)
+			}
+		}
+		return Array.from(indexes.values()).sort((a, b) => a.name.localeCompare(b.name))
+	},
+
+	'vectorize.listVectors'(
+		{ index, namespace = '', limit = 50, cursor = '' }: { index: string; namespace?: string; limit?: number; cursor?: string },
+	): Paginated<VectorizeVectorRow> {
+		let query = 'SELECT id, namespace, metadata FROM vectorize_vectors WHERE index_name = ?'
+		const params: SQLQueryBindings[] = [index]
+		if (namespace) {
+			query += ' AND namespace = ?'
+			params.push(namespace)
+		}
+		if (cursor) {
+			query += ' AND id > ?'
+			params.push(cursor)
+		}
+		query += ' ORDER BY id LIMIT ?'
+		params.push(limit + 1)
+
+		const rows = getDatabase().prepare(query).all(...params) as { id: string; namespace: string | null; metadata: string | null }[]
+		const hasMore = rows.length > limit
+		const items = rows.slice(0, limit).map(row => ({ ...row, metadata: row.metadata ? JSON.parse(row.metadata) : null }))
+		const last = items[items.length - 1]
+		return { items, cursor: hasMore && last ? last.id : null }
+	},
+
+	async 'vectorize.getVector'({ index, id }: { index: string; id: string }): Promise<VectorizeVectorDetail> {
+		const [vector] = await new SqliteVectorizeIndex(getDatabase(), index).getByIds([id])
+		if (!vector) throw new Error('Vector not found')
+		return { id: vector.id, namespace: vector.namespace ?? null, metadata: vector.metadata ?? null, values: Array.from(vector.values) }
+	},
+
+	async 'vectorize.similar'({ index, id, topK = 10 }: { index: string; id: string; topK?: number }): Promise<VectorizeSimilarMatch[]> {
+		const { matches } = await new SqliteVectorizeIndex(getDatabase(), index).queryById(id, { topK: topK + 1 })
+		return matches.filter(m => m.id !== id).slice(0, topK).map(m => ({ id: m.id, score: m.score, namespace: m.namespace ?? null }))
+	},
+
+	async 'vectorize.deleteVector'({ index, id }: { index: string; id: string }): Promise<OkResponse> {
+		await new SqliteVectorizeIndex(getDatabase(), index).deleteByIds([id])
+		return { ok: true }
+	},
+
+	'vectorize.deleteIndex'({ index }: { index: string }): OkResponse {
+		deleteVectorizeIndex(getDatabase(), index)
+		return { ok: true }
+	},
+}
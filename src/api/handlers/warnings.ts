@@ -1,8 +1,12 @@
-import type { OptionalDep } from '../../warnings'
-import { getOptionalDeps } from '../../warnings'
+import type { CompatWarning, OptionalDep } from '../../warnings'
+import { getCompatWarnings, getOptionalDeps } from '../../warnings'
 
 export const handlers = {
 	'warnings.optionalDeps'(_input: {}): OptionalDep[] {
 		return getOptionalDeps()
 	},
+
+	'warnings.compatFlags'(_input: {}): CompatWarning[] {
+		return getCompatWarnings()
+	},
 }
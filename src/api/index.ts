@@ -1,6 +1,7 @@
 import type { WranglerConfig } from '../config'
 import type { GenerationManager } from '../generation-manager'
 import type { LopataConfig } from '../lopata-config'
+import type { RequestCfResolver } from '../request-cf'
 import type { RouteDispatcher } from '../route-matcher'
 import type { WorkerRegistry } from '../worker-registry'
 import { handlePreflight, withCors } from './cors'
@@ -8,7 +9,15 @@ import { dispatch } from './dispatch'
 import { handleR2Download, handleR2Upload } from './r2'
 import type { HandlerContext, HostRouteInfo } from './types'
 
-const ctx: HandlerContext = { config: null, manager: null, registry: null, lopataConfig: null, routeDispatcher: null, hostRoutes: [] }
+const ctx: HandlerContext = {
+	config: null,
+	manager: null,
+	registry: null,
+	lopataConfig: null,
+	routeDispatcher: null,
+	hostRoutes: [],
+	cfResolver: null,
+}
 
 export function setDashboardConfig(config: WranglerConfig): void {
 	ctx.config = config
@@ -34,6 +43,10 @@ export function setHostRoutes(routes: HostRouteInfo[]): void {
 	ctx.hostRoutes = routes
 }
 
+export function setRequestCfResolver(resolver: RequestCfResolver): void {
+	ctx.cfResolver = resolver
+}
+
 export function handleApiRequest(request: Request): Response | Promise<Response> {
 	const url = new URL(request.url)
 
@@ -1,6 +1,7 @@
 // ─── Shared data types ───────────────────────────────────────────────
 
 export type { GenerationInfo } from '../generation'
+import type { RateLimitCounter } from '../bindings/rate-limit'
 import type { GenerationInfo } from '../generation'
 import type { HostCheckResult } from '../hosts-check'
 
@@ -338,6 +339,8 @@ export interface AiRequest {
 	status: string
 	error: string | null
 	is_streaming: number
+	/** Provider mode that served the call: remote | record | replay | stub. */
+	provider: string
 	created_at: number
 }
 
@@ -372,6 +375,78 @@ export interface EmailRecord {
 	created_at: number
 }
 
+// Flagship
+export type { FlagCondition, FlagDetails, FlagRecord, FlagRule, FlagType, FlagVariant } from '../bindings/flagship'
+
+export interface FlagshipApp {
+	appId: string
+	binding: string
+	count: number
+}
+
+// Secrets Store
+export interface SecretsStoreEntry {
+	storeId: string
+	name: string
+	/** Bindings (across workers) that point at this secret. */
+	bindings: string[]
+	/** False when a binding references a secret that hasn't been created. */
+	exists: boolean
+	comment?: string
+	createdAt?: number
+	updatedAt?: number
+}
+
+// Vectorize
+export interface VectorizeIndexSummary {
+	name: string
+	/** Null until the index is created — by the CLI or by its first write. */
+	dimensions: number | null
+	metric: string | null
+	description: string | null
+	vectorCount: number
+	/** Bindings (across workers) that point at this index. */
+	bindings: string[]
+}
+
+export interface VectorizeVectorRow {
+	id: string
+	namespace: string | null
+	metadata: Record<string, unknown> | null
+}
+
+export interface VectorizeVectorDetail extends VectorizeVectorRow {
+	values: number[]
+}
+
+export interface VectorizeSimilarMatch {
+	id: string
+	score: number
+	namespace: string | null
+}
+
+// Rate limiting
+export interface RateLimitNamespace {
+	namespaceId: string
+	limit: number
+	period: number
+	/** Bindings (across workers) that use this namespace. */
+	bindings: string[]
+	counters: RateLimitCounter[]
+}
+
+// Request cf profiles
+export interface CfProfileInfo {
+	/** null for the built-in profile. */
+	name: string | null
+	cf: Record<string, unknown>
+}
+
+export interface CfProfileState {
+	profiles: CfProfileInfo[]
+	active: string | null
+}
+
 // Traces (re-export from tracing module)
 export type { SpanData, SpanEventData, TraceDetail, TraceEvent, TraceSummary } from '../tracing/types'
 
@@ -380,6 +455,7 @@ export type { SpanData, SpanEventData, TraceDetail, TraceEvent, TraceSummary } f
 import type { WranglerConfig } from '../config'
 import type { GenerationManager } from '../generation-manager'
 import type { LopataConfig } from '../lopata-config'
+import type { RequestCfResolver } from '../request-cf'
 import type { RouteDispatcher } from '../route-matcher'
 import type { WorkerRegistry } from '../worker-registry'
 
@@ -395,6 +471,7 @@ export interface HandlerContext {
 	lopataConfig: LopataConfig | null
 	routeDispatcher: RouteDispatcher | null
 	hostRoutes: HostRouteInfo[]
+	cfResolver: RequestCfResolver | null
 }
 
 export interface HostsCheckResponse {
@@ -407,7 +484,19 @@ export interface RouteInfo {
 	pattern: string
 	workerName: string
 	isFallback: boolean
-	type?: 'path' | 'host'
+	type?: 'path' | 'host' | 'custom_domain'
+	zoneName?: string
+}
+
+export interface RouteResolution {
+	workerName: string
+	/** Matched route pattern, null when the request falls through to the main worker. */
+	route: string | null
+	isFallback: boolean
+	/** Production hostnames the URL's host was matched as (after `hostMap`). */
+	hostnames: string[]
+	/** False when no route host matched, so routes were matched by path only. */
+	domainAware: boolean
 }
 
 /** Collect configs from all workers (registry) or fall back to single config. */
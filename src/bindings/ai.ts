@@ -1,27 +1,97 @@
 /**
  * Local implementation of the Cloudflare Workers AI binding.
  * Proxies requests to the Cloudflare AI API and logs them to SQLite.
+ *
+ * The provider mode (`LOPATA_AI_MODE` in `.dev.vars` or the environment) makes
+ * the binding usable offline:
+ *  - `remote` (default) — proxy every call to Cloudflare.
+ *  - `record` — proxy, and store each request/response pair (streamed SSE bodies
+ *    included) as a fixture under `.lopata/ai-fixtures/`.
+ *  - `replay` — serve recorded fixtures keyed by model + input; no network.
+ *  - `stub` — return schema-shaped fake outputs per model task; no network.
  */
 import type { Database } from 'bun:sqlite'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
 
 const MAX_LOG_SIZE = 1024
 
+export type AiProviderMode = 'remote' | 'record' | 'replay' | 'stub'
+
+const AI_PROVIDER_MODES: AiProviderMode[] = ['remote', 'record', 'replay', 'stub']
+
+export interface AiProviderOptions {
+	mode?: AiProviderMode
+	/** Where `record` writes and `replay` reads fixtures. Required for both modes. */
+	fixturesDir?: string
+}
+
+/** On-disk fixture: one recorded `run()` call. */
+interface AiFixture {
+	model: string
+	inputs: Record<string, unknown>
+	response: { kind: 'json'; result: unknown } | { kind: 'stream'; body: string }
+	recorded_at: number
+}
+
 function truncate(value: unknown): string {
 	const str = typeof value === 'string' ? value : JSON.stringify(value)
 	if (!str) return ''
 	return str.length > MAX_LOG_SIZE ? str.slice(0, MAX_LOG_SIZE) + '…' : str
 }
 
+/** JSON.stringify with sorted object keys, so fixture keys don't depend on property order. */
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+	}
+	return JSON.stringify(value) ?? 'null'
+}
+
+/** Fixture key for a `run()` call — stable across processes and key order. */
+export function aiFixtureKey(model: string, inputs: Record<string, unknown>): string {
+	const hasher = new Bun.CryptoHasher('sha256')
+	hasher.update(model)
+	hasher.update('\n')
+	hasher.update(stableStringify(inputs))
+	return hasher.digest('hex')
+}
+
+/**
+ * Resolve the provider mode from `LOPATA_AI_MODE` (`.dev.vars` wins over the
+ * process environment, like the Cloudflare credentials). Fixtures live under
+ * `<dataDir>/ai-fixtures`.
+ */
+export function resolveAiProviderOptions(env: Record<string, unknown>, dataDir: string): AiProviderOptions {
+	const raw = typeof env.LOPATA_AI_MODE === 'string' ? env.LOPATA_AI_MODE : process.env.LOPATA_AI_MODE
+	if (!raw) return { mode: 'remote' }
+	if (!AI_PROVIDER_MODES.includes(raw as AiProviderMode)) {
+		throw new Error(`Invalid LOPATA_AI_MODE "${raw}" (expected one of: ${AI_PROVIDER_MODES.join(', ')})`)
+	}
+	return { mode: raw as AiProviderMode, fixturesDir: join(dataDir, 'ai-fixtures') }
+}
+
 export class AiBinding {
 	private readonly db: Database
 	private readonly accountId?: string
 	private readonly apiToken?: string
+	private readonly mode: AiProviderMode
+	private readonly fixturesDir?: string
 	aiGatewayLogId: string | null = null
 
-	constructor(db: Database, accountId?: string, apiToken?: string) {
+	constructor(db: Database, accountId?: string, apiToken?: string, options?: AiProviderOptions) {
 		this.db = db
 		this.accountId = accountId
 		this.apiToken = apiToken
+		this.mode = options?.mode ?? 'remote'
+		this.fixturesDir = options?.fixturesDir
+		if ((this.mode === 'record' || this.mode === 'replay') && !this.fixturesDir) {
+			throw new Error(`Workers AI "${this.mode}" mode requires a fixtures directory`)
+		}
 	}
 
 	private ensureCredentials(): { accountId: string; apiToken: string } {
@@ -34,7 +104,6 @@ export class AiBinding {
 	}
 
 	async run(model: string, inputs: Record<string, unknown>, options?: { returnRawResponse?: boolean }): Promise<unknown> {
-		const { accountId, apiToken } = this.ensureCredentials()
 		const isStreaming = !!inputs.stream
 		const id = crypto.randomUUID()
 		const start = Date.now()
@@ -44,6 +113,25 @@ export class AiBinding {
 		let outputSummary = ''
 
 		try {
+			if (this.mode === 'replay' || this.mode === 'stub') {
+				const response = this.mode === 'replay'
+					? this.loadFixture(model, inputs).response
+					: { kind: 'json' as const, result: stubOutput(model, inputs) }
+				if (isStreaming) {
+					outputSummary = '<streaming>'
+					const body = response.kind === 'stream' ? response.body : toSse(response.result)
+					return new Response(body).body
+				}
+				const result = response.kind === 'json' ? response.result : fromSse(response.body)
+				if (options?.returnRawResponse) {
+					outputSummary = '<raw response>'
+					return Response.json({ result, success: true, errors: [], messages: [] })
+				}
+				outputSummary = truncate(result)
+				return result
+			}
+
+			const { accountId, apiToken } = this.ensureCredentials()
 			const url = `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${model}`
 			const response = await fetch(url, {
 				method: 'POST',
@@ -63,16 +151,33 @@ export class AiBinding {
 
 			if (isStreaming) {
 				outputSummary = '<streaming>'
+				if (this.mode === 'record' && response.body) {
+					// Tee the SSE body: one branch goes to the caller untouched, the other is
+					// buffered and written once the upstream stream ends.
+					const [forCaller, forFixture] = response.body.tee()
+					new Response(forFixture).text().then(
+						body => this.saveFixture(model, inputs, { kind: 'stream', body }),
+						err => console.warn(`[lopata] AI record: failed to capture stream for ${model}:`, err),
+					)
+					return forCaller
+				}
 				return response.body
 			}
 
 			if (options?.returnRawResponse) {
 				outputSummary = '<raw response>'
+				if (this.mode === 'record') {
+					const json = await response.clone().json() as { result?: unknown }
+					this.saveFixture(model, inputs, { kind: 'json', result: json.result })
+				}
 				return response
 			}
 
 			const json = await response.json() as { result?: unknown }
 			outputSummary = truncate(json.result)
+			if (this.mode === 'record') {
+				this.saveFixture(model, inputs, { kind: 'json', result: json.result })
+			}
 			return json.result
 		} catch (err) {
 			if (status !== 'error') {
@@ -83,8 +188,8 @@ export class AiBinding {
 		} finally {
 			const duration = Date.now() - start
 			this.db.prepare(
-				`INSERT INTO ai_requests (id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, created_at)
-				 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				`INSERT INTO ai_requests (id, model, input_summary, output_summary, duration_ms, status, error, is_streaming, provider, created_at)
+				 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 			).run(
 				id,
 				model,
@@ -94,12 +199,14 @@ export class AiBinding {
 				status,
 				error ?? null,
 				isStreaming ? 1 : 0,
+				this.mode,
 				start,
 			)
 		}
 	}
 
 	async models(params?: Record<string, string>): Promise<unknown[]> {
+		if (this.mode === 'replay' || this.mode === 'stub') return []
 		const { accountId, apiToken } = this.ensureCredentials()
 		const url = new URL(`https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/models/search`)
 		if (params) {
@@ -129,4 +236,128 @@ export class AiBinding {
 	toMarkdown(): never {
 		throw new Error('ai.toMarkdown() is not supported in local dev mode')
 	}
+
+	private fixturePath(model: string, inputs: Record<string, unknown>): string {
+		return join(this.fixturesDir!, `${aiFixtureKey(model, inputs)}.json`)
+	}
+
+	private loadFixture(model: string, inputs: Record<string, unknown>): AiFixture {
+		const path = this.fixturePath(model, inputs)
+		if (!existsSync(path)) {
+			throw new Error(
+				`No recorded Workers AI fixture for model "${model}" with this input (expected ${path}). Record it with LOPATA_AI_MODE=record.`,
+			)
+		}
+		return JSON.parse(readFileSync(path, 'utf-8')) as AiFixture
+	}
+
+	private saveFixture(model: string, inputs: Record<string, unknown>, response: AiFixture['response']): void {
+		mkdirSync(this.fixturesDir!, { recursive: true })
+		const fixture: AiFixture = { model, inputs, response, recorded_at: Date.now() }
+		writeFileSync(this.fixturePath(model, inputs), JSON.stringify(fixture, null, '\t'))
+	}
+}
+
+// ─── SSE helpers ─────────────────────────────────────────────────────────
+
+/** Encode a text-generation result as the SSE body Workers AI streams. */
+function toSse(result: unknown): string {
+	const text = result && typeof result === 'object' && typeof (result as { response?: unknown }).response === 'string'
+		? (result as { response: string }).response
+		: JSON.stringify(result)
+	const chunks = text.match(/\S+\s*/g) ?? [text]
+	return chunks.map(chunk => `data: ${JSON.stringify({ response: chunk })}\n\n`).join('') + 'data: [DONE]\n\n'
+}
+
+/** Reassemble a recorded SSE body into the non-streamed `{ response }` shape. */
+function fromSse(body: string): unknown {
+	let response = ''
+	for (const line of body.split('\n')) {
+		if (!line.startsWith('data: ')) continue
+		const data = line.slice(6).trim()
+		if (data === '[DONE]') break
+		try {
+			const parsed = JSON.parse(data) as { response?: unknown }
+			if (typeof parsed.response === 'string') response += parsed.response
+		} catch {
+			// Non-JSON event — not part of the text payload.
+		}
+	}
+	return { response }
+}
+
+// ─── Stub provider ───────────────────────────────────────────────────────
+
+type AiTask = 'text-embeddings' | 'image-classification' | 'text-generation'
+
+/** Best-effort task detection from the model id — enough to pick an output schema. */
+export function aiModelTask(model: string): AiTask {
+	const name = model.toLowerCase()
+	if (/(embedding|\/bge-|\/gte-|\/plamo-embedding)/.test(name)) return 'text-embeddings'
+	if (/(resnet|image-classification|\/vit-)/.test(name)) return 'image-classification'
+	return 'text-generation'
+}
+
+function embeddingDimensions(model: string): number {
+	const name = model.toLowerCase()
+	if (name.includes('small')) return 384
+	if (name.includes('large') || name.includes('m3')) return 1024
+	return 768
+}
+
+/** Deterministic PRNG (mulberry32) seeded from a hash of `seed`. */
+function seededRandom(seed: string): () => number {
+	const digest = new Bun.CryptoHasher('sha256').update(seed).digest()
+	let state = digest.readUInt32LE(0)
+	return () => {
+		state = (state + 0x6d2b79f5) | 0
+		let t = state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+/** Unit-length vector derived from the text, so equal inputs embed identically. */
+function stableVector(model: string, text: string, dims: number): number[] {
+	const random = seededRandom(`${model}\n${text}`)
+	const vector = Array.from({ length: dims }, () => random() * 2 - 1)
+	const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+	return vector.map(v => v / norm)
+}
+
+const STUB_LABELS = ['TABBY CAT', 'GOLDEN RETRIEVER', 'SPORTS CAR', 'MOUNTAIN BIKE', 'ESPRESSO']
+
+function promptOf(inputs: Record<string, unknown>): string {
+	if (typeof inputs.prompt === 'string') return inputs.prompt
+	if (Array.isArray(inputs.messages)) {
+		const last = inputs.messages[inputs.messages.length - 1] as { content?: unknown } | undefined
+		if (typeof last?.content === 'string') return last.content
+	}
+	return ''
+}
+
+/** Schema-shaped fake output for `model`, deterministic in `inputs`. */
+export function stubOutput(model: string, inputs: Record<string, unknown>): unknown {
+	switch (aiModelTask(model)) {
+		case 'text-embeddings': {
+			const texts = Array.isArray(inputs.text) ? inputs.text.map(String) : [String(inputs.text ?? '')]
+			const dims = embeddingDimensions(model)
+			return { shape: [texts.length, dims], data: texts.map(text => stableVector(model, text, dims)), pooling: 'mean' }
+		}
+		case 'image-classification': {
+			const random = seededRandom(`${model}\n${stableStringify(inputs)}`)
+			const scores = STUB_LABELS.map(label => ({ label, score: random() }))
+			const total = scores.reduce((sum, s) => sum + s.score, 0) || 1
+			return scores.map(s => ({ label: s.label, score: s.score / total })).sort((a, b) => b.score - a.score)
+		}
+		case 'text-generation': {
+			const prompt = promptOf(inputs)
+			const excerpt = prompt.length > 80 ? prompt.slice(0, 80) + '…' : prompt
+			return {
+				response: `[stub ${model}] ${excerpt}`,
+				usage: { prompt_tokens: prompt.split(/\s+/).filter(Boolean).length, completion_tokens: 0, total_tokens: 0 },
+			}
+		}
+	}
 }
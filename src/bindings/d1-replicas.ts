@@ -0,0 +1,155 @@
+import { Database } from 'bun:sqlite'
+import type { Clock } from '../testing/clock'
+import { realClock } from '../testing/clock'
+
+/**
+ * Simulated D1 read replication.
+ *
+ * Each replica is a read-only in-memory copy of the primary that trails it by a
+ * fixed lag: a write becomes visible on a replica `lagMs` after it was made.
+ * Sessions route reads to a replica and writes to the primary; a session whose
+ * bookmark is ahead of its replica makes the replica catch up first, which is
+ * how D1 keeps a session sequentially consistent.
+ */
+
+/** Region reported in `meta.served_by_region` for queries served by the primary. */
+export const D1_PRIMARY_REGION = 'ENAM'
+const REPLICA_REGIONS = ['WEUR', 'APAC', 'WNAM', 'EEUR', 'OC']
+
+const DEFAULT_REPLICA_LAG_MS = 1000
+
+export interface D1ReplicaOptions {
+	/** Replica lag in milliseconds, one entry per replica. */
+	lagMs: number[]
+}
+
+/** Where a query ran: the primary database or one of its replicas. */
+export interface D1Target {
+	db: Database
+	region: string
+	primary: boolean
+}
+
+export interface D1Replica extends D1Target {
+	lagMs: number
+	/** Bookmark of the primary state the replica currently holds. */
+	bookmark: string
+}
+
+interface Version {
+	bookmark: string
+	at: number
+	image: Uint8Array
+}
+
+/**
+ * Resolve read replication from `LOPATA_D1_REPLICAS` (replica count; off when unset
+ * or 0) and `LOPATA_D1_REPLICA_LAG_MS` (default 1000, or a comma-separated list
+ * giving each replica its own lag). `.dev.vars` wins over the process environment.
+ */
+export function resolveD1ReplicaOptions(env: Record<string, unknown>): D1ReplicaOptions | null {
+	const read = (key: string) => typeof env[key] === 'string' ? env[key] as string : process.env[key]
+	const rawCount = read('LOPATA_D1_REPLICAS')
+	if (!rawCount) return null
+	const count = Number(rawCount)
+	if (!Number.isInteger(count) || count < 0) throw new Error(`Invalid LOPATA_D1_REPLICAS "${rawCount}" (expected a replica count)`)
+	if (count === 0) return null
+
+	const rawLag = read('LOPATA_D1_REPLICA_LAG_MS')
+	const lags = rawLag ? rawLag.split(',').map(s => Number(s.trim())) : [DEFAULT_REPLICA_LAG_MS]
+	if (lags.some(lag => !Number.isFinite(lag) || lag < 0)) {
+		throw new Error(`Invalid LOPATA_D1_REPLICA_LAG_MS "${rawLag}" (expected milliseconds, optionally comma-separated per replica)`)
+	}
+	return { lagMs: Array.from({ length: count }, (_, i) => lags[Math.min(i, lags.length - 1)]!) }
+}
+
+/** Time a bookmark (`<sequence>-<timestamp>`) was taken. */
+function bookmarkTime(bookmark: string): number {
+	return parseInt(bookmark.slice(bookmark.indexOf('-') + 1), 16)
+}
+
+export class D1ReplicaSet {
+	readonly replicas: D1Replica[]
+	private primary: Database
+	private currentBookmark: () => string
+	private clock: Clock
+	/** Primary states not yet applied by every replica, oldest first. */
+	private versions: Version[] = []
+	private head: string
+	private nextReplica = 0
+
+	/** `currentBookmark` returns the bookmark of the primary's current state. */
+	constructor(primary: Database, options: D1ReplicaOptions, currentBookmark: () => string, clock?: Clock) {
+		this.primary = primary
+		this.currentBookmark = currentBookmark
+		this.clock = clock ?? realClock
+		this.head = currentBookmark()
+		const image = this.snapshot()
+		this.replicas = options.lagMs.map((lagMs, i) => ({
+			db: Database.deserialize(image, true),
+			region: REPLICA_REGIONS[i % REPLICA_REGIONS.length]!,
+			primary: false,
+			lagMs,
+			bookmark: this.head,
+		}))
+	}
+
+	/** Record the primary's state after a write, as of `bookmark`. */
+	capture(bookmark: string, at = this.clock.now()): void {
+		if (bookmark <= this.head) return
+		this.versions.push({ bookmark, at, image: this.snapshot() })
+		this.head = bookmark
+		this.prune()
+	}
+
+	/** The replica a new session reads from, rotating through them. */
+	pick(): D1Replica {
+		return this.replicas[this.nextReplica++ % this.replicas.length]!
+	}
+
+	/**
+	 * Bring a replica up to date with everything older than its lag, and at least
+	 * up to `minBookmark` (the session's bookmark) when one is given.
+	 */
+	sync(replica: D1Replica, minBookmark: string | null): void {
+		// Writes made through other connections to the same file are noticed here.
+		const head = this.currentBookmark()
+		this.capture(head, bookmarkTime(head))
+
+		const due = this.clock.now() - replica.lagMs
+		let target: Version | null = null
+		for (const version of this.versions) {
+			if (version.bookmark <= replica.bookmark) continue
+			if (version.at > due && (minBookmark === null || version.bookmark > minBookmark)) break
+			target = version
+		}
+		// A bookmark ahead of anything the primary has seen (e.g. from another database) can't be waited for.
+		if (minBookmark !== null && minBookmark > (target ?? replica).bookmark && minBookmark > this.head) {
+			target = this.versions.at(-1) ?? null
+		}
+		if (!target) return
+
+		replica.db = Database.deserialize(target.image, true)
+		replica.bookmark = target.bookmark
+		this.prune()
+	}
+
+	/**
+	 * Forget versions every replica is past, and versions superseded by a newer one
+	 * that even the laggiest replica would already apply.
+	 */
+	private prune(): void {
+		const oldest = this.replicas.reduce((min, r) => r.bookmark < min ? r.bookmark : min, this.head)
+		const due = this.clock.now() - Math.max(...this.replicas.map(r => r.lagMs))
+		const lastDue = this.versions.findLastIndex(v => v.at <= due)
+		this.versions = this.versions.filter((v, i) => v.bookmark > oldest && i >= lastDue)
+	}
+
+	private snapshot(): Uint8Array {
+		const image = this.primary.serialize()
+		// Header bytes 18/19 mark WAL mode, which an in-memory copy can't use.
+		image[18] = 1
+		image[19] = 1
+		return image
+	}
+}
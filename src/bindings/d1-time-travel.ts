@@ -0,0 +1,295 @@
+import { Database } from 'bun:sqlite'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { replaceDatabaseContents } from './sqlite-restore'
+
+/**
+ * D1 Time Travel for local databases, on with `LOPATA_D1_TIME_TRAVEL`.
+ *
+ * A D1 database's states are journaled as the set of database pages each one
+ * changed, in a sidecar SQLite file at `.lopata/d1-time-travel/<database>.sqlite`.
+ * Journaling compares the whole database image, so it stays off the write path:
+ * `D1JournalRecorder` records at most once per `JOURNAL_INTERVAL_MS`, or when a
+ * bookmark is asked for. Each journal entry is one bookmark; any entry's database
+ * image can be rebuilt from the newest version of every page at or before it.
+ * Like Cloudflare, the journal keeps 30 days of history.
+ *
+ * Bookmarks are `<sequence>-<timestamp>` in zero-padded hex, so they sort
+ * (and compare) in the order the writes happened.
+ */
+
+export const TIME_TRAVEL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Longest a write stays unjournaled when no bookmark is asked for. */
+export const JOURNAL_INTERVAL_MS = 1000
+
+/** Whether `LOPATA_D1_TIME_TRAVEL` (`1` or `true`) turns journaling on. `.dev.vars` wins over the process environment. */
+export function resolveD1TimeTravel(env: Record<string, unknown>): boolean {
+	const raw = typeof env.LOPATA_D1_TIME_TRAVEL === 'string' ? env.LOPATA_D1_TIME_TRAVEL : process.env.LOPATA_D1_TIME_TRAVEL
+	if (!raw || raw === '0' || raw === 'false') return false
+	if (raw === '1' || raw === 'true') return true
+	throw new Error(`Invalid LOPATA_D1_TIME_TRAVEL "${raw}" (expected 1 or 0)`)
+}
+
+export interface D1JournalEntry {
+	bookmark: string
+	seq: number
+	createdAt: number
+}
+
+export function formatD1Bookmark(seq: number, createdAt: number): string {
+	return `${seq.toString(16).padStart(8, '0')}-${createdAt.toString(16).padStart(12, '0')}`
+}
+
+/** Sequence number of a bookmark, or null when it isn't one. */
+export function parseD1Bookmark(bookmark: string): number | null {
+	const match = /^([0-9a-f]{8})-[0-9a-f]{12}$/.exec(bookmark)
+	return match ? parseInt(match[1]!, 16) : null
+}
+
+export function d1JournalPath(dataDir: string, databaseName: string): string {
+	return join(dataDir, 'd1-time-travel', `${databaseName}.sqlite`)
+}
+
+interface EntryRow {
+	seq: number
+	created_at: number
+	page_size: number
+	page_count: number
+}
+
+export class D1Journal {
+	private db: Database
+	/** Hash of the newest journaled version of each page, valid while the journal head is `headSeq`. */
+	private headHashes = new Map<number, string>()
+	private headSeq = -1
+
+	constructor(path: string) {
+		mkdirSync(dirname(path), { recursive: true })
+		this.db = new Database(path, { create: true })
+		this.db.run('PRAGMA journal_mode=WAL')
+		this.db.run('PRAGMA busy_timeout=5000')
+		this.db.run(`
+			CREATE TABLE IF NOT EXISTS entries (
+				seq INTEGER PRIMARY KEY AUTOINCREMENT,
+				created_at INTEGER NOT NULL,
+				page_size INTEGER NOT NULL,
+				page_count INTEGER NOT NULL
+			)
+		`)
+		this.db.run(`
+			CREATE TABLE IF NOT EXISTS pages (
+				page_no INTEGER NOT NULL,
+				seq INTEGER NOT NULL,
+				hash TEXT NOT NULL,
+				data BLOB NOT NULL,
+				PRIMARY KEY (page_no, seq)
+			)
+		`)
+	}
+
+	/**
+	 * Journal the database's current state if it differs from the newest entry.
+	 * Returns the bookmark of the entry describing the current state.
+	 */
+	record(target: Database, now = Date.now()): string {
+		const txn = this.db.transaction(() => {
+			const head = this.head()
+			if (head?.seq !== this.headSeq) this.loadHeadHashes(head?.seq ?? -1)
+			const image = target.serialize()
+			const pageSize = target.query<{ page_size: number }, []>('PRAGMA page_size').get()!.page_size
+			const pageCount = Math.ceil(image.length / pageSize)
+			const headRow = head ? this.getRow(head.seq) : null
+			const sameLayout = headRow?.page_size === pageSize
+
+			const changed: { pageNo: number; hash: string; data: Uint8Array }[] = []
+			for (let pageNo = 0; pageNo < pageCount; pageNo++) {
+				const data = image.subarray(pageNo * pageSize, (pageNo + 1) * pageSize)
+				const hash = Bun.hash(data).toString(16)
+				if (!sameLayout || this.headHashes.get(pageNo) !== hash) changed.push({ pageNo, hash, data })
+			}
+			if (head && headRow && changed.length === 0 && headRow.page_count === pageCount) return head.bookmark
+
+			const { lastInsertRowid } = this.db
+				.query('INSERT INTO entries (created_at, page_size, page_count) VALUES (?, ?, ?)')
+				.run(now, pageSize, pageCount)
+			const seq = Number(lastInsertRowid)
+			const insert = this.db.query('INSERT INTO pages (page_no, seq, hash, data) VALUES (?, ?, ?, ?)')
+			if (!sameLayout) this.headHashes.clear()
+			for (const page of changed) {
+				insert.run(page.pageNo, seq, page.hash, page.data)
+				this.headHashes.set(page.pageNo, page.hash)
+			}
+			this.headSeq = seq
+			this.prune(now)
+			return formatD1Bookmark(seq, now)
+		})
+		return txn.immediate()
+	}
+
+	/** The newest entry, or null for an empty journal. */
+	head(): D1JournalEntry | null {
+		const row = this.db.query<EntryRow, []>('SELECT * FROM entries ORDER BY seq DESC LIMIT 1').get()
+		return row ? toEntry(row) : null
+	}
+
+	/** The oldest entry still in the journal. */
+	oldest(): D1JournalEntry | null {
+		const row = this.db.query<EntryRow, []>('SELECT * FROM entries ORDER BY seq ASC LIMIT 1').get()
+		return row ? toEntry(row) : null
+	}
+
+	count(): number {
+		return this.db.query<{ c: number }, []>('SELECT COUNT(*) as c FROM entries').get()!.c
+	}
+
+	/** The newest entry recorded at or before `timestamp`. */
+	entryAt(timestamp: number): D1JournalEntry | null {
+		const row = this.db.query<EntryRow, [number]>('SELECT * FROM entries WHERE created_at <= ? ORDER BY seq DESC LIMIT 1').get(timestamp)
+		return row ? toEntry(row) : null
+	}
+
+	find(bookmark: string): D1JournalEntry | null {
+		const seq = parseD1Bookmark(bookmark)
+		if (seq === null) return null
+		const row = this.getRow(seq)
+		return row && formatD1Bookmark(row.seq, row.created_at) === bookmark ? toEntry(row) : null
+	}
+
+	/** Rebuild the database file image as of `seq`. */
+	buildImage(seq: number): Uint8Array {
+		const entry = this.getRow(seq)
+		if (!entry) throw new Error(`No journal entry ${seq}`)
+		const image = new Uint8Array(entry.page_size * entry.page_count)
+		const pages = this.db
+			.query<{ page_no: number; data: Uint8Array }, [number, number]>(
+				`SELECT p.page_no, p.data FROM pages p
+				 JOIN (SELECT page_no, MAX(seq) AS seq FROM pages WHERE seq <= ? AND page_no < ? GROUP BY page_no) latest
+				 ON latest.page_no = p.page_no AND latest.seq = p.seq`,
+			)
+			.all(seq, entry.page_count)
+		for (const page of pages) image.set(page.data, page.page_no * entry.page_size)
+		// Header bytes 18/19 mark WAL mode; clear them so the rebuilt file opens standalone.
+		image[18] = 1
+		image[19] = 1
+		return image
+	}
+
+	close(): void {
+		this.db.close()
+	}
+
+	/**
+	 * Drop entries past the retention window. Pages the oldest kept entry still
+	 * needs are moved onto it, so it stays a complete base image.
+	 */
+	private prune(now: number): void {
+		const cutoff = now - TIME_TRAVEL_RETENTION_MS
+		const base = this.db
+			.query<{ seq: number }, [number]>('SELECT seq FROM entries WHERE created_at >= ? ORDER BY seq ASC LIMIT 1')
+			.get(cutoff)
+		if (!base || !this.db.query('SELECT 1 FROM entries WHERE seq < ?').get(base.seq)) return
+		this.db.run(
+			`UPDATE pages SET seq = ?1 WHERE (page_no, seq) IN (SELECT page_no, MAX(seq) FROM pages WHERE seq <= ?1 GROUP BY page_no)`,
+			[base.seq],
+		)
+		this.db.run('DELETE FROM pages WHERE seq < ?', [base.seq])
+		this.db.run('DELETE FROM entries WHERE seq < ?', [base.seq])
+	}
+
+	private getRow(seq: number): EntryRow | null {
+		return this.db.query<EntryRow, [number]>('SELECT * FROM entries WHERE seq = ?').get(seq)
+	}
+
+	private loadHeadHashes(seq: number): void {
+		this.headHashes = new Map(
+			this.db
+				.query<{ page_no: number; hash: string }, []>(
+					`SELECT p.page_no, p.hash FROM pages p
+					 JOIN (SELECT page_no, MAX(seq) AS seq FROM pages GROUP BY page_no) latest
+					 ON latest.page_no = p.page_no AND latest.seq = p.seq`,
+				)
+				.all()
+				.map(r => [r.page_no, r.hash]),
+		)
+		this.headSeq = seq
+	}
+}
+
+/**
+ * Journals a database off its write path: `markDirty()` after a write only
+ * schedules a `record()` within `JOURNAL_INTERVAL_MS`, and `bookmark()` records
+ * right away when a write is still pending. A new recorder records once soon,
+ * picking up changes made outside the binding since the last run.
+ */
+export class D1JournalRecorder {
+	private journal: D1Journal
+	private db: Database
+	private dirty = true
+	private timer: ReturnType<typeof setTimeout> | null = null
+
+	constructor(journal: D1Journal, db: Database) {
+		this.journal = journal
+		this.db = db
+		this.schedule()
+	}
+
+	markDirty(): void {
+		this.dirty = true
+		this.schedule()
+	}
+
+	/** Bookmark of the database's current state. */
+	bookmark(): string {
+		if (this.dirty) return this.flush()
+		return this.journal.head()?.bookmark ?? this.flush()
+	}
+
+	flush(): string {
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = null
+		}
+		this.dirty = false
+		return this.journal.record(this.db)
+	}
+
+	private schedule(): void {
+		if (this.timer) return
+		this.timer = setTimeout(() => {
+			this.timer = null
+			if (!this.dirty) return
+			try {
+				this.flush()
+			} catch {
+				// The database was closed before its last writes were journaled; they
+				// are picked up the next time it is opened.
+			}
+		}, JOURNAL_INTERVAL_MS)
+		this.timer.unref?.()
+	}
+}
+
+function toEntry(row: EntryRow): D1JournalEntry {
+	return { bookmark: formatD1Bookmark(row.seq, row.created_at), seq: row.seq, createdAt: row.created_at }
+}
+
+/**
+ * Roll a D1 database back to a journaled bookmark. The current state is journaled
+ * first, so `previousBookmark` undoes the restore; the restored state becomes a
+ * new entry, returned as `bookmark`.
+ */
+export function restoreD1Database(target: Database, journal: D1Journal, bookmark: string): { bookmark: string; previousBookmark: string } {
+	const entry = journal.find(bookmark)
+	if (!entry) throw new Error(`Unknown bookmark "${bookmark}"`)
+	const previousBookmark = journal.record(target)
+	const snapshotPath = join(tmpdir(), `lopata-d1-restore-${crypto.randomUUID()}.sqlite`)
+	try {
+		writeFileSync(snapshotPath, journal.buildImage(entry.seq))
+		replaceDatabaseContents(target, snapshotPath)
+	} finally {
+		rmSync(snapshotPath, { force: true })
+	}
+	return { bookmark: journal.record(target), previousBookmark }
+}
@@ -1,12 +1,17 @@
 import { Database, type SQLQueryBindings } from 'bun:sqlite'
 import { mkdirSync } from 'node:fs'
 import { join } from 'node:path'
+import type { Clock } from '../testing/clock'
+import { D1_PRIMARY_REGION, type D1Replica, type D1ReplicaOptions, D1ReplicaSet, type D1Target } from './d1-replicas'
+import { D1Journal, d1JournalPath, D1JournalRecorder, formatD1Bookmark } from './d1-time-travel'
 
 interface D1Meta {
 	duration: number
 	changes: number
 	last_row_id: number
 	served_by: string
+	served_by_region: string
+	served_by_primary: boolean
 	rows_read: number
 	rows_written: number
 	size_after: number
@@ -24,7 +29,8 @@ interface D1ExecResult {
 	duration: number
 }
 
-function buildMeta(db: Database, durationMs: number, rowsRead: number, rowsWritten: number): D1Meta {
+function buildMeta(target: D1Target, durationMs: number, rowsRead: number, rowsWritten: number): D1Meta {
+	const { db } = target
 	const changes = db.query<{ c: number }, []>('SELECT changes() as c').get()!.c
 	const { page_count } = db.query<{ page_count: number }, []>('PRAGMA page_count').get()!
 	const { page_size } = db.query<{ page_size: number }, []>('PRAGMA page_size').get()!
@@ -33,6 +39,8 @@ function buildMeta(db: Database, durationMs: number, rowsRead: number, rowsWritt
 		changes,
 		last_row_id: db.query<{ id: number }, []>('SELECT last_insert_rowid() as id').get()!.id,
 		served_by: 'lopata-d1',
+		served_by_region: target.region,
+		served_by_primary: target.primary,
 		rows_read: rowsRead,
 		rows_written: rowsWritten,
 		size_after: page_count * page_size,
@@ -44,7 +52,7 @@ function buildMeta(db: Database, durationMs: number, rowsRead: number, rowsWritt
  * Split SQL text into individual statements, respecting string literals
  * (single-quoted, double-quoted), line comments (--), and block comments.
  */
-function splitStatements(sql: string): string[] {
+export function splitStatements(sql: string): string[] {
 	const statements: string[] = []
 	let current = ''
 	let i = 0
@@ -157,6 +165,56 @@ function isReadStatement(sql: string): boolean {
 	return upper.startsWith('SELECT') || upper.startsWith('WITH') || upper.startsWith('PRAGMA')
 }
 
+// --- bookmarks ---
+
+/**
+ * What statements run against besides the primary database: its Time Travel journal
+ * (null unless enabled, and always for in-memory databases in tests) and simulated
+ * read replicas (null unless enabled). Sessions add `route`, which picks the replica
+ * a read goes to (null = the primary), and `onBookmark` / `onPrimary`, which track
+ * their bookmark — a replica's as is, the primary's only once it's asked for.
+ */
+interface StatementContext {
+	journal: D1JournalRecorder | null
+	replicas: D1ReplicaSet | null
+	route?: (write: boolean) => D1Replica | null
+	onBookmark?: (bookmark: string) => void
+	onPrimary?: () => void
+}
+
+/** Write counters standing in for the journal on databases that have none. */
+const unjournaledSeq = new WeakMap<Database, { seq: number; at: number }>()
+
+function unjournaledCounter(db: Database): { seq: number; at: number } {
+	let counter = unjournaledSeq.get(db)
+	if (!counter) unjournaledSeq.set(db, counter = { seq: 0, at: Date.now() })
+	return counter
+}
+
+function currentBookmark(db: Database, journal: D1JournalRecorder | null): string {
+	if (journal) return journal.bookmark()
+	const counter = unjournaledCounter(db)
+	return formatD1Bookmark(counter.seq, counter.at)
+}
+
+/**
+ * Report the primary's state after a statement. A write gets a new, higher bookmark —
+ * journaled lazily — and replicas, which snapshot every write anyway, take it at once.
+ */
+function settle(db: Database, ctx: StatementContext, wrote: boolean): void {
+	if (wrote) {
+		if (ctx.journal) {
+			ctx.journal.markDirty()
+		} else {
+			const counter = unjournaledCounter(db)
+			counter.seq++
+			counter.at = Date.now()
+		}
+		ctx.replicas?.capture(currentBookmark(db, ctx.journal))
+	}
+	ctx.onPrimary?.()
+}
+
 // --- statement serialisation ---
 
 /**
@@ -190,21 +248,26 @@ async function acquireDbLock(db: Database): Promise<() => void> {
 	return unlock
 }
 
-async function runBatchSerially<T>(db: Database, statements: LocalD1PreparedStatement[]): Promise<D1Result<T>[]> {
-	const unlock = await acquireDbLock(db)
+async function runBatchSerially<T>(db: Database, ctx: StatementContext, statements: LocalD1PreparedStatement[]): Promise<D1Result<T>[]> {
+	const wrote = statements.some(stmt => stmt.isWrite)
+	const replica = ctx.route?.(wrote) ?? null
+	const target: D1Target = replica ?? { db, region: D1_PRIMARY_REGION, primary: true }
+	const unlock = await acquireDbLock(target.db)
 	try {
 		const results: D1Result<T>[] = []
-		db.run('BEGIN')
+		target.db.run('BEGIN')
 		try {
 			for (const stmt of statements) {
 				// Awaits because the tracing proxy makes `allUnlocked` async; safe only because this
 				// call holds the db lock, so nothing else can slip into the open transaction.
-				results.push(await stmt.allUnlocked<T>())
+				results.push(await stmt.allUnlocked<T>(target))
 			}
-			db.run('COMMIT')
+			target.db.run('COMMIT')
+			if (replica) ctx.onBookmark?.(replica.bookmark)
+			else settle(db, ctx, wrote)
 		} catch (e) {
 			try {
-				db.run('ROLLBACK')
+				target.db.run('ROLLBACK')
 			} catch {
 				// SQLite auto-rolls-back on some failures (ON CONFLICT ROLLBACK, SQLITE_FULL,
 				// SQLITE_IOERR, SQLITE_BUSY), leaving nothing to unwind. Swallowing that keeps the
@@ -221,17 +284,25 @@ async function runBatchSerially<T>(db: Database, statements: LocalD1PreparedStat
 
 export class LocalD1Database {
 	private db: Database
+	private ctx: StatementContext
 
-	constructor(db: Database) {
+	/**
+	 * `replicas` enables simulated read replication for sessions (see d1-replicas.ts);
+	 * their lag is measured on `clock`.
+	 */
+	constructor(db: Database, journal?: D1JournalRecorder | null, replicas?: D1ReplicaOptions | null, clock?: Clock) {
 		this.db = db
+		const ctx: StatementContext = { journal: journal ?? null, replicas: null }
+		if (replicas) ctx.replicas = new D1ReplicaSet(db, replicas, () => currentBookmark(db, ctx.journal), clock)
+		this.ctx = ctx
 	}
 
 	prepare(sql: string): LocalD1PreparedStatement {
-		return new LocalD1PreparedStatement(this.db, sql)
+		return new LocalD1PreparedStatement(this.db, sql, this.ctx)
 	}
 
 	async batch<T = Record<string, unknown>>(statements: LocalD1PreparedStatement[]): Promise<D1Result<T>[]> {
-		return await runBatchSerially(this.db, statements)
+		return await runBatchSerially(this.db, this.ctx, statements)
 	}
 
 	async exec(sql: string): Promise<D1ExecResult> {
@@ -249,6 +320,7 @@ export class LocalD1Database {
 				}
 				count++
 			}
+			settle(this.db, this.ctx, count > 0)
 			return { count, duration: performance.now() - start }
 		} finally {
 			unlock()
@@ -259,28 +331,79 @@ export class LocalD1Database {
 		return this.db.serialize().buffer as ArrayBuffer
 	}
 
-	withSession(_bookmark?: string): LocalD1DatabaseSession {
-		return new LocalD1DatabaseSession(this.db)
+	/**
+	 * Start a session. `constraint` is `'first-unconstrained'` (default), `'first-primary'`,
+	 * or a bookmark from an earlier session's `getBookmark()`.
+	 */
+	withSession(constraint?: string): LocalD1DatabaseSession {
+		return new LocalD1DatabaseSession(this.db, this.ctx, constraint)
 	}
 }
 
+/**
+ * Queries outside a session always go to the primary. In a session, writes go to the
+ * primary and reads to the session's replica (when replication is enabled), which is
+ * first brought up to the session's bookmark — so a session never reads older data
+ * than it has already seen, while separate sessions can.
+ */
 export class LocalD1DatabaseSession {
 	private db: Database
-
-	constructor(db: Database) {
+	private ctx: StatementContext
+	private bookmark: string | null
+	private firstPrimary: boolean
+	private replica: D1Replica | null = null
+	/** Whether the session has seen the primary since its bookmark was last brought up to date. */
+	private sawPrimary = false
+
+	constructor(db: Database, parent: StatementContext, constraint?: string) {
 		this.db = db
+		this.firstPrimary = constraint === 'first-primary'
+		this.bookmark = constraint && constraint !== 'first-unconstrained' && !this.firstPrimary ? constraint : null
+		this.ctx = {
+			journal: parent.journal,
+			replicas: parent.replicas,
+			route: write => this.route(write),
+			onBookmark: bookmark => this.advance(bookmark),
+			onPrimary: () => {
+				this.sawPrimary = true
+			},
+		}
+	}
+
+	/** Bookmarks only move forward within a session. */
+	private advance(bookmark: string): void {
+		if (this.bookmark === null || bookmark > this.bookmark) this.bookmark = bookmark
+	}
+
+	/** Take in the primary's current bookmark, if the session has seen the primary since. */
+	private catchUp(): void {
+		if (!this.sawPrimary) return
+		this.sawPrimary = false
+		this.advance(currentBookmark(this.db, this.ctx.journal))
+	}
+
+	private route(write: boolean): D1Replica | null {
+		const replicas = this.ctx.replicas
+		if (!replicas || write) return null
+		this.catchUp()
+		if (this.firstPrimary && this.bookmark === null) return null
+		this.replica ??= replicas.pick()
+		replicas.sync(this.replica, this.bookmark)
+		return this.replica
 	}
 
 	prepare(sql: string): LocalD1PreparedStatement {
-		return new LocalD1PreparedStatement(this.db, sql)
+		return new LocalD1PreparedStatement(this.db, sql, this.ctx)
 	}
 
 	async batch<T = Record<string, unknown>>(statements: LocalD1PreparedStatement[]): Promise<D1Result<T>[]> {
-		return await runBatchSerially(this.db, statements)
+		return await runBatchSerially(this.db, this.ctx, statements)
 	}
 
+	/** Bookmark of the latest state this session has observed; null before its first query. */
 	getBookmark(): string | null {
-		return null
+		this.catchUp()
+		return this.bookmark
 	}
 }
 
@@ -288,31 +411,58 @@ export class LocalD1PreparedStatement {
 	private db: Database
 	private sql: string
 	private params: SQLQueryBindings[]
+	private ctx: StatementContext
 
-	constructor(db: Database, sql: string) {
+	constructor(db: Database, sql: string, ctx: StatementContext = { journal: null, replicas: null }) {
 		this.db = db
 		this.sql = sql
 		this.params = []
+		this.ctx = ctx
+	}
+
+	/** @internal Whether the statement may change the database (and so needs journaling). */
+	get isWrite(): boolean {
+		return !isReadStatement(this.sql) || /\bRETURNING\b/i.test(this.sql)
 	}
 
 	bind(...values: unknown[]): LocalD1PreparedStatement {
-		const stmt = new LocalD1PreparedStatement(this.db, this.sql)
+		const stmt = new LocalD1PreparedStatement(this.db, this.sql, this.ctx)
 		stmt.params = convertBindParams(values)
 		return stmt
 	}
 
-	async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+	private get primary(): D1Target {
+		return { db: this.db, region: D1_PRIMARY_REGION, primary: true }
+	}
+
+	/**
+	 * Run on the replica the session routes to, or on the primary under the db lock.
+	 * Replica reads are synchronous and touch no shared connection, so they need no lock.
+	 */
+	private async execute<R>(fn: (target: D1Target) => R): Promise<R> {
+		const replica = this.ctx.route?.(this.isWrite) ?? null
+		if (replica) {
+			const result = fn(replica)
+			this.ctx.onBookmark?.(replica.bookmark)
+			return result
+		}
 		const unlock = await acquireDbLock(this.db)
 		try {
-			return this.firstUnlocked<T>(column)
+			const result = fn(this.primary)
+			settle(this.db, this.ctx, this.isWrite)
+			return result
 		} finally {
 			unlock()
 		}
 	}
 
+	async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+		return this.execute(target => this.firstUnlocked<T>(column, target))
+	}
+
 	/** @internal Skips the db lock — only for a caller that already holds it, such as `batch()`. */
-	firstUnlocked<T = Record<string, unknown>>(column?: string): T | null {
-		const row = this.db.query(this.sql).get(...this.params) as Record<string, unknown> | null
+	firstUnlocked<T = Record<string, unknown>>(column?: string, target: D1Target = this.primary): T | null {
+		const row = target.db.query(this.sql).get(...this.params) as Record<string, unknown> | null
 		if (!row) return null
 		if (column) {
 			if (!(column in row)) {
@@ -324,67 +474,55 @@ export class LocalD1PreparedStatement {
 	}
 
 	async run(): Promise<D1Result> {
-		const unlock = await acquireDbLock(this.db)
-		try {
-			return this.runUnlocked()
-		} finally {
-			unlock()
-		}
+		return this.execute(target => this.runUnlocked(target))
 	}
 
 	/** @internal Skips the db lock — only for a caller that already holds it, such as `batch()`. */
-	runUnlocked(): D1Result {
+	runUnlocked(target: D1Target = this.primary): D1Result {
 		const start = performance.now()
-		this.db.query(this.sql).run(...this.params)
+		target.db.query(this.sql).run(...this.params)
 		const duration = performance.now() - start
-		const changes = this.db.query<{ c: number }, []>('SELECT changes() as c').get()!.c
+		const changes = target.db.query<{ c: number }, []>('SELECT changes() as c').get()!.c
 		return {
 			results: [],
 			success: true,
-			meta: buildMeta(this.db, duration, 0, changes),
+			meta: buildMeta(target, duration, 0, changes),
 		}
 	}
 
 	async all<T = Record<string, unknown>>(): Promise<D1Result<T>> {
-		const unlock = await acquireDbLock(this.db)
-		try {
-			return this.allUnlocked<T>()
-		} finally {
-			unlock()
-		}
+		return this.execute(target => this.allUnlocked<T>(target))
 	}
 
 	/** @internal Skips the db lock — only for a caller that already holds it, such as `batch()`. */
-	allUnlocked<T = Record<string, unknown>>(): D1Result<T> {
+	allUnlocked<T = Record<string, unknown>>(target: D1Target = this.primary): D1Result<T> {
 		const start = performance.now()
-		const results = this.db.query(this.sql).all(...this.params) as T[]
+		const results = target.db.query(this.sql).all(...this.params) as T[]
 		const duration = performance.now() - start
 		const isRead = isReadStatement(this.sql)
-		const changes = this.db.query<{ c: number }, []>('SELECT changes() as c').get()!.c
+		const changes = target.db.query<{ c: number }, []>('SELECT changes() as c').get()!.c
 		return {
 			results,
 			success: true,
-			meta: buildMeta(this.db, duration, isRead ? results.length : 0, isRead ? 0 : changes),
+			meta: buildMeta(target, duration, isRead ? results.length : 0, isRead ? 0 : changes),
 		}
 	}
 
 	async raw<T extends unknown[] = unknown[]>(options?: { columnNames?: boolean }): Promise<T[]> {
-		const unlock = await acquireDbLock(this.db)
-		try {
-			const query = this.db.query(this.sql)
+		return this.execute(target => {
+			const query = target.db.query(this.sql)
 			const columns = query.columnNames
 			const rows = query.values(...this.params) as T[]
 			if (options?.columnNames) {
 				return [columns as unknown as T, ...rows]
 			}
 			return rows
-		} finally {
-			unlock()
-		}
+		})
 	}
 }
 
-export function openD1Database(dataDir: string, databaseName: string): LocalD1Database {
+/** `timeTravel` journals the database for `lopata d1 time-travel` (see `resolveD1TimeTravel`). */
+export function openD1Database(dataDir: string, databaseName: string, replicas?: D1ReplicaOptions | null, timeTravel = false): LocalD1Database {
 	const d1Dir = join(dataDir, 'd1')
 	mkdirSync(d1Dir, { recursive: true })
 	const dbPath = join(d1Dir, `${databaseName}.sqlite`)
@@ -394,5 +532,9 @@ export function openD1Database(dataDir: string, databaseName: string): LocalD1Da
 	// from env, worker threads, DO workers and the CLI, so several connections hit the same file;
 	// without a timeout the loser of a write race fails instantly with `database is locked`.
 	db.run('PRAGMA busy_timeout=5000')
-	return new LocalD1Database(db)
+	if (!timeTravel) return new LocalD1Database(db, null, replicas)
+	// The recorder's first run also picks up changes made outside the binding
+	// (dashboard queries, `lopata d1 migrations apply`) since the last write.
+	const journal = new D1JournalRecorder(new D1Journal(d1JournalPath(dataDir, databaseName)), db)
+	return new LocalD1Database(db, journal, replicas)
 }
@@ -0,0 +1,214 @@
+import type { Database } from 'bun:sqlite'
+import { existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Point-in-time recovery for Durable Object storage.
+ *
+ * Each snapshot records the instance's KV rows (JSON, in `do_bookmarks`) and a
+ * `VACUUM INTO` copy of its per-DO SQL database under
+ * `.lopata/do-bookmarks/<namespace>/<id>/<bookmark>.sqlite`. A snapshot copies
+ * the whole instance, so one is taken when the object goes idle after a write at
+ * most once per `BOOKMARK_CAPTURE_INTERVAL_MS` (writes in between are folded into
+ * the next one), and whenever the current bookmark is asked for. A bookmark for a
+ * given time is the last snapshot taken before it. Like Cloudflare, history is
+ * kept for 30 days.
+ */
+
+export const BOOKMARK_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Minimum time between two snapshots taken when requests finish. */
+export const BOOKMARK_CAPTURE_INTERVAL_MS = 10 * 1000
+
+export interface BookmarkInfo {
+	bookmark: string
+	createdAt: number
+}
+
+/** The parts of the per-DO SQL database a snapshot needs (implemented by SqlStorage). */
+export interface SqlSnapshotTarget {
+	_snapshotTo(path: string): boolean
+	_restoreFrom(path: string | null): void
+}
+
+interface BookmarkRow {
+	bookmark: string
+	created_at: number
+	kv: string
+	sql_file: string | null
+}
+
+export class DurableObjectBookmarks {
+	private db: Database
+	private namespace: string
+	private id: string
+	private dataDir: string | null
+
+	constructor(db: Database, namespace: string, id: string, dataDir: string | null) {
+		this.db = db
+		this.namespace = namespace
+		this.id = id
+		this.dataDir = dataDir
+	}
+
+	private get snapshotDir(): string | null {
+		return this.dataDir ? join(this.dataDir, 'do-bookmarks', this.namespace, this.id) : null
+	}
+
+	/** Newest first. */
+	list(): BookmarkInfo[] {
+		return this.db
+			.query<{ bookmark: string; created_at: number }, [string, string]>(
+				'SELECT bookmark, created_at FROM do_bookmarks WHERE namespace = ? AND id = ? ORDER BY bookmark DESC',
+			)
+			.all(this.namespace, this.id)
+			.map(r => ({ bookmark: r.bookmark, createdAt: r.created_at }))
+	}
+
+	latest(): BookmarkInfo | null {
+		return this.list()[0] ?? null
+	}
+
+	has(bookmark: string): boolean {
+		return this._get(bookmark) !== null
+	}
+
+	/** The newest bookmark taken at or before `timestamp`, or null when there is none. */
+	forTime(timestamp: number): string | null {
+		const row = this.db
+			.query<{ bookmark: string }, [string, string, number]>(
+				'SELECT bookmark FROM do_bookmarks WHERE namespace = ? AND id = ? AND created_at <= ? ORDER BY bookmark DESC LIMIT 1',
+			)
+			.get(this.namespace, this.id, timestamp)
+		return row?.bookmark ?? null
+	}
+
+	/**
+	 * Whether storage may hold writes the newest snapshot lacks, e.g. when a
+	 * session ended before its last writes were snapshotted. KV rows are compared
+	 * exactly, the SQL database (at `sqlPath`) by modification time.
+	 */
+	hasChangesSinceLatest(sqlPath: string | null): boolean {
+		const latest = this._get(this.latest()?.bookmark ?? '')
+		const kv = JSON.stringify(this._kvEntries())
+		const sqlModified = sqlPath ? lastModified(sqlPath) : null
+		if (!latest) return kv !== '[]' || sqlModified !== null
+		return latest.kv !== kv || (sqlModified !== null && sqlModified > latest.created_at)
+	}
+
+	/**
+	 * Snapshot the current state and return its bookmark. When `sqlChanged` is
+	 * false the previous snapshot's SQL copy is shared instead of taking a new one.
+	 */
+	capture(sql: SqlSnapshotTarget, sqlChanged: boolean, now = Date.now()): string {
+		const sameMs = this.db
+			.query<{ c: number }, [string, string, number]>('SELECT COUNT(*) as c FROM do_bookmarks WHERE namespace = ? AND id = ? AND created_at = ?')
+			.get(this.namespace, this.id, now)!.c
+		const bookmark = `${now.toString(16).padStart(12, '0')}-${sameMs.toString(16).padStart(8, '0')}`
+
+		let sqlFile: string | null = null
+		const dir = this.snapshotDir
+		const previous = sqlChanged ? null : this._get(this.latest()?.bookmark ?? '')
+		if (previous) {
+			sqlFile = previous.sql_file
+		} else if (dir) {
+			mkdirSync(dir, { recursive: true })
+			if (sql._snapshotTo(join(dir, `${bookmark}.sqlite`))) sqlFile = `${bookmark}.sqlite`
+		}
+
+		this.db
+			.query('INSERT INTO do_bookmarks (namespace, id, bookmark, created_at, kv, sql_file) VALUES (?, ?, ?, ?, ?, ?)')
+			.run(this.namespace, this.id, bookmark, now, JSON.stringify(this._kvEntries()), sqlFile)
+		this.prune(now)
+		return bookmark
+	}
+
+	/** Replace the instance's KV rows and SQL database with a bookmark's snapshot. */
+	restore(bookmark: string, sql: SqlSnapshotTarget): void {
+		const row = this._get(bookmark)
+		if (!row) throw new Error(`Unknown bookmark "${bookmark}"`)
+		const entries = JSON.parse(row.kv) as [string, string][]
+		this.db.transaction(() => {
+			this.db.query('DELETE FROM do_storage WHERE namespace = ? AND id = ?').run(this.namespace, this.id)
+			const insert = this.db.query('INSERT INTO do_storage (namespace, id, key, value) VALUES (?, ?, ?, ?)')
+			for (const [key, value] of entries) insert.run(this.namespace, this.id, key, value)
+		})()
+		// Without a data dir the SQL database is in-memory and never snapshotted.
+		const dir = this.snapshotDir
+		if (dir) sql._restoreFrom(row.sql_file ? join(dir, row.sql_file) : null)
+	}
+
+	/** Schedule a restore for the next time the instance starts (onNextSessionRestoreBookmark). */
+	setPendingRestore(bookmark: string): void {
+		this.db
+			.query('INSERT OR REPLACE INTO do_pending_restores (namespace, id, bookmark) VALUES (?, ?, ?)')
+			.run(this.namespace, this.id, bookmark)
+	}
+
+	/** Read and clear the pending restore, if any. */
+	takePendingRestore(): string | null {
+		const row = this.db
+			.query<{ bookmark: string }, [string, string]>('SELECT bookmark FROM do_pending_restores WHERE namespace = ? AND id = ?')
+			.get(this.namespace, this.id)
+		if (!row) return null
+		this.db.query('DELETE FROM do_pending_restores WHERE namespace = ? AND id = ?').run(this.namespace, this.id)
+		return row.bookmark
+	}
+
+	/** Drop bookmarks past the retention window, and SQL copies no remaining bookmark uses. */
+	prune(now = Date.now()): void {
+		const { changes } = this.db
+			.query('DELETE FROM do_bookmarks WHERE namespace = ? AND id = ? AND created_at < ?')
+			.run(this.namespace, this.id, now - BOOKMARK_RETENTION_MS)
+		if (changes > 0) this._removeUnreferencedFiles()
+	}
+
+	/** Forget all history for the instance (used when the instance is deleted). */
+	clear(): void {
+		this.db.query('DELETE FROM do_bookmarks WHERE namespace = ? AND id = ?').run(this.namespace, this.id)
+		this.db.query('DELETE FROM do_pending_restores WHERE namespace = ? AND id = ?').run(this.namespace, this.id)
+		const dir = this.snapshotDir
+		if (dir) rmSync(dir, { recursive: true, force: true })
+	}
+
+	private _kvEntries(): [string, string][] {
+		return this.db
+			.query<{ key: string; value: string }, [string, string]>('SELECT key, value FROM do_storage WHERE namespace = ? AND id = ? ORDER BY key')
+			.all(this.namespace, this.id)
+			.map(r => [r.key, r.value])
+	}
+
+	private _get(bookmark: string): BookmarkRow | null {
+		return this.db
+			.query<BookmarkRow, [string, string, string]>(
+				'SELECT bookmark, created_at, kv, sql_file FROM do_bookmarks WHERE namespace = ? AND id = ? AND bookmark = ?',
+			)
+			.get(this.namespace, this.id, bookmark)
+	}
+
+	private _removeUnreferencedFiles(): void {
+		const dir = this.snapshotDir
+		if (!dir || !existsSync(dir)) return
+		const referenced = new Set(
+			this.db
+				.query<{ sql_file: string }, [string, string]>(
+					'SELECT DISTINCT sql_file FROM do_bookmarks WHERE namespace = ? AND id = ? AND sql_file IS NOT NULL',
+				)
+				.all(this.namespace, this.id)
+				.map(r => r.sql_file),
+		)
+		for (const file of readdirSync(dir)) {
+			if (!referenced.has(file)) rmSync(join(dir, file), { force: true })
+		}
+	}
+}
+
+/** Newest modification time of a SQLite database and its WAL file, or null when neither exists. */
+function lastModified(path: string): number | null {
+	let newest: number | null = null
+	for (const file of [path, `${path}-wal`]) {
+		if (!existsSync(file)) continue
+		newest = Math.max(newest ?? 0, statSync(file).mtimeMs)
+	}
+	return newest
+}
@@ -126,6 +126,7 @@ export class InProcessExecutor implements DOExecutor {
 	}
 
 	async dispose(): Promise<void> {
+		this._state._flushBookmarks()
 		// Close all accepted WebSockets so clients can reconnect to new instance
 		for (const ws of this._state.getWebSockets()) {
 			try {
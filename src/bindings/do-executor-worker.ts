@@ -68,6 +68,8 @@ export class WorkerExecutor implements DOExecutor {
 	private _pending = new Map<number, PendingCommand>()
 	private _nextId = 1
 	private _disposed = false
+	/** Set while dispose() runs the cleanup; no other command is posted any more. */
+	private _disposing: Promise<void> | null = null
 	/** Swallowed copy of `_priorDisposal`, created lazily on the first command.
 	 *  Shared so CONCURRENT first commands all await the prior container's
 	 *  teardown — a boolean gate would let the second racer skip straight to
@@ -318,6 +320,11 @@ export class WorkerExecutor implements DOExecutor {
 		await this._priorDisposalGate
 		await this._ready
 
+		if (this._disposing && command.type !== 'cleanup') {
+			// Fail once the thread is gone, like a command sent after dispose().
+			await this._disposing
+			throw new Error('Worker terminated')
+		}
 		if (this._disposed) throw new Error('Worker terminated')
 
 		const id = this._nextId++
@@ -521,13 +528,14 @@ export class WorkerExecutor implements DOExecutor {
 	}
 
 	/**
-	 * Ask the DO worker to tear down its Docker container before we terminate the
-	 * thread. terminate() kills the worker's activity/health timers but leaves the
-	 * Docker process running — mirrors `InProcessExecutor.dispose()`'s
-	 * `containerRuntime.cleanup()`. Bounded so a hung `docker rm` can't block
-	 * reload; the thread is terminated right after regardless.
+	 * Ask the DO worker to snapshot unsaved writes for bookmarks and tear down its
+	 * Docker container before we terminate the thread. terminate() kills the
+	 * worker's timers (including the pending bookmark capture) and leaves the
+	 * Docker process running — mirrors `InProcessExecutor.dispose()`. Bounded so
+	 * a hung `docker rm` can't block reload; the thread is terminated right after
+	 * regardless.
 	 */
-	private _cleanupContainer(): Promise<void> {
+	private _cleanup(): Promise<void> {
 		let timer: ReturnType<typeof setTimeout>
 		const timeout = new Promise<void>((res) => {
 			timer = setTimeout(res, 3000)
@@ -539,12 +547,9 @@ export class WorkerExecutor implements DOExecutor {
 	}
 
 	async dispose(): Promise<void> {
-		// Container DOs: stop the Docker container before terminating the thread.
-		// Non-container DOs skip the round-trip so reload stays fast.
-		if (!this._disposed && this._worker && this._config.containerConfig) {
-			try {
-				await this._cleanupContainer()
-			} catch {}
+		if (!this._disposed && this._worker) {
+			this._disposing ??= this._cleanup().catch(() => {})
+			await this._disposing
 		}
 		this._teardown(new Error('Worker terminated'))
 	}
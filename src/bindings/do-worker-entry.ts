@@ -7,6 +7,7 @@
 
 import '../worker-thread/request-clone-fix' // global Request shim — must load before DO code
 import { dirname } from 'node:path'
+import { compatFromConfig } from '../compat'
 import { deserializeError, serializeError } from '../worker-thread/protocol'
 import { serializeResponseHeaders } from '../worker-thread/serialize'
 import { OutboundStreamRegistry, pumpStream, STREAM_BACKPRESSURE_WINDOW, StreamReceiver } from '../worker-thread/stream-shared'
@@ -53,7 +54,8 @@ postMessage({ type: 'need-init' })
 
 async function initWorker(workerConfig: WorkerConfig) {
 	// Register Bun plugins for cloudflare:workers etc.
-	await import('../plugin')
+	const { applyCompatibility } = await import('../plugin')
+	if (workerConfig.dataDir) (await import('../db')).setDataDir(workerConfig.dataDir)
 
 	const { buildWorkerEnv, createDoEnvRpc } = await import('./do-worker-env')
 	const { DurableObjectStateImpl, DurableObjectIdImpl } = await import('./durable-object')
@@ -90,6 +92,8 @@ async function initWorker(workerConfig: WorkerConfig) {
 	const { setGlobalEnv } = await import('../env')
 	setGlobalEnv(env)
 
+	applyCompatibility(compatFromConfig(config), workerConfig.modulePath, baseDir)
+
 	// Import user's worker module
 	const workerModule = await import(workerConfig.modulePath)
 
@@ -335,8 +339,9 @@ async function initWorker(workerConfig: WorkerConfig) {
 			}
 
 			case 'cleanup': {
-				// Tear down the Docker container (rm -f + stop timers) before main
-				// terminates this thread. No-op for non-container DOs.
+				// Snapshot writes not yet in a bookmark and tear down the Docker
+				// container (rm -f + stop timers) before main terminates this thread.
+				state._flushBookmarks()
 				await containerRuntime?.cleanup()
 				return { result: { type: 'cleanup' } }
 			}
@@ -14,15 +14,17 @@ import type { WranglerConfig } from '../config'
 import { runMigrations } from '../db'
 import { parseDevVars } from '../env'
 import { warnCrossThreadRpcArgs, warnInvalidRpcArgs } from '../rpc-validate'
-import { getActiveContext } from '../tracing/context'
-import type { BindingTarget, ParentSpanContext, SerializedResponse, WorkflowControlOp, WorkflowControlResult } from '../worker-thread/protocol'
+import { getParentContext } from '../tracing/context'
+import type { BindingTarget, SerializedResponse, WorkflowControlOp, WorkflowControlResult } from '../worker-thread/protocol'
 import { RpcClient } from '../worker-thread/rpc-shared'
 import { tagCloneable } from '../worker-thread/rpc-shared'
 import type { WsGuestBridge } from '../worker-thread/ws-bridge-shared'
-import { AiBinding } from './ai'
+import { AiBinding, resolveAiProviderOptions } from './ai'
 import { SqliteAnalyticsEngine } from './analytics-engine'
 import { BrowserBinding } from './browser'
 import { openD1Database } from './d1'
+import { resolveD1ReplicaOptions } from './d1-replicas'
+import { resolveD1TimeTravel } from './d1-time-travel'
 import type { DOMainMessage } from './do-executor-worker'
 import { DurableObjectIdImpl, hashIdFromName, randomUniqueIdHex } from './durable-object'
 import { EmailMessage } from './email'
@@ -32,17 +34,16 @@ import { SqliteKVNamespace } from './kv'
 import { MediaBinding } from './media'
 import { SqliteQueueProducer } from './queue'
 import { FileR2Bucket } from './r2'
+import { rateLimitBindings, SqliteRateLimiter } from './rate-limit'
 import { makeBindingProxy } from './rpc-stub'
+import { LocalSecretsStore, SecretsStoreSecret } from './secrets-store'
 import { StaticAssets } from './static-assets'
+import { SqliteVectorizeIndex } from './vectorize'
 import type { ResponseWithWebSocket } from './websocket-pair'
 
 /** Build an RpcClient that bridges DO-worker → main over the DO executor channel. */
 export function createDoEnvRpc(post: (msg: DOMainMessage) => void): RpcClient {
-	const getParent = (): ParentSpanContext | undefined => {
-		const active = getActiveContext()
-		return active ? { traceId: active.traceId, spanId: active.spanId } : undefined
-	}
-	return new RpcClient(req => post(req as DOMainMessage), getParent)
+	return new RpcClient(req => post(req as DOMainMessage), getParentContext)
 }
 
 function buildBridgedFetchResponse(
@@ -216,8 +217,10 @@ export function buildWorkerEnv(
 	}
 
 	// D1 databases
+	const d1Replicas = config.d1_databases?.length ? resolveD1ReplicaOptions(env) : null
+	const d1TimeTravel = config.d1_databases?.length ? resolveD1TimeTravel(env) : false
 	for (const d1 of config.d1_databases ?? []) {
-		env[d1.binding] = openD1Database(dataDir, d1.database_name)
+		env[d1.binding] = openD1Database(dataDir, d1.database_name, d1Replicas, d1TimeTravel)
 	}
 
 	// Queue producers
@@ -258,11 +261,23 @@ export function buildWorkerEnv(
 	if (config.ai) {
 		const accountId = typeof env.CLOUDFLARE_ACCOUNT_ID === 'string' ? env.CLOUDFLARE_ACCOUNT_ID : process.env.CLOUDFLARE_ACCOUNT_ID
 		const apiToken = typeof env.CLOUDFLARE_API_TOKEN === 'string' ? env.CLOUDFLARE_API_TOKEN : process.env.CLOUDFLARE_API_TOKEN
-		env[config.ai.binding] = new AiBinding(db, accountId, apiToken)
+		env[config.ai.binding] = new AiBinding(db, accountId, apiToken, resolveAiProviderOptions(env, dataDir))
 	}
 	for (const ae of config.analytics_engine_datasets ?? []) {
 		env[ae.binding] = new SqliteAnalyticsEngine(db, ae.dataset ?? ae.binding)
 	}
+	if (config.secrets_store_secrets?.length) {
+		const store = new LocalSecretsStore(dataDir)
+		for (const secret of config.secrets_store_secrets) {
+			env[secret.binding] = new SecretsStoreSecret(store, secret.binding, secret.store_id, secret.secret_name)
+		}
+	}
+	for (const vi of config.vectorize ?? []) {
+		env[vi.binding] = new SqliteVectorizeIndex(db, vi.index_name)
+	}
+	for (const rl of rateLimitBindings(config)) {
+		env[rl.binding] = new SqliteRateLimiter(db, rl.namespaceId, rl.limit, rl.period)
+	}
 	if (config.version_metadata) {
 		env[config.version_metadata.binding] = { id: 'local-dev', tag: '', timestamp: new Date().toISOString() }
 	}
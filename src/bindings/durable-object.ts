@@ -6,8 +6,10 @@ import { realClock } from '../testing/clock'
 import { persistError, startSpan, startSyncSpan } from '../tracing/span'
 import type { ContainerContext } from './container'
 import type { ContainerConfig } from './container'
+import { BOOKMARK_CAPTURE_INTERVAL_MS, BOOKMARK_RETENTION_MS, DurableObjectBookmarks, type SqlSnapshotTarget } from './do-bookmarks'
 import type { DOExecutor, DOExecutorFactory } from './do-executor'
 import { NON_RPC_PROPS, wrapRpcReturnValue } from './rpc-stub'
+import { replaceDatabaseContents } from './sqlite-restore'
 
 // --- SQL Storage Cursor ---
 
@@ -103,16 +105,18 @@ async function acquireDbTxnLock(db: Database): Promise<() => void> {
 
 // --- SQL Storage API ---
 
-export class SqlStorage {
+export class SqlStorage implements SqlSnapshotTarget {
 	private _dbPath: string | null
 	private _db: Database | null = null
 	private _namespace: string
 	private _id: string
+	private _onWrite?: () => void
 
-	constructor(dbPath: string | null, namespace: string, id: string) {
+	constructor(dbPath: string | null, namespace: string, id: string, onWrite?: () => void) {
 		this._dbPath = dbPath
 		this._namespace = namespace
 		this._id = id
+		this._onWrite = onWrite
 	}
 
 	private _getDb(): Database {
@@ -149,6 +153,9 @@ export class SqlStorage {
 			() => {
 				const db = this._getDb()
 				const stmt = db.prepare(query)
+				const trimmed = query.trim().toUpperCase()
+				// Anything but a plain SELECT may have changed the database (bookmark snapshots).
+				if (!trimmed.startsWith('SELECT') || /\bRETURNING\b/.test(trimmed)) this._onWrite?.()
 
 				// Determine if this is a query that returns rows. Plain
 				// SELECT/WITH/PRAGMA do, and so does any INSERT/UPDATE/DELETE that
@@ -158,7 +165,6 @@ export class SqlStorage {
 				// RETURNING substring inside a string literal is a false positive, but a
 				// harmless one — stmt.all() still executes the statement, and rowsWritten
 				// is gated on it being a write (below), so a misdetected read reports 0.
-				const trimmed = query.trim().toUpperCase()
 				const yieldsRows = trimmed.startsWith('SELECT') || trimmed.startsWith('WITH') || trimmed.startsWith('PRAGMA')
 				const hasReturning = /\bRETURNING\b/.test(trimmed)
 
@@ -203,6 +209,25 @@ export class SqlStorage {
 			return 0
 		}
 	}
+
+	/** @internal Copy the database to `path` for a bookmark. Returns false when there is no database file yet. */
+	_snapshotTo(path: string): boolean {
+		if (!this._dbPath || (!this._db && !existsSync(this._dbPath))) return false
+		this._getDb().run('VACUUM INTO ?', [path])
+		return true
+	}
+
+	/** @internal Replace the database's contents with a snapshot file (null = an empty database). */
+	_restoreFrom(path: string | null): void {
+		if (!this._dbPath || (!path && !this._db && !existsSync(this._dbPath))) return
+		replaceDatabaseContents(this._getDb(), path)
+	}
+
+	/** @internal Close the connection (a later exec reopens it). */
+	_close(): void {
+		this._db?.close()
+		this._db = null
+	}
 }
 
 // --- WebSocket support ---
@@ -252,11 +277,13 @@ export class SyncKV {
 	private db: Database
 	private namespace: string
 	private id: string
+	private onWrite?: () => void
 
-	constructor(db: Database, namespace: string, id: string) {
+	constructor(db: Database, namespace: string, id: string, onWrite?: () => void) {
 		this.db = db
 		this.namespace = namespace
 		this.id = id
+		this.onWrite = onWrite
 	}
 
 	get(key: string): unknown {
@@ -271,6 +298,7 @@ export class SyncKV {
 		this.db
 			.query('INSERT OR REPLACE INTO do_storage (namespace, id, key, value) VALUES (?, ?, ?, ?)')
 			.run(this.namespace, this.id, key, JSON.stringify(value))
+		this.onWrite?.()
 	}
 
 	delete(key: string): boolean {
@@ -280,6 +308,7 @@ export class SyncKV {
 		this.db
 			.query('DELETE FROM do_storage WHERE namespace = ? AND id = ? AND key = ?')
 			.run(this.namespace, this.id, key)
+		this.onWrite?.()
 		return existing !== null
 	}
 
@@ -330,31 +359,55 @@ export class SqliteDurableObjectStorage {
 	private _sql: SqlStorage | null = null
 	private _dataDir: string | null = null
 	private _kv: SyncKV | null = null
+	private _bookmarks: DurableObjectBookmarks
+	/**
+	 * Storage was written since the last bookmark snapshot. null until checked:
+	 * a previous session may have ended before snapshotting its last writes.
+	 */
+	private _dirty: boolean | null = null
+	/** The SQL database may differ from the last snapshot's copy. Starts true: the dashboard can write it between sessions. */
+	private _sqlDirty = true
+	/** Earliest time `_captureIfDue()` may take the next snapshot. */
+	private _nextCaptureAt = 0
 
 	constructor(db: Database, namespace: string, id: string, dataDir?: string) {
 		this.db = db
 		this.namespace = namespace
 		this.id = id
 		this._dataDir = dataDir ?? null
+		this._bookmarks = new DurableObjectBookmarks(db, namespace, id, this._dataDir)
 	}
 
 	get kv(): SyncKV {
 		if (!this._kv) {
-			this._kv = new SyncKV(this.db, this.namespace, this.id)
+			this._kv = new SyncKV(this.db, this.namespace, this.id, () => this._markDirty())
 		}
 		return this._kv
 	}
 
+	private get _sqlPath(): string | null {
+		return this._dataDir ? join(this._dataDir, 'do-sql', this.namespace, `${this.id}.sqlite`) : null
+	}
+
 	get sql(): SqlStorage {
 		if (!this._sql) {
-			const dbPath = this._dataDir
-				? join(this._dataDir, 'do-sql', this.namespace, `${this.id}.sqlite`)
-				: null
-			this._sql = new SqlStorage(dbPath, this.namespace, this.id)
+			this._sql = new SqlStorage(this._sqlPath, this.namespace, this.id, () => {
+				this._dirty = true
+				this._sqlDirty = true
+			})
 		}
 		return this._sql
 	}
 
+	private _markDirty(): void {
+		this._dirty = true
+	}
+
+	private _isDirty(): boolean {
+		this._dirty ??= this._bookmarks.hasChangesSinceLatest(this._sqlPath)
+		return this._dirty
+	}
+
 	async get<T = unknown>(key: string, options?: StorageOptions): Promise<T | undefined>
 	async get<T = unknown>(keys: string[], options?: StorageOptions): Promise<Map<string, T>>
 	async get<T = unknown>(keyOrKeys: string | string[], _options?: StorageOptions): Promise<T | undefined | Map<string, T>> {
@@ -400,6 +453,7 @@ export class SqliteDurableObjectStorage {
 				throw e
 			}
 		}
+		this._markDirty()
 	}
 
 	async delete(key: string, options?: StorageOptions): Promise<boolean>
@@ -416,6 +470,7 @@ export class SqliteDurableObjectStorage {
 			this.db
 				.query(`DELETE FROM do_storage WHERE namespace = ? AND id = ? AND key IN (${placeholders})`)
 				.run(this.namespace, this.id, ...keyOrKeys)
+			this._markDirty()
 			return count
 		}
 		const existing = this.db
@@ -424,6 +479,7 @@ export class SqliteDurableObjectStorage {
 		this.db
 			.query('DELETE FROM do_storage WHERE namespace = ? AND id = ? AND key = ?')
 			.run(this.namespace, this.id, keyOrKeys)
+		this._markDirty()
 		return existing !== null
 	}
 
@@ -431,6 +487,7 @@ export class SqliteDurableObjectStorage {
 		this.db
 			.query('DELETE FROM do_storage WHERE namespace = ? AND id = ?')
 			.run(this.namespace, this.id)
+		this._markDirty()
 	}
 
 	async list(
@@ -538,6 +595,119 @@ export class SqliteDurableObjectStorage {
 			.run(this.namespace, this.id)
 		this._onAlarmSet?.(null)
 	}
+
+	// --- Point-in-time recovery (bookmarks) ---
+
+	async getCurrentBookmark(): Promise<string> {
+		return this._currentBookmark()
+	}
+
+	async getBookmarkForTime(timestamp: number | Date): Promise<string> {
+		const time = timestamp instanceof Date ? timestamp.getTime() : timestamp
+		const now = Date.now()
+		if (time < now - BOOKMARK_RETENTION_MS) {
+			throw new Error('Cannot get a bookmark for a time more than 30 days in the past')
+		}
+		const current = this._currentBookmark()
+		if (time >= now) return current
+		const bookmark = this._bookmarks.forTime(time)
+		if (!bookmark) {
+			const oldest = this._bookmarks.list().at(-1)!
+			throw new Error(
+				`No bookmark exists for ${new Date(time).toISOString()}: the oldest recorded state of this Durable Object is from ${
+					new Date(oldest.createdAt).toISOString()
+				}`,
+			)
+		}
+		return bookmark
+	}
+
+	/** Schedule a restore to `bookmark` when the object next starts. Returns a bookmark of the current state, for undoing it. */
+	async onNextSessionRestoreBookmark(bookmark: string): Promise<string> {
+		if (!this._bookmarks.has(bookmark)) throw new Error(`Unknown bookmark "${bookmark}"`)
+		const current = this._currentBookmark()
+		this._bookmarks.setPendingRestore(bookmark)
+		return current
+	}
+
+	private _currentBookmark(): string {
+		if (!this._isDirty()) {
+			const latest = this._bookmarks.latest()
+			if (latest) return latest.bookmark
+		}
+		return this._capture()
+	}
+
+	/** @internal Snapshot storage now and return the new bookmark. */
+	_capture(): string {
+		const bookmark = this._bookmarks.capture(this.sql, this._sqlDirty)
+		this._dirty = false
+		this._sqlDirty = false
+		this._nextCaptureAt = Date.now() + BOOKMARK_CAPTURE_INTERVAL_MS
+		return bookmark
+	}
+
+	/**
+	 * @internal Milliseconds until `_captureIfDue()` will snapshot pending writes:
+	 * 0 when it would now, null when nothing was written since the last bookmark.
+	 */
+	_captureDelay(): number | null {
+		if (!this._isDirty()) return null
+		return Math.max(0, this._nextCaptureAt - Date.now())
+	}
+
+	/** @internal Snapshot storage if a write happened since the last bookmark and the capture interval has passed. */
+	_captureIfDue(): void {
+		if (this._captureDelay() !== 0) return
+		this._captureIfDirty()
+	}
+
+	/** @internal Snapshot storage if a write happened since the last bookmark (called when the instance goes away). */
+	_captureIfDirty(): void {
+		if (!this._isDirty() || this.db.inTransaction) return
+		try {
+			this._capture()
+		} catch (err) {
+			console.warn(`[lopata] Durable Object ${this.namespace}/${this.id}: bookmark snapshot failed:`, err)
+		}
+	}
+
+	/** @internal Apply a restore scheduled by onNextSessionRestoreBookmark (called when a new instance starts). */
+	_startSession(): void {
+		const pending = this._bookmarks.takePendingRestore()
+		if (!pending) return
+		try {
+			this._restoreBookmark(pending)
+		} catch (err) {
+			console.warn(`[lopata] Durable Object ${this.namespace}/${this.id}: could not restore bookmark ${pending}:`, err)
+		}
+	}
+
+	/** @internal Roll storage back to `bookmark` now, recording the restored state as a new bookmark. */
+	_restoreBookmark(bookmark: string): string {
+		this._bookmarks.restore(bookmark, this.sql)
+		this._sqlDirty = true
+		return this._capture()
+	}
+
+	/** @internal Close the SQL connection of a storage object used outside an instance (dashboard). */
+	_close(): void {
+		this._sql?._close()
+	}
+}
+
+/**
+ * Roll a Durable Object's storage back to a bookmark. The instance must not be running.
+ * The state being replaced is snapshotted first, so the restore itself can be undone.
+ */
+export function restoreDurableObjectBookmark(db: Database, namespace: string, id: string, dataDir: string | undefined, bookmark: string): string {
+	const storage = new SqliteDurableObjectStorage(db, namespace, id, dataDir)
+	try {
+		storage._capture()
+		return storage._restoreBookmark(bookmark)
+	} finally {
+		storage._close()
+	}
 }
 
 // --- ID ---
@@ -591,10 +761,13 @@ export class DurableObjectStateImpl {
 	private _activeRequests = 0
 	private _aborted = false
 	private _abortReason: string | undefined
+	/** Pending bookmark snapshot, for writes that finished inside the capture interval. */
+	private _captureTimer: ReturnType<typeof setTimeout> | null = null
 
 	constructor(id: DurableObjectIdImpl, db: Database, namespace: string, dataDir?: string, limits?: DurableObjectLimits) {
 		this.id = id
 		this.storage = new SqliteDurableObjectStorage(db, namespace, id.toString(), dataDir)
+		this.storage._startSession()
 		this._limits = { ...DO_DEFAULTS, ...limits }
 	}
 
@@ -638,9 +811,35 @@ export class DurableObjectStateImpl {
 		this._activeRequests++
 	}
 
-	/** @internal Exit a request — decrements counter. */
+	/** @internal Exit a request — decrements counter, and snapshots storage for bookmarks once idle. */
 	_exit(): void {
 		this._activeRequests--
+		if (this._activeRequests === 0) this._scheduleCapture()
+	}
+
+	/** @internal Snapshot writes not yet in a bookmark and stop the capture timer (called when the instance is disposed). */
+	_flushBookmarks(): void {
+		if (this._captureTimer) clearTimeout(this._captureTimer)
+		this._captureTimer = null
+		this.storage._captureIfDirty()
+	}
+
+	private _scheduleCapture(): void {
+		const delay = this.storage._captureDelay()
+		if (delay === null) return
+		if (delay === 0) {
+			if (this._captureTimer) clearTimeout(this._captureTimer)
+			this._captureTimer = null
+			this.storage._captureIfDue()
+			return
+		}
+		if (this._captureTimer) return
+		// A request running when this fires snapshots on its own exit instead.
+		this._captureTimer = setTimeout(() => {
+			this._captureTimer = null
+			if (this._activeRequests === 0) this.storage._captureIfDue()
+		}, delay)
+		this._captureTimer.unref?.()
 	}
 
 	/**
@@ -1206,6 +1405,13 @@ export class DurableObjectNamespaceImpl {
 		return this._executors.get(idStr) ?? null
 	}
 
+	/** @internal The executor behind `stub`, (re)created if needed; null if the stub isn't from this namespace. */
+	_executorForStub(stub: unknown): DOExecutor | null {
+		const id = (stub as { id?: unknown }).id
+		if (!(id instanceof DurableObjectIdImpl) || this._stubs.get(`${id}:${id.name ?? ''}`) !== stub) return null
+		return this._getOrCreateExecutor(id.toString(), id)
+	}
+
 	/** @internal List active executors with their WebSocket counts */
 	_listActiveExecutors(): Array<{ id: string; wsCount: number }> {
 		const result: Array<{ id: string; wsCount: number }> = []
@@ -1287,6 +1493,21 @@ export class DurableObjectNamespaceImpl {
 			.run(this.namespaceName, idStr)
 	}
 
+	/**
+	 * Roll an instance's storage back to a bookmark right away (dashboard "restore to
+	 * time"). A running instance is stopped first, so the next request starts a new
+	 * session on the restored data. Returns the bookmark of the restored state.
+	 */
+	async restoreInstance(idStr: string, bookmark: string): Promise<string> {
+		const executor = this._executors.get(idStr)
+		if (executor) {
+			this._executors.delete(idStr)
+			this._lastActivity.delete(idStr)
+			await this._disposeExecutor(idStr, executor)
+		}
+		return restoreDurableObjectBookmark(this.db, this.namespaceName, idStr, this.dataDir, bookmark)
+	}
+
 	/** @internal Delete a DO instance and all its data */
 	deleteInstance(idStr: string): void {
 		this.cancelAlarm(idStr)
@@ -1315,6 +1536,8 @@ export class DurableObjectNamespaceImpl {
 			throw e
 		}
 
+		new DurableObjectBookmarks(this.db, this.namespaceName, idStr, this.dataDir ?? null).clear()
+
 		// Delete SQL storage database files
 		if (this.dataDir) {
 			const sqlDbPath = join(this.dataDir, 'do-sql', this.namespaceName, `${idStr}.sqlite`)
@@ -1,28 +1,107 @@
 import type { Database } from 'bun:sqlite'
+import { createHash } from 'node:crypto'
 
 export type FlagType = 'boolean' | 'string' | 'number' | 'object'
 
+export const FLAG_TYPES: FlagType[] = ['boolean', 'string', 'number', 'object']
+
 export interface FlagDetails<T> {
 	value: T
 	variant?: string
-	reason: 'STATIC' | 'DEFAULT' | 'ERROR' | 'TARGETING_MATCH'
+	reason: 'STATIC' | 'DEFAULT' | 'ERROR' | 'TARGETING_MATCH' | 'DISABLED'
 	errorCode?: string
 }
 
 type EvaluationContext = Record<string, unknown> | undefined
 
+export type FlagOperator =
+	| 'equals'
+	| 'not_equals'
+	| 'in'
+	| 'not_in'
+	| 'contains'
+	| 'starts_with'
+	| 'ends_with'
+	| 'matches'
+	| 'gt'
+	| 'gte'
+	| 'lt'
+	| 'lte'
+	| 'exists'
+
+const OPERATORS: FlagOperator[] = [
+	'equals',
+	'not_equals',
+	'in',
+	'not_in',
+	'contains',
+	'starts_with',
+	'ends_with',
+	'matches',
+	'gt',
+	'gte',
+	'lt',
+	'lte',
+	'exists',
+]
+
+export interface FlagCondition {
+	/** Context attribute to test; dotted paths reach into nested objects. */
+	attribute: string
+	operator: FlagOperator
+	value?: unknown
+}
+
+export interface FlagVariant {
+	value: unknown
+	variant?: string
+	/** Relative share of the rule's traffic. */
+	weight: number
+}
+
+/**
+ * A targeting rule. Rules are checked in order and the first one that matches
+ * the evaluation context decides the value. A rule carries either a single
+ * `value` or a weighted `variants` list.
+ */
+export interface FlagRule {
+	/** Conditions that must all hold; a rule without conditions matches every context. */
+	when?: FlagCondition[]
+	/** Serve the rule to this percentage (0–100) of matching contexts, bucketed by `targetingKey`. */
+	rollout?: number
+	value?: unknown
+	variant?: string
+	variants?: FlagVariant[]
+}
+
+export interface FlagRecord {
+	key: string
+	type: FlagType
+	value: string
+	variant: string | null
+	enabled: boolean
+	rules: FlagRule[]
+	updatedAt: number
+}
+
 interface FlagRow {
+	flag_key: string
 	type: string
 	value: string
 	variant: string | null
+	enabled: number
+	rules: string | null
+	updated_at: number
 }
 
 /**
  * Local implementation of the Cloudflare Flagship feature-flag binding.
- * Flag values are stored in SQLite (`flagship_flags` table). When a flag is
- * not found, the caller's `defaultValue` is returned with reason `DEFAULT`.
- * Local dev does not implement targeting rules — the `context` argument is
- * accepted for API compatibility but ignored during evaluation.
+ * Flags are stored in SQLite (`flagship_flags` table) and read on every
+ * evaluation, so edits from the dashboard or `lopata flags` apply immediately.
+ * Targeting rules are evaluated against the `context`; percentage rollouts and
+ * variant splits hash `context.targetingKey`, so a given key always lands in
+ * the same bucket. When a flag is not found, the caller's `defaultValue` is
+ * returned with reason `DEFAULT`; a disabled flag returns it with `DISABLED`.
  */
 export class FlagshipBinding {
 	private db: Database
@@ -49,38 +128,165 @@ export class FlagshipBinding {
 		return (await this.getObjectValueDetails(key, defaultValue, context)).value
 	}
 
-	async getBooleanValueDetails(key: string, defaultValue: boolean, _context?: EvaluationContext): Promise<FlagDetails<boolean>> {
-		return this.evaluate('boolean', key, defaultValue, parseBoolean)
+	async getBooleanValueDetails(key: string, defaultValue: boolean, context?: EvaluationContext): Promise<FlagDetails<boolean>> {
+		return this.evaluate('boolean', key, defaultValue, context)
 	}
 
-	async getStringValueDetails(key: string, defaultValue: string, _context?: EvaluationContext): Promise<FlagDetails<string>> {
-		return this.evaluate('string', key, defaultValue, (v) => v)
+	async getStringValueDetails(key: string, defaultValue: string, context?: EvaluationContext): Promise<FlagDetails<string>> {
+		return this.evaluate('string', key, defaultValue, context)
 	}
 
-	async getNumberValueDetails(key: string, defaultValue: number, _context?: EvaluationContext): Promise<FlagDetails<number>> {
-		return this.evaluate('number', key, defaultValue, (v) => Number(v))
+	async getNumberValueDetails(key: string, defaultValue: number, context?: EvaluationContext): Promise<FlagDetails<number>> {
+		return this.evaluate('number', key, defaultValue, context)
 	}
 
-	async getObjectValueDetails<T>(key: string, defaultValue: T, _context?: EvaluationContext): Promise<FlagDetails<T>> {
-		return this.evaluate('object', key, defaultValue, (v) => JSON.parse(v) as T)
+	async getObjectValueDetails<T>(key: string, defaultValue: T, context?: EvaluationContext): Promise<FlagDetails<T>> {
+		return this.evaluate('object', key, defaultValue, context)
 	}
 
-	private evaluate<T>(expectedType: FlagType, key: string, defaultValue: T, parse: (raw: string) => T): FlagDetails<T> {
-		const row = this.db
-			.query<FlagRow, [string, string]>('SELECT type, value, variant FROM flagship_flags WHERE app_id = ? AND flag_key = ?')
-			.get(this.appId, key)
+	private evaluate<T>(expectedType: FlagType, key: string, defaultValue: T, context: EvaluationContext): FlagDetails<T> {
+		const row = selectFlag(this.db, this.appId, key)
 		if (!row) {
 			return { value: defaultValue, reason: 'DEFAULT' }
 		}
 		if (row.type !== expectedType) {
 			return { value: defaultValue, reason: 'ERROR', errorCode: 'TYPE_MISMATCH' }
 		}
-		try {
-			const parsed = parse(row.value)
-			return { value: parsed, variant: row.variant ?? undefined, reason: 'STATIC' }
-		} catch {
-			return { value: defaultValue, reason: 'ERROR', errorCode: 'PARSE_ERROR' }
+		return evaluateRow(row, key, defaultValue, context)
+	}
+}
+
+/**
+ * Evaluate a flag with its stored type, the way the binding would for the
+ * matching `get*ValueDetails` call. Returns null when the flag doesn't exist.
+ */
+export function evaluateFlag(db: Database, appId: string, key: string, context?: EvaluationContext): FlagDetails<unknown> | null {
+	const row = selectFlag(db, appId, key)
+	return row ? evaluateRow<unknown>(row, key, null, context) : null
+}
+
+function selectFlag(db: Database, appId: string, key: string): FlagRow | null {
+	return db
+		.query<FlagRow, [string, string]>(
+			'SELECT flag_key, type, value, variant, enabled, rules, updated_at FROM flagship_flags WHERE app_id = ? AND flag_key = ?',
+		)
+		.get(appId, key)
+}
+
+function evaluateRow<T>(row: FlagRow, key: string, defaultValue: T, context: EvaluationContext): FlagDetails<T> {
+	if (!row.enabled) {
+		return { value: defaultValue, reason: 'DISABLED' }
+	}
+	let rules: FlagRule[]
+	let value: T
+	try {
+		rules = row.rules ? JSON.parse(row.rules) as FlagRule[] : []
+		value = parseStoredValue(row.type as FlagType, row.value) as T
+	} catch {
+		return { value: defaultValue, reason: 'ERROR', errorCode: 'PARSE_ERROR' }
+	}
+
+	const targetingKey = context?.targetingKey === undefined ? undefined : String(context.targetingKey)
+	for (const rule of rules) {
+		const match = matchRule(rule, key, context ?? {}, targetingKey)
+		if (match) {
+			return { value: match.value as T, variant: match.variant, reason: 'TARGETING_MATCH' }
+		}
+	}
+	return { value, variant: row.variant ?? undefined, reason: 'STATIC' }
+}
+
+function matchRule(
+	rule: FlagRule,
+	key: string,
+	context: Record<string, unknown>,
+	targetingKey: string | undefined,
+): { value: unknown; variant?: string } | null {
+	if (!(rule.when ?? []).every(c => matchCondition(c, lookup(context, c.attribute)))) return null
+
+	// Rollouts and splits need a stable identity; without one the rule is skipped.
+	const needsBucket = rule.rollout !== undefined || rule.variants !== undefined
+	if (needsBucket && targetingKey === undefined) return null
+	if (rule.rollout !== undefined && bucket(`${key}:rollout`, targetingKey!) >= rule.rollout) return null
+
+	if (rule.variants) {
+		const total = rule.variants.reduce((sum, v) => sum + v.weight, 0)
+		const point = bucket(`${key}:variants`, targetingKey!) / 100 * total
+		let acc = 0
+		for (const v of rule.variants) {
+			acc += v.weight
+			if (point < acc) return { value: v.value, variant: v.variant }
+		}
+		const last = rule.variants.at(-1)!
+		return { value: last.value, variant: last.variant }
+	}
+	return { value: rule.value, variant: rule.variant }
+}
+
+function matchCondition(condition: FlagCondition, actual: unknown): boolean {
+	const expected = condition.value
+	switch (condition.operator) {
+		case 'equals':
+			return actual === expected
+		case 'not_equals':
+			return actual !== expected
+		case 'in':
+			return (expected as unknown[]).includes(actual)
+		case 'not_in':
+			return !(expected as unknown[]).includes(actual)
+		case 'contains':
+			if (Array.isArray(actual)) return actual.includes(expected)
+			return typeof actual === 'string' && actual.includes(String(expected))
+		case 'starts_with':
+			return typeof actual === 'string' && actual.startsWith(String(expected))
+		case 'ends_with':
+			return typeof actual === 'string' && actual.endsWith(String(expected))
+		case 'matches':
+			return actual !== undefined && actual !== null && new RegExp(String(expected)).test(String(actual))
+		case 'gt':
+		case 'gte':
+		case 'lt':
+		case 'lte': {
+			// Numbers compare numerically, strings (e.g. ISO dates) lexicographically.
+			if (typeof actual !== typeof expected || (typeof actual !== 'number' && typeof actual !== 'string')) return false
+			const a = actual as number | string
+			const b = expected as number | string
+			if (condition.operator === 'gt') return a > b
+			if (condition.operator === 'gte') return a >= b
+			if (condition.operator === 'lt') return a < b
+			return a <= b
 		}
+		case 'exists':
+			return actual !== undefined && actual !== null
+	}
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+	if (path in context) return context[path]
+	let current: unknown = context
+	for (const part of path.split('.')) {
+		if (current === null || typeof current !== 'object') return undefined
+		current = (current as Record<string, unknown>)[part]
+	}
+	return current
+}
+
+/** Stable position of `targetingKey` in [0, 100) for the given salt. */
+function bucket(salt: string, targetingKey: string): number {
+	const digest = createHash('sha256').update(`${salt}:${targetingKey}`).digest()
+	return digest.readUInt32BE(0) / 0x1_0000_0000 * 100
+}
+
+function parseStoredValue(type: FlagType, raw: string): unknown {
+	switch (type) {
+		case 'boolean':
+			return parseBoolean(raw)
+		case 'number':
+			return Number(raw)
+		case 'object':
+			return JSON.parse(raw)
+		default:
+			return raw
 	}
 }
 
@@ -91,9 +297,91 @@ function parseBoolean(raw: string): boolean {
 	throw new Error(`invalid boolean flag value: ${raw}`)
 }
 
+/**
+ * Parse a flag value given as text (CLI argument, dashboard input) into the
+ * flag's type. Throws when the text isn't a valid value of that type.
+ */
+export function parseFlagValue(type: FlagType, raw: string): unknown {
+	switch (type) {
+		case 'boolean':
+			return parseBoolean(raw)
+		case 'number': {
+			const n = Number(raw)
+			if (raw.trim() === '' || !Number.isFinite(n)) throw new Error(`invalid number flag value: ${raw}`)
+			return n
+		}
+		case 'object':
+			return JSON.parse(raw)
+		default:
+			return raw
+	}
+}
+
+function isFlagValue(type: FlagType, value: unknown): boolean {
+	switch (type) {
+		case 'boolean':
+			return typeof value === 'boolean'
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value)
+		case 'string':
+			return typeof value === 'string'
+		case 'object':
+			return value !== null && typeof value === 'object'
+	}
+}
+
+/**
+ * Check that `input` is a well-formed rule list whose values fit a flag of
+ * `type`. Throws with a message pointing at the offending rule.
+ */
+export function validateFlagRules(type: FlagType, input: unknown): FlagRule[] {
+	if (!Array.isArray(input)) throw new Error('Rules must be a JSON array')
+	input.forEach((rule: FlagRule, i) => {
+		const where = `Rule ${i + 1}`
+		if (rule === null || typeof rule !== 'object' || Array.isArray(rule)) throw new Error(`${where}: must be an object`)
+		if (rule.when !== undefined) {
+			if (!Array.isArray(rule.when)) throw new Error(`${where}: "when" must be an array of conditions`)
+			for (const c of rule.when) {
+				if (!c || typeof c.attribute !== 'string' || !c.attribute) throw new Error(`${where}: condition needs an "attribute"`)
+				if (!OPERATORS.includes(c.operator)) {
+					throw new Error(`${where}: unknown operator "${c.operator}" (expected one of ${OPERATORS.join(', ')})`)
+				}
+				if ((c.operator === 'in' || c.operator === 'not_in') && !Array.isArray(c.value)) {
+					throw new Error(`${where}: "${c.operator}" needs an array value`)
+				}
+				if (c.operator === 'matches') {
+					try {
+						new RegExp(String(c.value))
+					} catch {
+						throw new Error(`${where}: invalid regular expression "${c.value}"`)
+					}
+				}
+			}
+		}
+		if (rule.rollout !== undefined && (typeof rule.rollout !== 'number' || rule.rollout < 0 || rule.rollout > 100)) {
+			throw new Error(`${where}: "rollout" must be a percentage between 0 and 100`)
+		}
+		if ((rule.value === undefined) === (rule.variants === undefined)) {
+			throw new Error(`${where}: needs either "value" or "variants"`)
+		}
+		if (rule.variants !== undefined) {
+			if (!Array.isArray(rule.variants) || rule.variants.length === 0) throw new Error(`${where}: "variants" must be a non-empty array`)
+			for (const v of rule.variants) {
+				if (typeof v?.weight !== 'number' || v.weight < 0) throw new Error(`${where}: every variant needs a non-negative "weight"`)
+				if (!isFlagValue(type, v.value)) throw new Error(`${where}: variant value ${JSON.stringify(v.value)} is not a ${type}`)
+			}
+			if (rule.variants.every(v => v.weight === 0)) throw new Error(`${where}: variant weights must not all be 0`)
+		} else if (!isFlagValue(type, rule.value)) {
+			throw new Error(`${where}: value ${JSON.stringify(rule.value)} is not a ${type}`)
+		}
+	})
+	return input
+}
+
 /**
  * Programmatic helper to seed / override a flag value in the local store.
- * Used by tests and (later) the dashboard.
+ * Used by tests, the dashboard and `lopata flags`. Existing rules and the
+ * enabled state are kept.
  */
 export function setFlagValue(
 	db: Database,
@@ -112,6 +400,55 @@ export function setFlagValue(
 	)
 }
 
+/** Replace a flag's targeting rules (validated against its type); an empty list removes them. */
+export function setFlagRules(db: Database, appId: string, key: string, rules: FlagRule[]): void {
+	const row = selectFlag(db, appId, key)
+	if (!row) throw new Error(`Flag not found: ${key}`)
+	validateFlagRules(row.type as FlagType, rules)
+	db.run('UPDATE flagship_flags SET rules = ?, updated_at = ? WHERE app_id = ? AND flag_key = ?', [
+		rules.length ? JSON.stringify(rules) : null,
+		Date.now(),
+		appId,
+		key,
+	])
+}
+
+export function setFlagEnabled(db: Database, appId: string, key: string, enabled: boolean): void {
+	const result = db.run('UPDATE flagship_flags SET enabled = ?, updated_at = ? WHERE app_id = ? AND flag_key = ?', [
+		enabled ? 1 : 0,
+		Date.now(),
+		appId,
+		key,
+	])
+	if (result.changes === 0) throw new Error(`Flag not found: ${key}`)
+}
+
+export function getFlag(db: Database, appId: string, key: string): FlagRecord | null {
+	const row = selectFlag(db, appId, key)
+	return row ? toRecord(row) : null
+}
+
+export function listFlags(db: Database, appId: string): FlagRecord[] {
+	return db
+		.query<FlagRow, [string]>(
+			'SELECT flag_key, type, value, variant, enabled, rules, updated_at FROM flagship_flags WHERE app_id = ? ORDER BY flag_key',
+		)
+		.all(appId)
+		.map(toRecord)
+}
+
+function toRecord(row: FlagRow): FlagRecord {
+	return {
+		key: row.flag_key,
+		type: row.type as FlagType,
+		value: row.value,
+		variant: row.variant,
+		enabled: row.enabled !== 0,
+		rules: row.rules ? JSON.parse(row.rules) as FlagRule[] : [],
+		updatedAt: row.updated_at,
+	}
+}
+
 export function deleteFlag(db: Database, appId: string, key: string): void {
 	db.run('DELETE FROM flagship_flags WHERE app_id = ? AND flag_key = ?', [appId, key])
 }
@@ -1,16 +1,10 @@
 /**
  * Local implementation of the Cloudflare Hyperdrive binding.
  * Parses a PostgreSQL connection string and exposes readonly properties.
- * connect() creates a raw TCP socket via Bun.connect().
+ * connect() opens a raw TCP socket to the database (see `sockets.ts`).
  */
 
-interface HyperdriveSocket {
-	readable: ReadableStream<Uint8Array>
-	writable: WritableStream<Uint8Array>
-	closed: Promise<void>
-	opened: Promise<{ remoteAddress: string }>
-	close(): void
-}
+import { openSocket, type Socket } from './sockets'
 
 export class HyperdriveBinding {
 	private readonly _url: URL | null
@@ -52,82 +46,12 @@ export class HyperdriveBinding {
 		return decodeURIComponent(this._url.pathname.slice(1))
 	}
 
-	connect(): HyperdriveSocket {
+	/** Raw TCP socket to the database — the same `Socket` as `cloudflare:sockets`. */
+	connect(): Socket {
 		if (!this._url) {
 			throw new Error('Hyperdrive: no connection string configured')
 		}
-
-		const host = this.host
-		const port = this.port
-
-		let readableController: ReadableStreamDefaultController<Uint8Array>
-		let resolveOpened: (info: { remoteAddress: string }) => void
-		let resolveClosed: () => void
-		let rejectOpened: (err: Error) => void
-		let rejectClosed: (err: Error) => void
-		let bunSocket: ReturnType<typeof Bun.connect> extends Promise<infer T> ? T : never
-
-		const readable = new ReadableStream<Uint8Array>({
-			start(controller) {
-				readableController = controller
-			},
-		})
-
-		const opened = new Promise<{ remoteAddress: string }>((resolve, reject) => {
-			resolveOpened = resolve
-			rejectOpened = reject
-		})
-
-		const closed = new Promise<void>((resolve, reject) => {
-			resolveClosed = resolve
-			rejectClosed = reject
-		})
-
-		const writable = new WritableStream<Uint8Array>({
-			async write(chunk) {
-				const sock = await socketPromise
-				sock.write(chunk)
-			},
-		})
-
-		const socketPromise = Bun.connect({
-			hostname: host,
-			port,
-			socket: {
-				data(_socket, data) {
-					readableController.enqueue(new Uint8Array(data))
-				},
-				open(socket) {
-					bunSocket = socket as any
-					resolveOpened!({ remoteAddress: `${host}:${port}` })
-				},
-				close() {
-					try {
-						readableController.close()
-					} catch {}
-					resolveClosed!()
-				},
-				error(_socket, err) {
-					rejectOpened!(err)
-					rejectClosed!(err)
-					try {
-						readableController.error(err)
-					} catch {}
-				},
-			},
-		})
-		// Errors are propagated via opened/closed promises; suppress socketPromise rejection
-		socketPromise.catch(() => {})
-
-		return {
-			readable,
-			writable,
-			opened,
-			closed,
-			close() {
-				socketPromise.then(s => s.end(), () => {})
-			},
-		}
+		return openSocket({ hostname: this.host, port: this.port })
 	}
 
 	startTls(): never {
@@ -46,6 +46,18 @@ interface ConsumerConfig {
 	retentionPeriodSeconds?: number // default 345600 (4 days), matching CF default
 }
 
+/** What the consumer did with one delivered message, reported to `onMessageOutcome` listeners. */
+export interface QueueMessageOutcome {
+	id: string
+	body: unknown
+	/** Delivery attempts so far, this one included. */
+	attempts: number
+	/** `dead-letter` moved it to the dead letter queue, `failed` discarded it after `maxRetries`. */
+	outcome: 'ack' | 'retry' | 'dead-letter' | 'failed'
+	/** Seconds until the retry becomes visible; only for `retry`. */
+	delaySeconds?: number
+}
+
 type QueueHandler = (batch: MessageBatch, env: Record<string, unknown>, ctx: ExecutionContext) => Promise<void>
 
 // --- Limits ---
@@ -90,7 +102,7 @@ function encodeBody(message: unknown, contentType: string): Uint8Array {
 	}
 }
 
-function decodeBody(raw: Uint8Array | Buffer, contentType: string): unknown {
+export function decodeBody(raw: Uint8Array | Buffer, contentType: string): unknown {
 	switch (contentType) {
 		case 'bytes':
 			return raw instanceof Uint8Array ? raw.buffer.slice(raw.byteOffset, raw.byteOffset + raw.byteLength) : new Uint8Array(raw).buffer
@@ -205,6 +217,7 @@ export class QueueConsumer {
 	/** Optional hook to register an in-flight batch with reload-drain accounting,
 	 *  so a generation isn't terminated mid-batch (thread mode). */
 	private _trackBatch?: (p: Promise<unknown>) => void
+	private outcomeListeners: ((outcome: QueueMessageOutcome) => void)[] = []
 
 	private clock: Clock
 
@@ -244,6 +257,11 @@ export class QueueConsumer {
 		}
 	}
 
+	/** Call `listener` with the outcome of every message once its batch is settled. */
+	onMessageOutcome(listener: (outcome: QueueMessageOutcome) => void): void {
+		this.outcomeListeners.push(listener)
+	}
+
 	async poll(): Promise<void> {
 		if (this.polling) return
 		// Check max_concurrency gate
@@ -353,15 +371,18 @@ export class QueueConsumer {
 		})
 
 		// Process message outcomes — per-message decision overrides batch decision
-		for (const row of rows) {
+		for (const [i, row] of rows.entries()) {
 			const currentAttempts = row.attempts + 1
 			const decision: Decision | null = handlerError
 				? { type: 'retry', delaySeconds: undefined }
 				: messageDecisions.get(row.id) ?? batchDecision
 
+			let outcome: QueueMessageOutcome['outcome']
+			let delaySeconds: number | undefined
 			if (!decision || decision.type === 'ack') {
 				// Ack (explicit or default) — mark as acked
 				this.db.run("UPDATE queue_messages SET status = 'acked', completed_at = ? WHERE id = ?", [this.clock.now(), row.id])
+				outcome = 'ack'
 			} else {
 				// Retry
 				const delay = decision.delaySeconds ?? this.config.retryDelay ?? 0
@@ -372,9 +393,11 @@ export class QueueConsumer {
 							"UPDATE queue_messages SET queue = ?, visible_at = ?, status = 'pending' WHERE id = ?",
 							[this.config.deadLetterQueue, this.clock.now(), row.id],
 						)
+						outcome = 'dead-letter'
 					} else {
 						console.warn(`[lopata] Queue message ${row.id} exceeded max retries (${this.config.maxRetries}), discarding`)
 						this.db.run("UPDATE queue_messages SET status = 'failed', completed_at = ? WHERE id = ?", [this.clock.now(), row.id])
+						outcome = 'failed'
 					}
 				} else {
 					// Retry with delay
@@ -382,8 +405,13 @@ export class QueueConsumer {
 						'UPDATE queue_messages SET visible_at = ? WHERE id = ?',
 						[this.clock.now() + delay * 1000, row.id],
 					)
+					outcome = 'retry'
+					delaySeconds = delay
 				}
 			}
+			for (const listener of this.outcomeListeners) {
+				listener({ id: row.id, body: messages[i]!.body, attempts: currentAttempts, outcome, delaySeconds })
+			}
 		}
 	}
 }
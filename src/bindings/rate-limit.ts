@@ -0,0 +1,120 @@
+/**
+ * Local implementation of the Workers Rate Limiting binding.
+ *
+ * Configured either as `ratelimits` or as the older `unsafe.bindings` entry
+ * with `type: "ratelimit"`; both carry a `namespace_id` and a `simple`
+ * `{ limit, period }`. `env.LIMITER.limit({ key })` resolves to
+ * `{ success: false }` once `key` has been allowed `limit` times within the
+ * last `period` seconds.
+ *
+ * Every allowed call is recorded in the `ratelimit_hits` table, so the window
+ * slides exactly (Cloudflare approximates it) and counters are shared by every
+ * worker bound to the same namespace and survive restarts. Rejected calls are
+ * not recorded — a client hammering a limited key is let through again as soon
+ * as its oldest allowed call leaves the window.
+ */
+
+import type { Database } from 'bun:sqlite'
+import type { WranglerConfig } from '../config'
+import type { Clock } from '../testing/clock'
+import { realClock } from '../testing/clock'
+
+export interface RateLimitBinding {
+	binding: string
+	namespaceId: string
+	limit: number
+	/** Window length in seconds */
+	period: number
+}
+
+export interface RateLimitCounter {
+	namespaceId: string
+	key: string
+	/** Calls allowed within the current window */
+	count: number
+	/** When the oldest counted call leaves the window (epoch ms) */
+	resetsAt: number
+}
+
+/** Cloudflare only accepts these window lengths. */
+const PERIODS = [10, 60]
+/** Hits older than the longest period can't count against any binding. */
+const MAX_PERIOD_MS = Math.max(...PERIODS) * 1000
+
+/** All rate limit bindings of a worker, from `ratelimits` and `unsafe.bindings`. */
+export function rateLimitBindings(config: WranglerConfig): RateLimitBinding[] {
+	const unsafe = (config.unsafe?.bindings ?? []).filter(b => b.type === 'ratelimit')
+	return [
+		...(config.ratelimits ?? []).map(r => ({ binding: r.name, namespace_id: r.namespace_id, simple: r.simple })),
+		...unsafe.map(b => ({ binding: b.name, namespace_id: b.namespace_id, simple: b.simple })),
+	].map(({ binding, namespace_id, simple }) => {
+		if (namespace_id === undefined || namespace_id === '') {
+			throw new Error(`Rate limit binding "${binding}" is missing "namespace_id"`)
+		}
+		return { binding, namespaceId: String(namespace_id), ...checkRateLimit(binding, simple?.limit, simple?.period, 'simple.') }
+	})
+}
+
+/** Throw unless `limit` and `period` are a rate limit Cloudflare accepts; `prefix` is where the fields sit in the binding's config. */
+export function checkRateLimit(binding: string, limit: unknown, period: unknown, prefix = ''): { limit: number; period: number } {
+	if (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0) {
+		throw new Error(`Rate limit binding "${binding}": "${prefix}limit" must be a positive integer`)
+	}
+	if (typeof period !== 'number' || !PERIODS.includes(period)) {
+		throw new Error(`Rate limit binding "${binding}": "${prefix}period" must be 10 or 60 seconds`)
+	}
+	return { limit, period }
+}
+
+export class SqliteRateLimiter {
+	private db: Database
+	private namespaceId: string
+	private maxCalls: number
+	private periodMs: number
+	private clock: Clock
+
+	constructor(db: Database, namespaceId: string, limit: number, period: number, clock?: Clock) {
+		this.db = db
+		this.namespaceId = namespaceId
+		this.maxCalls = limit
+		this.periodMs = period * 1000
+		this.clock = clock ?? realClock
+	}
+
+	async limit(options: { key: string }): Promise<{ success: boolean }> {
+		if (typeof options?.key !== 'string') {
+			throw new TypeError('RateLimit.limit(): "key" must be a string')
+		}
+		const now = this.clock.now()
+		const success = this.db.transaction(() => {
+			this.db.run('DELETE FROM ratelimit_hits WHERE namespace_id = ? AND ts <= ?', [this.namespaceId, now - MAX_PERIOD_MS])
+			const row = this.db.query<{ cnt: number }, [string, string, number]>(
+				'SELECT COUNT(*) AS cnt FROM ratelimit_hits WHERE namespace_id = ? AND key = ? AND ts > ?',
+			).get(this.namespaceId, options.key, now - this.periodMs)!
+			if (row.cnt >= this.maxCalls) return false
+			this.db.run('INSERT INTO ratelimit_hits (namespace_id, key, ts) VALUES (?, ?, ?)', [this.namespaceId, options.key, now])
+			return true
+		}).immediate()
+		return { success }
+	}
+}
+
+/** Keys with calls inside `period` seconds of `now`, busiest first. */
+export function listRateLimitCounters(db: Database, namespaceId: string, period: number, now = Date.now()): RateLimitCounter[] {
+	return db.query<{ key: string; cnt: number; oldest: number }, [string, number]>(
+		`SELECT key, COUNT(*) AS cnt, MIN(ts) AS oldest FROM ratelimit_hits
+		 WHERE namespace_id = ? AND ts > ? GROUP BY key ORDER BY cnt DESC, key`,
+	).all(namespaceId, now - period * 1000).map(row => ({
+		namespaceId,
+		key: row.key,
+		count: row.cnt,
+		resetsAt: row.oldest + period * 1000,
+	}))
+}
+
+/** Forget recorded calls — of one key, one namespace, or everything. Returns the number of calls removed. */
+export function resetRateLimits(db: Database, namespaceId?: string, key?: string): number {
+	if (namespaceId === undefined) return db.run('DELETE FROM ratelimit_hits').changes
+	if (key === undefined) return db.run('DELETE FROM ratelimit_hits WHERE namespace_id = ?', [namespaceId]).changes
+	return db.run('DELETE FROM ratelimit_hits WHERE namespace_id = ? AND key = ?', [namespaceId, key]).changes
+}
@@ -0,0 +1,174 @@
+/**
+ * Local implementation of the Secrets Store binding (`secrets_store_secrets`).
+ *
+ * Each binding points at one secret of one store; `await env.MY_SECRET.get()`
+ * returns its value. Locally every store lives in one file,
+ * `.lopata/secrets-store/secrets.json`, with each value encrypted (AES-256-GCM)
+ * under a key generated on first use next to it (`key`, mode 0600). Names and
+ * timestamps stay readable so the CLI and dashboard can list secrets without
+ * ever decrypting them.
+ *
+ * Values are read from disk on every `get()`, so a secret created with
+ * `lopata secrets-store secret create` is visible without a restart.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+export interface SecretInfo {
+	storeId: string
+	name: string
+	comment?: string
+	createdAt: number
+	updatedAt: number
+}
+
+interface StoredSecret extends SecretInfo {
+	/** base64 of iv (12 bytes) + auth tag (16 bytes) + ciphertext */
+	value: string
+}
+
+interface StoreFile {
+	version: 1
+	secrets: StoredSecret[]
+}
+
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+/** Secret names follow Cloudflare's rules: letters, digits, `_` and `-`. */
+const SECRET_NAME = /^[A-Za-z0-9_-]{1,255}$/
+
+export function secretsStoreDir(dataDir: string): string {
+	return join(dataDir, 'secrets-store')
+}
+
+export class LocalSecretsStore {
+	private readonly _dir: string
+
+	constructor(dataDir: string) {
+		this._dir = secretsStoreDir(dataDir)
+	}
+
+	/** Secrets without their values, optionally limited to one store. */
+	list(storeId?: string): SecretInfo[] {
+		return this._read().secrets
+			.filter(s => storeId === undefined || s.storeId === storeId)
+			.map(({ value: _value, ...info }) => info)
+			.sort((a, b) => a.storeId.localeCompare(b.storeId) || a.name.localeCompare(b.name))
+	}
+
+	has(storeId: string, name: string): boolean {
+		return this._read().secrets.some(s => s.storeId === storeId && s.name === name)
+	}
+
+	/** The decrypted value, or null when the secret doesn't exist. */
+	get(storeId: string, name: string): string | null {
+		const secret = this._read().secrets.find(s => s.storeId === storeId && s.name === name)
+		if (!secret) return null
+		const raw = Buffer.from(secret.value, 'base64')
+		const decipher = createDecipheriv('aes-256-gcm', this._key(), raw.subarray(0, IV_BYTES))
+		decipher.setAAD(Buffer.from(`${storeId}/${name}`))
+		decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+		try {
+			return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8')
+		} catch {
+			throw new Error(
+				`Secrets Store: cannot decrypt secret "${name}" in store "${storeId}" — ${join(this._dir, 'key')} no longer matches `
+					+ 'the stored values. Delete and recreate the secret.',
+			)
+		}
+	}
+
+	/** Create or replace a secret. Returns whether it already existed. */
+	put(storeId: string, name: string, value: string, comment?: string): 'created' | 'updated' {
+		if (!storeId) throw new Error('Secrets Store: a store id is required')
+		if (!SECRET_NAME.test(name)) {
+			throw new Error(`Secrets Store: invalid secret name "${name}" — use letters, digits, "_" and "-"`)
+		}
+		const iv = randomBytes(IV_BYTES)
+		const cipher = createCipheriv('aes-256-gcm', this._key(), iv)
+		cipher.setAAD(Buffer.from(`${storeId}/${name}`))
+		const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+		const encrypted = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+
+		const file = this._read()
+		const now = Date.now()
+		const existing = file.secrets.find(s => s.storeId === storeId && s.name === name)
+		if (existing) {
+			existing.value = encrypted
+			existing.updatedAt = now
+			if (comment !== undefined) existing.comment = comment || undefined
+		} else {
+			file.secrets.push({ storeId, name, comment: comment || undefined, createdAt: now, updatedAt: now, value: encrypted })
+		}
+		this._write(file)
+		return existing ? 'updated' : 'created'
+	}
+
+	delete(storeId: string, name: string): boolean {
+		const file = this._read()
+		const remaining = file.secrets.filter(s => !(s.storeId === storeId && s.name === name))
+		if (remaining.length === file.secrets.length) return false
+		this._write({ ...file, secrets: remaining })
+		return true
+	}
+
+	private _read(): StoreFile {
+		const path = join(this._dir, 'secrets.json')
+		if (!existsSync(path)) return { version: 1, secrets: [] }
+		return JSON.parse(readFileSync(path, 'utf8')) as StoreFile
+	}
+
+	private _write(file: StoreFile): void {
+		mkdirSync(this._dir, { recursive: true })
+		const path = join(this._dir, 'secrets.json')
+		// Write-then-rename so a worker reading mid-write never sees half a file.
+		writeFileSync(`${path}.tmp`, JSON.stringify(file, null, '\t'), { mode: 0o600 })
+		renameSync(`${path}.tmp`, path)
+	}
+
+	private _key(): Buffer {
+		const path = join(this._dir, 'key')
+		if (existsSync(path)) return Buffer.from(readFileSync(path, 'utf8').trim(), 'base64')
+		mkdirSync(this._dir, { recursive: true })
+		const key = randomBytes(KEY_BYTES)
+		try {
+			writeFileSync(path, key.toString('base64'), { flag: 'wx', mode: 0o600 })
+		} catch (err) {
+			// Another process created the key since the check above — use theirs.
+			if ((err as NodeJS.ErrnoException).code === 'EEXIST') return Buffer.from(readFileSync(path, 'utf8').trim(), 'base64')
+			throw err
+		}
+		chmodSync(path, 0o600)
+		return key
+	}
+}
+
+export function missingSecretMessage(binding: string, storeId: string, name: string): string {
+	return `Secrets Store binding "${binding}": secret "${name}" does not exist in store "${storeId}". `
+		+ `Create it with: lopata secrets-store secret create ${storeId} --name ${name}`
+}
+
+/** The object a `secrets_store_secrets` entry binds into `env`. */
+export class SecretsStoreSecret {
+	private readonly _store: LocalSecretsStore
+	private readonly _binding: string
+	private readonly _storeId: string
+	private readonly _name: string
+
+	constructor(store: LocalSecretsStore, binding: string, storeId: string, secretName: string) {
+		this._store = store
+		this._binding = binding
+		this._storeId = storeId
+		this._name = secretName
+	}
+
+	async get(): Promise<string> {
+		const value = this._store.get(this._storeId, this._name)
+		if (value === null) throw new Error(missingSecretMessage(this._binding, this._storeId, this._name))
+		return value
+	}
+}
@@ -5,14 +5,17 @@
  * - `.fetch(request | url, init?)` — calls the target worker's fetch() handler
  * - `.myMethod(args)` — RPC call to the target's entrypoint class method (always returns Promise)
  * - `.myProperty` — RPC property access (returns thenable/Promise)
- * - `.connect()` — stub for TCP socket (throws — not supported in dev)
+ * - `.connect(address)` — TCP socket handed to the target's `connect(socket)` handler
  */
 
 import { ExecutionContext } from '../execution-context'
+import { addCfProperty, type CfProperties } from '../request-cf'
 import { warnInvalidRpcArgs } from '../rpc-validate'
 import { getActiveContext, runWithContext } from '../tracing/context'
+import { injectTraceContext } from '../tracing/propagation'
 import type { ResolvedTarget } from '../worker-registry'
 import { createRpcFunctionStub, NON_RPC_PROPS, wrapRpcReturnValue } from './rpc-stub'
+import { acceptConnection, openSocket, type Socket, type SocketAddress, type SocketOptions } from './sockets'
 import { assetsOnlyRejection } from './static-assets'
 
 type WorkerModule = Record<string, unknown>
@@ -30,12 +33,7 @@ const SERVICE_BINDING_DEFAULTS: Required<ServiceBindingLimits> = {
 }
 
 // Internal properties that should be forwarded to the ServiceBinding instance
-const INTERNAL_PROPS = new Set(['_wire', 'isWired', '_subrequestCount'])
-
-/** Error thrown by `connect()` (both in-process and worker-thread paths). */
-export function serviceBindingConnectError(name: string): Error {
-	return new Error(`Service binding "${name}": connect() (TCP sockets) is not supported in local dev mode`)
-}
+const INTERNAL_PROPS = new Set(['_wire', 'isWired', '_subrequestCount', '_connectEndpoint'])
 
 /**
  * Resolve the call target for a service binding RPC (`fetch` or method):
@@ -65,6 +63,47 @@ export function resolveEntrypointTarget(
 	return def as Record<string, unknown>
 }
 
+/**
+ * Serve one service-binding `connect()`: listen on a loopback port and hand the
+ * accepted socket to the target's `connect(socket, env, ctx)` handler (class
+ * entrypoints take just the socket and ignore the rest). Returns the address the
+ * caller connects to. Shared by the in-process binding and the worker thread.
+ */
+export function serveConnect(name: string, target: Record<string, unknown> | undefined, env: unknown, ctx: unknown): SocketAddress {
+	const handler = target?.connect
+	if (typeof handler !== 'function') {
+		throw new Error(`Service binding "${name}" target has no connect() handler`)
+	}
+	const parentCtx = getActiveContext()
+	return acceptConnection((socket: Socket) => {
+		const call = async () => {
+			try {
+				await (handler as (s: Socket, e: unknown, c: unknown) => unknown).call(target, socket, env, ctx)
+			} catch (e) {
+				console.error(`[lopata] Service binding "${name}": connect() handler threw:`, e)
+				socket.close()
+			}
+		}
+		void (parentCtx ? runWithContext(parentCtx, call) : call())
+	})
+}
+
+/**
+ * A copy of `request` that advertises the active span as the callee's parent.
+ * The caller's Request is left untouched, and a `traceparent` it already carries
+ * (e.g. the upstream client's, on a forwarded request) is replaced.
+ */
+function withTraceContext(request: Request): Request {
+	if (!getActiveContext()) return request
+	const headers = new Headers(request.headers)
+	headers.delete('traceparent')
+	headers.delete('tracestate')
+	injectTraceContext(headers)
+	const outgoing = new Request(request, { headers })
+	const cf = (request as { cf?: CfProperties }).cf
+	return cf ? addCfProperty(outgoing, cf) : outgoing
+}
+
 export class ServiceBinding {
 	private _resolver: (() => ResolvedTarget) | null = null
 	private _entrypoint: string | undefined
@@ -115,6 +154,8 @@ export class ServiceBinding {
 		// leak across the whole dev-server lifetime and eventually 500 every
 		// asset request that goes through a service binding.
 		const requestCounter = getActiveContext()?.subrequests
+		// A call forwarded from a worker thread was counted there already.
+		if (requestCounter?.inherited) return
 		const count = requestCounter ? ++requestCounter.count : ++this._subrequestCount
 		if (count > this._limits.maxSubrequests) {
 			throw new Error(
@@ -143,12 +184,13 @@ export class ServiceBinding {
 
 	async fetch(input: Request | string | URL, init?: RequestInit): Promise<Response> {
 		const url = input instanceof URL ? input.toString() : input
-		const request = typeof url === 'string' ? new Request(url, init) : url
+		let request = typeof url === 'string' ? new Request(url, init) : url
 
 		// Resolve first so a missing target throws the real error instead of
 		// burning a slot in the per-request subrequest budget on every failed call.
 		const resolved = this._resolve()
 		this._checkSubrequestLimit()
+		request = withTraceContext(request)
 		if (resolved.kind === 'thread') {
 			return resolved.executor.executeFetch(request, this._props)
 		}
@@ -193,8 +235,32 @@ export class ServiceBinding {
 		return doCall()
 	}
 
-	connect(_address: string | { hostname: string; port: number }): never {
-		throw serviceBindingConnectError(this._serviceName)
+	/**
+	 * Open a TCP socket to the target worker's `connect` handler. `address` is
+	 * passed along by Cloudflare but routes nowhere — the binding decides the
+	 * target — so locally it is ignored.
+	 */
+	connect(_address?: string | SocketAddress, options: SocketOptions = {}): Socket {
+		// Resolve first so a missing target throws the real error before the budget moves.
+		this._resolve()
+		this._checkSubrequestLimit()
+		return openSocket(this._connectEndpoint(), { allowHalfOpen: options.allowHalfOpen })
+	}
+
+	/** Loopback address the target's connect handler listens on for one connection. */
+	async _connectEndpoint(): Promise<SocketAddress> {
+		const resolved = this._resolve()
+		if (resolved.kind === 'thread') {
+			const port = await resolved.executor.executeConnect(this._entrypoint, this._props)
+			return { hostname: '127.0.0.1', port }
+		}
+		if (resolved.kind === 'assets') {
+			throw new Error(
+				`Service binding "${this._serviceName}": the target is an assets-only worker (no "main"), so it has no connect() handler`,
+			)
+		}
+		const execCtx = new ExecutionContext(this._props)
+		return serveConnect(this._serviceName, this._getTarget(execCtx), resolved.env, execCtx)
 	}
 
 	toProxy(): Record<string, unknown> {
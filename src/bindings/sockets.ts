@@ -0,0 +1,365 @@
+/**
+ * `cloudflare:sockets` — outbound TCP sockets via `connect()`.
+ *
+ * Wraps `Bun.connect()` in workerd's `Socket` shape: a byte `readable`, a
+ * `writable`, `opened` / `closed` promises, `close()` and `startTls()`.
+ * Differences from production worth knowing:
+ * - connections go straight out through the host's network stack, so anything
+ *   reachable from your machine is reachable from the worker (Cloudflare blocks
+ *   private ranges; only port 25 is refused here, as it is there);
+ * - TLS trusts the system roots plus lopata's local dev CA, so a worker can
+ *   talk to another `lopata dev --https` server without extra setup.
+ *
+ * Each `connect()` counts as a subrequest and holds one of the invocation's
+ * connection slots until the socket closes (see `limits.ts`).
+ */
+
+import type { Socket as BunSocket, SocketHandler, TLSOptions } from 'bun'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { rootCertificates } from 'node:tls'
+import { certsDir } from '../certs'
+import { getDataDir } from '../db'
+import { acquireConnection, countSubrequest } from '../limits'
+
+export type SecureTransport = 'off' | 'on' | 'starttls'
+
+export interface SocketAddress {
+	hostname: string
+	port: number
+}
+
+export interface SocketOptions {
+	/** `'on'` connects over TLS, `'starttls'` starts plain and allows one `startTls()` later. Default `'off'`. */
+	secureTransport?: SecureTransport
+	/** Keep the writable side open after the peer ends its side. Default false. */
+	allowHalfOpen?: boolean
+}
+
+export interface SocketInfo {
+	remoteAddress?: string
+	localAddress?: string
+}
+
+export interface TlsOptions {
+	/** Hostname to verify the server certificate against. Defaults to the connected hostname. */
+	expectedServerHostname?: string
+}
+
+const SECURE_TRANSPORTS = new Set<string>(['off', 'on', 'starttls'])
+
+/** How long a service binding's loopback listener waits for the caller to connect. */
+const ACCEPT_TIMEOUT_MS = 10_000
+
+type RawSocket = BunSocket<Socket>
+
+export class Socket {
+	readonly readable: ReadableStream<Uint8Array>
+	readonly writable: WritableStream<ArrayBuffer | ArrayBufferView>
+	readonly opened: Promise<SocketInfo>
+	readonly closed: Promise<void>
+	readonly secureTransport: SecureTransport
+
+	private _raw: RawSocket | null = null
+	private _hostname = ''
+	private _upgraded = false
+	private _closeRequested = false
+	private _finished = false
+	private _readableDone = false
+	private _reader!: ReadableStreamDefaultController<Uint8Array>
+	private _drainWaiters: Array<() => void> = []
+	private _release: (() => void) | null = null
+	private _resolveOpened!: (info: SocketInfo) => void
+	private _rejectOpened!: (err: Error) => void
+	private _resolveClosed!: () => void
+	private _rejectClosed!: (err: Error) => void
+	private readonly _allowHalfOpen: boolean
+
+	/** Sockets come from `connect()` (or a worker's `connect` handler), never from user code. */
+	constructor(secureTransport: SecureTransport, allowHalfOpen: boolean) {
+		this.secureTransport = secureTransport
+		this._allowHalfOpen = allowHalfOpen
+		this.opened = new Promise<SocketInfo>((resolve, reject) => {
+			this._resolveOpened = resolve
+			this._rejectOpened = reject
+		})
+		this.closed = new Promise<void>((resolve, reject) => {
+			this._resolveClosed = resolve
+			this._rejectClosed = reject
+		})
+		// Failures surface through whichever of these the worker awaits; don't
+		// turn the other one into an unhandled rejection.
+		this.opened.catch(() => {})
+		this.closed.catch(() => {})
+		this.readable = new ReadableStream<Uint8Array>({
+			start: controller => {
+				this._reader = controller
+			},
+		})
+		this.writable = new WritableStream<ArrayBuffer | ArrayBufferView>({
+			write: chunk => this._write(chunk),
+			close: () => this._endWrite(),
+			abort: () => {
+				this.close()
+			},
+		})
+	}
+
+	/** True once `startTls()` has been called — this socket's streams are then retired. */
+	get upgraded(): boolean {
+		return this._upgraded
+	}
+
+	/** Close both directions; resolves with `closed`. */
+	close(): Promise<void> {
+		this._closeRequested = true
+		this._closeReadable()
+		if (this._raw) this._raw.end()
+		return this.closed
+	}
+
+	/**
+	 * Upgrade a `secureTransport: 'starttls'` socket to TLS. Returns a new socket
+	 * carrying the encrypted stream; this one's readable and writable stop working.
+	 */
+	startTls(options: TlsOptions = {}): Socket {
+		if (this.secureTransport !== 'starttls') {
+			throw new TypeError(`startTls() requires the socket to be opened with secureTransport: 'starttls' (got '${this.secureTransport}')`)
+		}
+		if (this._upgraded) throw new TypeError('startTls() can only be called once per socket')
+		this._upgraded = true
+		const secure = new Socket('on', this._allowHalfOpen)
+		this.opened.then(() => {
+			const raw = this._raw
+			if (!raw) throw new Error('Socket closed before startTls() could upgrade it')
+			secure._hostname = options.expectedServerHostname ?? this._hostname
+			secure._release = this._release
+			this._release = null
+			this._closeReadable()
+			raw.upgradeTLS<Socket>({ data: secure, tls: tlsOptions(secure._hostname), socket: HANDLERS })
+			// The plain socket is now the TLS socket's transport — it closes with it.
+			this._raw = null
+		}).catch(err => secure._fail(toError(err)))
+		return secure
+	}
+
+	/** Connect to `endpoint`, waiting for a free connection slot first. */
+	async _open(endpoint: SocketAddress | Promise<SocketAddress>): Promise<void> {
+		try {
+			this._release = await acquireConnection()
+			const { hostname, port } = await endpoint
+			this._hostname = hostname
+			// Half-open is always on at the Bun level; `_onEnd` applies the
+			// worker's allowHalfOpen choice, so an outgoing FIN never drops replies.
+			await Bun.connect<Socket>({
+				hostname,
+				port,
+				data: this,
+				allowHalfOpen: true,
+				tls: this.secureTransport === 'on' ? tlsOptions(hostname) : undefined,
+				socket: HANDLERS,
+			})
+		} catch (e) {
+			this._fail(toError(e))
+		}
+	}
+
+	_onOpen(raw: RawSocket): void {
+		this._raw = raw
+		if (this._closeRequested) {
+			raw.end()
+			return
+		}
+		this._resolveOpened({
+			remoteAddress: formatAddress(raw.remoteAddress, raw.remotePort),
+			localAddress: formatAddress(raw.localAddress, raw.localPort),
+		})
+	}
+
+	_onData(chunk: Uint8Array): void {
+		if (this._readableDone) return
+		this._reader.enqueue(new Uint8Array(chunk))
+	}
+
+	_onDrain(): void {
+		for (const wake of this._drainWaiters.splice(0)) wake()
+	}
+
+	/** The peer sent FIN. */
+	_onEnd(): void {
+		this._closeReadable()
+		if (!this._allowHalfOpen) this._raw?.end()
+	}
+
+	_onClose(error?: Error): void {
+		if (error) {
+			this._fail(error)
+			return
+		}
+		this._finish()
+		this._closeReadable()
+		this._rejectOpened(new Error('Socket closed before it was opened'))
+		this._resolveClosed()
+	}
+
+	_fail(error: Error): void {
+		this._finish()
+		if (!this._readableDone) {
+			this._readableDone = true
+			try {
+				this._reader.error(error)
+			} catch {}
+		}
+		this._rejectOpened(error)
+		this._rejectClosed(error)
+	}
+
+	private _finish(): void {
+		if (this._finished) return
+		this._finished = true
+		this._raw = null
+		this._release?.()
+		this._release = null
+		this._onDrain()
+	}
+
+	private _closeReadable(): void {
+		if (this._readableDone) return
+		this._readableDone = true
+		try {
+			this._reader.close()
+		} catch {}
+	}
+
+	private async _write(chunk: ArrayBuffer | ArrayBufferView): Promise<void> {
+		if (!ArrayBuffer.isView(chunk) && !(chunk instanceof ArrayBuffer)) {
+			throw new TypeError('Socket writable only accepts ArrayBuffer or ArrayBufferView chunks — encode strings with TextEncoder first')
+		}
+		await this.opened
+		let data = ArrayBuffer.isView(chunk) ? new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength) : new Uint8Array(chunk)
+		while (data.byteLength > 0) {
+			const raw = this._raw
+			if (!raw || this._upgraded) throw new Error('Socket is closed')
+			const written = raw.write(data)
+			if (written < 0) throw new Error('Socket is closed')
+			data = data.subarray(written)
+			if (data.byteLength > 0) await new Promise<void>(resolve => this._drainWaiters.push(resolve))
+		}
+	}
+
+	private async _endWrite(): Promise<void> {
+		await this.opened
+		// Bun's `shutdown()` without an argument sends FIN and keeps reading.
+		this._raw?.shutdown()
+	}
+}
+
+const HANDLERS: SocketHandler<Socket> = {
+	open: raw => raw.data._onOpen(raw),
+	data: (raw, chunk) => raw.data._onData(chunk),
+	drain: raw => raw.data._onDrain(),
+	end: raw => raw.data._onEnd(),
+	close: (raw, error) => raw.data._onClose(error),
+	error: (raw, error) => raw.data._fail(error),
+	connectError: (raw, error) => raw.data._fail(error),
+}
+
+/**
+ * Open a TCP connection — `import { connect } from 'cloudflare:sockets'`.
+ * `address` is `"host:port"` (`"[::1]:port"` for IPv6) or `{ hostname, port }`.
+ */
+export function connect(address: string | SocketAddress, options: SocketOptions = {}): Socket {
+	const endpoint = parseAddress(address)
+	if (endpoint.port === 25) {
+		throw new Error(`connect(): outbound connections to port 25 are not allowed — use the send_email binding instead`)
+	}
+	countSubrequest()
+	return openSocket(endpoint, options)
+}
+
+/**
+ * Open a socket to `endpoint` without counting a subrequest — for bindings
+ * (service binding `connect()`, Hyperdrive) that do their own accounting.
+ */
+export function openSocket(endpoint: SocketAddress | Promise<SocketAddress>, options: SocketOptions = {}): Socket {
+	const secureTransport = options.secureTransport ?? 'off'
+	if (!SECURE_TRANSPORTS.has(secureTransport)) {
+		throw new TypeError(`connect(): secureTransport must be 'off', 'on' or 'starttls', got '${secureTransport}'`)
+	}
+	const socket = new Socket(secureTransport, options.allowHalfOpen ?? false)
+	void socket._open(endpoint)
+	return socket
+}
+
+/**
+ * Accept a single connection on a loopback port and hand it to `onSocket` as a
+ * `Socket` — how a service binding's `connect()` reaches the target worker's
+ * `connect` handler. The listener closes after the first connection, or after
+ * a timeout when nobody connects.
+ */
+export function acceptConnection(onSocket: (socket: Socket) => void): SocketAddress {
+	let accepted = false
+	const listener = Bun.listen<Socket>({
+		hostname: '127.0.0.1',
+		port: 0,
+		// Replaced per connection in `open` — Bun wants a value of the data type up front.
+		data: undefined as unknown as Socket,
+		allowHalfOpen: true,
+		socket: {
+			...HANDLERS,
+			open: raw => {
+				if (accepted) {
+					raw.end()
+					return
+				}
+				accepted = true
+				clearTimeout(timer)
+				listener.stop()
+				// The connect handler decides when to end its side, so the accepted
+				// socket stays half-open like workerd's server-side sockets.
+				const socket = new Socket('off', true)
+				raw.data = socket
+				socket._onOpen(raw)
+				onSocket(socket)
+			},
+		},
+	})
+	const timer = setTimeout(() => listener.stop(), ACCEPT_TIMEOUT_MS)
+	return { hostname: '127.0.0.1', port: listener.port }
+}
+
+function parseAddress(address: string | SocketAddress): SocketAddress {
+	let endpoint: SocketAddress
+	if (typeof address === 'string') {
+		const match = /^(?:\[([^\]]+)\]|([^:[\]]+)):(\d+)$/.exec(address)
+		if (!match) throw new TypeError(`connect(): invalid address "${address}" — expected "host:port"`)
+		endpoint = { hostname: match[1] ?? match[2]!, port: Number(match[3]) }
+	} else {
+		endpoint = { hostname: address?.hostname, port: Number(address?.port) }
+	}
+	if (!endpoint.hostname) throw new TypeError('connect(): address needs a hostname')
+	if (!Number.isInteger(endpoint.port) || endpoint.port < 1 || endpoint.port > 65535) {
+		throw new TypeError(`connect(): invalid port ${typeof address === 'string' ? endpoint.port : String(address?.port)}`)
+	}
+	return endpoint
+}
+
+function formatAddress(host: string | undefined, port: number | undefined): string | undefined {
+	if (!host) return undefined
+	const name = host.includes(':') ? `[${host}]` : host
+	return port ? `${name}:${port}` : name
+}
+
+function tlsOptions(hostname: string): TLSOptions {
+	return { serverName: hostname, ca: trustedCertificates() }
+}
+
+/** System roots plus lopata's dev CA, when one has been generated. */
+function trustedCertificates(): string[] {
+	const devCa = join(certsDir(getDataDir()), 'ca.pem')
+	return existsSync(devCa) ? [...rootCertificates, readFileSync(devCa, 'utf8')] : [...rootCertificates]
+}
+
+function toError(e: unknown): Error {
+	return e instanceof Error ? e : new Error(String(e))
+}
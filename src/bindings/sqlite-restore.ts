@@ -0,0 +1,51 @@
+import type { Database } from 'bun:sqlite'
+
+function quoteIdent(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`
+}
+
+/**
+ * Replace every table, index, trigger and view of `db` with those of the SQLite
+ * file at `sourcePath` (null = leave it empty). Used to roll databases back to a
+ * snapshot: going through ATTACH rather than swapping the file keeps connections
+ * that other threads and processes hold (dev server, dashboard, CLI) valid.
+ */
+export function replaceDatabaseContents(db: Database, sourcePath: string | null): void {
+	const foreignKeys = (db.query('PRAGMA foreign_keys').get() as { foreign_keys: number }).foreign_keys
+	if (foreignKeys) db.run('PRAGMA foreign_keys = OFF')
+	if (sourcePath) db.run('ATTACH DATABASE ? AS snapshot', [sourcePath])
+	try {
+		db.transaction(() => {
+			const existing = db.query(
+				"SELECT type, name FROM main.sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'",
+			).all() as { type: string; name: string }[]
+			for (const { type, name } of existing) {
+				db.run(`DROP ${type === 'view' ? 'VIEW' : 'TABLE'} IF EXISTS main.${quoteIdent(name)}`)
+			}
+			if (db.query("SELECT 1 FROM main.sqlite_master WHERE name = 'sqlite_sequence'").get()) db.run('DELETE FROM main.sqlite_sequence')
+			if (!sourcePath) return
+
+			// Tables first (virtual tables before the shadow tables they create), then indexes, triggers and views.
+			const objects = db.query(
+				`SELECT type, name, sql FROM snapshot.sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+				 ORDER BY CASE WHEN type = 'table' AND sql LIKE 'CREATE VIRTUAL%' THEN 0 WHEN type = 'table' THEN 1 WHEN type = 'index' THEN 2 ELSE 3 END`,
+			).all() as { type: string; name: string; sql: string }[]
+			for (const { type, name, sql } of objects) {
+				if (db.query('SELECT 1 FROM main.sqlite_master WHERE name = ?').get(name)) continue
+				db.run(sql)
+				if (type !== 'table') continue
+				const columns = (db.query(`PRAGMA snapshot.table_xinfo(${quoteIdent(name)})`).all() as { name: string; hidden: number }[])
+					.filter(c => c.hidden === 0)
+					.map(c => quoteIdent(c.name))
+					.join(', ')
+				db.run(`INSERT INTO main.${quoteIdent(name)} (${columns}) SELECT ${columns} FROM snapshot.${quoteIdent(name)}`)
+			}
+			if (db.query("SELECT 1 FROM snapshot.sqlite_master WHERE name = 'sqlite_sequence'").get()) {
+				db.run('INSERT INTO main.sqlite_sequence SELECT * FROM snapshot.sqlite_sequence')
+			}
+		})()
+	} finally {
+		if (sourcePath) db.run('DETACH DATABASE snapshot')
+		if (foreignKeys) db.run('PRAGMA foreign_keys = ON')
+	}
+}
@@ -1,4 +1,4 @@
-import { readFileSync, statSync } from 'node:fs'
+import { existsSync, readFileSync, statSync } from 'node:fs'
 import path from 'node:path'
 
 export interface StaticAssetsConfig {
@@ -38,6 +38,27 @@ interface RedirectRule {
 
 const VALID_REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308, 200])
 
+const CACHE_CONTROL = 'public, max-age=0, must-revalidate'
+
+/** Content types Cloudflare compresses on the fly (text, scripts, data formats, SVG, WASM, uncompressed fonts). */
+const COMPRESSIBLE_TYPE =
+	/^(text\/|image\/svg\+xml|application\/(javascript|x-javascript|json|ld\+json|manifest\+json|xml|rss\+xml|atom\+xml|xhtml\+xml|wasm)|font\/(ttf|otf)|application\/vnd\.ms-fontobject)/
+
+type ContentEncoding = 'br' | 'gzip'
+
+/** Precompressed sibling file extension per encoding, in preference order. */
+const PRECOMPRESSED: Array<[ContentEncoding, string]> = [['br', '.br'], ['gzip', '.gz']]
+
+export interface AssetFetchOptions {
+	/**
+	 * Answer the way Cloudflare's edge answers the browser: negotiate
+	 * `Content-Encoding` (a precompressed `.br`/`.gz` sibling first, else on-the-fly
+	 * brotli/gzip for compressible types) and report `CF-Cache-Status`. Off for
+	 * `env.ASSETS.fetch()`, whose callers read the body as-is.
+	 */
+	edge?: boolean
+}
+
 /** Parsed rules plus the stat stamp of the file they came from (`null` = file absent). */
 interface RuleCache<T> {
 	stamp: string | null
@@ -85,6 +106,8 @@ export class StaticAssets {
 	private limits: Required<StaticAssetsLimits>
 	private headerRules: RuleCache<HeaderRule> | null = null
 	private redirectRules: RuleCache<RedirectRule> | null = null
+	/** Asset variants (path + ETag + encoding) already served at the edge — later requests report a cache HIT. */
+	private edgeCached = new Set<string>()
 
 	constructor(
 		directory: string,
@@ -98,7 +121,7 @@ export class StaticAssets {
 		this.limits = { ...STATIC_ASSETS_LIMITS_DEFAULTS, ...limits }
 	}
 
-	async fetch(input: Request | string | URL): Promise<Response> {
+	async fetch(input: Request | string | URL, options: AssetFetchOptions = {}): Promise<Response> {
 		const url = input instanceof Request ? new URL(input.url) : new URL(input)
 		const request = input instanceof Request ? input : undefined
 		let pathname = decodeURIComponent(url.pathname)
@@ -136,7 +159,7 @@ export class StaticAssets {
 		// Try to resolve the file
 		const resolved = await this.resolveFile(pathname)
 		if (resolved) {
-			return this.serveFile(resolved, 200, request, pathname)
+			return this.serveFile(resolved, 200, request, pathname, options)
 		}
 
 		// Not found handling
@@ -144,7 +167,7 @@ export class StaticAssets {
 			const indexPath = path.join(this.directory, 'index.html')
 			const indexFile = Bun.file(indexPath)
 			if (await indexFile.exists()) {
-				return this.serveFile(indexPath, 200, request, pathname)
+				return this.serveFile(indexPath, 200, request, pathname, options)
 			}
 		}
 
@@ -152,7 +175,7 @@ export class StaticAssets {
 			// Hierarchical 404.html: search up from the requested path
 			const notFoundPath = await this.findNearest404(pathname)
 			if (notFoundPath) {
-				return this.serveFile(notFoundPath, 404, request, pathname)
+				return this.serveFile(notFoundPath, 404, request, pathname, options)
 			}
 		}
 
@@ -318,6 +341,14 @@ export class StaticAssets {
 		}
 	}
 
+	private lastModified(filePath: string): number {
+		try {
+			return statSync(filePath).mtimeMs
+		} catch {
+			return Date.now()
+		}
+	}
+
 	private getHeaderRules(): HeaderRule[] {
 		const headersPath = path.join(this.directory, '_headers')
 		const stamp = this.ruleFileStamp(headersPath)
@@ -343,39 +374,179 @@ export class StaticAssets {
 		}
 	}
 
-	private serveFile(filePath: string, status: number, request?: Request, pathname?: string): Response {
+	private serveFile(filePath: string, status: number, request?: Request, pathname?: string, options: AssetFetchOptions = {}): Response {
 		const file = Bun.file(filePath)
 		const etag = this.computeETag(filePath)
+		const headers = new Headers({ 'Content-Type': file.type, 'Cache-Control': CACHE_CONTROL })
+
+		// Compression only happens at the edge, and only for types it applies to (or
+		// where the build shipped precompressed siblings).
+		const siblings = options.edge ? PRECOMPRESSED.filter(([, ext]) => existsSync(filePath + ext)) : []
+		const encodable = options.edge === true && (COMPRESSIBLE_TYPE.test(file.type) || siblings.length > 0)
+		if (encodable) headers.set('Vary', 'Accept-Encoding')
+
+		// Range requests are answered from the identity representation (Cloudflare
+		// doesn't compress partial content). `If-Range` drops back to a full response
+		// when the client's copy is stale.
+		const rangeHeader = status === 200 && request ? request.headers.get('Range') : null
+		const ranges = rangeHeader && ifRangeMatches(request!.headers.get('If-Range'), etag, this.lastModified(filePath))
+			? parseRange(rangeHeader, file.size)
+			: null
+
+		const encoding = encodable && request && !ranges ? negotiateEncoding(request.headers.get('Accept-Encoding')) : null
+		// A precompressed sibling for an accepted encoding beats compressing on the fly.
+		const sibling = request && encodable && !ranges ? siblings.find(([enc]) => acceptsEncoding(request.headers.get('Accept-Encoding'), enc)) : undefined
+		const contentEncoding = sibling?.[0] ?? encoding
+		// Cloudflare weakens the ETag of any response it (re)compresses.
+		const variantEtag = contentEncoding ? `W/${etag}` : etag
+		headers.set('ETag', variantEtag)
+		if (options.edge) {
+			const key = `${filePath}\0${etag}\0${contentEncoding ?? 'identity'}`
+			headers.set('CF-Cache-Status', this.edgeCached.has(key) ? 'HIT' : 'MISS')
+			this.edgeCached.add(key)
+		}
 
 		// Check If-None-Match for conditional requests
-		if (request) {
-			const ifNoneMatch = request.headers.get('If-None-Match')
-			if (ifNoneMatch && ifNoneMatch === etag) {
-				return new Response(null, {
-					status: 304,
-					headers: {
-						'ETag': etag,
-						'Cache-Control': 'public, max-age=0, must-revalidate',
-					},
-				})
+		if (request && etagListMatches(request.headers.get('If-None-Match'), variantEtag)) {
+			const notModified = new Headers({ 'ETag': variantEtag, 'Cache-Control': CACHE_CONTROL })
+			for (const name of ['Vary', 'CF-Cache-Status']) {
+				const value = headers.get(name)
+				if (value) notModified.set(name, value)
 			}
+			return new Response(null, { status: 304, headers: notModified })
 		}
 
-		const headers = new Headers({
-			'Content-Type': file.type,
-			'ETag': etag,
-			'Cache-Control': 'public, max-age=0, must-revalidate',
-		})
-
 		// Apply _headers rules
 		if (pathname) {
 			this.applyHeaderRules(pathname, headers)
 		}
 
+		if (ranges === 'unsatisfiable') {
+			headers.set('Content-Range', `bytes */${file.size}`)
+			headers.delete('Content-Type')
+			return new Response(null, { status: 416, headers })
+		}
+		if (ranges) {
+			return rangeResponse(file, ranges, headers)
+		}
+		if (status === 200 && !contentEncoding) headers.set('Accept-Ranges', 'bytes')
+
+		if (sibling) {
+			headers.set('Content-Encoding', sibling[0])
+			return new Response(Bun.file(filePath + sibling[1]), { status, headers })
+		}
+		if (encoding) {
+			headers.set('Content-Encoding', encoding)
+			const format = (encoding === 'br' ? 'brotli' : 'gzip') as ConstructorParameters<typeof CompressionStream>[0]
+			return new Response(file.stream().pipeThrough(new CompressionStream(format)), { status, headers })
+		}
 		return new Response(file, { status, headers })
 	}
 }
 
+/** Weak comparison against an `If-None-Match` list (`*` matches anything). */
+function etagListMatches(header: string | null, etag: string): boolean {
+	if (!header) return false
+	const bare = etag.replace(/^W\//, '')
+	return header.split(',').some(candidate => {
+		const value = candidate.trim()
+		return value === '*' || value.replace(/^W\//, '') === bare
+	})
+}
+
+/** `If-Range` holds an ETag (strong comparison) or an HTTP date; absent means the range applies. */
+function ifRangeMatches(header: string | null, etag: string, lastModifiedMs: number): boolean {
+	if (!header) return true
+	const value = header.trim()
+	if (value.startsWith('"') || value.startsWith('W/')) return value === etag
+	const date = Date.parse(value)
+	// HTTP dates have second precision
+	return !Number.isNaN(date) && Math.floor(lastModifiedMs / 1000) * 1000 <= date
+}
+
+/**
+ * Parse a `Range: bytes=...` header into inclusive [start, end] pairs.
+ * Returns null for syntax the server should ignore (serving the full body) and
+ * 'unsatisfiable' when no range overlaps the file.
+ */
+export function parseRange(header: string, size: number): Array<[number, number]> | 'unsatisfiable' | null {
+	const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header)
+	if (!match) return null
+	const ranges: Array<[number, number]> = []
+	for (const part of match[1]!.split(',')) {
+		const spec = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(part)
+		if (!spec || (spec[1] === '' && spec[2] === '')) return null
+		if (spec[1] === '') {
+			// Suffix range: the last N bytes
+			const length = Number(spec[2])
+			if (length > 0 && size > 0) ranges.push([Math.max(0, size - length), size - 1])
+			continue
+		}
+		const start = Number(spec[1])
+		const end = spec[2] === '' ? size - 1 : Math.min(Number(spec[2]), size - 1)
+		if (spec[2] !== '' && Number(spec[2]) < start) return null
+		if (start < size) ranges.push([start, end])
+	}
+	return ranges.length > 0 ? ranges : 'unsatisfiable'
+}
+
+function rangeResponse(file: Blob, ranges: Array<[number, number]>, headers: Headers): Response {
+	const size = file.size
+	if (ranges.length === 1) {
+		const [start, end] = ranges[0]!
+		headers.set('Content-Range', `bytes ${start}-${end}/${size}`)
+		headers.set('Accept-Ranges', 'bytes')
+		return new Response(file.slice(start, end + 1), { status: 206, headers })
+	}
+	const boundary = `lopata-${crypto.randomUUID()}`
+	const contentType = headers.get('Content-Type') ?? 'application/octet-stream'
+	const parts: Array<string | Blob> = []
+	for (const [start, end] of ranges) {
+		parts.push(`\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`)
+		parts.push(file.slice(start, end + 1))
+	}
+	parts.push(`\r\n--${boundary}--\r\n`)
+	headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`)
+	headers.set('Accept-Ranges', 'bytes')
+	// `new Blob()` can't hold file-backed slices, so stream the parts one by one.
+	const encoder = new TextEncoder()
+	let index = 0
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const part = parts[index++]
+			if (part === undefined) return controller.close()
+			controller.enqueue(typeof part === 'string' ? encoder.encode(part) : new Uint8Array(await part.arrayBuffer()))
+		},
+	})
+	return new Response(body, { status: 206, headers })
+}
+
+/** q-value the client gives `encoding` in `Accept-Encoding` (0 when unacceptable). */
+function encodingQuality(header: string | null, encoding: string): number {
+	if (!header) return 0
+	let wildcard = 0
+	for (const entry of header.split(',')) {
+		const [name, ...params] = entry.trim().toLowerCase().split(';')
+		const q = params.map(p => /^\s*q\s*=\s*([\d.]+)\s*$/.exec(p)).find(Boolean)
+		const quality = q ? Number(q[1]) : 1
+		if (name === encoding) return quality
+		if (name === '*') wildcard = quality
+	}
+	return wildcard
+}
+
+function acceptsEncoding(header: string | null, encoding: ContentEncoding): boolean {
+	return encodingQuality(header, encoding) > 0
+}
+
+/** Pick brotli or gzip per `Accept-Encoding`, preferring brotli on equal quality; null for identity. */
+function negotiateEncoding(header: string | null): ContentEncoding | null {
+	const br = encodingQuality(header, 'br')
+	const gzip = encodingQuality(header, 'gzip')
+	if (br <= 0 && gzip <= 0) return null
+	return br >= gzip ? 'br' : 'gzip'
+}
+
 /**
  * Parse a _headers file into rules.
  * Format:
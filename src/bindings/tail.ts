@@ -0,0 +1,312 @@
+/**
+ * Tail Workers (`tail_consumers`). After every invocation of a producer worker,
+ * Cloudflare hands each of its tail consumers a batch of `TraceItem`s through the
+ * consumer's `tail()` handler.
+ *
+ * Everything a TraceItem carries is already in the trace store: console calls are
+ * span events, uncaught errors are `exception` events and rows in the errors table,
+ * and the outcome follows from those. The forwarder subscribes to the main-thread
+ * store; when a producer's root span ends it queues the trace for each consumer, and
+ * a short batch window later builds the items and delivers them — late enough that
+ * errors persisted right after the span ended are included.
+ */
+
+import type { WranglerConfig } from '../config'
+import { getActiveContext } from '../tracing/context'
+import { persistError, startSpan } from '../tracing/span'
+import { getTraceStore, type TraceStore } from '../tracing/store'
+import type { SpanData } from '../tracing/types'
+import type { WorkerRegistry } from '../worker-registry'
+
+export interface TailLog {
+	timestamp: number
+	level: string
+	message: unknown[]
+}
+
+export interface TailException {
+	timestamp: number
+	name: string
+	message: string
+	stack?: string
+}
+
+export interface TailRequestInfo {
+	url: string
+	method: string
+	headers: Record<string, string>
+	cf?: Record<string, unknown>
+}
+
+/** `event.request` of a fetch TailItem. Sensitive headers are redacted unless unwrapped. */
+export interface TailRequest extends TailRequestInfo {
+	getUnredacted(): TailRequestInfo
+}
+
+export interface TailFetchEventInfo {
+	request: TailRequestInfo
+	response?: { status: number }
+}
+
+export interface TailScheduledEventInfo {
+	cron: string
+	scheduledTime: number
+}
+
+export interface TailQueueEventInfo {
+	queue: string
+	batchSize: number
+}
+
+export interface TailEmailEventInfo {
+	mailFrom: string
+	rcptTo: string
+	rawSize: number
+}
+
+export type TailEventInfo = TailFetchEventInfo | TailScheduledEventInfo | TailQueueEventInfo | TailEmailEventInfo
+
+export interface TailItem {
+	scriptName: string | null
+	event: TailEventInfo | null
+	eventTimestamp: number | null
+	logs: TailLog[]
+	exceptions: TailException[]
+	diagnosticsChannelEvents: unknown[]
+	outcome: 'ok' | 'exception'
+	executionModel: 'stateless' | 'durableObject'
+	truncated: boolean
+	cpuTime: number
+	wallTime: number
+}
+
+export type TailConsumerConfig = NonNullable<WranglerConfig['tail_consumers']>[number]
+
+const BATCH_WINDOW_MS = 100
+const MAX_BATCH_SIZE = 100
+const MAX_PENDING_REQUESTS = 1000
+const REDACTED_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie'])
+
+/** Root-span attribute marking a tail invocation — never tailed itself, which would loop. */
+const TAIL_BATCH_ATTRIBUTE = 'tail.batch_size'
+
+// Incoming request details keyed by trace id. Root fetch spans only carry method +
+// URL, so `Generation.callFetch` records the rest while a forwarder is running.
+const tailRequests = new Map<string, TailRequestInfo>()
+let forwarding = false
+
+/** Remember the incoming request of the active trace for its fetch TailItem. No-op unless tailing. */
+export function recordTailRequest(request: Request): void {
+	if (!forwarding) return
+	const ctx = getActiveContext()
+	if (!ctx) return
+	if (tailRequests.size >= MAX_PENDING_REQUESTS) {
+		const oldest = tailRequests.keys().next().value
+		if (oldest !== undefined) tailRequests.delete(oldest)
+	}
+	const cf = (request as { cf?: Record<string, unknown> }).cf
+	tailRequests.set(ctx.traceId, {
+		url: request.url,
+		method: request.method,
+		headers: Object.fromEntries(request.headers),
+		...(cf ? { cf } : {}),
+	})
+}
+
+function eventInfo(root: SpanData, request: TailRequestInfo | undefined): TailEventInfo | null {
+	const attrs = root.attributes
+	if (typeof attrs['http.method'] === 'string') {
+		const status = attrs['http.status_code']
+		return {
+			request: request ?? { url: String(attrs['http.url'] ?? ''), method: attrs['http.method'], headers: {} },
+			...(typeof status === 'number' ? { response: { status } } : {}),
+		}
+	}
+	if (typeof attrs.cron === 'string') {
+		return { cron: attrs.cron, scheduledTime: root.startTime }
+	}
+	if (typeof attrs['messaging.queue'] === 'string') {
+		return { queue: attrs['messaging.queue'], batchSize: Number(attrs['messaging.batch_size'] ?? 0) }
+	}
+	if (typeof attrs['email.from'] === 'string') {
+		return { mailFrom: attrs['email.from'], rcptTo: String(attrs['email.to'] ?? ''), rawSize: Number(attrs['email.raw_size'] ?? 0) }
+	}
+	return null
+}
+
+/** Build the TraceItem for a finished invocation from its trace. */
+export function buildTailItem(store: TraceStore, root: SpanData, scriptName: string | null, request?: TailRequestInfo): TailItem {
+	const { events } = store.getTrace(root.traceId)
+	// `[lopata] …` lines are the dev server's own diagnostics, not the worker's output.
+	const logs = events
+		.filter(e => e.name.startsWith('console.') && !e.message?.startsWith('[lopata]'))
+		.map(e => ({ timestamp: e.timestamp, level: e.level ?? e.name.slice('console.'.length), message: [e.message ?? ''] }))
+
+	// Handler errors land in the errors table (persistError) and/or as `exception`
+	// events on the span that threw. console.error is a log, not an exception.
+	const exceptions: TailException[] = []
+	const seen = new Set<string>()
+	const addException = (exception: TailException) => {
+		const key = `${exception.name}\0${exception.message}`
+		if (seen.has(key)) return
+		seen.add(key)
+		exceptions.push(exception)
+	}
+	for (const err of store.getErrorsForTrace(root.traceId)) {
+		if (err.source === 'console.error') continue
+		const stack = (err.data as { error?: { stack?: string } } | null)?.error?.stack
+		addException({ timestamp: err.timestamp, name: err.errorName, message: err.errorMessage, ...(stack ? { stack } : {}) })
+	}
+	for (const e of events) {
+		if (e.name !== 'exception' || e.spanId !== root.spanId) continue
+		const stack = typeof e.attributes.stack === 'string' ? e.attributes.stack : undefined
+		const name = stack?.match(/^(\w*Error)\b/)?.[1] ?? 'Error'
+		addException({ timestamp: e.timestamp, name, message: e.message ?? '', ...(stack ? { stack } : {}) })
+	}
+
+	return {
+		scriptName,
+		event: eventInfo(root, request),
+		eventTimestamp: root.startTime,
+		logs,
+		exceptions,
+		diagnosticsChannelEvents: [],
+		outcome: exceptions.length > 0 ? 'exception' : 'ok',
+		executionModel: root.attributes['do.namespace'] !== undefined ? 'durableObject' : 'stateless',
+		truncated: false,
+		// Measured by InvocationMeter, which only runs with opt-in limits on.
+		cpuTime: typeof root.attributes['lopata.cpu_ms'] === 'number' ? root.attributes['lopata.cpu_ms'] : 0,
+		wallTime: root.durationMs ?? 0,
+	}
+}
+
+function redactRequest(info: TailRequestInfo): TailRequest {
+	const headers: Record<string, string> = {}
+	for (const [name, value] of Object.entries(info.headers)) {
+		headers[name] = REDACTED_HEADERS.has(name.toLowerCase()) ? 'REDACTED' : value
+	}
+	return { ...info, headers, getUnredacted: () => info }
+}
+
+/** Rehydrate items received over postMessage: fetch requests regain `getUnredacted()`. */
+export function toTailEvents(items: TailItem[]): TailItem[] {
+	return items.map(item => {
+		const event = item.event
+		if (!event || !('request' in event)) return item
+		return { ...item, event: { ...event, request: redactRequest(event.request) } }
+	})
+}
+
+/**
+ * Routes finished invocations of workers with `tail_consumers` to the consumers'
+ * `tail()` handlers. Consumers are resolved by service name in the WorkerRegistry,
+ * like service bindings; one that isn't registered is warned about once.
+ */
+export class TailForwarder {
+	private pending = new Map<string, SpanData[]>()
+	private timer: ReturnType<typeof setTimeout> | null = null
+	private warned = new Set<string>()
+	private unsubscribe: () => void
+
+	constructor(private registry: WorkerRegistry, private store: TraceStore = getTraceStore()) {
+		forwarding = true
+		this.unsubscribe = store.subscribe(event => {
+			if (event.type === 'span.end') this.onSpanEnd(event.span)
+		})
+	}
+
+	private onSpanEnd(span: SpanData): void {
+		if (span.parentSpanId || !span.workerName || span.attributes[TAIL_BATCH_ATTRIBUTE] !== undefined) return
+		const consumers = this.consumersOf(span.workerName)
+		if (!consumers.length) {
+			tailRequests.delete(span.traceId)
+			return
+		}
+		for (const consumer of consumers) {
+			const queue = this.pending.get(consumer.service) ?? []
+			queue.push(span)
+			this.pending.set(consumer.service, queue)
+		}
+		this.timer ??= setTimeout(() => void this.flush(), BATCH_WINDOW_MS)
+	}
+
+	private consumersOf(workerName: string): TailConsumerConfig[] {
+		return this.registry.getManager(workerName)?.config.tail_consumers ?? []
+	}
+
+	/** Build and deliver everything queued so far. */
+	async flush(): Promise<void> {
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = null
+		}
+		const pending = this.pending
+		this.pending = new Map()
+		const built = new Map<string, TailItem>()
+		const deliveries: Promise<void>[] = []
+		for (const [consumer, spans] of pending) {
+			const items = spans.map(span => {
+				let item = built.get(span.spanId)
+				if (!item) {
+					const scriptName = this.registry.getManager(span.workerName!)?.config.name ?? span.workerName
+					item = buildTailItem(this.store, span, scriptName, tailRequests.get(span.traceId))
+					built.set(span.spanId, item)
+				}
+				return item
+			})
+			for (let i = 0; i < items.length; i += MAX_BATCH_SIZE) {
+				deliveries.push(this.deliver(consumer, items.slice(i, i + MAX_BATCH_SIZE)))
+			}
+		}
+		for (const spans of pending.values()) {
+			for (const span of spans) tailRequests.delete(span.traceId)
+		}
+		await Promise.all(deliveries)
+	}
+
+	private async deliver(consumer: string, items: TailItem[]): Promise<void> {
+		const target = (() => {
+			try {
+				return this.registry.resolveTarget(consumer)
+			} catch (err) {
+				this.warnOnce(consumer, `[lopata] Tail consumer "${consumer}" is unavailable: ${err instanceof Error ? err.message : String(err)}`)
+				return null
+			}
+		})()
+		if (!target) return
+		if (target.kind !== 'thread') {
+			this.warnOnce(consumer, `[lopata] Tail consumer "${consumer}" has no worker script to run a tail() handler`)
+			return
+		}
+		try {
+			await startSpan({
+				name: 'tail',
+				kind: 'server',
+				attributes: { [TAIL_BATCH_ATTRIBUTE]: items.length },
+				workerName: consumer,
+				newTrace: true,
+			}, async () => {
+				const result = await target.executor.executeTail(items)
+				if (!result.ok) this.warnOnce(consumer, `[lopata] Tail consumer "${consumer}" does not export a tail() handler`)
+			})
+		} catch (err) {
+			console.error(`[lopata] Tail handler error (${consumer}):`, err)
+			persistError(err, 'tail', consumer)
+		}
+	}
+
+	private warnOnce(consumer: string, message: string): void {
+		if (this.warned.has(consumer)) return
+		this.warned.add(consumer)
+		console.warn(message)
+	}
+
+	stop(): void {
+		this.unsubscribe()
+		if (this.timer) clearTimeout(this.timer)
+		this.timer = null
+		this.pending.clear()
+		tailRequests.clear()
+		forwarding = false
+	}
+}
@@ -0,0 +1,430 @@
+/**
+ * Local implementation of the Vectorize binding (`vectorize` config, V2 API).
+ *
+ * Indexes and vectors live in SQLite; values are stored as float32 like on
+ * Cloudflare. Queries are brute force — every vector of the index (or of one
+ * namespace) is scored in JS — which is plenty for dev-scale data.
+ *
+ * Cloudflare indexes are created out of band (`wrangler vectorize create`) with
+ * fixed dimensions and metric. Locally `lopata vectorize create` does the same;
+ * an index that doesn't exist yet is created on its first write, with the
+ * dimensions of the first vector and the cosine metric, so RAG code runs without
+ * a setup step. Mutations are applied immediately rather than asynchronously.
+ */
+
+import type { Database } from 'bun:sqlite'
+
+export type VectorizeDistanceMetric = 'cosine' | 'euclidean' | 'dot-product'
+
+export const VECTORIZE_METRICS: VectorizeDistanceMetric[] = ['cosine', 'euclidean', 'dot-product']
+
+export type VectorizeMetadataValue = string | number | boolean | null | VectorizeMetadataValue[] | { [key: string]: VectorizeMetadataValue }
+export type VectorizeMetadata = Record<string, VectorizeMetadataValue>
+
+export interface VectorizeVector {
+	id: string
+	values: number[] | Float32Array | Float64Array
+	namespace?: string
+	metadata?: VectorizeMetadata
+}
+
+export interface VectorizeMatch {
+	id: string
+	score: number
+	values?: number[]
+	metadata?: VectorizeMetadata
+	namespace?: string
+}
+
+export type VectorizeFilterValue = string | number | boolean | null
+export type VectorizeFilterOperator = '$eq' | '$ne' | '$in' | '$nin' | '$lt' | '$lte' | '$gt' | '$gte'
+export type VectorizeFilter = Record<
+	string,
+	VectorizeFilterValue | Partial<Record<VectorizeFilterOperator, VectorizeFilterValue | VectorizeFilterValue[]>>
+>
+
+export interface VectorizeQueryOptions {
+	topK?: number
+	namespace?: string
+	returnValues?: boolean
+	returnMetadata?: boolean | 'none' | 'indexed' | 'all'
+	filter?: VectorizeFilter
+}
+
+export interface VectorizeIndexConfig {
+	name: string
+	dimensions: number
+	metric: VectorizeDistanceMetric
+	description: string | null
+	createdAt: number
+}
+
+export interface VectorizeIndexInfo {
+	vectorCount: number
+	dimensions: number
+	processedUpToDatetime: number
+	processedUpToMutation: number
+}
+
+const MAX_ID_BYTES = 64
+const MAX_NAMESPACE_BYTES = 64
+const MAX_METADATA_BYTES = 10 * 1024
+const MAX_BATCH = 1000
+const MAX_DIMENSIONS = 1536
+const MAX_TOP_K = 100
+/** topK limit when values or all metadata are returned */
+const MAX_TOP_K_WITH_DATA = 50
+const DEFAULT_TOP_K = 5
+
+const FILTER_OPERATORS: VectorizeFilterOperator[] = ['$eq', '$ne', '$in', '$nin', '$lt', '$lte', '$gt', '$gte']
+
+interface VectorRow {
+	id: string
+	namespace: string | null
+	vals: Uint8Array
+	metadata: string | null
+}
+
+interface IndexRow {
+	name: string
+	dimensions: number
+	metric: VectorizeDistanceMetric
+	description: string | null
+	created_at: number
+	mutation_count: number
+	processed_at: number | null
+}
+
+// ─── Index management (CLI, dashboard) ──────────────────────────────
+
+export function getVectorizeIndex(db: Database, name: string): VectorizeIndexConfig | null {
+	const row = db.query<IndexRow, [string]>('SELECT * FROM vectorize_indexes WHERE name = ?').get(name)
+	return row ? toIndexConfig(row) : null
+}
+
+export function listVectorizeIndexes(db: Database): (VectorizeIndexConfig & { vectorCount: number })[] {
+	return db.query<IndexRow & { vector_count: number }, []>(
+		`SELECT i.*, (SELECT COUNT(*) FROM vectorize_vectors v WHERE v.index_name = i.name) AS vector_count
+		 FROM vectorize_indexes i ORDER BY i.name`,
+	).all().map(row => ({ ...toIndexConfig(row), vectorCount: row.vector_count }))
+}
+
+export function createVectorizeIndex(
+	db: Database,
+	name: string,
+	options: { dimensions: number; metric: VectorizeDistanceMetric; description?: string },
+): VectorizeIndexConfig {
+	if (!/^[a-z0-9][a-z0-9-]{0,63}$/.test(name)) {
+		throw new Error(`Vectorize index name "${name}" must be lowercase letters, digits and dashes (max 64)`)
+	}
+	validateDimensions(options.dimensions)
+	if (!VECTORIZE_METRICS.includes(options.metric)) {
+		throw new Error(`Vectorize metric must be one of ${VECTORIZE_METRICS.join(', ')}`)
+	}
+	if (getVectorizeIndex(db, name)) throw new Error(`Vectorize index "${name}" already exists`)
+	db.run(
+		'INSERT INTO vectorize_indexes (name, dimensions, metric, description, created_at) VALUES (?, ?, ?, ?, ?)',
+		[name, options.dimensions, options.metric, options.description ?? null, Date.now()],
+	)
+	return getVectorizeIndex(db, name)!
+}
+
+/** Drop an index with all its vectors. Returns false when it didn't exist. */
+export function deleteVectorizeIndex(db: Database, name: string): boolean {
+	return db.transaction(() => {
+		db.run('DELETE FROM vectorize_vectors WHERE index_name = ?', [name])
+		return db.run('DELETE FROM vectorize_indexes WHERE name = ?', [name]).changes > 0
+	})()
+}
+
+function toIndexConfig(row: IndexRow): VectorizeIndexConfig {
+	return { name: row.name, dimensions: row.dimensions, metric: row.metric, description: row.description, createdAt: row.created_at }
+}
+
+function validateDimensions(dimensions: number): void {
+	if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_DIMENSIONS) {
+		throw new Error(`Vectorize dimensions must be an integer between 1 and ${MAX_DIMENSIONS}`)
+	}
+}
+
+// ─── Binding ────────────────────────────────────────────────────────
+
+export class SqliteVectorizeIndex {
+	private db: Database
+	private indexName: string
+
+	constructor(db: Database, indexName: string) {
+		this.db = db
+		this.indexName = indexName
+	}
+
+	async describe(): Promise<VectorizeIndexInfo> {
+		const row = this.requireIndex()
+		const count = this.db.query<{ cnt: number }, [string]>('SELECT COUNT(*) AS cnt FROM vectorize_vectors WHERE index_name = ?')
+			.get(this.indexName)!.cnt
+		return {
+			vectorCount: count,
+			dimensions: row.dimensions,
+			processedUpToDatetime: row.processed_at ?? row.created_at,
+			processedUpToMutation: row.mutation_count,
+		}
+	}
+
+	/** Insert vectors; ids that already exist are left untouched. */
+	async insert(vectors: VectorizeVector[]): Promise<{ mutationId: string }> {
+		return this.write(vectors, 'INSERT OR IGNORE')
+	}
+
+	/** Insert vectors, replacing existing ones with the same id. */
+	async upsert(vectors: VectorizeVector[]): Promise<{ mutationId: string }> {
+		return this.write(vectors, 'INSERT OR REPLACE')
+	}
+
+	async query(vector: number[] | Float32Array | Float64Array, options?: VectorizeQueryOptions): Promise<{ matches: VectorizeMatch[]; count: number }> {
+		const index = this.lookupIndex()
+		if (!index) return { matches: [], count: 0 }
+		const query = Array.from(vector)
+		if (query.length !== index.dimensions) {
+			throw new Error(`Vectorize index "${this.indexName}": query vector has ${query.length} dimensions, index expects ${index.dimensions}`)
+		}
+		return this.search(index, query, options)
+	}
+
+	/** Query with the values of a stored vector. */
+	async queryById(vectorId: string, options?: VectorizeQueryOptions): Promise<{ matches: VectorizeMatch[]; count: number }> {
+		const index = this.lookupIndex()
+		const row = this.db.query<VectorRow, [string, string]>('SELECT * FROM vectorize_vectors WHERE index_name = ? AND id = ?')
+			.get(this.indexName, vectorId)
+		if (!index || !row) return { matches: [], count: 0 }
+		return this.search(index, decodeValues(row.vals), options)
+	}
+
+	async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+		if (ids.length === 0) return []
+		const rows = this.db.query<VectorRow, string[]>(
+			`SELECT * FROM vectorize_vectors WHERE index_name = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+		).all(this.indexName, ...ids)
+		const byId = new Map(rows.map(row => [row.id, row]))
+		return ids.flatMap(id => {
+			const row = byId.get(id)
+			if (!row) return []
+			const vector: VectorizeVector = { id: row.id, values: decodeValues(row.vals) }
+			if (row.namespace !== null) vector.namespace = row.namespace
+			if (row.metadata !== null) vector.metadata = JSON.parse(row.metadata)
+			return [vector]
+		})
+	}
+
+	async deleteByIds(ids: string[]): Promise<{ mutationId: string }> {
+		this.requireIndex()
+		return this.db.transaction(() => {
+			const del = this.db.prepare('DELETE FROM vectorize_vectors WHERE index_name = ? AND id = ?')
+			for (const id of ids) del.run(this.indexName, id)
+			return { mutationId: this.recordMutation() }
+		})()
+	}
+
+	private write(vectors: VectorizeVector[], verb: 'INSERT OR IGNORE' | 'INSERT OR REPLACE'): { mutationId: string } {
+		if (!Array.isArray(vectors)) throw new TypeError('Vectorize: expected an array of vectors')
+		if (vectors.length > MAX_BATCH) throw new Error(`Vectorize: at most ${MAX_BATCH} vectors can be written per call`)
+		if (vectors.length === 0) return { mutationId: crypto.randomUUID() }
+
+		const index = this.lookupIndex() ?? this.autoCreate(vectors)
+		const rows = vectors.map(v => this.validateVector(v, index.dimensions))
+		return this.db.transaction(() => {
+			const stmt = this.db.prepare(`${verb} INTO vectorize_vectors (index_name, id, namespace, vals, metadata) VALUES (?, ?, ?, ?, ?)`)
+			for (const row of rows) stmt.run(this.indexName, row.id, row.namespace, row.vals, row.metadata)
+			return { mutationId: this.recordMutation() }
+		})()
+	}
+
+	private validateVector(vector: VectorizeVector, dimensions: number): VectorRow {
+		if (typeof vector?.id !== 'string' || vector.id === '') throw new TypeError('Vectorize: every vector needs a string id')
+		if (byteLength(vector.id) > MAX_ID_BYTES) throw new Error(`Vectorize: vector id "${vector.id}" exceeds ${MAX_ID_BYTES} bytes`)
+		const values = Array.from(vector.values ?? [])
+		if (values.length !== dimensions) {
+			throw new Error(`Vectorize index "${this.indexName}": vector "${vector.id}" has ${values.length} dimensions, index expects ${dimensions}`)
+		}
+		if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+			throw new Error(`Vectorize: vector "${vector.id}" contains non-numeric values`)
+		}
+		if (vector.namespace !== undefined && byteLength(vector.namespace) > MAX_NAMESPACE_BYTES) {
+			throw new Error(`Vectorize: namespace of vector "${vector.id}" exceeds ${MAX_NAMESPACE_BYTES} bytes`)
+		}
+		let metadata: string | null = null
+		if (vector.metadata !== undefined) {
+			metadata = JSON.stringify(vector.metadata)
+			if (byteLength(metadata) > MAX_METADATA_BYTES) {
+				throw new Error(`Vectorize: metadata of vector "${vector.id}" exceeds ${MAX_METADATA_BYTES} bytes`)
+			}
+		}
+		return { id: vector.id, namespace: vector.namespace ?? null, vals: new Uint8Array(new Float32Array(values).buffer), metadata }
+	}
+
+	private search(index: IndexRow, query: number[], options: VectorizeQueryOptions = {}): { matches: VectorizeMatch[]; count: number } {
+		const returnValues = options.returnValues ?? false
+		const returnMetadata = options.returnMetadata === true ? 'all' : options.returnMetadata || 'none'
+		const topK = options.topK ?? DEFAULT_TOP_K
+		const maxTopK = returnValues || returnMetadata === 'all' ? MAX_TOP_K_WITH_DATA : MAX_TOP_K
+		if (!Number.isInteger(topK) || topK < 1 || topK > maxTopK) {
+			throw new Error(`Vectorize: topK must be between 1 and ${maxTopK}${maxTopK === MAX_TOP_K ? '' : ' when returning values or all metadata'}`)
+		}
+		const matchesFilter = options.filter ? compileFilter(options.filter) : null
+
+		let sql = 'SELECT * FROM vectorize_vectors WHERE index_name = ?'
+		const params = [this.indexName]
+		if (options.namespace !== undefined) {
+			sql += ' AND namespace = ?'
+			params.push(options.namespace)
+		}
+		const score = SCORERS[index.metric]
+		const scored: { row: VectorRow; values: number[]; score: number }[] = []
+		for (const row of this.db.query<VectorRow, string[]>(sql).all(...params)) {
+			if (matchesFilter && !matchesFilter(row.metadata === null ? {} : JSON.parse(row.metadata))) continue
+			const values = decodeValues(row.vals)
+			scored.push({ row, values, score: score(query, values) })
+		}
+		// Euclidean scores are distances — closest first; the others are similarities.
+		scored.sort((a, b) => index.metric === 'euclidean' ? a.score - b.score : b.score - a.score)
+
+		const matches = scored.slice(0, topK).map(({ row, values, score }) => {
+			const match: VectorizeMatch = { id: row.id, score }
+			if (returnValues) match.values = values
+			if (returnMetadata !== 'none' && row.metadata !== null) match.metadata = JSON.parse(row.metadata)
+			if (row.namespace !== null) match.namespace = row.namespace
+			return match
+		})
+		return { matches, count: matches.length }
+	}
+
+	private autoCreate(vectors: VectorizeVector[]): IndexRow {
+		const dimensions = vectors[0] ? Array.from(vectors[0].values ?? []).length : 0
+		createVectorizeIndex(this.db, this.indexName, { dimensions, metric: 'cosine' })
+		console.warn(
+			`[lopata] Vectorize index "${this.indexName}" created with ${dimensions} dimensions and the cosine metric — `
+				+ `run "lopata vectorize create ${this.indexName} --dimensions ${dimensions} --metric <metric>" first to choose another metric`,
+		)
+		return this.lookupIndex()!
+	}
+
+	private recordMutation(): string {
+		this.db.run('UPDATE vectorize_indexes SET mutation_count = mutation_count + 1, processed_at = ? WHERE name = ?', [
+			Date.now(),
+			this.indexName,
+		])
+		return crypto.randomUUID()
+	}
+
+	private lookupIndex(): IndexRow | null {
+		return this.db.query<IndexRow, [string]>('SELECT * FROM vectorize_indexes WHERE name = ?').get(this.indexName)
+	}
+
+	private requireIndex(): IndexRow {
+		const index = this.lookupIndex()
+		if (!index) {
+			throw new Error(
+				`Vectorize index "${this.indexName}" does not exist — insert vectors or run "lopata vectorize create ${this.indexName} --dimensions <n>"`,
+			)
+		}
+		return index
+	}
+}
+
+// ─── Scoring ────────────────────────────────────────────────────────
+
+const SCORERS: Record<VectorizeDistanceMetric, (a: number[], b: number[]) => number> = {
+	cosine(a, b) {
+		let dot = 0
+		let normA = 0
+		let normB = 0
+		for (let i = 0; i < a.length; i++) {
+			dot += a[i]! * b[i]!
+			normA += a[i]! * a[i]!
+			normB += b[i]! * b[i]!
+		}
+		return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+	},
+	euclidean(a, b) {
+		let sum = 0
+		for (let i = 0; i < a.length; i++) sum += (a[i]! - b[i]!) ** 2
+		return Math.sqrt(sum)
+	},
+	'dot-product'(a, b) {
+		let dot = 0
+		for (let i = 0; i < a.length; i++) dot += a[i]! * b[i]!
+		return dot
+	},
+}
+
+function decodeValues(blob: Uint8Array): number[] {
+	return Array.from(new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength)))
+}
+
+function byteLength(value: string): number {
+	return new TextEncoder().encode(value).byteLength
+}
+
+// ─── Metadata filters ───────────────────────────────────────────────
+
+/**
+ * Turn a Vectorize metadata filter into a predicate. Top-level keys are ANDed;
+ * a dotted key (`"author.name"`) reaches into nested metadata. A bare value is
+ * shorthand for `$eq`. Fields missing from a vector only match `$ne` and `$nin`.
+ */
+export function compileFilter(filter: VectorizeFilter): (metadata: VectorizeMetadata) => boolean {
+	const checks = Object.entries(filter).map(([field, condition]) => {
+		const ops: [VectorizeFilterOperator, unknown][] = isOperatorObject(condition)
+			? Object.entries(condition) as [VectorizeFilterOperator, unknown][]
+			: [['$eq', condition]]
+		for (const [op, operand] of ops) {
+			if (!FILTER_OPERATORS.includes(op)) {
+				throw new Error(`Vectorize filter: unsupported operator "${op}" on "${field}" — use ${FILTER_OPERATORS.join(', ')}`)
+			}
+			if ((op === '$in' || op === '$nin') !== Array.isArray(operand)) {
+				throw new Error(`Vectorize filter: "${op}" on "${field}" ${Array.isArray(operand) ? 'does not take' : 'requires'} an array`)
+			}
+		}
+		const path = field.split('.')
+		return (metadata: VectorizeMetadata) => {
+			const value = lookup(metadata, path)
+			return ops.every(([op, operand]) => applyOperator(op, value, operand))
+		}
+	})
+	return metadata => checks.every(check => check(metadata))
+}
+
+function isOperatorObject(condition: unknown): condition is Record<string, unknown> {
+	return typeof condition === 'object' && condition !== null && !Array.isArray(condition)
+}
+
+function lookup(metadata: VectorizeMetadata, path: string[]): unknown {
+	let value: unknown = metadata
+	for (const part of path) {
+		if (typeof value !== 'object' || value === null || !(part in value)) return undefined
+		value = (value as Record<string, unknown>)[part]
+	}
+	return value
+}
+
+function applyOperator(op: VectorizeFilterOperator, value: unknown, operand: unknown): boolean {
+	switch (op) {
+		case '$eq':
+			return value !== undefined && value === operand
+		case '$ne':
+			return value !== operand
+		case '$in':
+			return value !== undefined && (operand as unknown[]).includes(value)
+		case '$nin':
+			return !(operand as unknown[]).includes(value)
+		default: {
+			// Range operators compare numbers with numbers and strings with strings.
+			if (typeof value !== typeof operand || (typeof value !== 'number' && typeof value !== 'string')) return false
+			const a = value as number | string
+			const b = operand as number | string
+			if (op === '$lt') return a < b
+			if (op === '$lte') return a <= b
+			if (op === '$gt') return a > b
+			return a >= b
+		}
+	}
+}
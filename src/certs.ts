@@ -0,0 +1,351 @@
+import { createHash, generateKeyPairSync, type KeyObject, randomBytes, sign, X509Certificate } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { isIP } from 'node:net'
+import { join } from 'node:path'
+import type { LopataConfig } from './lopata-config'
+
+/**
+ * Locally generated TLS certificates for `lopata dev --https`.
+ *
+ * A per-project certificate authority lives in `.lopata/certs/`; the dev
+ * server's certificate is signed by it and lists every hostname lopata serves
+ * (localhost plus the configured `hosts`, wildcards included). Trusting the CA
+ * once makes browsers accept every certificate issued after it. Certificates
+ * are plain ECDSA P-256 / SHA-256 X.509 v3, encoded by hand below — no openssl
+ * or extra dependency needed.
+ */
+
+export interface HttpsConfig {
+	/** PEM certificate (chain) to serve instead of the generated one. Requires `key`. */
+	cert?: string
+	/** PEM private key for `cert`. */
+	key?: string
+	/** Extra hostnames the generated certificate should cover (`*.example.localhost` allowed). */
+	hosts?: string[]
+}
+
+export interface CertificatePair {
+	/** PEM certificate chain (server certificate first). */
+	cert: string
+	/** PEM PKCS#8 private key. */
+	key: string
+}
+
+export interface DevCertificates extends CertificatePair {
+	/** Path of the CA certificate to trust. */
+	caPath: string
+	/** Hostnames and IPs the server certificate covers. */
+	hostnames: string[]
+	/** Whether the server certificate was (re)issued by this call. */
+	issued: boolean
+}
+
+const CA_VALIDITY_DAYS = 3650
+/** Browsers reject server certificates valid for more than 398 days. */
+const SERVER_VALIDITY_DAYS = 397
+/** Reissue the server certificate when it expires within this many days. */
+const RENEW_BEFORE_DAYS = 30
+const DAY_MS = 86_400_000
+
+/** Hostnames every dev certificate covers. */
+export const DEFAULT_CERT_HOSTNAMES = ['localhost', '127.0.0.1', '::1']
+
+export function certsDir(dataDir: string): string {
+	return join(dataDir, 'certs')
+}
+
+function paths(dataDir: string) {
+	const dir = certsDir(dataDir)
+	return {
+		dir,
+		ca: join(dir, 'ca.pem'),
+		caKey: join(dir, 'ca-key.pem'),
+		server: join(dir, 'server.pem'),
+		serverKey: join(dir, 'server-key.pem'),
+	}
+}
+
+/**
+ * Load the dev certificate for `hostnames`, creating the local CA and issuing a
+ * new server certificate when none exists yet, it doesn't cover every hostname,
+ * or it is about to expire.
+ */
+export function ensureDevCertificates(dataDir: string, hostnames: string[] = []): DevCertificates {
+	const p = paths(dataDir)
+	const wanted = [...new Set([...DEFAULT_CERT_HOSTNAMES, ...hostnames])]
+	mkdirSync(p.dir, { recursive: true })
+
+	if (!existsSync(p.ca) || !existsSync(p.caKey)) {
+		const ca = createCertificateAuthority()
+		writeFileSync(p.ca, ca.cert)
+		writeFileSync(p.caKey, ca.key, { mode: 0o600 })
+		rmSync(p.server, { force: true })
+	}
+	const ca = { cert: readFileSync(p.ca, 'utf8'), key: readFileSync(p.caKey, 'utf8') }
+
+	let issued = false
+	if (!existsSync(p.server) || !existsSync(p.serverKey) || !coversHostnames(readFileSync(p.server, 'utf8'), wanted, ca.cert)) {
+		const server = issueServerCertificate(ca, wanted)
+		writeFileSync(p.server, server.cert)
+		writeFileSync(p.serverKey, server.key, { mode: 0o600 })
+		issued = true
+	}
+	return {
+		cert: `${readFileSync(p.server, 'utf8')}${ca.cert}`,
+		key: readFileSync(p.serverKey, 'utf8'),
+		caPath: p.ca,
+		hostnames: wanted,
+		issued,
+	}
+}
+
+/** Hostnames routed by `lopata.config.ts` (`hosts`, each worker's `hosts`, local `hostMap` names) plus `https.hosts`. */
+export function configuredHostnames(config: LopataConfig | null): string[] {
+	if (!config) return []
+	const https = typeof config.https === 'object' ? config.https : undefined
+	return [
+		...config.hosts ?? [],
+		...(config.workers ?? []).flatMap(w => w.hosts ?? []),
+		...Object.values(config.hostMap ?? {}),
+		...https?.hosts ?? [],
+	]
+}
+
+/** Shell commands that add the CA to the system trust store, and notes on stores they don't cover. */
+export function trustInstructions(caPath: string): { commands: string[]; notes: string[] } {
+	switch (process.platform) {
+		case 'darwin':
+			return { commands: [`sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain "${caPath}"`], notes: [] }
+		case 'win32':
+			return { commands: [`certutil -addstore -f ROOT "${caPath}"`], notes: [] }
+		default:
+			return {
+				commands: [
+					`sudo cp "${caPath}" /usr/local/share/ca-certificates/lopata-dev-ca.crt && sudo update-ca-certificates   # Debian/Ubuntu`,
+					`sudo trust anchor --store "${caPath}"   # Fedora/Arch`,
+				],
+				notes: ['Firefox keeps its own store: Settings → Privacy & Security → Certificates → Import'],
+			}
+	}
+}
+
+/** Summary of the stored certificates, or null when none were generated yet. */
+export function describeDevCertificates(dataDir: string): { caPath: string; caExpires: Date; hostnames: string[]; serverExpires: Date } | null {
+	const p = paths(dataDir)
+	if (!existsSync(p.ca) || !existsSync(p.server)) return null
+	const ca = new X509Certificate(readFileSync(p.ca))
+	const server = new X509Certificate(readFileSync(p.server))
+	return { caPath: p.ca, caExpires: new Date(ca.validTo), hostnames: subjectAltNames(server), serverExpires: new Date(server.validTo) }
+}
+
+/** Delete the CA and server certificate; the next `--https` run creates a new CA. */
+export function removeDevCertificates(dataDir: string): void {
+	rmSync(certsDir(dataDir), { recursive: true, force: true })
+}
+
+function subjectAltNames(cert: X509Certificate): string[] {
+	return (cert.subjectAltName ?? '').split(', ').filter(Boolean).map(entry => entry.replace(/^(DNS|IP Address):/, ''))
+}
+
+function coversHostnames(pem: string, hostnames: string[], caPem: string): boolean {
+	try {
+		const cert = new X509Certificate(pem)
+		if (!cert.verify(new X509Certificate(caPem).publicKey)) return false
+		if (new Date(cert.validTo).getTime() - Date.now() < RENEW_BEFORE_DAYS * DAY_MS) return false
+		const names = new Set(subjectAltNames(cert).map(normalizeIp))
+		return hostnames.every(h => names.has(normalizeIp(h)))
+	} catch {
+		return false
+	}
+}
+
+/** `X509Certificate.subjectAltName` prints IPv6 addresses expanded and uppercase. */
+function normalizeIp(name: string): string {
+	if (isIP(name) !== 6) return name
+	return ipBytes(name).toString('hex')
+}
+
+export function createCertificateAuthority(now = new Date()): CertificatePair {
+	const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+	const spki = publicKey.export({ format: 'der', type: 'spki' })
+	const name = distinguishedName(`lopata local CA ${randomBytes(4).toString('hex')}`)
+	const tbs = tbsCertificate({
+		issuer: name,
+		subject: name,
+		spki,
+		notBefore: new Date(now.getTime() - DAY_MS),
+		notAfter: new Date(now.getTime() + CA_VALIDITY_DAYS * DAY_MS),
+		extensions: [
+			extension(OID.basicConstraints, true, seq(boolean(true), integer(Buffer.from([0])))),
+			extension(OID.keyUsage, true, bitString(Buffer.from([0x06]), 1)), // keyCertSign, cRLSign
+			extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(spki))),
+		],
+	})
+	return { cert: toPem('CERTIFICATE', signCertificate(tbs, privateKey)), key: exportKey(privateKey) }
+}
+
+export function issueServerCertificate(ca: CertificatePair, hostnames: string[], now = new Date()): CertificatePair {
+	const caCert = new X509Certificate(ca.cert)
+	const caSpki = caCert.publicKey.export({ format: 'der', type: 'spki' })
+	const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+	const spki = publicKey.export({ format: 'der', type: 'spki' })
+	const altNames = hostnames.map(h => isIP(h) ? contextPrimitive(7, ipBytes(h)) : contextPrimitive(2, Buffer.from(h, 'ascii')))
+	const tbs = tbsCertificate({
+		issuer: issuerName(caCert),
+		subject: distinguishedName(hostnames.find(h => !isIP(h)) ?? 'localhost'),
+		spki,
+		notBefore: new Date(now.getTime() - DAY_MS),
+		notAfter: new Date(now.getTime() + SERVER_VALIDITY_DAYS * DAY_MS),
+		extensions: [
+			extension(OID.basicConstraints, true, seq()),
+			extension(OID.keyUsage, true, bitString(Buffer.from([0x80]), 7)), // digitalSignature
+			extension(OID.extKeyUsage, false, seq(oid(OID.serverAuth))),
+			extension(OID.subjectAltName, false, seq(...altNames)),
+			extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(spki))),
+			extension(OID.authorityKeyIdentifier, false, seq(contextPrimitive(0, keyIdentifier(caSpki)))),
+		],
+	})
+	const caKey = { key: ca.key, format: 'pem' as const }
+	return { cert: toPem('CERTIFICATE', signCertificate(tbs, caKey)), key: exportKey(privateKey) }
+}
+
+// ─── DER encoding ────────────────────────────────────────────────────
+
+const OID = {
+	commonName: '2.5.4.3',
+	organization: '2.5.4.10',
+	ecdsaWithSha256: '1.2.840.10045.4.3.2',
+	basicConstraints: '2.5.29.19',
+	keyUsage: '2.5.29.15',
+	extKeyUsage: '2.5.29.37',
+	subjectAltName: '2.5.29.17',
+	subjectKeyIdentifier: '2.5.29.14',
+	authorityKeyIdentifier: '2.5.29.35',
+	serverAuth: '1.3.6.1.5.5.7.3.1',
+}
+
+function tlv(tag: number, content: Buffer): Buffer {
+	const len = content.length
+	let header: Buffer
+	if (len < 0x80) {
+		header = Buffer.from([tag, len])
+	} else {
+		const bytes: number[] = []
+		for (let n = len; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256)
+		header = Buffer.from([tag, 0x80 | bytes.length, ...bytes])
+	}
+	return Buffer.concat([header, content])
+}
+
+const seq = (...items: Buffer[]) => tlv(0x30, Buffer.concat(items))
+const set = (...items: Buffer[]) => tlv(0x31, Buffer.concat(items))
+const boolean = (value: boolean) => tlv(0x01, Buffer.from([value ? 0xff : 0]))
+const octetString = (bytes: Buffer) => tlv(0x04, bytes)
+const utf8String = (text: string) => tlv(0x0c, Buffer.from(text, 'utf8'))
+const explicit = (n: number, content: Buffer) => tlv(0xa0 | n, content)
+const contextPrimitive = (n: number, bytes: Buffer) => tlv(0x80 | n, bytes)
+const bitString = (bytes: Buffer, unusedBits = 0) => tlv(0x03, Buffer.concat([Buffer.from([unusedBits]), bytes]))
+
+function integer(bytes: Buffer): Buffer {
+	// A leading 1 bit would make the value negative.
+	return tlv(0x02, bytes[0]! & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes)
+}
+
+function oid(dotted: string): Buffer {
+	const [first, second, ...rest] = dotted.split('.').map(Number) as [number, number, ...number[]]
+	const bytes = [first * 40 + second]
+	for (const part of rest) {
+		const chunk = [part & 0x7f]
+		for (let n = part >>> 7; n > 0; n >>>= 7) chunk.unshift(0x80 | (n & 0x7f))
+		bytes.push(...chunk)
+	}
+	return tlv(0x06, Buffer.from(bytes))
+}
+
+function time(date: Date): Buffer {
+	// UTCTime through 2049, GeneralizedTime after (RFC 5280 §4.1.2.5).
+	const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14)
+	return date.getUTCFullYear() < 2050 ? tlv(0x17, Buffer.from(`${iso.slice(2)}Z`)) : tlv(0x18, Buffer.from(`${iso}Z`))
+}
+
+function distinguishedName(commonName: string): Buffer {
+	return seq(
+		set(seq(oid(OID.organization), utf8String('lopata'))),
+		set(seq(oid(OID.commonName), utf8String(commonName))),
+	)
+}
+
+/** The issuer Name exactly as encoded in the CA certificate's subject. */
+function issuerName(ca: X509Certificate): Buffer {
+	const der = ca.raw
+	// Certificate → TBSCertificate → [version, serial, signature, issuer, validity, subject]
+	const tbs = readTlv(der, readTlv(der, 0).contentStart)
+	let offset = tbs.contentStart
+	const fields: { start: number; end: number }[] = []
+	for (let i = 0; i < 6; i++) {
+		const field = readTlv(der, offset)
+		fields.push({ start: offset, end: field.end })
+		offset = field.end
+	}
+	return Buffer.from(der.subarray(fields[5]!.start, fields[5]!.end))
+}
+
+function readTlv(der: Buffer, offset: number): { contentStart: number; end: number } {
+	const first = der[offset + 1]!
+	if (first < 0x80) return { contentStart: offset + 2, end: offset + 2 + first }
+	const count = first & 0x7f
+	const len = der.readUIntBE(offset + 2, count)
+	return { contentStart: offset + 2 + count, end: offset + 2 + count + len }
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+	return critical ? seq(oid(id), boolean(true), octetString(value)) : seq(oid(id), octetString(value))
+}
+
+function tbsCertificate(opts: { issuer: Buffer; subject: Buffer; spki: Buffer; notBefore: Date; notAfter: Date; extensions: Buffer[] }): Buffer {
+	const serial = randomBytes(16)
+	serial[0]! &= 0x7f
+	return seq(
+		explicit(0, integer(Buffer.from([2]))), // v3
+		integer(serial),
+		seq(oid(OID.ecdsaWithSha256)),
+		opts.issuer,
+		seq(time(opts.notBefore), time(opts.notAfter)),
+		opts.subject,
+		opts.spki,
+		explicit(3, seq(...opts.extensions)),
+	)
+}
+
+function signCertificate(tbs: Buffer, key: KeyObject | { key: string; format: 'pem' }): Buffer {
+	return seq(tbs, seq(oid(OID.ecdsaWithSha256)), bitString(sign('sha256', tbs, key)))
+}
+
+/** SHA-1 of the subjectPublicKey bits (RFC 5280 §4.2.1.2, method 1). */
+function keyIdentifier(spki: Buffer): Buffer {
+	const outer = readTlv(spki, 0)
+	const algorithm = readTlv(spki, outer.contentStart)
+	const publicKey = readTlv(spki, algorithm.end)
+	return createHash('sha1').update(spki.subarray(publicKey.contentStart + 1, publicKey.end)).digest()
+}
+
+function ipBytes(ip: string): Buffer {
+	if (isIP(ip) === 4) return Buffer.from(ip.split('.').map(Number))
+	const [head, tail] = ip.split('::') as [string, string | undefined]
+	const groups = (part: string | undefined) => part ? part.split(':').map(g => parseInt(g, 16)) : []
+	const left = groups(head)
+	const right = groups(tail)
+	const all = tail === undefined ? left : [...left, ...new Array(8 - left.length - right.length).fill(0), ...right]
+	const bytes = Buffer.alloc(16)
+	all.forEach((g, i) => bytes.writeUInt16BE(g, i * 2))
+	return bytes
+}
+
+function toPem(label: string, der: Buffer): string {
+	const lines = der.toString('base64').match(/.{1,64}/g) ?? []
+	return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+function exportKey(key: KeyObject): string {
+	return key.export({ format: 'pem', type: 'pkcs8' }) as string
+}
@@ -68,6 +68,31 @@ switch (command) {
 		await mod.run(ctx, commandArgs.slice(1))
 		break
 	}
+	case 'certs': {
+		const mod = await import('./cli/certs')
+		await mod.run(ctx, commandArgs.slice(1))
+		break
+	}
+	case 'flags': {
+		const mod = await import('./cli/flags')
+		await mod.run(ctx, commandArgs.slice(1))
+		break
+	}
+	case 'ratelimit': {
+		const mod = await import('./cli/ratelimit')
+		await mod.run(ctx, commandArgs.slice(1))
+		break
+	}
+	case 'secrets-store': {
+		const mod = await import('./cli/secrets-store')
+		await mod.run(ctx, commandArgs.slice(1))
+		break
+	}
+	case 'vectorize': {
+		const mod = await import('./cli/vectorize')
+		await mod.run(ctx, commandArgs.slice(1))
+		break
+	}
 	case 'trace': {
 		const mod = await import('./cli/traces')
 		await mod.run(ctx, commandArgs.slice(1))
@@ -88,8 +113,13 @@ Usage: lopata <command> [options]
 Commands:
   dev                         Start local dev server
   d1 list                     List D1 databases
-  d1 execute <db> --command   Execute SQL on a D1 database
+  d1 execute <db> --command   Execute SQL on a D1 database (or --file <path>)
+  d1 export <db> --output     Export a D1 database as SQL
+  d1 migrations create <db> <message>  Create a numbered migration file
+  d1 migrations list [db]     Show applied and pending migrations
   d1 migrations apply [db]    Apply D1 migrations
+  d1 time-travel info <db>    Show the D1 bookmark for now or --timestamp
+  d1 time-travel restore <db> Restore a D1 database to --bookmark or --timestamp
   r2 object list [bucket]          List R2 objects (bucket/prefix)
   r2 object get <bucket/key>      Get an R2 object
   r2 object put <bucket/key> -f   Upload a file to R2
@@ -105,6 +135,29 @@ Commands:
   cache list                  List cache names
   cache purge [--name CACHE]  Purge cache entries
   hosts check                 Check hosts file for configured host routes
+  certs [status]              Show the local dev CA and certificate
+  certs generate [--host H]   Issue a dev certificate for configured hosts
+  certs trust                 Print commands to trust the local dev CA
+  certs clean                 Delete the dev CA and certificates
+  flags list                  List Flagship feature flags
+  flags get <key>             Show a flag as JSON
+  flags set <key> <value>     Set a flag value (--type, --variant)
+  flags enable|disable <key>  Toggle a flag
+  flags rules <key>           Show or set targeting rules (--file, --json, --clear)
+  flags eval <key>            Evaluate a flag against --context JSON
+  flags delete <key>          Delete a flag
+  ratelimit list              Show rate limit counters per key
+  ratelimit reset [ns] [--key K]  Reset counters (all, one namespace, or one key)
+  secrets-store secret list [store] List Secrets Store secrets (values masked)
+  secrets-store secret create <store> --name N  Create a secret (--value, or stdin / prompt)
+  secrets-store secret update <store> --name N  Replace a secret's value
+  secrets-store secret delete <store> --name N  Delete a secret
+  vectorize list              List Vectorize indexes
+  vectorize create <index>    Create an index (--dimensions N, --metric cosine|euclidean|dot-product)
+  vectorize get|delete <index>  Show or delete an index
+  vectorize insert|upsert <index> --file F  Write vectors from an NDJSON file
+  vectorize query <index>     Query (--vector 0.1,0.2,... or --vector-id, --top-k, --namespace, --filter)
+  vectorize get-vectors|delete-vectors <index> --ids A,B  Read or delete vectors by id
   trace list [options]        List traces (--limit, --since, --search, --cursor)
   trace get <traceId>         Get trace detail as JSON
 
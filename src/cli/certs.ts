@@ -0,0 +1,56 @@
+import { configuredHostnames, describeDevCertificates, ensureDevCertificates, removeDevCertificates, trustInstructions } from '../certs'
+import { loadLopataConfig } from '../lopata-config'
+import type { CliContext } from './context'
+import { parseArgs } from './context'
+
+export async function run(ctx: CliContext, args: string[]) {
+	const action = args[0] ?? 'status'
+
+	switch (action) {
+		case 'status': {
+			parseArgs(args.slice(1), {})
+			const info = describeDevCertificates(ctx.dataDir())
+			if (!info) {
+				console.log('No dev certificates yet. Run "lopata certs generate" or start "lopata dev --https".')
+				return
+			}
+			console.log(`CA:          ${info.caPath} (expires ${info.caExpires.toISOString().slice(0, 10)})`)
+			console.log(`Certificate: expires ${info.serverExpires.toISOString().slice(0, 10)}`)
+			console.log('Hostnames:')
+			for (const name of info.hostnames) console.log(`  ${name}`)
+			break
+		}
+		case 'generate': {
+			const { values } = parseArgs(args.slice(1), {
+				host: { type: 'string', multiple: true },
+			})
+			const lopataConfig = await loadLopataConfig(process.cwd())
+			const certs = ensureDevCertificates(ctx.dataDir(), [...configuredHostnames(lopataConfig), ...values.host ?? []])
+			console.log(certs.issued ? 'Issued a new dev certificate for:' : 'The existing dev certificate already covers:')
+			for (const name of certs.hostnames) console.log(`  ${name}`)
+			console.log('')
+			console.log(`CA certificate: ${certs.caPath}`)
+			break
+		}
+		case 'trust': {
+			parseArgs(args.slice(1), {})
+			const { caPath } = ensureDevCertificates(ctx.dataDir())
+			console.log(`Add the local CA to your trust store so browsers accept lopata's dev certificates:`)
+			console.log('')
+			const { commands, notes } = trustInstructions(caPath)
+			for (const command of commands) console.log(`  ${command}`)
+			if (notes.length > 0) console.log('')
+			for (const note of notes) console.log(note)
+			break
+		}
+		case 'clean': {
+			parseArgs(args.slice(1), {})
+			removeDevCertificates(ctx.dataDir())
+			console.log('Removed the dev CA and certificates. Remove the CA from your trust store as well if you added it.')
+			break
+		}
+		default:
+			console.error('Usage: lopata certs [status|generate [--host NAME]|trust|clean]')
+			process.exit(1)
+	}
+}
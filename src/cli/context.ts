@@ -14,6 +14,8 @@ export interface CliContext {
 interface ParseArgsStringOption {
 	type: 'string'
 	short?: string
+	/** Allow the flag to repeat; its value becomes an array. */
+	multiple?: boolean
 }
 
 interface ParseArgsBooleanOption {
@@ -24,7 +26,9 @@ interface ParseArgsBooleanOption {
 type ParseArgsOption = ParseArgsStringOption | ParseArgsBooleanOption
 
 type ParseArgsValues<T extends Record<string, ParseArgsOption>> = {
-	[K in keyof T]: T[K] extends ParseArgsBooleanOption ? boolean | undefined : string | undefined
+	[K in keyof T]: T[K] extends ParseArgsBooleanOption ? boolean | undefined
+		: T[K] extends { multiple: true } ? string[] | undefined
+		: string | undefined
 }
 
 /** Parse CLI args with strict validation — throws on unknown flags. */
@@ -1,10 +1,15 @@
 import { Database } from 'bun:sqlite'
-import { existsSync, mkdirSync, readdirSync, readFileSync } from 'node:fs'
-import { join, resolve } from 'node:path'
-import { openD1Database } from '../bindings/d1'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import { openD1Database, splitStatements } from '../bindings/d1'
+import { D1Journal, d1JournalPath, resolveD1TimeTravel, restoreD1Database, TIME_TRAVEL_RETENTION_MS } from '../bindings/d1-time-travel'
+import type { WranglerConfig } from '../config'
+import { parseDevVars } from '../env'
 import type { CliContext } from './context'
 import { parseArgs } from './context'
 
+type D1DatabaseConfig = NonNullable<WranglerConfig['d1_databases']>[number]
+
 export async function run(ctx: CliContext, args: string[]) {
 	const action = args[0]
 
@@ -23,60 +28,375 @@ export async function run(ctx: CliContext, args: string[]) {
 			break
 		}
 		case 'execute': {
+			const usage = "Usage: lopata d1 execute <database> --command 'SQL' | --file <path> [--json]"
 			const { values, positionals } = parseArgs(args.slice(1), {
 				command: { type: 'string' },
 				file: { type: 'string' },
+				json: { type: 'boolean' },
 			})
 			const dbName = positionals[0]
-			if (!dbName) {
-				console.error("Usage: lopata d1 execute <database> --command 'SQL' | --file <path>")
+			if (!dbName || (!values.command && !values.file) || (values.command && values.file)) {
+				console.error(usage)
 				process.exit(1)
 			}
-			const config = await ctx.config()
-			const databases = config.d1_databases ?? []
-			const dbConfig = databases.find(
-				d => d.binding === dbName || d.database_name === dbName,
-			)
-			if (!dbConfig) {
-				const names = databases.map(d => `${d.binding}/${d.database_name}`).join(', ')
-				console.error(`Database "${dbName}" not found. Available: ${names || '(none)'}`)
+			const dbConfig = findDatabase(await ctx.config(), dbName)
+			const d1 = openD1Database(ctx.dataDir(), dbConfig.database_name, null, timeTravelEnabled())
+
+			try {
+				if (values.file) {
+					// Files run as a script (like `wrangler d1 execute --file --local`), so dumps with
+					// their own transaction statements work; only the statement count is reported.
+					const path = resolve(values.file)
+					if (!existsSync(path)) {
+						console.error(`File not found: ${path}`)
+						process.exit(1)
+					}
+					const result = await d1.exec(readFileSync(path, 'utf-8'))
+					if (values.json) {
+						console.log(JSON.stringify([{ results: [], success: true, meta: { duration: result.duration } }], null, 2))
+					} else {
+						console.log(`Executed ${result.count} statement(s) in ${result.duration.toFixed(1)}ms`)
+					}
+					break
+				}
+
+				const start = performance.now()
+				const statements = splitStatements(values.command!)
+				const results = await d1.batch(statements.map(sql => d1.prepare(sql)))
+				if (values.json) {
+					console.log(JSON.stringify(results, null, 2))
+					break
+				}
+				for (const result of results) {
+					if (result.results.length > 0) printRows(result.results)
+				}
+				console.log(`Executed ${statements.length} statement(s) in ${(performance.now() - start).toFixed(1)}ms`)
+			} catch (err) {
+				console.error(err instanceof Error ? err.message : String(err))
 				process.exit(1)
 			}
-
-			if (!values.command && !values.file) {
-				console.error("Usage: lopata d1 execute <database> --command 'SQL' | --file <path>")
+			break
+		}
+		case 'export': {
+			const usage = 'Usage: lopata d1 export <database> --output <file> [--no-data | --no-schema] [--table <name>]...'
+			const { values, positionals } = parseArgs(args.slice(1), {
+				output: { type: 'string' },
+				table: { type: 'string', multiple: true },
+				'no-data': { type: 'boolean' },
+				'no-schema': { type: 'boolean' },
+			})
+			const dbName = positionals[0]
+			if (!dbName || !values.output) {
+				console.error(usage)
 				process.exit(1)
 			}
-
-			const sql = values.command ?? readFileSync(resolve(values.file!), 'utf-8')
-			const d1 = openD1Database(ctx.dataDir(), dbConfig.database_name)
-			const result = await d1.exec(sql)
-			console.log(`Executed ${result.count} statement(s) in ${result.duration.toFixed(1)}ms`)
+			if (values['no-data'] && values['no-schema']) {
+				console.error('--no-data and --no-schema cannot be used together.')
+				process.exit(1)
+			}
+			const dbConfig = findDatabase(await ctx.config(), dbName)
+			const dbPath = join(ctx.dataDir(), 'd1', `${dbConfig.database_name}.sqlite`)
+			if (!existsSync(dbPath)) {
+				console.error(`Database "${dbConfig.database_name}" has no local data yet.`)
+				process.exit(1)
+			}
+			const db = new Database(dbPath)
+			try {
+				const sql = exportD1Sql(db, { schema: !values['no-schema'], data: !values['no-data'], tables: values.table })
+				const outputPath = resolve(values.output)
+				writeFileSync(outputPath, sql)
+				console.log(`Exported ${dbConfig.database_name} to ${relative(process.cwd(), outputPath) || outputPath}`)
+			} catch (err) {
+				console.error(err instanceof Error ? err.message : String(err))
+				process.exit(1)
+			} finally {
+				db.close()
+			}
 			break
 		}
 		case 'migrations': {
 			const subAction = args[1]
-			if (subAction !== 'apply') {
-				console.error('Usage: lopata d1 migrations apply [database]')
-				process.exit(1)
-			}
 			const { positionals } = parseArgs(args.slice(2), {})
-			const targetDb = positionals[0]
 			const config = await ctx.config()
-			await applyMigrations(config.d1_databases ?? [], ctx.dataDir(), targetDb)
+			if (subAction === 'create') {
+				const [dbName, ...words] = positionals
+				if (!dbName || words.length === 0) {
+					console.error('Usage: lopata d1 migrations create <database> <message>')
+					process.exit(1)
+				}
+				const path = createMigration(findDatabase(config, dbName), process.cwd(), words.join(' '))
+				console.log(`Created ${relative(process.cwd(), path)}`)
+			} else if (subAction === 'list') {
+				const databases = positionals[0] ? [findDatabase(config, positionals[0])] : config.d1_databases ?? []
+				if (databases.length === 0) console.log('No D1 databases configured.')
+				for (const dbConfig of databases) {
+					const migrations = listMigrations(dbConfig, ctx.dataDir(), process.cwd())
+					const pending = migrations.filter(m => !m.appliedAt).length
+					console.log(`${dbConfig.binding} (${dbConfig.database_name}): ${migrations.length - pending} applied, ${pending} pending`)
+					for (const m of migrations) {
+						console.log(`  ${m.appliedAt ? 'applied' : 'pending'}  ${m.name}${m.appliedAt ? `  ${m.appliedAt}` : ''}`)
+					}
+				}
+			} else if (subAction === 'apply') {
+				await applyMigrations(config.d1_databases ?? [], ctx.dataDir(), positionals[0])
+			} else {
+				console.error('Usage: lopata d1 migrations <create|list|apply> [database]')
+				process.exit(1)
+			}
+			break
+		}
+		case 'time-travel': {
+			const subAction = args[1]
+			if (subAction !== 'info' && subAction !== 'restore') {
+				console.error('Usage: lopata d1 time-travel <info|restore> <database> [options]')
+				process.exit(1)
+			}
+			const { values, positionals } = parseArgs(args.slice(2), {
+				timestamp: { type: 'string' },
+				bookmark: { type: 'string' },
+				json: { type: 'boolean' },
+			})
+			const dbName = positionals[0]
+			if (!dbName || (subAction === 'restore' && !values.bookmark && !values.timestamp)) {
+				console.error(
+					subAction === 'info'
+						? 'Usage: lopata d1 time-travel info <database> [--timestamp <time>] [--json]'
+						: 'Usage: lopata d1 time-travel restore <database> --bookmark <bookmark> | --timestamp <time>',
+				)
+				process.exit(1)
+			}
+			const dbConfig = findDatabase(await ctx.config(), dbName)
+			const dataDir = ctx.dataDir()
+			const dbPath = join(dataDir, 'd1', `${dbConfig.database_name}.sqlite`)
+			if (!existsSync(dbPath)) {
+				console.error(`Database "${dbConfig.database_name}" has no local data yet.`)
+				process.exit(1)
+			}
+			const db = new Database(dbPath)
+			db.run('PRAGMA journal_mode=WAL')
+			db.run('PRAGMA busy_timeout=5000')
+			const journal = new D1Journal(d1JournalPath(dataDir, dbConfig.database_name))
+			try {
+				const current = journal.record(db)
+				const bookmark = values.bookmark ?? (values.timestamp ? bookmarkForTime(journal, values.timestamp) : current)
+				const entry = journal.find(bookmark)
+				if (!entry) {
+					console.error(`Unknown bookmark "${bookmark}" for database "${dbConfig.database_name}".`)
+					process.exit(1)
+				}
+
+				if (subAction === 'info') {
+					const oldest = journal.oldest()!
+					if (values.json) {
+						console.log(JSON.stringify({ bookmark: entry.bookmark, timestamp: new Date(entry.createdAt).toISOString() }, null, 2))
+						break
+					}
+					console.log(`Bookmark:    ${entry.bookmark}`)
+					console.log(`Recorded at: ${new Date(entry.createdAt).toISOString()}`)
+					console.log(`History:     ${journal.count()} bookmark(s) since ${new Date(oldest.createdAt).toISOString()}`)
+					if (!timeTravelEnabled()) console.log('Writes are not journaled; set LOPATA_D1_TIME_TRAVEL=1 in .dev.vars or the environment.')
+					break
+				}
+
+				const result = restoreD1Database(db, journal, entry.bookmark)
+				if (values.json) {
+					console.log(JSON.stringify({ bookmark: result.bookmark, previous_bookmark: result.previousBookmark }, null, 2))
+					break
+				}
+				console.log(`Restored ${dbConfig.database_name} to ${entry.bookmark} (${new Date(entry.createdAt).toISOString()}).`)
+				console.log(`New bookmark: ${result.bookmark}`)
+				console.log(`To undo: lopata d1 time-travel restore ${dbName} --bookmark ${result.previousBookmark}`)
+			} finally {
+				journal.close()
+				db.close()
+			}
 			break
 		}
 		default:
-			console.error(`Usage: lopata d1 <list|execute|migrations> [options]`)
+			console.error(`Usage: lopata d1 <list|execute|export|migrations|time-travel> [options]`)
 			process.exit(1)
 	}
 }
 
+/** Print query results as an aligned text table. */
+function printRows(rows: Record<string, unknown>[]): void {
+	const columns = Object.keys(rows[0]!)
+	const cells = rows.map(row => columns.map(c => typeof row[c] === 'string' ? row[c] as string : sqlLiteral(row[c])))
+	const widths = columns.map((c, i) => Math.max(c.length, ...cells.map(r => r[i]!.length)))
+	const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i]!)).join('  ').trimEnd()
+	console.log(line(columns))
+	console.log(line(widths.map(w => '-'.repeat(w))))
+	for (const row of cells) console.log(line(row))
+}
+
+/** Look up a database by binding or database name, exiting with the available names if there's none. */
+function findDatabase(config: WranglerConfig, name: string): D1DatabaseConfig {
+	const databases = config.d1_databases ?? []
+	const dbConfig = databases.find(d => d.binding === name || d.database_name === name)
+	if (!dbConfig) {
+		const names = databases.map(d => `${d.binding}/${d.database_name}`).join(', ')
+		console.error(`Database "${name}" not found. Available: ${names || '(none)'}`)
+		process.exit(1)
+	}
+	return dbConfig
+}
+
+/**
+ * Parse a `--timestamp` value (unix seconds, unix milliseconds or an ISO 8601 date)
+ * and return the bookmark of the state at that time.
+ */
+/** `LOPATA_D1_TIME_TRAVEL` as the dev server reads it: `.dev.vars` in the cwd, then the environment. */
+function timeTravelEnabled(): boolean {
+	const devVarsPath = resolve('.dev.vars')
+	return resolveD1TimeTravel(existsSync(devVarsPath) ? parseDevVars(readFileSync(devVarsPath, 'utf-8')) : {})
+}
+
+function bookmarkForTime(journal: D1Journal, value: string): string {
+	const numeric = /^\d+$/.test(value) ? Number(value) : null
+	const timestamp = numeric === null ? Date.parse(value) : numeric < 1e12 ? numeric * 1000 : numeric
+	if (Number.isNaN(timestamp)) {
+		console.error(`Invalid timestamp "${value}". Use a unix timestamp or an ISO 8601 date.`)
+		process.exit(1)
+	}
+	if (timestamp < Date.now() - TIME_TRAVEL_RETENTION_MS) {
+		console.error(`Timestamp ${new Date(timestamp).toISOString()} is more than 30 days in the past.`)
+		process.exit(1)
+	}
+	const entry = journal.entryAt(timestamp)
+	if (!entry) {
+		const oldest = journal.oldest()
+		console.error(
+			`No bookmark at or before ${new Date(timestamp).toISOString()}${
+				oldest ? ` (history starts at ${new Date(oldest.createdAt).toISOString()})` : ''
+			}.`,
+		)
+		process.exit(1)
+	}
+	return entry.bookmark
+}
+
+function quoteIdent(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`
+}
+
+function sqlLiteral(value: unknown): string {
+	if (value === null || value === undefined) return 'NULL'
+	if (typeof value === 'number' || typeof value === 'bigint') return String(value)
+	if (value instanceof Uint8Array) return `X'${Buffer.from(value).toString('hex')}'`
+	return `'${String(value).replace(/'/g, "''")}'`
+}
+
+export interface D1ExportOptions {
+	/** Include CREATE statements (default true). */
+	schema?: boolean
+	/** Include INSERT statements (default true). */
+	data?: boolean
+	/** Only export these tables (and their indexes and triggers). */
+	tables?: string[]
+}
+
+/**
+ * Dump a D1 database as SQL the way `wrangler d1 export` does: tables with their
+ * rows, then indexes, triggers and views. Like D1, databases with virtual tables
+ * can't be exported.
+ */
+export function exportD1Sql(db: Database, options: D1ExportOptions = {}): string {
+	const { schema = true, data = true, tables } = options
+	const objects = db.query<{ type: string; name: string; tbl_name: string; sql: string }, []>(
+		"SELECT type, name, tbl_name, sql FROM sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' ORDER BY rowid",
+	).all()
+	if (objects.some(o => o.type === 'table' && /^CREATE\s+VIRTUAL/i.test(o.sql))) {
+		throw new Error('Export is not supported for databases with virtual tables.')
+	}
+	const tableNames = objects.filter(o => o.type === 'table').map(o => o.name)
+	const missing = (tables ?? []).filter(t => !tableNames.includes(t))
+	if (missing.length > 0) throw new Error(`Table(s) not found: ${missing.join(', ')}`)
+	const selected = (name: string) => !tables || tables.includes(name)
+	const hasSequence = !!db.query("SELECT 1 FROM sqlite_master WHERE name = 'sqlite_sequence'").get()
+
+	const lines = ['PRAGMA defer_foreign_keys=TRUE;']
+	for (const table of objects.filter(o => o.type === 'table' && selected(o.name))) {
+		if (schema) lines.push(`${table.sql};`)
+		if (!data) continue
+		for (const row of db.query(`SELECT * FROM ${quoteIdent(table.name)}`).values()) {
+			lines.push(`INSERT INTO ${quoteIdent(table.name)} VALUES(${row.map(sqlLiteral).join(',')});`)
+		}
+		const seq = hasSequence ? db.query<{ seq: number }, [string]>('SELECT seq FROM sqlite_sequence WHERE name = ?').get(table.name) : null
+		if (seq) {
+			lines.push(`DELETE FROM sqlite_sequence WHERE name = ${sqlLiteral(table.name)};`)
+			lines.push(`INSERT INTO sqlite_sequence VALUES(${sqlLiteral(table.name)},${seq.seq});`)
+		}
+	}
+	if (schema) {
+		for (const object of objects) {
+			if (object.type === 'table' || (tables && (object.type === 'view' || !selected(object.tbl_name)))) continue
+			lines.push(`${object.sql};`)
+		}
+	}
+	return `${lines.join('\n')}\n`
+}
+
+function migrationsDirOf(dbConfig: D1DatabaseConfig, baseDir: string): string {
+	return resolve(baseDir, dbConfig.migrations_dir ?? 'migrations')
+}
+
+function migrationsTableOf(dbConfig: D1DatabaseConfig): string {
+	return dbConfig.migrations_table ?? 'd1_migrations'
+}
+
+/**
+ * Create the next numbered migration file (`0001_<message>.sql`) in the database's
+ * `migrations_dir` (default `migrations`). Returns its path.
+ */
+export function createMigration(dbConfig: D1DatabaseConfig, baseDir: string, message: string): string {
+	const dir = migrationsDirOf(dbConfig, baseDir)
+	mkdirSync(dir, { recursive: true })
+	const highest = readdirSync(dir)
+		.filter(f => f.endsWith('.sql'))
+		.map(f => parseInt(f, 10))
+		.filter(n => !Number.isNaN(n))
+		.reduce((max, n) => Math.max(max, n), 0)
+	const number = String(highest + 1).padStart(4, '0')
+	const path = join(dir, `${number}_${message.trim().replace(/\s+/g, '_')}.sql`)
+	writeFileSync(path, `-- Migration number: ${number} \t ${new Date().toISOString()}\n`)
+	return path
+}
+
+export interface D1MigrationStatus {
+	name: string
+	/** When the migration was applied, or null while it's pending. */
+	appliedAt: string | null
+}
+
+/** Every migration in `migrations_dir` or the migrations table, with whether it has been applied. */
+export function listMigrations(dbConfig: D1DatabaseConfig, dataDir: string, baseDir: string): D1MigrationStatus[] {
+	const applied = new Map<string, string>()
+	const dbPath = join(dataDir, 'd1', `${dbConfig.database_name}.sqlite`)
+	if (existsSync(dbPath)) {
+		const db = new Database(dbPath)
+		try {
+			const table = migrationsTableOf(dbConfig)
+			if (db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table)) {
+				for (const row of db.query<{ name: string; applied_at: string }, []>(`SELECT name, applied_at FROM ${quoteIdent(table)}`).all()) {
+					applied.set(row.name, row.applied_at)
+				}
+			}
+		} finally {
+			db.close()
+		}
+	}
+	const dir = migrationsDirOf(dbConfig, baseDir)
+	const files = existsSync(dir) ? readdirSync(dir).filter(f => f.endsWith('.sql')) : []
+	return [...new Set([...applied.keys(), ...files])]
+		.sort()
+		.map(name => ({ name, appliedAt: applied.get(name) ?? null }))
+}
+
 /**
  * Apply D1 migrations. Extracted from src/d1-migrate.ts for CLI reuse.
  */
 export async function applyMigrations(
-	databases: { binding: string; database_name: string; database_id: string; migrations_dir?: string }[],
+	databases: D1DatabaseConfig[],
 	dataDir: string,
 	targetDb?: string,
 ): Promise<number> {
@@ -99,14 +419,9 @@ export async function applyMigrations(
 	let totalApplied = 0
 
 	for (const dbConfig of filtered) {
-		const { database_name, binding, migrations_dir } = dbConfig
-
-		if (!migrations_dir) {
-			console.log(`${binding} (${database_name}): no migrations_dir, skipping`)
-			continue
-		}
-
-		const migrationsPath = resolve(baseDir, migrations_dir)
+		const { database_name, binding } = dbConfig
+		const migrationsPath = migrationsDirOf(dbConfig, baseDir)
+		const migrationsTable = quoteIdent(migrationsTableOf(dbConfig))
 		if (!existsSync(migrationsPath)) {
 			console.log(`${binding} (${database_name}): migrations_dir not found: ${migrationsPath}`)
 			continue
@@ -117,7 +432,7 @@ export async function applyMigrations(
 		db.run('PRAGMA journal_mode=WAL')
 
 		db.run(`
-			CREATE TABLE IF NOT EXISTS d1_migrations (
+			CREATE TABLE IF NOT EXISTS ${migrationsTable} (
 				id INTEGER PRIMARY KEY AUTOINCREMENT,
 				name TEXT NOT NULL UNIQUE,
 				applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
@@ -125,7 +440,7 @@ export async function applyMigrations(
 		`)
 
 		const applied = new Set(
-			db.query<{ name: string }, []>('SELECT name FROM d1_migrations ORDER BY id').all().map(r => r.name),
+			db.query<{ name: string }, []>(`SELECT name FROM ${migrationsTable} ORDER BY id`).all().map(r => r.name),
 		)
 
 		const files = readdirSync(migrationsPath)
@@ -141,24 +456,32 @@ export async function applyMigrations(
 		}
 
 		console.log(`${binding} (${database_name}): applying ${pending.length} migration(s)...`)
+		// With time travel on, journal the state before and after, so a migration can be undone
+		// with `d1 time-travel restore`.
+		const journal = timeTravelEnabled() ? new D1Journal(d1JournalPath(dataDir, database_name)) : null
+		journal?.record(db)
 
 		for (const file of pending) {
 			const sql = readFileSync(join(migrationsPath, file), 'utf-8')
 			try {
 				db.run('BEGIN')
 				db.run(sql)
-				db.run('INSERT INTO d1_migrations (name) VALUES (?)', [file])
+				db.run(`INSERT INTO ${migrationsTable} (name) VALUES (?)`, [file])
 				db.run('COMMIT')
 				console.log(`  + ${file}`)
 				totalApplied++
 			} catch (err) {
 				db.run('ROLLBACK')
 				console.error(`  x ${file}: ${err}`)
+				journal?.record(db)
+				journal?.close()
 				db.close()
 				process.exit(1)
 			}
 		}
 
+		journal?.record(db)
+		journal?.close()
 		db.close()
 	}
 
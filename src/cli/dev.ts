@@ -14,6 +14,7 @@ process.on('uncaughtException', (err) => {
 })
 
 import '../plugin'
+import { existsSync, readFileSync } from 'node:fs'
 import path from 'node:path'
 import {
 	handleApiRequest,
@@ -21,6 +22,7 @@ import {
 	setGenerationManager,
 	setHostRoutes,
 	setLopataConfig,
+	setRequestCfResolver,
 	setRouteDispatcher,
 	setWorkerRegistry,
 } from '../api'
@@ -28,17 +30,20 @@ import { handleArtifactsGitRequest } from '../bindings/artifacts-git-http'
 import { reapOrphanContainers } from '../bindings/container-cleanup'
 import { QueuePullConsumer } from '../bindings/queue'
 import type { AckRequest, PullRequest } from '../bindings/queue'
+import { TailForwarder } from '../bindings/tail'
 import { CFWebSocket } from '../bindings/websocket-pair'
+import { configuredHostnames, ensureDevCertificates } from '../certs'
 import { autoLoadConfig, findConfigPath, hasScript, loadConfig } from '../config'
 import { handleDashboardRequest } from '../dashboard-serve'
 import { getDatabase, getDataDir } from '../db'
 import { FileWatcher } from '../file-watcher'
 import { GenerationManager } from '../generation-manager'
 import { ImportGraphWatcher } from '../import-graph'
-import { loadLopataConfig } from '../lopata-config'
-import { addCfProperty } from '../request-cf'
+import { type LopataConfig, loadLopataConfig } from '../lopata-config'
+import { RequestCfResolver } from '../request-cf'
 import { extractHostname, RouteDispatcher } from '../route-matcher'
 import { handleS3ProxyRequest, matchS3Path } from '../s3/proxy'
+import { OtlpExporter, resolveOtlpConfig } from '../tracing/otlp'
 import { getTraceStore } from '../tracing/store'
 import type { TraceEvent } from '../tracing/types'
 import { WorkerRegistry } from '../worker-registry'
@@ -60,22 +65,30 @@ export async function run(ctx: CliContext, args: string[]) {
 		listen: { type: 'string' },
 		host: { type: 'boolean' },
 		port: { type: 'string' },
+		https: { type: 'boolean' },
+		cert: { type: 'string' },
+		key: { type: 'string' },
 	})
 	const envFlag = ctx.envName
 	const portFlag = values.port
 
+	const baseDir = process.cwd()
+	const watchers: { stop(): void }[] = []
+
+	// Try to load lopata.config.ts for multi-worker mode
+	const lopataConfig = await loadLopataConfig(baseDir)
+
 	// Resolve port + host early so baseUrls (e.g. the Artifacts git remote) can be
 	// built before the generation managers, which pass it into their worker threads.
 	const earlyPort = parseInt(portFlag ?? process.env.PORT ?? '8787', 10)
 	const earlyHost = values.host ? '0.0.0.0' : (values.listen ?? process.env.HOST ?? 'localhost')
+	const tls = resolveTls(values, lopataConfig, earlyHost)
+	const scheme = tls ? 'https' : 'http'
 	const artifactsHost = earlyHost === '0.0.0.0' ? 'localhost' : earlyHost
 	const baseUrls = {
-		artifacts: process.env.LOPATA_ARTIFACTS_BASE_URL ?? `http://${artifactsHost}:${earlyPort}/__artifacts/git`,
+		artifacts: process.env.LOPATA_ARTIFACTS_BASE_URL ?? `${scheme}://${artifactsHost}:${earlyPort}/__artifacts/git`,
 	}
 
-	const baseDir = process.cwd()
-	const watchers: { stop(): void }[] = []
-
 	// Reap orphan containers left behind by previous lopata runs that crashed
 	// or were `kill -9`'d before the exit handler fired. Silently does nothing
 	// if docker isn't installed or nothing matches the label filter.
@@ -83,9 +96,6 @@ export async function run(ctx: CliContext, args: string[]) {
 		if (count > 0) console.log(`[lopata] Reaped ${count} orphan container(s) from previous run(s)`)
 	}).catch(() => {})
 
-	// Try to load lopata.config.ts for multi-worker mode
-	const lopataConfig = await loadLopataConfig(baseDir)
-
 	let manager: GenerationManager
 	let routeDispatcher: RouteDispatcher | undefined
 	let registry: WorkerRegistry | undefined
@@ -207,6 +217,7 @@ export async function run(ctx: CliContext, args: string[]) {
 
 		// Build route dispatcher (aux workers only — main is the fallback)
 		routeDispatcher = new RouteDispatcher(mainManager)
+		routeDispatcher.setHostMap(lopataConfig.hostMap)
 
 		// Register main worker host patterns so they take priority over wildcard aux hosts
 		if (lopataConfig.hosts?.length) {
@@ -226,7 +237,7 @@ export async function run(ctx: CliContext, args: string[]) {
 		if (routeDispatcher.hasRoutes()) {
 			for (const r of routeDispatcher.getRegisteredRoutes()) {
 				const hostInfo = r.hostPatterns ? ` (hosts: ${r.hostPatterns.join(', ')})` : ''
-				console.log(`[lopata] Route: ${r.pattern} → ${r.workerName}${hostInfo}`)
+				console.log(`[lopata] Route: ${r.hostPatterns ? r.pattern : r.route} → ${r.workerName}${hostInfo}`)
 			}
 		}
 
@@ -337,6 +348,17 @@ export async function run(ctx: CliContext, args: string[]) {
 		}
 	}
 
+	// Tail Workers: route finished invocations to the workers' `tail_consumers`.
+	if (registry) new TailForwarder(registry)
+
+	const otlpConfig = resolveOtlpConfig(lopataConfig?.otlp)
+	const otlpExporter = otlpConfig ? new OtlpExporter(otlpConfig) : null
+	if (otlpExporter) console.log(`[lopata] Exporting traces via OTLP (${otlpConfig!.protocol ?? 'http/json'}) to ${otlpExporter.endpoint}`)
+
+	const cfResolver = new RequestCfResolver(lopataConfig?.cf)
+	setRequestCfResolver(cfResolver)
+	if (cfResolver.activeProfile) console.log(`[lopata] request.cf profile: ${cfResolver.activeProfile}`)
+
 	// Start server — one Bun.serve(), delegates to active generation
 	const port = earlyPort
 	const hostname = earlyHost
@@ -344,8 +366,13 @@ export async function run(ctx: CliContext, args: string[]) {
 	const server = Bun.serve({
 		port,
 		hostname,
+		tls,
 		async fetch(request, server) {
-			addCfProperty(request)
+			try {
+				request = cfResolver.apply(request, server.requestIP(request)?.address ?? null)
+			} catch (err) {
+				return new Response(String((err as Error).message), { status: 400 })
+			}
 
 			const url = new URL(request.url)
 
@@ -584,8 +611,8 @@ export async function run(ctx: CliContext, args: string[]) {
 		},
 	})
 
-	console.log(`[lopata] Server running at http://${hostname}:${port}`)
-	console.log(`[lopata] Dashboard: http://${hostname}:${port}/__dashboard`)
+	console.log(`[lopata] Server running at ${scheme}://${hostname}:${port}`)
+	console.log(`[lopata] Dashboard: ${scheme}://${hostname}:${port}/__dashboard`)
 
 	if (hostname === '0.0.0.0') {
 		console.warn(
@@ -595,10 +622,12 @@ export async function run(ctx: CliContext, args: string[]) {
 	}
 
 	// Graceful shutdown
-	const shutdown = () => {
+	const shutdown = async () => {
 		console.log('\n[lopata] Shutting down…')
 		for (const w of watchers) w.stop()
 		server.stop()
+		// Give the collector a moment to receive the last spans, but never hang on it.
+		if (otlpExporter) await Promise.race([otlpExporter.shutdown(), Bun.sleep(2000)])
 		getTraceStore().close()
 		process.exit(0)
 	}
@@ -610,6 +639,46 @@ export async function run(ctx: CliContext, args: string[]) {
 	await new Promise(() => {})
 }
 
+/**
+ * TLS options for `Bun.serve`, or undefined to serve plain HTTP. `--cert`/`--key`
+ * (or `https.cert`/`https.key` in lopata.config.ts) serve the given files;
+ * otherwise `--https` / `https: true` issues a certificate from the local CA.
+ */
+function resolveTls(
+	flags: { https?: boolean; cert?: string; key?: string },
+	lopataConfig: LopataConfig | null,
+	listenHost: string,
+): { cert: string; key: string } | undefined {
+	const configured = lopataConfig?.https
+	const options = typeof configured === 'object' ? configured : {}
+	const certPath = flags.cert ? path.resolve(flags.cert) : options.cert
+	const keyPath = flags.key ? path.resolve(flags.key) : options.key
+	if (!flags.https && !configured && !certPath && !keyPath) return undefined
+
+	if (certPath || keyPath) {
+		if (!certPath || !keyPath) {
+			console.error('[lopata] HTTPS needs both a certificate and a key (--cert and --key)')
+			process.exit(1)
+		}
+		for (const file of [certPath, keyPath]) {
+			if (!existsSync(file)) {
+				console.error(`[lopata] File not found: ${file}`)
+				process.exit(1)
+			}
+		}
+		return { cert: readFileSync(certPath, 'utf8'), key: readFileSync(keyPath, 'utf8') }
+	}
+
+	const hostnames = configuredHostnames(lopataConfig)
+	if (!['localhost', '0.0.0.0', '::'].includes(listenHost)) hostnames.push(listenHost)
+	const certs = ensureDevCertificates(getDataDir(), hostnames)
+	if (certs.issued) {
+		console.log(`[lopata] Issued a dev certificate for ${certs.hostnames.join(', ')}`)
+		console.log(`[lopata] Trust the local CA once so browsers accept it: lopata certs trust`)
+	}
+	return { cert: certs.cert, key: certs.key }
+}
+
 /** Resolve a ?worker= query param to the target GenerationManager, falling back to the main manager. */
 function resolveWorkerParam(url: URL, registry: WorkerRegistry | undefined, fallback: GenerationManager): GenerationManager {
 	const workerName = url.searchParams.get('worker')
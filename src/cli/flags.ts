@@ -0,0 +1,129 @@
+import { existsSync, readFileSync } from 'node:fs'
+import {
+	deleteFlag,
+	evaluateFlag,
+	FLAG_TYPES,
+	getFlag,
+	listFlags,
+	parseFlagValue,
+	setFlagEnabled,
+	setFlagRules,
+	setFlagValue,
+	validateFlagRules,
+} from '../bindings/flagship'
+import type { FlagType } from '../bindings/flagship'
+import type { CliContext } from './context'
+import { parseArgs } from './context'
+
+const USAGE = 'Usage: lopata flags <list|get|set|enable|disable|rules|eval|delete> [options]'
+
+export async function run(ctx: CliContext, args: string[]) {
+	const action = args[0]
+	const { values, positionals } = parseArgs(args.slice(1), {
+		app: { type: 'string' },
+		type: { type: 'string' },
+		variant: { type: 'string' },
+		file: { type: 'string', short: 'f' },
+		json: { type: 'string' },
+		clear: { type: 'boolean' },
+		context: { type: 'string' },
+	})
+	const config = await ctx.config()
+	const appId = values.app ?? config.flagship?.app_id
+	if (!appId) {
+		console.error('No Flagship binding configured. Pass --app <app_id> to pick the app.')
+		process.exit(1)
+	}
+	const db = ctx.db()
+	const key = positionals[0]
+
+	try {
+		switch (action) {
+			case 'list': {
+				const flags = listFlags(db, appId)
+				for (const flag of flags) {
+					const state = flag.enabled ? 'on ' : 'off'
+					const rules = flag.rules.length ? `  (${flag.rules.length} rule${flag.rules.length === 1 ? '' : 's'})` : ''
+					console.log(`${state}  ${flag.key}  ${flag.type}  ${flag.value}${rules}`)
+				}
+				if (flags.length === 0) console.log('(no flags)')
+				break
+			}
+			case 'get': {
+				if (!key) fail('Usage: lopata flags get <key> [--app ID]')
+				const flag = getFlag(db, appId, key)
+				if (!flag) fail(`Flag not found: ${key}`)
+				console.log(JSON.stringify(flag, null, 2))
+				break
+			}
+			case 'set': {
+				const raw = positionals[1]
+				if (!key || raw === undefined) fail('Usage: lopata flags set <key> <value> [--type boolean|string|number|object] [--variant NAME]')
+				if (values.type && !FLAG_TYPES.includes(values.type as FlagType)) {
+					fail(`Invalid --type "${values.type}" (expected ${FLAG_TYPES.join(', ')})`)
+				}
+				const type = (values.type as FlagType | undefined) ?? getFlag(db, appId, key)?.type ?? inferType(raw)
+				setFlagValue(db, appId, key, type, parseFlagValue(type, raw), values.variant)
+				console.log(`Set ${key} = ${raw} (${type})`)
+				break
+			}
+			case 'enable':
+			case 'disable': {
+				if (!key) fail(`Usage: lopata flags ${action} <key> [--app ID]`)
+				setFlagEnabled(db, appId, key, action === 'enable')
+				console.log(`${action === 'enable' ? 'Enabled' : 'Disabled'} ${key}`)
+				break
+			}
+			case 'rules': {
+				if (!key) fail('Usage: lopata flags rules <key> [--file PATH | --json RULES | --clear]')
+				const flag = getFlag(db, appId, key)
+				if (!flag) fail(`Flag not found: ${key}`)
+				let source: string | null = null
+				if (values.file) {
+					if (!existsSync(values.file)) fail(`File not found: ${values.file}`)
+					source = readFileSync(values.file, 'utf-8')
+				} else if (values.json) {
+					source = values.json
+				}
+				if (source === null && !values.clear) {
+					console.log(JSON.stringify(flag.rules, null, 2))
+					break
+				}
+				const rules = source === null ? [] : validateFlagRules(flag.type, JSON.parse(source))
+				setFlagRules(db, appId, key, rules)
+				console.log(rules.length ? `Set ${rules.length} rule(s) on ${key}` : `Cleared rules on ${key}`)
+				break
+			}
+			case 'eval': {
+				if (!key) fail(`Usage: lopata flags eval <key> [--context '{"targetingKey":"user-1"}']`)
+				const details = evaluateFlag(db, appId, key, values.context ? JSON.parse(values.context) : undefined)
+				if (!details) fail(`Flag not found: ${key}`)
+				console.log(JSON.stringify(details, null, 2))
+				break
+			}
+			case 'delete': {
+				if (!key) fail('Usage: lopata flags delete <key> [--app ID]')
+				deleteFlag(db, appId, key)
+				console.log(`Deleted ${key}`)
+				break
+			}
+			default:
+				fail(USAGE)
+		}
+	} catch (err) {
+		fail((err as Error).message)
+	}
+}
+
+function fail(message: string): never {
+	console.error(message)
+	process.exit(1)
+}
+
+/** Pick a flag type for a new flag from how its value looks. */
+function inferType(raw: string): FlagType {
+	if (raw === 'true' || raw === 'false') return 'boolean'
+	if (raw.trim() !== '' && Number.isFinite(Number(raw))) return 'number'
+	if (raw.startsWith('{') || raw.startsWith('[')) return 'object'
+	return 'string'
+}
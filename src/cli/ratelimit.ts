@@ -0,0 +1,46 @@
+import { listRateLimitCounters, rateLimitBindings, resetRateLimits } from '../bindings/rate-limit'
+import type { CliContext } from './context'
+import { parseArgs } from './context'
+
+export async function run(ctx: CliContext, args: string[]) {
+	const action = args[0]
+
+	switch (action) {
+		case 'list': {
+			parseArgs(args.slice(1), {})
+			const bindings = rateLimitBindings(await ctx.config())
+			if (bindings.length === 0) {
+				console.log('(no rate limit bindings)')
+				return
+			}
+			const db = ctx.db()
+			for (const rl of bindings) {
+				console.log(`${rl.binding}  namespace=${rl.namespaceId}  ${rl.limit} per ${rl.period}s`)
+				for (const counter of listRateLimitCounters(db, rl.namespaceId, rl.period)) {
+					const limited = counter.count >= rl.limit ? '  (limited)' : ''
+					console.log(`  ${counter.key}  ${counter.count}/${rl.limit}  resets ${new Date(counter.resetsAt).toISOString()}${limited}`)
+				}
+			}
+			break
+		}
+		case 'reset': {
+			const { values, positionals } = parseArgs(args.slice(1), {
+				key: { type: 'string' },
+			})
+			const namespaceId = positionals[0]
+			if (values.key !== undefined && !namespaceId) {
+				console.error('Usage: lopata ratelimit reset <namespace-id> --key <key>')
+				process.exit(1)
+			}
+			const removed = resetRateLimits(ctx.db(), namespaceId, values.key)
+			let scope = 'all namespaces'
+			if (values.key !== undefined) scope = `key "${values.key}" in namespace "${namespaceId}"`
+			else if (namespaceId) scope = `namespace "${namespaceId}"`
+			console.log(`Reset ${scope} (${removed} recorded calls removed)`)
+			break
+		}
+		default:
+			console.error('Usage: lopata ratelimit <list|reset> [namespace-id] [--key <key>]')
+			process.exit(1)
+	}
+}
@@ -0,0 +1,72 @@
+import { LocalSecretsStore } from '../bindings/secrets-store'
+import type { CliContext } from './context'
+import { parseArgs } from './context'
+
+const USAGE = 'Usage: lopata secrets-store secret <create|update|list|delete> <store-id> [--name NAME] [--value VALUE] [--comment TEXT]'
+
+export async function run(ctx: CliContext, args: string[]) {
+	if (args[0] !== 'secret') fail(USAGE)
+	const action = args[1]
+	const { values, positionals } = parseArgs(args.slice(2), {
+		name: { type: 'string' },
+		value: { type: 'string' },
+		comment: { type: 'string' },
+		// Accepted for wrangler compatibility; local secrets are always visible to workers.
+		scopes: { type: 'string' },
+	})
+	const store = new LocalSecretsStore(ctx.dataDir())
+	const storeId = positionals[0]
+
+	try {
+		switch (action) {
+			case 'create':
+			case 'update': {
+				if (!storeId || !values.name) fail(`Usage: lopata secrets-store secret ${action} <store-id> --name NAME [--value VALUE] [--comment TEXT]`)
+				const exists = store.has(storeId, values.name)
+				if (action === 'create' && exists) fail(`Secret "${values.name}" already exists in store "${storeId}" — use "update" to change it`)
+				if (action === 'update' && !exists) fail(`Secret "${values.name}" not found in store "${storeId}"`)
+				const value = values.value ?? await readValue()
+				if (!value) fail('Secret value must not be empty')
+				store.put(storeId, values.name, value, values.comment)
+				console.log(`${action === 'create' ? 'Created' : 'Updated'} secret ${values.name} in store ${storeId}`)
+				break
+			}
+			case 'list': {
+				const config = await ctx.config().catch(() => null)
+				const bound = new Map((config?.secrets_store_secrets ?? []).map(s => [`${s.store_id}/${s.secret_name}`, s.binding]))
+				const secrets = store.list(storeId)
+				const storeWidth = Math.max(0, ...secrets.map(s => s.storeId.length))
+				const nameWidth = Math.max(0, ...secrets.map(s => s.name.length))
+				for (const secret of secrets) {
+					const binding = bound.get(`${secret.storeId}/${secret.name}`)
+					const notes = `${binding ? `  (${binding})` : ''}${secret.comment ? `  # ${secret.comment}` : ''}`
+					const updated = new Date(secret.updatedAt).toISOString()
+					console.log(`${secret.storeId.padEnd(storeWidth)}  ${secret.name.padEnd(nameWidth)}  ********  ${updated}${notes}`)
+				}
+				if (secrets.length === 0) console.log('(no secrets)')
+				break
+			}
+			case 'delete': {
+				if (!storeId || !values.name) fail('Usage: lopata secrets-store secret delete <store-id> --name NAME')
+				if (!store.delete(storeId, values.name)) fail(`Secret "${values.name}" not found in store "${storeId}"`)
+				console.log(`Deleted secret ${values.name} from store ${storeId}`)
+				break
+			}
+			default:
+				fail(USAGE)
+		}
+	} catch (err) {
+		fail((err as Error).message)
+	}
+}
+
+/** Read the value from piped stdin, or prompt for it on a terminal. */
+async function readValue(): Promise<string> {
+	if (!process.stdin.isTTY) return (await Bun.stdin.text()).replace(/\r?\n$/, '')
+	return prompt('Secret value:') ?? ''
+}
+
+function fail(message: string): never {
+	console.error(message)
+	process.exit(1)
+}
@@ -0,0 +1,123 @@
+import { existsSync, readFileSync } from 'node:fs'
+import {
+	createVectorizeIndex,
+	deleteVectorizeIndex,
+	getVectorizeIndex,
+	listVectorizeIndexes,
+	SqliteVectorizeIndex,
+	VECTORIZE_METRICS,
+} from '../bindings/vectorize'
+import type { VectorizeDistanceMetric, VectorizeQueryOptions, VectorizeVector } from '../bindings/vectorize'
+import type { CliContext } from './context'
+import { parseArgs } from './context'
+
+const USAGE = 'Usage: lopata vectorize <list|create|get|delete|insert|upsert|query|get-vectors|delete-vectors> [index] [options]'
+
+export async function run(ctx: CliContext, args: string[]) {
+	const action = args[0]
+	const { values, positionals } = parseArgs(args.slice(1), {
+		dimensions: { type: 'string' },
+		metric: { type: 'string' },
+		description: { type: 'string' },
+		file: { type: 'string', short: 'f' },
+		vector: { type: 'string' },
+		'vector-id': { type: 'string' },
+		'top-k': { type: 'string' },
+		namespace: { type: 'string' },
+		filter: { type: 'string' },
+		'return-values': { type: 'boolean' },
+		'return-metadata': { type: 'string' },
+		ids: { type: 'string', multiple: true },
+	})
+	const db = ctx.db()
+	const name = positionals[0]
+
+	try {
+		switch (action) {
+			case 'list': {
+				const indexes = listVectorizeIndexes(db)
+				for (const index of indexes) {
+					console.log(`${index.name}  ${index.dimensions} dims  ${index.metric}  ${index.vectorCount} vectors`)
+				}
+				if (indexes.length === 0) console.log('(no indexes)')
+				break
+			}
+			case 'create': {
+				if (!name || !values.dimensions) fail(`Usage: lopata vectorize create <index> --dimensions N [--metric ${VECTORIZE_METRICS.join('|')}]`)
+				const index = createVectorizeIndex(db, name, {
+					dimensions: Number(values.dimensions),
+					metric: (values.metric ?? 'cosine') as VectorizeDistanceMetric,
+					description: values.description,
+				})
+				console.log(`Created index ${index.name} (${index.dimensions} dimensions, ${index.metric})`)
+				break
+			}
+			case 'get': {
+				if (!name) fail('Usage: lopata vectorize get <index>')
+				const index = getVectorizeIndex(db, name)
+				if (!index) fail(`Index not found: ${name}`)
+				console.log(JSON.stringify({ ...index, ...await new SqliteVectorizeIndex(db, name).describe() }, null, 2))
+				break
+			}
+			case 'delete': {
+				if (!name) fail('Usage: lopata vectorize delete <index>')
+				if (!deleteVectorizeIndex(db, name)) fail(`Index not found: ${name}`)
+				console.log(`Deleted index ${name}`)
+				break
+			}
+			case 'insert':
+			case 'upsert': {
+				if (!name || !values.file) fail(`Usage: lopata vectorize ${action} <index> --file <vectors.ndjson>`)
+				if (!existsSync(values.file)) fail(`File not found: ${values.file}`)
+				const vectors = readFileSync(values.file, 'utf8').split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as VectorizeVector)
+				const index = new SqliteVectorizeIndex(db, name)
+				// The binding caps a single call at 1000 vectors; files can be larger.
+				for (let i = 0; i < vectors.length; i += 1000) {
+					await index[action](vectors.slice(i, i + 1000))
+				}
+				console.log(`${action === 'insert' ? 'Inserted' : 'Upserted'} ${vectors.length} vectors into ${name}`)
+				break
+			}
+			case 'query': {
+				if (!name || (!values.vector && !values['vector-id'])) {
+					fail('Usage: lopata vectorize query <index> (--vector 0.1,0.2,... | --vector-id ID) [--top-k N] [--namespace NS] [--filter JSON]')
+				}
+				const options: VectorizeQueryOptions = {
+					topK: values['top-k'] ? Number(values['top-k']) : undefined,
+					namespace: values.namespace,
+					returnValues: values['return-values'],
+					returnMetadata: (values['return-metadata'] ?? 'none') as VectorizeQueryOptions['returnMetadata'],
+					filter: values.filter ? JSON.parse(values.filter) : undefined,
+				}
+				const index = new SqliteVectorizeIndex(db, name)
+				const result = values['vector-id']
+					? await index.queryById(values['vector-id'], options)
+					: await index.query(values.vector!.split(',').map(Number), options)
+				console.log(JSON.stringify(result, null, 2))
+				break
+			}
+			case 'get-vectors':
+			case 'delete-vectors': {
+				const ids = (values.ids ?? []).flatMap(id => id.split(',')).filter(Boolean)
+				if (!name || ids.length === 0) fail(`Usage: lopata vectorize ${action} <index> --ids <id>[,<id>...]`)
+				const index = new SqliteVectorizeIndex(db, name)
+				if (action === 'get-vectors') {
+					console.log(JSON.stringify(await index.getByIds(ids), null, 2))
+				} else {
+					await index.deleteByIds(ids)
+					console.log(`Deleted ${ids.length} vector id(s) from ${name}`)
+				}
+				break
+			}
+			default:
+				fail(USAGE)
+		}
+	} catch (err) {
+		fail((err as Error).message)
+	}
+}
+
+function fail(message: string): never {
+	console.error(message)
+	process.exit(1)
+}
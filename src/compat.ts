@@ -0,0 +1,177 @@
+/**
+ * Compatibility dates and flags (`compatibility_date` / `compatibility_flags`).
+ *
+ * Cloudflare gates runtime behavior changes behind flags that switch on by default
+ * from a given date. Lopata mirrors the ones that change observable behavior in a
+ * way Bun doesn't already match, so code that relies on a flag's semantics fails
+ * locally the same way it would after deploy:
+ *
+ *  - `nodejs_compat` / `nodejs_compat_v2` / `nodejs_als` — which `node:*` (and bare
+ *    builtin) imports user code may resolve. Enforced by the module guard that
+ *    `applyCompatibility()` in plugin.ts registers.
+ *  - `formdata_parser_supports_files` — when off, `formData()` turns uploaded files
+ *    into strings.
+ *  - `global_navigator` — when off (`no_global_navigator`), there is no `navigator`.
+ *  - `global_fetch_strictly_public` — outbound fetches to private/loopback
+ *    addresses are flagged, since they can never be reached from the edge.
+ *
+ * Flags Bun already behaves like are listed as `native` so they don't show up as
+ * unknown; anything else lands in the dashboard's warnings.
+ */
+import { isBuiltin } from 'node:module'
+import type { WranglerConfig } from './config'
+
+export type CompatFlagStatus = 'emulated' | 'native' | 'unsupported'
+
+interface CompatFlagDef {
+	/** Flag that turns the behavior on. */
+	enable: string
+	/** Flag that turns it off again after its default date. */
+	disable?: string
+	/** Compatibility date from which the flag is on by default. */
+	date?: string
+	status: CompatFlagStatus
+}
+
+const COMPAT_FLAGS: CompatFlagDef[] = [
+	{ enable: 'nodejs_compat', status: 'emulated' },
+	{ enable: 'nodejs_compat_v2', disable: 'no_nodejs_compat_v2', status: 'emulated' },
+	{ enable: 'nodejs_als', status: 'emulated' },
+	{ enable: 'formdata_parser_supports_files', disable: 'formdata_parser_converts_files_to_strings', date: '2021-11-03', status: 'emulated' },
+	{ enable: 'global_navigator', disable: 'no_global_navigator', date: '2022-03-21', status: 'emulated' },
+	{ enable: 'global_fetch_strictly_public', status: 'emulated' },
+	{ enable: 'fetch_refuses_unknown_protocols', disable: 'fetch_treats_unknown_protocols_as_http', date: '2021-11-10', status: 'native' },
+	{ enable: 'url_standard', disable: 'url_original', date: '2022-10-31', status: 'native' },
+	{ enable: 'export_commonjs_default', disable: 'export_commonjs_namespace', date: '2022-10-31', status: 'native' },
+	{ enable: 'streams_enable_constructors', disable: 'streams_disable_constructors', date: '2022-11-30', status: 'native' },
+	{
+		enable: 'transformstream_enable_standard_constructor',
+		disable: 'transformstream_disable_standard_constructor',
+		date: '2022-11-30',
+		status: 'native',
+	},
+	{ enable: 'web_socket_compression', disable: 'no_web_socket_compression', date: '2023-08-15', status: 'native' },
+	{ enable: 'rpc', disable: 'no_rpc', date: '2024-04-03', status: 'native' },
+	{ enable: 'enable_navigator_language', disable: 'disable_navigator_language', date: '2025-05-19', status: 'native' },
+	{ enable: 'enable_ctx_exports', status: 'unsupported' },
+]
+
+/** `nodejs_compat` on this date or later implies `nodejs_compat_v2`. */
+const NODEJS_COMPAT_V2_DATE = '2024-09-23'
+
+/**
+ * Builtins available under the original `nodejs_compat` (v1). Everything else
+ * needs v2, and v1 requires the `node:` prefix.
+ */
+const NODEJS_COMPAT_V1_MODULES = new Set([
+	'assert',
+	'assert/strict',
+	'async_hooks',
+	'buffer',
+	'crypto',
+	'diagnostics_channel',
+	'events',
+	'path',
+	'path/posix',
+	'path/win32',
+	'process',
+	'stream',
+	'stream/consumers',
+	'stream/promises',
+	'stream/web',
+	'string_decoder',
+	'test',
+	'util',
+	'util/types',
+])
+
+export type NodeCompatMode = 'none' | 'als' | 'v1' | 'v2'
+
+export class CompatibilityFlags {
+	readonly date: string
+	readonly flags: readonly string[]
+
+	/** A missing `compatibility_date` behaves like today's — wrangler's own fallback. */
+	constructor(date?: string, flags: readonly string[] = []) {
+		this.date = date ?? new Date().toISOString().slice(0, 10)
+		this.flags = flags
+	}
+
+	/** Whether `flag` is on — set explicitly, or defaulted on by the compatibility date. */
+	isEnabled(flag: string): boolean {
+		if (this.flags.includes(flag)) return true
+		if (flag === 'nodejs_compat_v2') {
+			if (this.flags.includes('no_nodejs_compat_v2')) return false
+			return this.flags.includes('nodejs_compat') && this.date >= NODEJS_COMPAT_V2_DATE
+		}
+		const def = COMPAT_FLAGS.find(f => f.enable === flag)
+		if (!def?.date) return false
+		if (def.disable && this.flags.includes(def.disable)) return false
+		return this.date >= def.date
+	}
+
+	get nodeCompat(): NodeCompatMode {
+		if (this.isEnabled('nodejs_compat_v2')) return 'v2'
+		if (this.isEnabled('nodejs_compat')) return 'v1'
+		if (this.isEnabled('nodejs_als')) return 'als'
+		return 'none'
+	}
+
+	/**
+	 * Whether user code may import `specifier`. Non-builtins are always allowed;
+	 * Node builtins need the matching `nodejs_compat*` flag.
+	 */
+	isNodeImportAllowed(specifier: string): boolean {
+		if (!isBuiltin(specifier)) return true
+		const prefixed = specifier.startsWith('node:')
+		const name = prefixed ? specifier.slice(5) : specifier
+		switch (this.nodeCompat) {
+			case 'v2':
+				return true
+			case 'v1':
+				return prefixed && NODEJS_COMPAT_V1_MODULES.has(name)
+			case 'als':
+				return prefixed && name === 'async_hooks'
+			case 'none':
+				return false
+		}
+	}
+
+	/** Human-readable reason an import was refused, pointing at the flag to add. */
+	nodeImportError(specifier: string): string {
+		const mode = this.nodeCompat
+		if (mode === 'v1' && !specifier.startsWith('node:')) {
+			return `Cannot import "${specifier}": nodejs_compat (v1) requires the "node:" prefix — use "node:${specifier}", or enable nodejs_compat_v2`
+		}
+		if (mode === 'v1') {
+			return `Cannot import "${specifier}": not available under nodejs_compat (v1) — enable nodejs_compat_v2 or use compatibility_date >= ${NODEJS_COMPAT_V2_DATE}`
+		}
+		return `Cannot import "${specifier}": Node.js built-in modules require the "nodejs_compat" compatibility flag`
+	}
+
+	/** Flags lopata has never heard of — most likely typos or flags newer than lopata. */
+	unknownFlags(): string[] {
+		const known = new Set(COMPAT_FLAGS.flatMap(f => (f.disable ? [f.enable, f.disable] : [f.enable])))
+		return this.flags.filter(flag => !known.has(flag))
+	}
+
+	/** Known flags whose behavior lopata does not emulate. */
+	unsupportedFlags(): string[] {
+		return COMPAT_FLAGS.filter(f => f.status === 'unsupported' && this.flags.includes(f.enable)).map(f => f.enable)
+	}
+}
+
+export function compatFromConfig(config: Pick<WranglerConfig, 'compatibility_date' | 'compatibility_flags'>): CompatibilityFlags {
+	return new CompatibilityFlags(config.compatibility_date, config.compatibility_flags ?? [])
+}
+
+/** Loopback, RFC 1918, link-local and unique-local hosts — unreachable from Cloudflare's edge. */
+export function isPrivateHost(hostname: string): boolean {
+	const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+	if (host === 'localhost' || host.endsWith('.localhost') || host === '::1') return true
+	if (/^(fc|fd)[0-9a-f]{2}:/.test(host) || host.startsWith('fe80:')) return true
+	const octets = host.split('.').map(Number)
+	if (octets.length !== 4 || octets.some(o => !Number.isInteger(o) || o < 0 || o > 255)) return false
+	const [a, b] = octets as [number, number, number, number]
+	return a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254) || a === 0
+}
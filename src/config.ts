@@ -18,10 +18,10 @@ export interface WranglerConfig {
 	kv_namespaces?: { binding: string; id: string }[]
 	r2_buckets?: { binding: string; bucket_name: string }[]
 	durable_objects?: {
-		bindings: { name: string; class_name: string }[]
+		bindings: { name: string; class_name: string; script_name?: string }[]
 	}
 	workflows?: { name: string; binding: string; class_name: string; limits?: Partial<WorkflowLimits> }[]
-	d1_databases?: { binding: string; database_name: string; database_id: string; migrations_dir?: string }[]
+	d1_databases?: { binding: string; database_name: string; database_id: string; migrations_dir?: string; migrations_table?: string }[]
 	queues?: {
 		producers?: { binding: string; queue: string; delivery_delay?: number }[]
 		consumers?: {
@@ -65,7 +65,9 @@ export interface WranglerConfig {
 		remote?: boolean
 	}[]
 	services?: { binding: string; service: string; entrypoint?: string; props?: Record<string, unknown> }[]
+	tail_consumers?: { service: string; environment?: string }[]
 	triggers?: { crons?: string[] }
+	limits?: { cpu_ms?: number; subrequests?: number }
 	vars?: Record<string, string>
 	assets?: {
 		directory: string
@@ -92,6 +94,12 @@ export interface WranglerConfig {
 	browser?: { binding: string }
 	version_metadata?: { binding: string }
 	flagship?: { binding: string; app_id: string }
+	secrets_store_secrets?: { binding: string; store_id: string; secret_name: string }[]
+	vectorize?: { binding: string; index_name: string }[]
+	ratelimits?: { name: string; namespace_id: string | number; simple: { limit: number; period: number } }[]
+	unsafe?: {
+		bindings?: { name: string; type: string; namespace_id?: string | number; simple?: { limit: number; period: number } }[]
+	}
 	migrations?: {
 		tag: string
 		new_classes?: string[]
@@ -13,15 +13,19 @@ import { D1View } from './views/d1'
 import { DoView } from './views/do'
 import { EmailView } from './views/email'
 import { ErrorsView } from './views/errors'
+import { FlagsView } from './views/flags'
 import { GenerationsView } from './views/generations'
 import { HomeView } from './views/home'
 import { HostsView } from './views/hosts'
 import { KvView } from './views/kv'
 import { QueueView } from './views/queue'
 import { R2View } from './views/r2'
+import { RateLimitView } from './views/ratelimit'
 import { RoutesView } from './views/routes'
 import { ScheduledView } from './views/scheduled'
+import { SecretsStoreView } from './views/secrets-store'
 import { TracesView } from './views/traces'
+import { VectorizeView } from './views/vectorize'
 import { WorkersView } from './views/workers'
 import { WorkflowsView } from './views/workflows'
 
@@ -67,6 +71,8 @@ const NAV_GROUPS: NavGroup[] = [
 			{ path: '/containers', label: 'Containers', icon: 'containers' },
 			{ path: '/workflows', label: 'Workflows', icon: 'workflows' },
 			{ path: '/scheduled', label: 'Scheduled', icon: 'scheduled' },
+			{ path: '/flags', label: 'Feature Flags', icon: 'flags' },
+			{ path: '/ratelimit', label: 'Rate Limiting', icon: 'ratelimit' },
 		],
 	},
 	{
@@ -76,6 +82,8 @@ const NAV_GROUPS: NavGroup[] = [
 			{ path: '/r2', label: 'R2', icon: 'r2' },
 			{ path: '/d1', label: 'D1', icon: 'd1' },
 			{ path: '/cache', label: 'Cache', icon: 'cache' },
+			{ path: '/vectorize', label: 'Vectorize', icon: 'vectorize' },
+			{ path: '/secrets', label: 'Secrets Store', icon: 'secrets' },
 		],
 	},
 	{
@@ -212,6 +220,10 @@ function App() {
 		if (route.startsWith('/cache')) return <CacheView route={route} />
 		if (route.startsWith('/scheduled')) return <ScheduledView route={route} />
 		if (route.startsWith('/email')) return <EmailView route={route} />
+		if (route.startsWith('/flags')) return <FlagsView route={route} />
+		if (route.startsWith('/secrets')) return <SecretsStoreView />
+		if (route.startsWith('/ratelimit')) return <RateLimitView />
+		if (route.startsWith('/vectorize')) return <VectorizeView route={route} />
 		if (route.startsWith('/ai')) return <AiView route={route} />
 		if (route.startsWith('/analytics')) return <AnalyticsEngineView route={route} />
 		return <div class="p-4 sm:p-8 text-text-muted">Page not found</div>
@@ -75,6 +75,36 @@ const ICONS: Record<string, () => preact.JSX.Element> = {
 			<polyline points="2,4.5 8,9 14,4.5" />
 		</svg>
 	),
+	flags: () => (
+		<svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+			<line x1="3.5" y1="14" x2="3.5" y2="2" />
+			<path d="M3.5 2.5h8.5l-2 3 2 3H3.5" />
+		</svg>
+	),
+	vectorize: () => (
+		<svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+			<path d="M2.5 13.5l5-5" />
+			<path d="M2.5 13.5L13 9" />
+			<path d="M2.5 13.5L9 3" />
+			<circle cx="7.5" cy="8.5" r="0.75" fill="currentColor" stroke="none" />
+			<circle cx="13" cy="9" r="0.75" fill="currentColor" stroke="none" />
+			<circle cx="9" cy="3" r="0.75" fill="currentColor" stroke="none" />
+		</svg>
+	),
+	ratelimit: () => (
+		<svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+			<path d="M2.5 11.5a5.5 5.5 0 1 1 11 0" />
+			<path d="M8 11.5l2.5-3.5" />
+			<circle cx="8" cy="11.5" r="0.75" fill="currentColor" stroke="none" />
+		</svg>
+	),
+	secrets: () => (
+		<svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+			<rect x="3" y="7" width="10" height="7" rx="1.5" />
+			<path d="M5.5 7V5a2.5 2.5 0 0 1 5 0v2" />
+			<circle cx="8" cy="10.5" r="0.75" fill="currentColor" stroke="none" />
+		</svg>
+	),
 	ai: () => (
 		<svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
 			<path d="M8 2L9.5 6.5L14 8L9.5 9.5L8 14L6.5 9.5L2 8L6.5 6.5Z" />
@@ -8,6 +8,12 @@ const AI_STATUS_COLORS: Record<string, string> = {
 	error: 'bg-red-500/15 text-red-500',
 }
 
+const AI_PROVIDER_COLORS: Record<string, string> = {
+	record: 'bg-amber-500/15 text-amber-500',
+	replay: 'bg-blue-500/15 text-blue-500',
+	stub: 'bg-purple-500/15 text-purple-500',
+}
+
 export function AiView({ route }: { route: string }) {
 	const parts = route.split('/').filter(Boolean)
 	if (parts.length >= 2) return <AiDetail id={parts[1]!} />
@@ -60,10 +66,13 @@ function AiList() {
 					</div>
 					{!requests?.length ? <EmptyState message="No AI requests found" /> : (
 						<Table
-							headers={['Model', 'Status', 'Duration', 'Stream', 'Time', '']}
+							headers={['Model', 'Status', 'Source', 'Duration', 'Stream', 'Time', '']}
 							rows={requests.map(r => [
 								<a href={`#/ai/${r.id}`} class="font-mono text-xs text-link hover:underline max-w-[200px] truncate block">{r.model}</a>,
 								<StatusBadge status={r.status} colorMap={AI_STATUS_COLORS} />,
+								r.provider === 'remote'
+									? <span class="text-xs text-text-dim">remote</span>
+									: <StatusBadge status={r.provider} colorMap={AI_PROVIDER_COLORS} />,
 								<span class="text-xs text-text-muted tabular-nums">{r.duration_ms}ms</span>,
 								r.is_streaming ? <span class="text-xs text-purple-500">yes</span> : <span class="text-xs text-text-dim">no</span>,
 								<span class="text-xs text-text-muted">{formatTime(r.created_at)}</span>,
@@ -73,7 +82,7 @@ function AiList() {
 					)}
 				</div>
 				<ServiceInfo
-					description="Workers AI binding — proxies requests to Cloudflare AI API."
+					description="Workers AI binding — proxies requests to Cloudflare AI API, or records, replays and stubs them offline (LOPATA_AI_MODE)."
 					stats={[
 						{ label: 'Total', value: stats?.total ?? 0 },
 						{ label: 'Avg duration', value: `${stats?.avgDuration ?? 0}ms` },
@@ -120,6 +129,9 @@ function AiDetail({ id }: { id: string }) {
 					<div>
 						<span class="text-text-muted">Streaming:</span> {data.is_streaming ? 'Yes' : 'No'}
 					</div>
+					<div>
+						<span class="text-text-muted">Source:</span> {data.provider}
+					</div>
 					<div>
 						<span class="text-text-muted">Time:</span> {formatTime(data.created_at)}
 					</div>
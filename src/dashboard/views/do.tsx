@@ -1,3 +1,4 @@
+import { useState } from 'preact/hooks'
 import { Breadcrumb, DeleteButton, EmptyState, PageHeader, RefreshButton, ServiceInfo, SqlBrowser, Table, TableLink } from '../components'
 import { formatTime, parseBrowserRoute, parseHashRoute } from '../lib'
 import { rpc } from '../rpc/client'
@@ -93,7 +94,7 @@ function DoInstanceDetail({ ns, id, basePath, routeTab, routeTable, routeQuery }
 	const triggerAlarm = useMutation('do.triggerAlarm')
 	const cancelAlarm = useMutation('do.cancelAlarm')
 	const deleteInstance = useMutation('do.deleteInstance')
-	const { data: sqlTables } = useQuery('do.listSqlTables', { ns, id })
+	const { data: sqlTables, refetch: refetchSqlTables } = useQuery('do.listSqlTables', { ns, id })
 
 	const handleDelete = async (key: string) => {
 		if (!confirm(`Delete storage key "${key}"?`)) return
@@ -163,6 +164,14 @@ function DoInstanceDetail({ ns, id, basePath, routeTab, routeTable, routeQuery }
 					</div>
 				</div>
 			)}
+			<RestorePanel
+				ns={ns}
+				id={id}
+				onRestored={() => {
+					refetch()
+					refetchSqlTables()
+				}}
+			/>
 			{data.entries.length === 0 ? <EmptyState message="No storage entries" /> : (
 				<Table
 					headers={['Key', 'Value', '']}
@@ -195,3 +204,52 @@ function DoInstanceDetail({ ns, id, basePath, routeTab, routeTable, routeQuery }
 		</div>
 	)
 }
+
+/** Point-in-time recovery: roll the instance back to the bookmark taken at or before a chosen time. */
+function RestorePanel({ ns, id, onRestored }: { ns: string; id: string; onRestored: () => void }) {
+	const { data: bookmarks, refetch } = useQuery('do.listBookmarks', { ns, id })
+	const restore = useMutation('do.restoreToTime')
+	const [time, setTime] = useState('')
+
+	if (!bookmarks?.length) return null
+	const oldest = bookmarks[bookmarks.length - 1]!
+
+	const handleRestore = async () => {
+		const timestamp = new Date(time).getTime()
+		if (Number.isNaN(timestamp)) return
+		if (!confirm(`Restore this Durable Object to its state at ${formatTime(timestamp)}? A running instance will be restarted.`)) return
+		const result = await restore.mutate({ ns, id, timestamp })
+		if (!result) return
+		refetch()
+		onRestored()
+	}
+
+	return (
+		<div class="mb-6 px-4 py-3 bg-panel-secondary border border-border rounded-lg text-sm font-medium text-ink">
+			<div class="flex items-center justify-between gap-4 flex-wrap">
+				<span>
+					Point-in-time recovery
+					<span class="text-text-muted font-normal">· {bookmarks.length} bookmark(s) since {formatTime(oldest.createdAt)}</span>
+				</span>
+				<div class="flex gap-2 items-center">
+					<input
+						type="datetime-local"
+						step="1"
+						value={time}
+						onInput={e => setTime((e.target as HTMLInputElement).value)}
+						class="bg-panel border border-border rounded-md px-2 py-1 text-xs font-mono outline-none focus:ring-1 focus:ring-border transition-all"
+					/>
+					<button
+						onClick={handleRestore}
+						disabled={!time || restore.isLoading}
+						class="rounded-md px-3 py-1.5 text-xs font-medium bg-ink text-surface hover:opacity-80 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+					>
+						{restore.isLoading ? 'Restoring...' : 'Restore to time'}
+					</button>
+				</div>
+			</div>
+			{restore.error && <div class="mt-2 text-red-500 text-xs">{restore.error.message}</div>}
+			{restore.data && <div class="mt-2 text-text-muted text-xs font-normal">Restored from bookmark {restore.data.restoredFrom}</div>}
+		</div>
+	)
+}
@@ -0,0 +1,327 @@
+import { useState } from 'preact/hooks'
+import { Breadcrumb, CodeBlock, DeleteButton, DetailField, EmptyState, Modal, PageHeader, RefreshButton, ServiceInfo, Table, TableLink } from '../components'
+import { useMutation, useQuery } from '../rpc/hooks'
+import type { FlagRecord, FlagType } from '../rpc/types'
+
+const FLAG_TYPES: FlagType[] = ['boolean', 'string', 'number', 'object']
+
+const INPUT_CLASS =
+	'w-full bg-panel-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-border focus:ring-1 focus:ring-border transition-all'
+
+const RULES_PLACEHOLDER = `[
+  {
+    "when": [{ "attribute": "country", "operator": "in", "value": ["CZ", "SK"] }],
+    "rollout": 25,
+    "value": true
+  }
+]`
+
+export function FlagsView({ route }: { route: string }) {
+	const parts = route.split('/').filter(Boolean)
+	if (parts.length === 1) return <FlagAppList />
+	if (parts.length === 2) return <FlagList appId={decodeURIComponent(parts[1]!)} />
+	if (parts.length >= 3) return <FlagDetail appId={decodeURIComponent(parts[1]!)} flagKey={decodeURIComponent(parts.slice(2).join('/'))} />
+	return null
+}
+
+function FlagAppList() {
+	const { data: apps, refetch } = useQuery('flagship.listApps')
+	const { data: configGroups } = useQuery('config.forService', { type: 'flagship' })
+
+	return (
+		<div class="p-4 sm:p-8 max-w-6xl">
+			<PageHeader title="Feature Flags" subtitle={`${apps?.length ?? 0} app(s)`} actions={<RefreshButton onClick={refetch} />} />
+			<div class="flex flex-col lg:flex-row gap-6 items-start">
+				<div class="flex-1 min-w-0">
+					{!apps?.length ? <EmptyState message="No Flagship binding configured" /> : (
+						<Table
+							headers={['App', 'Binding', 'Flags']}
+							rows={apps.map(app => [
+								<TableLink href={`#/flags/${encodeURIComponent(app.appId)}`} mono>{app.appId}</TableLink>,
+								<span class="font-mono text-xs">{app.binding}</span>,
+								<span class="tabular-nums">{app.count}</span>,
+							])}
+						/>
+					)}
+				</div>
+				<ServiceInfo
+					description="Flagship feature flags. Values, targeting rules and the enabled switch apply to the running worker immediately."
+					stats={[
+						{ label: 'Apps', value: apps?.length ?? 0 },
+						{ label: 'Flags', value: apps?.reduce((s, a) => s + a.count, 0) ?? 0 },
+					]}
+					configGroups={configGroups}
+					links={[
+						{ label: 'OpenFeature', href: 'https://openfeature.dev/docs/reference/concepts/evaluation-api' },
+					]}
+				/>
+			</div>
+		</div>
+	)
+}
+
+// ─── Flag value form (add / edit) ──────────────────────────────────
+
+function FlagValueForm({ appId, initial, onSaved, onCancel }: {
+	appId: string
+	initial?: FlagRecord
+	onSaved: () => void
+	onCancel: () => void
+}) {
+	const isEdit = !!initial
+	const [key, setKey] = useState(initial?.key ?? '')
+	const [type, setType] = useState<FlagType>(initial?.type ?? 'boolean')
+	const [value, setValue] = useState(initial?.value ?? 'true')
+	const [variant, setVariant] = useState(initial?.variant ?? '')
+	const [error, setError] = useState('')
+	const setFlag = useMutation('flagship.setFlag')
+
+	const handleSubmit = async () => {
+		setError('')
+		const result = await setFlag.mutate({ appId, key: key.trim(), type, value, variant: variant.trim() })
+		if (result) {
+			onSaved()
+		} else if (setFlag.error) {
+			setError(setFlag.error.message)
+		}
+	}
+
+	return (
+		<Modal title={isEdit ? 'Edit flag' : 'Add flag'} onClose={onCancel}>
+			<div class="p-5 space-y-3">
+				<div class="flex gap-3">
+					<div class="flex-1">
+						<label class="block text-xs font-medium text-text-secondary mb-1">Key</label>
+						<input
+							type="text"
+							value={key}
+							onInput={e => setKey((e.target as HTMLInputElement).value)}
+							placeholder="new-checkout"
+							disabled={isEdit}
+							class={`${INPUT_CLASS} disabled:opacity-50`}
+						/>
+					</div>
+					<div class="w-32">
+						<label class="block text-xs font-medium text-text-secondary mb-1">Type</label>
+						<select value={type} onChange={e => setType((e.target as HTMLSelectElement).value as FlagType)} class={INPUT_CLASS}>
+							{FLAG_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+						</select>
+					</div>
+				</div>
+				<div>
+					<label class="block text-xs font-medium text-text-secondary mb-1">Value (when no rule matches)</label>
+					<textarea
+						value={value}
+						onInput={e => setValue((e.target as HTMLTextAreaElement).value)}
+						class={`${INPUT_CLASS} resize-y min-h-[40px]`}
+						rows={type === 'object' ? 4 : 1}
+					/>
+				</div>
+				<div>
+					<label class="block text-xs font-medium text-text-secondary mb-1">Variant (optional)</label>
+					<input type="text" value={variant} onInput={e => setVariant((e.target as HTMLInputElement).value)} class={INPUT_CLASS} />
+				</div>
+				{error && <div class="text-red-500 text-xs">{error}</div>}
+			</div>
+			<div class="flex justify-end gap-2 px-5 py-4 border-t border-border-subtle">
+				<button
+					onClick={onCancel}
+					class="rounded-md px-3 py-1.5 text-sm font-medium bg-panel border border-border text-text-secondary hover:bg-panel-hover transition-all"
+				>
+					Cancel
+				</button>
+				<button
+					onClick={handleSubmit}
+					disabled={setFlag.isLoading || !key.trim()}
+					class="rounded-md px-4 py-1.5 text-sm font-medium bg-ink text-surface hover:opacity-80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+				>
+					{setFlag.isLoading ? 'Saving...' : isEdit ? 'Save' : 'Add flag'}
+				</button>
+			</div>
+		</Modal>
+	)
+}
+
+function EnabledToggle({ appId, flag, onChange }: { appId: string; flag: FlagRecord; onChange: () => void }) {
+	const setEnabled = useMutation('flagship.setEnabled')
+	const toggle = async () => {
+		await setEnabled.mutate({ appId, key: flag.key, enabled: !flag.enabled })
+		onChange()
+	}
+	return (
+		<button
+			onClick={toggle}
+			disabled={setEnabled.isLoading}
+			title={flag.enabled ? 'Disable flag' : 'Enable flag'}
+			class={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors disabled:opacity-50 ${
+				flag.enabled ? 'bg-emerald-500' : 'bg-panel-hover border border-border'
+			}`}
+		>
+			<span class={`inline-block h-3.5 w-3.5 rounded-full bg-white shadow transition-transform ${flag.enabled ? 'translate-x-4.5' : 'translate-x-0.5'}`} />
+		</button>
+	)
+}
+
+// ─── Flag list ──────────────────────────────────────────────────────
+
+function FlagList({ appId }: { appId: string }) {
+	const { data: flags, refetch } = useQuery('flagship.listFlags', { appId })
+	const deleteFlag = useMutation('flagship.deleteFlag')
+	const [showAdd, setShowAdd] = useState(false)
+
+	const handleDelete = async (key: string) => {
+		if (!confirm(`Delete flag "${key}"?`)) return
+		await deleteFlag.mutate({ appId, key })
+		refetch()
+	}
+
+	return (
+		<div class="p-4 sm:p-8">
+			<Breadcrumb items={[{ label: 'Feature Flags', href: '#/flags' }, { label: appId }]} />
+			<div class="mb-6 flex gap-2 items-center justify-end">
+				<RefreshButton onClick={refetch} />
+				<button
+					onClick={() => setShowAdd(true)}
+					class="rounded-md px-3 py-1.5 text-sm font-medium bg-ink text-surface hover:opacity-80 transition-all"
+				>
+					Add flag
+				</button>
+			</div>
+			{showAdd && (
+				<FlagValueForm
+					appId={appId}
+					onSaved={() => {
+						setShowAdd(false)
+						refetch()
+					}}
+					onCancel={() => setShowAdd(false)}
+				/>
+			)}
+			{!flags?.length ? <EmptyState message="No flags yet" /> : (
+				<Table
+					headers={['Enabled', 'Key', 'Type', 'Value', 'Rules', 'Updated', '']}
+					rows={flags.map(f => [
+						<EnabledToggle appId={appId} flag={f} onChange={refetch} />,
+						<TableLink href={`#/flags/${encodeURIComponent(appId)}/${encodeURIComponent(f.key)}`} mono>{f.key}</TableLink>,
+						<span class="text-xs text-text-muted font-mono">{f.type}</span>,
+						<span class="font-mono text-xs max-w-xs truncate block">{f.value}</span>,
+						<span class="tabular-nums">{f.rules.length || '—'}</span>,
+						new Date(f.updatedAt).toLocaleString(),
+						<DeleteButton onClick={() => handleDelete(f.key)} />,
+					])}
+				/>
+			)}
+		</div>
+	)
+}
+
+// ─── Flag detail ────────────────────────────────────────────────────
+
+function FlagDetail({ appId, flagKey }: { appId: string; flagKey: string }) {
+	const { data: flags, refetch } = useQuery('flagship.listFlags', { appId })
+	const [editing, setEditing] = useState(false)
+	const flag = flags?.find(f => f.key === flagKey)
+
+	if (!flags) return <div class="p-4 sm:p-8 text-text-muted">Loading...</div>
+	if (!flag) return <div class="p-4 sm:p-8 text-text-muted">Flag not found</div>
+
+	return (
+		<div class="p-4 sm:p-8">
+			<Breadcrumb
+				items={[{ label: 'Feature Flags', href: '#/flags' }, { label: appId, href: `#/flags/${encodeURIComponent(appId)}` }, { label: flagKey }]}
+			/>
+			{editing && (
+				<FlagValueForm
+					appId={appId}
+					initial={flag}
+					onSaved={() => {
+						setEditing(false)
+						refetch()
+					}}
+					onCancel={() => setEditing(false)}
+				/>
+			)}
+			<div class="space-y-5">
+				<div class="flex items-center justify-between">
+					<div class="flex items-center gap-2 text-sm text-text-secondary">
+						<EnabledToggle appId={appId} flag={flag} onChange={refetch} />
+						{flag.enabled ? 'Enabled' : 'Disabled — callers get their default value'}
+					</div>
+					<button
+						onClick={() => setEditing(true)}
+						class="rounded-md px-3 py-1.5 text-sm font-medium bg-panel border border-border text-text-data hover:bg-panel-hover transition-all"
+					>
+						Edit value
+					</button>
+				</div>
+				<DetailField label="Type" value={flag.type} />
+				<DetailField label="Value">
+					<CodeBlock>{flag.value}</CodeBlock>
+				</DetailField>
+				{flag.variant && <DetailField label="Variant" value={flag.variant} />}
+				<RulesEditor appId={appId} flag={flag} onSaved={refetch} />
+				<EvaluatePanel appId={appId} flagKey={flag.key} />
+			</div>
+		</div>
+	)
+}
+
+function RulesEditor({ appId, flag, onSaved }: { appId: string; flag: FlagRecord; onSaved: () => void }) {
+	const [rules, setRules] = useState(flag.rules.length ? JSON.stringify(flag.rules, null, 2) : '')
+	const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null)
+	const setFlagRules = useMutation('flagship.setRules')
+
+	const handleSave = async () => {
+		setMessage(null)
+		const result = await setFlagRules.mutate({ appId, key: flag.key, type: flag.type, rules })
+		if (result) {
+			setMessage({ ok: true, text: 'Rules saved' })
+			onSaved()
+		} else if (setFlagRules.error) {
+			setMessage({ ok: false, text: setFlagRules.error.message })
+		}
+	}
+
+	return (
+		<DetailField label="Targeting rules (first match wins)">
+			<textarea
+				value={rules}
+				onInput={e => setRules((e.target as HTMLTextAreaElement).value)}
+				placeholder={RULES_PLACEHOLDER}
+				class={`${INPUT_CLASS} resize-y min-h-[160px]`}
+				rows={10}
+			/>
+			<div class="mt-2 flex items-center gap-3">
+				<button
+					onClick={handleSave}
+					disabled={setFlagRules.isLoading}
+					class="rounded-md px-3 py-1.5 text-sm font-medium bg-ink text-surface hover:opacity-80 transition-all disabled:opacity-50"
+				>
+					{setFlagRules.isLoading ? 'Saving...' : 'Save rules'}
+				</button>
+				{message && <span class={`text-xs ${message.ok ? 'text-emerald-500' : 'text-red-500'}`}>{message.text}</span>}
+			</div>
+		</DetailField>
+	)
+}
+
+function EvaluatePanel({ appId, flagKey }: { appId: string; flagKey: string }) {
+	const [context, setContext] = useState('{ "targetingKey": "user-1" }')
+	const evaluate = useMutation('flagship.evaluate')
+
+	return (
+		<DetailField label="Try an evaluation context">
+			<div class="flex gap-2 items-start">
+				<input type="text" value={context} onInput={e => setContext((e.target as HTMLInputElement).value)} class={INPUT_CLASS} />
+				<button
+					onClick={() => evaluate.mutate({ appId, key: flagKey, context })}
+					class="rounded-md px-3 py-2 text-sm font-medium bg-panel border border-border text-text-data hover:bg-panel-hover transition-all"
+				>
+					Evaluate
+				</button>
+			</div>
+			{evaluate.error && <div class="mt-2 text-red-500 text-xs">{evaluate.error.message}</div>}
+			{evaluate.data && <CodeBlock class="mt-2">{JSON.stringify(evaluate.data, null, 2)}</CodeBlock>}
+		</DetailField>
+	)
+}
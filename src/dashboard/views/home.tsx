@@ -128,6 +128,38 @@ function OptionalDepsCard() {
 	)
 }
 
+/* ── Compatibility flags card ── */
+
+function CompatFlagsCard() {
+	const { data: warnings } = useQuery('warnings.compatFlags')
+	if (!warnings?.length) return null
+
+	return (
+		<div class="bg-panel rounded-lg border border-amber-500/20 p-5">
+			<div class="text-xs font-semibold uppercase tracking-wider text-amber-400 mb-3">Compatibility flags</div>
+			<div class="flex flex-col gap-3">
+				{warnings.map(w => (
+					<div key={w.worker}>
+						<div class="text-xs text-text-secondary">
+							{w.worker} <span class="text-text-muted">· {w.compatibilityDate}</span>
+						</div>
+						{w.unknownFlags.length > 0 && (
+							<div class="mt-1 text-[11px] text-text-muted">
+								Unknown: <code class="text-amber-400/80">{w.unknownFlags.join(', ')}</code>
+							</div>
+						)}
+						{w.unsupportedFlags.length > 0 && (
+							<div class="mt-1 text-[11px] text-text-muted">
+								Not emulated: <code class="text-amber-400/80">{w.unsupportedFlags.join(', ')}</code>
+							</div>
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	)
+}
+
 /* ── Main view ── */
 
 export function HomeView() {
@@ -270,6 +302,7 @@ export function HomeView() {
 				{/* ── Right: System sidebar ── */}
 				<div class="flex flex-col gap-5">
 					<OptionalDepsCard />
+					<CompatFlagsCard />
 					<div class="bg-panel rounded-lg border border-border p-5">
 						<div class="text-xs font-semibold uppercase tracking-wider text-text-muted mb-4">Resources</div>
 						<div class="flex flex-col gap-2">
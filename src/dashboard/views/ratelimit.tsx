@@ -0,0 +1,89 @@
+import { EmptyState, PageHeader, RefreshButton, ServiceInfo, Table } from '../components'
+import { useMutation, useQuery } from '../rpc/hooks'
+import type { RateLimitNamespace } from '../rpc/types'
+
+export function RateLimitView() {
+	const { data: namespaces, refetch } = useQuery('ratelimit.list')
+	const { data: configGroups } = useQuery('config.forService', { type: 'ratelimit' })
+	const reset = useMutation('ratelimit.reset')
+
+	const handleReset = async (namespaceId: string, key?: string) => {
+		const what = key === undefined ? `all counters in namespace "${namespaceId}"` : `the counter for "${key}"`
+		if (!confirm(`Reset ${what}?`)) return
+		await reset.mutate({ namespaceId, key })
+		refetch()
+	}
+
+	const limited = namespaces?.reduce((n, ns) => n + ns.counters.filter(c => c.count >= ns.limit).length, 0) ?? 0
+
+	return (
+		<div class="p-4 sm:p-8 max-w-6xl">
+			<PageHeader
+				title="Rate Limiting"
+				subtitle={`${namespaces?.length ?? 0} namespace(s)`}
+				actions={<RefreshButton onClick={refetch} />}
+			/>
+			<div class="flex flex-col lg:flex-row gap-6 items-start">
+				<div class="flex-1 min-w-0 space-y-6">
+					{!namespaces?.length
+						? <EmptyState message="No rate limit bindings configured" />
+						: namespaces.map(ns => <NamespaceCounters key={ns.namespaceId} ns={ns} onReset={handleReset} />)}
+				</div>
+				<ServiceInfo
+					description="Sliding-window counters per key, kept in SQLite. Counters are shared by every binding with the same namespace_id."
+					stats={[
+						{ label: 'Namespaces', value: namespaces?.length ?? 0 },
+						{ label: 'Limited keys', value: limited },
+					]}
+					configGroups={configGroups}
+					links={[
+						{ label: 'Documentation', href: 'https://developers.cloudflare.com/workers/runtime-apis/bindings/rate-limit/' },
+					]}
+				/>
+			</div>
+		</div>
+	)
+}
+
+function NamespaceCounters({ ns, onReset }: { ns: RateLimitNamespace; onReset: (namespaceId: string, key?: string) => void }) {
+	return (
+		<div>
+			<div class="flex items-center justify-between mb-2">
+				<div>
+					<span class="font-mono text-sm font-medium">{ns.namespaceId}</span>
+					<span class="text-xs text-text-muted ml-2">
+						{ns.limit} per {ns.period}s · {ns.bindings.join(', ')}
+					</span>
+				</div>
+				{ns.counters.length > 0 && (
+					<button
+						onClick={() => onReset(ns.namespaceId)}
+						class="text-xs font-medium rounded-md px-2 py-1 text-text-secondary hover:bg-panel-hover transition-all"
+					>
+						Reset all
+					</button>
+				)}
+			</div>
+			{!ns.counters.length ? <div class="text-xs text-text-muted">No calls in the current window</div> : (
+				<Table
+					headers={['Key', 'Calls', 'Window resets', '']}
+					rows={ns.counters.map(c => [
+						<span class="font-mono text-xs font-medium">{c.key}</span>,
+						<span class={`font-mono text-xs ${c.count >= ns.limit ? 'text-red-500 font-semibold' : ''}`}>
+							{c.count} / {ns.limit}
+						</span>,
+						new Date(c.resetsAt).toLocaleTimeString(),
+						<div class="flex justify-end">
+							<button
+								onClick={() => onReset(ns.namespaceId, c.key)}
+								class="text-xs font-medium rounded-md px-2 py-1 text-text-secondary hover:bg-panel-hover transition-all"
+							>
+								Reset
+							</button>
+						</div>,
+					])}
+				/>
+			)}
+		</div>
+	)
+}
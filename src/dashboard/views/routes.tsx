@@ -1,28 +1,86 @@
-import { EmptyState, PageHeader, StatusBadge, Table } from '../components'
-import { useQuery } from '../rpc/hooks'
+import { useState } from 'preact/hooks'
+import { DetailField, EmptyState, PageHeader, StatusBadge, Table } from '../components'
+import { useMutation, useQuery } from '../rpc/hooks'
 
 const TYPE_COLORS: Record<string, string> = {
 	route: 'bg-emerald-500/15 text-emerald-500',
 	host: 'bg-blue-500/15 text-blue-500',
+	'custom domain': 'bg-violet-500/15 text-violet-500',
 	fallback: 'bg-panel-active text-text-data',
 }
 
+const INPUT_CLASS =
+	'w-full bg-panel-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-border focus:ring-1 focus:ring-border transition-all'
+
+function routeType(r: { isFallback: boolean; type?: string }): string {
+	if (r.isFallback) return 'fallback'
+	if (r.type === 'host') return 'host'
+	if (r.type === 'custom_domain') return 'custom domain'
+	return 'route'
+}
+
 export function RoutesView() {
 	const { data: routes } = useQuery('routes.list')
 
 	return (
 		<div class="p-4 sm:p-8">
 			<PageHeader title="Routes" subtitle={`${routes?.length ?? 0} route(s)`} />
+			<div class="mb-6">
+				<ResolvePanel />
+			</div>
 			{!routes?.length ? <EmptyState message="No routes configured" /> : (
 				<Table
-					headers={['Pattern', 'Worker', 'Type']}
+					headers={['Pattern', 'Worker', 'Zone', 'Type']}
 					rows={routes.map(r => [
 						<span class="font-mono text-xs font-medium">{r.pattern}</span>,
 						<span class="text-text-secondary">{r.workerName}</span>,
-						<StatusBadge status={r.isFallback ? 'fallback' : r.type === 'host' ? 'host' : 'route'} colorMap={TYPE_COLORS} />,
+						<span class="font-mono text-xs text-text-muted">{r.zoneName ?? '—'}</span>,
+						<StatusBadge status={routeType(r)} colorMap={TYPE_COLORS} />,
 					])}
 				/>
 			)}
 		</div>
 	)
 }
+
+function ResolvePanel() {
+	const [url, setUrl] = useState(() => `${location.protocol}//${location.host}/`)
+	const resolve = useMutation('routes.resolve')
+	const result = resolve.data
+
+	return (
+		<DetailField label="Which worker handles a URL?">
+			<form
+				class="flex gap-2 items-start"
+				onSubmit={e => {
+					e.preventDefault()
+					resolve.mutate({ url })
+				}}
+			>
+				<input type="text" value={url} onInput={e => setUrl((e.target as HTMLInputElement).value)} class={INPUT_CLASS} />
+				<button
+					type="submit"
+					class="rounded-md px-3 py-2 text-sm font-medium bg-panel border border-border text-text-data hover:bg-panel-hover transition-all"
+				>
+					Resolve
+				</button>
+			</form>
+			{resolve.error && <div class="mt-2 text-red-500 text-xs">{resolve.error.message}</div>}
+			{result && (
+				<div class="mt-3 text-sm space-y-1">
+					<div>
+						<span class="font-medium">{result.workerName}</span>
+						<span class="text-text-muted">
+							{result.route ? <>{' via '}<span class="font-mono text-xs">{result.route}</span></> : ' (fallback — no route matched)'}
+						</span>
+					</div>
+					<div class="text-xs text-text-muted">
+						{result.domainAware
+							? `Matched as host ${result.hostnames.join(', ')}`
+							: 'No route host matches this host — routes were matched by path only'}
+					</div>
+				</div>
+			)}
+		</DetailField>
+	)
+}
@@ -0,0 +1,172 @@
+import { useState } from 'preact/hooks'
+import { DeleteButton, EmptyState, Modal, PageHeader, RefreshButton, ServiceInfo, StatusBadge, Table } from '../components'
+import { useMutation, useQuery } from '../rpc/hooks'
+import type { SecretsStoreEntry } from '../rpc/types'
+
+const STATUS_COLORS: Record<string, string> = {
+	missing: 'bg-red-500/15 text-red-500',
+}
+
+const INPUT_CLASS =
+	'w-full bg-panel-secondary border border-border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-border focus:ring-1 focus:ring-border transition-all'
+
+export function SecretsStoreView() {
+	const { data: secrets, refetch } = useQuery('secretsStore.list')
+	const { data: configGroups } = useQuery('config.forService', { type: 'secrets_store' })
+	const deleteSecret = useMutation('secretsStore.delete')
+	const [editing, setEditing] = useState<Partial<SecretsStoreEntry> | null>(null)
+
+	const missing = secrets?.filter(s => !s.exists).length ?? 0
+
+	const handleDelete = async (secret: SecretsStoreEntry) => {
+		if (!confirm(`Delete secret "${secret.name}" from store "${secret.storeId}"?`)) return
+		await deleteSecret.mutate({ storeId: secret.storeId, name: secret.name })
+		refetch()
+	}
+
+	return (
+		<div class="p-4 sm:p-8 max-w-6xl">
+			<PageHeader
+				title="Secrets Store"
+				subtitle={`${secrets?.length ?? 0} secret(s)`}
+				actions={
+					<div class="flex gap-2">
+						<RefreshButton onClick={refetch} />
+						<button
+							onClick={() => setEditing({})}
+							class="rounded-md px-3 py-1.5 text-sm font-medium bg-ink text-surface hover:opacity-80 transition-all"
+						>
+							Add secret
+						</button>
+					</div>
+				}
+			/>
+			{editing && (
+				<SecretForm
+					initial={editing}
+					onSaved={() => {
+						setEditing(null)
+						refetch()
+					}}
+					onCancel={() => setEditing(null)}
+				/>
+			)}
+			<div class="flex flex-col lg:flex-row gap-6 items-start">
+				<div class="flex-1 min-w-0">
+					{!secrets?.length ? <EmptyState message="No secrets and no secrets_store_secrets bindings configured" /> : (
+						<Table
+							headers={['Store', 'Secret', 'Value', 'Bindings', 'Updated', '']}
+							rows={secrets.map(s => [
+								<span class="font-mono text-xs">{s.storeId}</span>,
+								<span class="font-mono text-xs font-medium">{s.name}</span>,
+								s.exists
+									? <span class="font-mono text-xs text-text-muted">••••••••</span>
+									: <StatusBadge status="missing" colorMap={STATUS_COLORS} />,
+								<span class="font-mono text-xs text-text-secondary">{s.bindings.join(', ') || '—'}</span>,
+								s.updatedAt ? new Date(s.updatedAt).toLocaleString() : '—',
+								<div class="flex gap-1 justify-end">
+									<button
+										onClick={() => setEditing(s)}
+										class="text-xs font-medium rounded-md px-2 py-1 text-text-secondary hover:bg-panel-hover transition-all"
+									>
+										{s.exists ? 'Replace' : 'Set'}
+									</button>
+									{s.exists && <DeleteButton onClick={() => handleDelete(s)} />}
+								</div>,
+							])}
+						/>
+					)}
+				</div>
+				<ServiceInfo
+					description="Secrets Store secrets, encrypted in .lopata/secrets-store. Values are write-only here — workers read them with env.BINDING.get()."
+					stats={[
+						{ label: 'Secrets', value: secrets?.filter(s => s.exists).length ?? 0 },
+						{ label: 'Missing', value: missing },
+					]}
+					configGroups={configGroups}
+					links={[
+						{ label: 'Documentation', href: 'https://developers.cloudflare.com/secrets-store/' },
+					]}
+				/>
+			</div>
+		</div>
+	)
+}
+
+function SecretForm({ initial, onSaved, onCancel }: {
+	initial: Partial<SecretsStoreEntry>
+	onSaved: () => void
+	onCancel: () => void
+}) {
+	const isExisting = !!initial.name
+	const [storeId, setStoreId] = useState(initial.storeId ?? '')
+	const [name, setName] = useState(initial.name ?? '')
+	const [value, setValue] = useState('')
+	const [comment, setComment] = useState(initial.comment ?? '')
+	const putSecret = useMutation('secretsStore.put')
+
+	const handleSubmit = async () => {
+		const result = await putSecret.mutate({ storeId, name, value, comment })
+		if (result) onSaved()
+	}
+
+	return (
+		<Modal title={isExisting ? `Set ${initial.name}` : 'Add secret'} onClose={onCancel}>
+			<div class="p-5 space-y-3">
+				<div class="flex gap-3">
+					<div class="flex-1">
+						<label class="block text-xs font-medium text-text-secondary mb-1">Store ID</label>
+						<input
+							type="text"
+							value={storeId}
+							onInput={e => setStoreId((e.target as HTMLInputElement).value)}
+							disabled={isExisting}
+							class={`${INPUT_CLASS} disabled:opacity-50`}
+						/>
+					</div>
+					<div class="flex-1">
+						<label class="block text-xs font-medium text-text-secondary mb-1">Name</label>
+						<input
+							type="text"
+							value={name}
+							onInput={e => setName((e.target as HTMLInputElement).value)}
+							placeholder="API_KEY"
+							disabled={isExisting}
+							class={`${INPUT_CLASS} disabled:opacity-50`}
+						/>
+					</div>
+				</div>
+				<div>
+					<label class="block text-xs font-medium text-text-secondary mb-1">Value</label>
+					<input
+						type="password"
+						autocomplete="off"
+						value={value}
+						onInput={e => setValue((e.target as HTMLInputElement).value)}
+						class={INPUT_CLASS}
+					/>
+				</div>
+				<div>
+					<label class="block text-xs font-medium text-text-secondary mb-1">Comment (optional)</label>
+					<input type="text" value={comment} onInput={e => setComment((e.target as HTMLInputElement).value)} class={INPUT_CLASS} />
+				</div>
+				{putSecret.error && <div class="text-red-500 text-xs">{putSecret.error.message}</div>}
+			</div>
+			<div class="flex justify-end gap-2 px-5 py-4 border-t border-border-subtle">
+				<button
+					onClick={onCancel}
+					class="rounded-md px-3 py-1.5 text-sm font-medium bg-panel border border-border text-text-secondary hover:bg-panel-hover transition-all"
+				>
+					Cancel
+				</button>
+				<button
+					onClick={handleSubmit}
+					disabled={putSecret.isLoading || !storeId.trim() || !name.trim() || !value}
+					class="rounded-md px-4 py-1.5 text-sm font-medium bg-ink text-surface hover:opacity-80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+				>
+					{putSecret.isLoading ? 'Saving...' : 'Save'}
+				</button>
+			</div>
+		</Modal>
+	)
+}
@@ -0,0 +1,159 @@
+import { useState } from 'preact/hooks'
+import {
+	Breadcrumb,
+	CodeBlock,
+	DeleteButton,
+	DetailField,
+	EmptyState,
+	FilterInput,
+	LoadMoreButton,
+	PageHeader,
+	RefreshButton,
+	ServiceInfo,
+	Table,
+	TableLink,
+} from '../components'
+import { useMutation, usePaginatedQuery, useQuery } from '../rpc/hooks'
+
+export function VectorizeView({ route }: { route: string }) {
+	const parts = route.split('/').filter(Boolean)
+
+	if (parts.length === 1) return <VectorizeIndexList />
+	if (parts.length === 2) return <VectorList index={decodeURIComponent(parts[1]!)} />
+	if (parts.length >= 3) return <VectorDetail index={decodeURIComponent(parts[1]!)} id={decodeURIComponent(parts.slice(2).join('/'))} />
+	return null
+}
+
+function vectorHref(index: string, id: string): string {
+	return `#/vectorize/${encodeURIComponent(index)}/${encodeURIComponent(id)}`
+}
+
+function VectorizeIndexList() {
+	const { data: indexes, refetch } = useQuery('vectorize.listIndexes')
+	const { data: configGroups } = useQuery('config.forService', { type: 'vectorize' })
+	const deleteIndex = useMutation('vectorize.deleteIndex')
+
+	const totalVectors = indexes?.reduce((s, i) => s + i.vectorCount, 0) ?? 0
+
+	const handleDelete = async (name: string) => {
+		if (!confirm(`Delete index "${name}" and all its vectors?`)) return
+		await deleteIndex.mutate({ index: name })
+		refetch()
+	}
+
+	return (
+		<div class="p-4 sm:p-8 max-w-6xl">
+			<PageHeader title="Vectorize" subtitle={`${indexes?.length ?? 0} index(es)`} actions={<RefreshButton onClick={refetch} />} />
+			<div class="flex flex-col lg:flex-row gap-6 items-start">
+				<div class="flex-1 min-w-0">
+					{!indexes?.length ? <EmptyState message="No Vectorize indexes found" /> : (
+						<Table
+							headers={['Index', 'Dimensions', 'Metric', 'Vectors', 'Bindings', '']}
+							rows={indexes.map(i => [
+								<TableLink href={`#/vectorize/${encodeURIComponent(i.name)}`}>{i.name}</TableLink>,
+								<span class="tabular-nums">{i.dimensions ?? '—'}</span>,
+								<span class="font-mono text-xs">{i.metric ?? 'not created yet'}</span>,
+								<span class="tabular-nums">{i.vectorCount.toLocaleString()}</span>,
+								<span class="font-mono text-xs text-text-secondary">{i.bindings.join(', ') || '—'}</span>,
+								i.dimensions !== null ? <DeleteButton onClick={() => handleDelete(i.name)} /> : null,
+							])}
+						/>
+					)}
+				</div>
+				<ServiceInfo
+					description="Vector indexes stored in SQLite. Queries score every vector (brute force), which suits dev-scale data."
+					stats={[
+						{ label: 'Indexes', value: indexes?.length ?? 0 },
+						{ label: 'Total vectors', value: totalVectors.toLocaleString() },
+					]}
+					configGroups={configGroups}
+					links={[
+						{ label: 'Documentation', href: 'https://developers.cloudflare.com/vectorize/' },
+						{ label: 'Metadata filtering', href: 'https://developers.cloudflare.com/vectorize/reference/metadata-filtering/' },
+					]}
+				/>
+			</div>
+		</div>
+	)
+}
+
+function VectorList({ index }: { index: string }) {
+	const [namespace, setNamespace] = useState('')
+	const { items: vectors, hasMore, loadMore, refetch } = usePaginatedQuery('vectorize.listVectors', { index, namespace })
+	const deleteVector = useMutation('vectorize.deleteVector')
+
+	const handleDelete = async (id: string) => {
+		if (!confirm(`Delete vector "${id}"?`)) return
+		await deleteVector.mutate({ index, id })
+		refetch()
+	}
+
+	return (
+		<div class="p-4 sm:p-8">
+			<Breadcrumb items={[{ label: 'Vectorize', href: '#/vectorize' }, { label: index }]} />
+			<div class="mb-6 flex gap-3 items-center justify-between">
+				<FilterInput value={namespace} onInput={setNamespace} placeholder="Namespace..." />
+				<RefreshButton onClick={refetch} />
+			</div>
+			{vectors.length === 0 ? <EmptyState message="No vectors found" /> : (
+				<>
+					<Table
+						headers={['ID', 'Namespace', 'Metadata', '']}
+						rows={vectors.map(v => [
+							<TableLink href={vectorHref(index, v.id)} mono>{v.id}</TableLink>,
+							<span class="font-mono text-xs">{v.namespace ?? '—'}</span>,
+							<span class="font-mono text-xs text-text-secondary truncate block max-w-md">
+								{v.metadata ? JSON.stringify(v.metadata) : '—'}
+							</span>,
+							<DeleteButton onClick={() => handleDelete(v.id)} />,
+						])}
+					/>
+					{hasMore && <LoadMoreButton onClick={loadMore} />}
+				</>
+			)}
+		</div>
+	)
+}
+
+function VectorDetail({ index, id }: { index: string; id: string }) {
+	const { data } = useQuery('vectorize.getVector', { index, id })
+	const { data: similar } = useQuery('vectorize.similar', { index, id })
+
+	if (!data) return <div class="p-4 sm:p-8 text-text-muted">Loading...</div>
+
+	return (
+		<div class="p-4 sm:p-8">
+			<Breadcrumb
+				items={[
+					{ label: 'Vectorize', href: '#/vectorize' },
+					{ label: index, href: `#/vectorize/${encodeURIComponent(index)}` },
+					{ label: id },
+				]}
+			/>
+			<div class="space-y-5">
+				<DetailField label="ID" value={data.id} />
+				{data.namespace !== null && <DetailField label="Namespace" value={data.namespace} />}
+				{data.metadata && (
+					<DetailField label="Metadata">
+						<CodeBlock>{JSON.stringify(data.metadata, null, 2)}</CodeBlock>
+					</DetailField>
+				)}
+				<DetailField label={`Values (${data.values.length} dimensions)`}>
+					<CodeBlock class="max-h-64">{data.values.map(v => v.toFixed(6)).join(', ')}</CodeBlock>
+				</DetailField>
+				<DetailField label="Most similar">
+					{!similar?.length ? <div class="text-sm text-text-muted">No other vectors</div> : (
+						<Table
+							headers={['ID', 'Namespace', 'Score']}
+							rows={similar.map(m => [
+								<TableLink href={vectorHref(index, m.id)} mono>{m.id}</TableLink>,
+								<span class="font-mono text-xs">{m.namespace ?? '—'}</span>,
+								<span class="font-mono text-xs tabular-nums">{m.score.toFixed(4)}</span>,
+							])}
+						/>
+					)}
+				</DetailField>
+			</div>
+		</div>
+	)
+}
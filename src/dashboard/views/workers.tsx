@@ -1,5 +1,5 @@
-import { EmptyState, PageHeader, StatusBadge, Table, TableLink } from '../components'
-import { useQuery } from '../rpc/hooks'
+import { EmptyState, PageHeader, PillButton, StatusBadge, Table, TableLink } from '../components'
+import { useMutation, useQuery } from '../rpc/hooks'
 
 const TYPE_COLORS: Record<string, string> = {
 	kv: 'bg-emerald-500/15 text-emerald-500',
@@ -18,6 +18,7 @@ export function WorkersView() {
 	return (
 		<div class="p-4 sm:p-8">
 			<PageHeader title="Workers" subtitle={`${workers?.length ?? 0} worker(s)`} />
+			<CfProfilePicker />
 			{!workers?.length ? <EmptyState message="No workers configured" /> : (
 				<div class="space-y-8">
 					{workers.map(w => (
@@ -47,3 +48,33 @@ export function WorkersView() {
 		</div>
 	)
 }
+
+function CfProfilePicker() {
+	const { data, refetch } = useQuery('cf.getProfiles')
+	const setActive = useMutation('cf.setActiveProfile')
+
+	if (!data || data.profiles.length <= 1) return null
+	const current = data.profiles.find(p => p.name === data.active) ?? data.profiles[0]!
+
+	const select = async (name: string | null) => {
+		await setActive.mutate({ name })
+		refetch()
+	}
+
+	return (
+		<div class="mb-8 bg-panel rounded-lg border border-border p-5">
+			<div class="text-xs font-semibold text-text-muted uppercase tracking-wider mb-3">request.cf profile</div>
+			<div class="flex flex-wrap gap-2 mb-3">
+				{data.profiles.map(p => (
+					<PillButton key={p.name ?? ''} active={p.name === data.active} onClick={() => select(p.name)}>
+						{p.name ?? 'built-in'}
+					</PillButton>
+				))}
+			</div>
+			<div class="text-xs text-text-secondary font-mono">
+				{[current.cf.country, current.cf.city, current.cf.colo].filter(Boolean).join(' · ')}
+			</div>
+			{setActive.error && <div class="mt-2 text-red-500 text-xs">{setActive.error.message}</div>}
+		</div>
+	)
+}
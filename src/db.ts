@@ -2,8 +2,7 @@ import { Database } from 'bun:sqlite'
 import { mkdirSync } from 'node:fs'
 import { dirname, join } from 'node:path'
 
-const DATA_DIR = join(process.cwd(), '.lopata')
-const DB_PATH = join(DATA_DIR, 'data.sqlite')
+let dataDir = join(process.cwd(), '.lopata')
 
 let instance: Database | null = null
 
@@ -14,11 +13,11 @@ let instance: Database | null = null
 export function getDatabase(): Database {
 	if (instance) return instance
 
-	mkdirSync(DATA_DIR, { recursive: true })
-	mkdirSync(join(DATA_DIR, 'r2'), { recursive: true })
-	mkdirSync(join(DATA_DIR, 'd1'), { recursive: true })
+	mkdirSync(dataDir, { recursive: true })
+	mkdirSync(join(dataDir, 'r2'), { recursive: true })
+	mkdirSync(join(dataDir, 'd1'), { recursive: true })
 
-	instance = new Database(DB_PATH, { create: true })
+	instance = new Database(join(dataDir, 'data.sqlite'), { create: true })
 	instance.run('PRAGMA journal_mode=WAL')
 	instance.run('PRAGMA busy_timeout=5000')
 	runMigrations(instance)
@@ -107,6 +106,28 @@ export function runMigrations(db: Database): void {
 		)
 	`)
 
+	// Point-in-time recovery snapshots (see bindings/do-bookmarks.ts)
+	db.run(`
+		CREATE TABLE IF NOT EXISTS do_bookmarks (
+			namespace TEXT NOT NULL,
+			id TEXT NOT NULL,
+			bookmark TEXT NOT NULL,
+			created_at INTEGER NOT NULL,
+			kv TEXT NOT NULL,
+			sql_file TEXT,
+			PRIMARY KEY (namespace, id, bookmark)
+		)
+	`)
+
+	db.run(`
+		CREATE TABLE IF NOT EXISTS do_pending_restores (
+			namespace TEXT NOT NULL,
+			id TEXT NOT NULL,
+			bookmark TEXT NOT NULL,
+			PRIMARY KEY (namespace, id)
+		)
+	`)
+
 	db.run(`
 		CREATE TABLE IF NOT EXISTS queue_messages (
 			id TEXT PRIMARY KEY,
@@ -229,10 +250,19 @@ export function runMigrations(db: Database): void {
 			status TEXT NOT NULL DEFAULT 'ok',
 			error TEXT,
 			is_streaming INTEGER NOT NULL DEFAULT 0,
+			provider TEXT NOT NULL DEFAULT 'remote',
 			created_at INTEGER NOT NULL
 		)
 	`)
 
+	// Migrate: add provider column if missing (existing databases)
+	{
+		const cols = db.query<{ name: string }, []>('PRAGMA table_info(ai_requests)').all()
+		if (!cols.some(c => c.name === 'provider')) {
+			db.run("ALTER TABLE ai_requests ADD COLUMN provider TEXT NOT NULL DEFAULT 'remote'")
+		}
+	}
+
 	db.run(`
 		CREATE TABLE IF NOT EXISTS analytics_engine (
 			id TEXT PRIMARY KEY,
@@ -307,13 +337,76 @@ export function runMigrations(db: Database): void {
 			type TEXT NOT NULL,
 			value TEXT NOT NULL,
 			variant TEXT,
+			enabled INTEGER NOT NULL DEFAULT 1,
+			rules TEXT,
 			updated_at INTEGER NOT NULL,
 			PRIMARY KEY (app_id, flag_key)
 		)
 	`)
+
+	// Migrate: add enabled/rules columns if missing (existing databases)
+	{
+		const cols = db.query<{ name: string }, []>('PRAGMA table_info(flagship_flags)').all()
+		if (!cols.some(c => c.name === 'enabled')) {
+			db.run('ALTER TABLE flagship_flags ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1')
+		}
+		if (!cols.some(c => c.name === 'rules')) {
+			db.run('ALTER TABLE flagship_flags ADD COLUMN rules TEXT')
+		}
+	}
+
+	db.run(`
+		CREATE TABLE IF NOT EXISTS ratelimit_hits (
+			namespace_id TEXT NOT NULL,
+			key TEXT NOT NULL,
+			ts INTEGER NOT NULL
+		)
+	`)
+	db.run(`CREATE INDEX IF NOT EXISTS idx_ratelimit_hits ON ratelimit_hits(namespace_id, key, ts)`)
+
+	db.run(`
+		CREATE TABLE IF NOT EXISTS vectorize_indexes (
+			name TEXT PRIMARY KEY,
+			dimensions INTEGER NOT NULL,
+			metric TEXT NOT NULL,
+			description TEXT,
+			created_at INTEGER NOT NULL,
+			mutation_count INTEGER NOT NULL DEFAULT 0,
+			processed_at INTEGER
+		)
+	`)
+
+	db.run(`
+		CREATE TABLE IF NOT EXISTS vectorize_vectors (
+			index_name TEXT NOT NULL,
+			id TEXT NOT NULL,
+			namespace TEXT,
+			vals BLOB NOT NULL,
+			metadata TEXT,
+			PRIMARY KEY (index_name, id)
+		)
+	`)
 }
 
 /** Returns the path to the .lopata data directory. */
 export function getDataDir(): string {
-	return DATA_DIR
+	return dataDir
+}
+
+/**
+ * Point the data directory somewhere other than `<cwd>/.lopata`. Must run before
+ * the database is first opened — once bindings hold the handle, moving the
+ * directory would split state between two databases.
+ */
+export function setDataDir(dir: string): void {
+	if (instance && dir !== dataDir) {
+		throw new Error(`Cannot move the lopata data dir to ${dir}: the database in ${dataDir} is already open`)
+	}
+	dataDir = dir
+}
+
+/** Close the shared database; the next `getDatabase()` opens it again (in the current data dir). */
+export function closeDatabase(): void {
+	instance?.close()
+	instance = null
 }
@@ -1,6 +1,6 @@
 import { existsSync, readFileSync, renameSync, rmSync } from 'node:fs'
 import path from 'node:path'
-import { AiBinding } from './bindings/ai'
+import { AiBinding, resolveAiProviderOptions } from './bindings/ai'
 import { AiSearchNamespaceBinding } from './bindings/ai-search'
 import { SqliteAnalyticsEngine } from './bindings/analytics-engine'
 import { ArtifactsBinding } from './bindings/artifacts'
@@ -9,6 +9,8 @@ import { ContainerBase } from './bindings/container'
 import { containerLabels, registerContainer, unregisterContainer } from './bindings/container-cleanup'
 import { DockerManager } from './bindings/container-docker'
 import { openD1Database } from './bindings/d1'
+import { resolveD1ReplicaOptions } from './bindings/d1-replicas'
+import { resolveD1TimeTravel } from './bindings/d1-time-travel'
 import type { DOExecutorFactory } from './bindings/do-executor'
 import { DurableObjectNamespaceImpl } from './bindings/durable-object'
 import { SendEmailBinding } from './bindings/email'
@@ -19,8 +21,11 @@ import { SqliteKVNamespace } from './bindings/kv'
 import { MediaBinding } from './bindings/media'
 import { QueueConsumer, SqliteQueueProducer } from './bindings/queue'
 import { FileR2Bucket } from './bindings/r2'
+import { rateLimitBindings, SqliteRateLimiter } from './bindings/rate-limit'
+import { LocalSecretsStore, missingSecretMessage, SecretsStoreSecret } from './bindings/secrets-store'
 import { createServiceBinding } from './bindings/service-binding'
 import { StaticAssets } from './bindings/static-assets'
+import { SqliteVectorizeIndex } from './bindings/vectorize'
 import { VpcNetworkBinding } from './bindings/vpc-network'
 import { WorkerLoaderBinding } from './bindings/worker-loader'
 import { SqliteWorkflowBinding, wireWorkflowClass } from './bindings/workflow'
@@ -133,10 +138,14 @@ export function buildEnv(
 				db.run('UPDATE do_storage SET namespace = ? WHERE namespace = ?', [to, from])
 				db.run('UPDATE do_alarms SET namespace = ? WHERE namespace = ?', [to, from])
 				db.run('UPDATE do_instances SET namespace = ? WHERE namespace = ?', [to, from])
-				const fromDir = path.join(getDataDir(), 'do-sql', from)
-				const toDir = path.join(getDataDir(), 'do-sql', to)
-				if (existsSync(fromDir)) {
-					renameSync(fromDir, toDir)
+				db.run('UPDATE do_bookmarks SET namespace = ? WHERE namespace = ?', [to, from])
+				db.run('UPDATE do_pending_restores SET namespace = ? WHERE namespace = ?', [to, from])
+				for (const dir of ['do-sql', 'do-bookmarks']) {
+					const fromDir = path.join(getDataDir(), dir, from)
+					const toDir = path.join(getDataDir(), dir, to)
+					if (existsSync(fromDir)) {
+						renameSync(fromDir, toDir)
+					}
 				}
 				console.log(`[lopata] Migration ${migration.tag}: renamed DO class ${from} → ${to}`)
 			}
@@ -145,9 +154,13 @@ export function buildEnv(
 				db.run('DELETE FROM do_storage WHERE namespace = ?', [className])
 				db.run('DELETE FROM do_alarms WHERE namespace = ?', [className])
 				db.run('DELETE FROM do_instances WHERE namespace = ?', [className])
-				const classDir = path.join(getDataDir(), 'do-sql', className)
-				if (existsSync(classDir)) {
-					rmSync(classDir, { recursive: true })
+				db.run('DELETE FROM do_bookmarks WHERE namespace = ?', [className])
+				db.run('DELETE FROM do_pending_restores WHERE namespace = ?', [className])
+				for (const dir of ['do-sql', 'do-bookmarks']) {
+					const classDir = path.join(getDataDir(), dir, className)
+					if (existsSync(classDir)) {
+						rmSync(classDir, { recursive: true })
+					}
 				}
 				console.log(`[lopata] Migration ${migration.tag}: deleted DO class ${className}`)
 			}
@@ -205,9 +218,13 @@ export function buildEnv(
 	}
 
 	// D1 databases
+	const d1Replicas = config.d1_databases?.length ? resolveD1ReplicaOptions(env) : null
+	const d1TimeTravel = config.d1_databases?.length ? resolveD1TimeTravel(env) : false
 	for (const d1 of config.d1_databases ?? []) {
-		console.log(`[lopata] D1 database: ${d1.binding} (${d1.database_name})`)
-		env[d1.binding] = instrumentD1(openD1Database(getDataDir(), d1.database_name), d1.binding)
+		const replicaInfo = d1Replicas ? `, ${d1Replicas.lagMs.length} read replica(s)` : ''
+		const timeTravelInfo = d1TimeTravel ? ', time travel' : ''
+		console.log(`[lopata] D1 database: ${d1.binding} (${d1.database_name}${replicaInfo}${timeTravelInfo})`)
+		env[d1.binding] = instrumentD1(openD1Database(getDataDir(), d1.database_name, d1Replicas, d1TimeTravel), d1.binding)
 	}
 
 	// Queue producers
@@ -289,7 +306,7 @@ export function buildEnv(
 		const apiToken = (env.CLOUDFLARE_API_TOKEN ?? process.env.CLOUDFLARE_API_TOKEN) as string | undefined
 		console.log(`[lopata] AI binding: ${config.ai.binding}`)
 		env[config.ai.binding] = instrumentBinding(
-			new AiBinding(db, accountId, apiToken),
+			new AiBinding(db, accountId, apiToken, resolveAiProviderOptions(env, getDataDir())),
 			{ type: 'ai', name: config.ai.binding, methods: ['run', 'models'] },
 		)
 	}
@@ -299,7 +316,7 @@ export function buildEnv(
 		console.log(`[lopata] Analytics Engine: ${ae.binding} (dataset: ${ae.dataset ?? ae.binding})`)
 		env[ae.binding] = instrumentBinding(
 			new SqliteAnalyticsEngine(db, ae.dataset ?? ae.binding),
-			{ type: 'analytics_engine', name: ae.binding, methods: ['writeDataPoint'] },
+			{ type: 'analytics_engine', name: ae.binding, methods: ['writeDataPoint'], countSubrequests: false },
 		)
 	}
 
@@ -354,6 +371,7 @@ export function buildEnv(
 				type: 'assets',
 				name: config.assets.binding,
 				methods: ['fetch'],
+				countSubrequests: false,
 			})
 		} else {
 			console.log(`[lopata] Static assets: ${config.assets.directory} (auto-serve)`)
@@ -434,6 +452,43 @@ export function buildEnv(
 		})
 	}
 
+	// Secrets Store — encrypted local file, read on every get()
+	if (config.secrets_store_secrets?.length) {
+		const store = new LocalSecretsStore(getDataDir())
+		for (const secret of config.secrets_store_secrets) {
+			console.log(`[lopata] Secrets Store secret: ${secret.binding} (${secret.store_id}/${secret.secret_name})`)
+			if (!store.has(secret.store_id, secret.secret_name)) {
+				console.warn(`[lopata] ${missingSecretMessage(secret.binding, secret.store_id, secret.secret_name)}`)
+			}
+			env[secret.binding] = instrumentBinding(new SecretsStoreSecret(store, secret.binding, secret.store_id, secret.secret_name), {
+				type: 'secrets_store',
+				name: secret.binding,
+				methods: ['get'],
+			})
+		}
+	}
+
+	// Vectorize — SQLite-backed vector indexes, brute-force search
+	for (const vi of config.vectorize ?? []) {
+		console.log(`[lopata] Vectorize index: ${vi.binding} (index: ${vi.index_name})`)
+		env[vi.binding] = instrumentBinding(new SqliteVectorizeIndex(db, vi.index_name), {
+			type: 'vectorize',
+			name: vi.binding,
+			methods: ['describe', 'insert', 'upsert', 'query', 'queryById', 'getByIds', 'deleteByIds'],
+		})
+	}
+
+	// Rate limiting — sliding window over SQLite, shared per namespace_id
+	for (const rl of rateLimitBindings(config)) {
+		console.log(`[lopata] Rate limit: ${rl.binding} (namespace: ${rl.namespaceId}, ${rl.limit} per ${rl.period}s)`)
+		env[rl.binding] = instrumentBinding(new SqliteRateLimiter(db, rl.namespaceId, rl.limit, rl.period), {
+			type: 'ratelimit',
+			name: rl.binding,
+			methods: ['limit'],
+			countSubrequests: false,
+		})
+	}
+
 	// Version metadata binding
 	if (config.version_metadata) {
 		const binding = config.version_metadata.binding
@@ -1,8 +1,10 @@
 import path from 'node:path'
 import type { DOExecutorFactory } from './bindings/do-executor'
+import { compatFromConfig } from './compat'
 import type { WranglerConfig } from './config'
 import { buildEnv, wireServiceBindings } from './env'
 import { Generation, type GenerationInfo } from './generation'
+import { registerCompatWarnings } from './warnings'
 import type { WorkerRegistry } from './worker-registry'
 import { type WorkerReadyInfo, WorkerThreadExecutor } from './worker-thread/executor'
 
@@ -76,6 +78,7 @@ export class GenerationManager {
 		this.browserConfig = options?.browserConfig
 		this.baseUrls = options?.baseUrls
 		this._configPath = options?.configPath ?? ''
+		if (this.workerPath) registerCompatWarnings(this.workerName ?? config.name, compatFromConfig(config))
 	}
 
 	/** The currently active generation (receives new requests) */
@@ -1,12 +1,16 @@
 import { randomUUIDv7, type Server } from 'bun'
 import type { DurableObjectNamespaceImpl } from './bindings/durable-object'
 import { startCronTimer } from './bindings/scheduled'
-import { assetsOnlyRejection, canServeAssets } from './bindings/static-assets'
+import { type AssetFetchOptions, assetsOnlyRejection, canServeAssets } from './bindings/static-assets'
+import { recordTailRequest } from './bindings/tail'
 import { CFWebSocket, type ResponseWithWebSocket } from './bindings/websocket-pair'
 import type { SqliteWorkflowBinding } from './bindings/workflow'
 import type { WranglerConfig } from './config'
 import { getDatabase } from './db'
 import { renderErrorPage, stitchAsyncStack } from './error-page-render'
+import { DEPTH_LIMIT_ERROR, LOOP_COUNT_HEADER, MAX_FETCH_LOOPS, reportLimitExceeded, resolveLimits, type ResolvedLimits } from './limits'
+import { cfSpanAttributes } from './request-cf'
+import { getActiveContext } from './tracing/context'
 import { persistError, setSpanAttribute, startSpan } from './tracing/span'
 import type { WorkerThreadExecutor } from './worker-thread/executor'
 
@@ -24,7 +28,7 @@ export interface ClassRegistry {
 		retryDelay: number | null
 	}[]
 	serviceBindings: { bindingName: string; serviceName: string; entrypoint?: string; proxy: Record<string, unknown> }[]
-	staticAssets: { fetch(req: Request): Promise<Response> } | null
+	staticAssets: { fetch(req: Request, options?: AssetFetchOptions): Promise<Response> } | null
 }
 
 export type GenerationState = 'active' | 'draining' | 'stopped'
@@ -52,6 +56,7 @@ export class Generation {
 	activeRequests = 0
 
 	private cronTimer: NodeJS.Timer | ReturnType<typeof setInterval> | null = null
+	private _limits: ResolvedLimits | null | undefined
 
 	constructor(
 		id: number,
@@ -83,9 +88,18 @@ export class Generation {
 			return startSpan({
 				name: `${request.method} ${url.pathname}`,
 				kind: 'server',
-				attributes: { 'http.method': request.method, 'http.url': request.url, 'lopata.generation_id': this.id },
+				attributes: {
+					'http.method': request.method,
+					'http.url': request.url,
+					'lopata.generation_id': this.id,
+					...cfSpanAttributes(request),
+				},
 				workerName: this.workerName,
+				traceContext: request.headers,
 			}, async () => {
+				const loopError = this._enterChain(request)
+				if (loopError) return renderErrorPage(loopError, request, this.env, this.config, this.workerName)
+				recordTailRequest(request)
 				const response = await this._dispatchFetch(request, server, url)
 				if (response) setSpanAttribute('http.status_code', response.status)
 				return response
@@ -95,6 +109,36 @@ export class Generation {
 		}
 	}
 
+	/** Opt-in limits of this worker (see `src/limits.ts`); the worker thread reports invalid settings. */
+	private get limits(): ResolvedLimits | null {
+		if (this._limits === undefined) {
+			try {
+				this._limits = resolveLimits(this.env, this.config)
+			} catch {
+				this._limits = null
+			}
+		}
+		return this._limits
+	}
+
+	/**
+	 * Start the request's invocation chain. A request sent by `fetch()` from a
+	 * local worker carries its loop count; past Cloudflare's loop limit it fails
+	 * (enforce mode) or is reported (warn mode). The header is removed so the
+	 * worker never sees it.
+	 */
+	private _enterChain(request: Request): Error | null {
+		const loops = Number(request.headers.get(LOOP_COUNT_HEADER)) || 0
+		request.headers.delete(LOOP_COUNT_HEADER)
+		const active = getActiveContext()
+		if (!active) return null
+		active.chain = { depth: 0, loops }
+		const limits = this.limits
+		if (!limits || loops <= MAX_FETCH_LOOPS) return null
+		reportLimitExceeded(limits, active, DEPTH_LIMIT_ERROR, 'loops', `(request looped through fetch() ${loops} times, limit ${MAX_FETCH_LOOPS})`)
+		return limits.mode === 'enforce' ? new Error(DEPTH_LIMIT_ERROR) : null
+	}
+
 	private async _dispatchFetch(request: Request, server: Server<unknown>, url: URL): Promise<Response | undefined> {
 		const callerStack = new Error('')
 		try {
@@ -116,7 +160,7 @@ export class Generation {
 				}
 				const rejection = assetsOnlyRejection(request)
 				if (rejection) return rejection
-				return assets.fetch(request)
+				return assets.fetch(request, { edge: true })
 			}
 			if (!assets) {
 				response = await executor.executeFetch(request)
@@ -132,7 +176,7 @@ export class Generation {
 				// (served from `/account/index.html`) never reach the asset layer.
 				const workerFirst = shouldRunWorkerFirst(this.config.assets?.run_worker_first, url.pathname)
 				if (!workerFirst && servableFromAssets) {
-					const assetResponse = await assets.fetch(request)
+					const assetResponse = await assets.fetch(request, { edge: true })
 					if (assetResponse.status !== 404) return assetResponse
 					response = await executor.executeFetch(request)
 				} else {
@@ -142,7 +186,7 @@ export class Generation {
 						// other side stops — we're discarding this response in favour
 						// of the assets fallback.
 						response.body?.cancel().catch(() => {})
-						return assets.fetch(request)
+						return assets.fetch(request, { edge: true })
 					}
 				}
 			}
@@ -191,7 +235,7 @@ export class Generation {
 		return startSpan({
 			name: 'email',
 			kind: 'server',
-			attributes: { 'email.from': from, 'email.to': to, 'lopata.generation_id': this.id },
+			attributes: { 'email.from': from, 'email.to': to, 'email.raw_size': rawBytes.byteLength, 'lopata.generation_id': this.id },
 			workerName: this.workerName,
 		}, async () => {
 			// Persist incoming email so `setReject` / `forward` can find it. Main
@@ -1 +1,2 @@
 export { defineConfig, type LopataConfig } from './lopata-config'
+export { getPlatformProxy, type GetPlatformProxyOptions, type PlatformProxy } from './platform-proxy'
@@ -0,0 +1,280 @@
+import type { WranglerConfig } from './config'
+import { getActiveContext, type SpanContext } from './tracing/context'
+import { getTraceStore } from './tracing/store'
+
+/**
+ * Opt-in emulation of Cloudflare's per-invocation resource limits.
+ *
+ * `LOPATA_LIMITS` picks the mode: `off` (default), `warn` (log and record a span
+ * event when an invocation goes over) or `enforce` (fail it with Cloudflare's
+ * error). `LOPATA_PLAN` picks the profile: `free`, `paid` (default) or `custom`,
+ * which starts from `paid`. `LOPATA_LIMIT_CPU_MS`, `LOPATA_LIMIT_MEMORY_MB` and
+ * `LOPATA_LIMIT_SUBREQUESTS` override single values of any profile, and
+ * wrangler's `limits.cpu_ms` / `limits.subrequests` raise the paid limits just
+ * like they do in production. `.dev.vars` wins over the process environment.
+ */
+
+export const LIMITS_MODES = ['off', 'warn', 'enforce'] as const
+export type LimitsMode = typeof LIMITS_MODES[number]
+
+export const LIMITS_PLANS = ['free', 'paid', 'custom'] as const
+export type LimitsPlan = typeof LIMITS_PLANS[number]
+
+export interface PlanLimits {
+	/** CPU time per invocation, in milliseconds. */
+	cpuMs: number
+	/** Heap size of the isolate, in megabytes. */
+	memoryMb: number
+	/** Outbound `fetch()` and binding calls per invocation. */
+	subrequests: number
+	/** Outbound connections an invocation may have waiting for a response at once. */
+	connections: number
+}
+
+export const PLAN_LIMITS: Record<Exclude<LimitsPlan, 'custom'>, PlanLimits> = {
+	free: { cpuMs: 10, memoryMb: 128, subrequests: 50, connections: 6 },
+	paid: { cpuMs: 30_000, memoryMb: 128, subrequests: 10_000, connections: 6 },
+}
+
+/** Highest `limits.cpu_ms` Cloudflare accepts. */
+const MAX_CPU_MS = 300_000
+/** Highest `limits.subrequests` Cloudflare accepts. */
+const MAX_SUBREQUESTS = 10_000_000
+
+/** Worker invocations one request may chain through service bindings. */
+export const MAX_INVOCATION_DEPTH = 32
+/** Times one request may loop back into a local worker through `fetch()`. */
+export const MAX_FETCH_LOOPS = 16
+/** Carries the fetch loop count on outbound requests while limits are on. */
+export const LOOP_COUNT_HEADER = 'x-lopata-loop-count'
+
+export const CPU_LIMIT_ERROR = 'Exceeded CPU Limit'
+export const MEMORY_LIMIT_ERROR = 'Exceeded Memory'
+export const SUBREQUEST_LIMIT_ERROR = 'Too many subrequests.'
+export const DEPTH_LIMIT_ERROR = 'Subrequest depth limit exceeded. This request recursed through Workers too many times. '
+	+ 'This can happen e.g. if you have a Worker or Durable Object that calls other Workers or objects recursively.'
+
+export interface ResolvedLimits {
+	mode: Exclude<LimitsMode, 'off'>
+	plan: LimitsPlan
+	limits: PlanLimits
+}
+
+function positiveNumber(name: string, raw: string): number {
+	const value = Number(raw)
+	if (!Number.isFinite(value) || value <= 0) throw new Error(`Invalid ${name} "${raw}" (expected a positive number)`)
+	return value
+}
+
+/** Resolve the limits mode and profile for a worker; null when limits are off. */
+export function resolveLimits(env: Record<string, unknown>, config: WranglerConfig): ResolvedLimits | null {
+	const read = (key: string) => typeof env[key] === 'string' ? env[key] as string : process.env[key]
+	const mode = read('LOPATA_LIMITS') || 'off'
+	if (!LIMITS_MODES.includes(mode as LimitsMode)) {
+		throw new Error(`Invalid LOPATA_LIMITS "${mode}" (expected one of: ${LIMITS_MODES.join(', ')})`)
+	}
+	if (mode === 'off') return null
+	const plan = read('LOPATA_PLAN') || 'paid'
+	if (!LIMITS_PLANS.includes(plan as LimitsPlan)) {
+		throw new Error(`Invalid LOPATA_PLAN "${plan}" (expected one of: ${LIMITS_PLANS.join(', ')})`)
+	}
+
+	const limits = { ...PLAN_LIMITS[plan === 'free' ? 'free' : 'paid'] }
+	const configuredCpu = config.limits?.cpu_ms
+	if (configuredCpu !== undefined && plan !== 'free') {
+		if (!Number.isFinite(configuredCpu) || configuredCpu <= 0 || configuredCpu > MAX_CPU_MS) {
+			throw new Error(`Invalid limits.cpu_ms ${configuredCpu} (expected 1–${MAX_CPU_MS})`)
+		}
+		limits.cpuMs = configuredCpu
+	}
+	const configuredSubrequests = config.limits?.subrequests
+	if (configuredSubrequests !== undefined && plan !== 'free') {
+		if (!Number.isInteger(configuredSubrequests) || configuredSubrequests <= 0 || configuredSubrequests > MAX_SUBREQUESTS) {
+			throw new Error(`Invalid limits.subrequests ${configuredSubrequests} (expected 1–${MAX_SUBREQUESTS})`)
+		}
+		limits.subrequests = configuredSubrequests
+	}
+	const cpuMs = read('LOPATA_LIMIT_CPU_MS')
+	if (cpuMs) limits.cpuMs = positiveNumber('LOPATA_LIMIT_CPU_MS', cpuMs)
+	const memoryMb = read('LOPATA_LIMIT_MEMORY_MB')
+	if (memoryMb) limits.memoryMb = positiveNumber('LOPATA_LIMIT_MEMORY_MB', memoryMb)
+	const subrequests = read('LOPATA_LIMIT_SUBREQUESTS')
+	if (subrequests) limits.subrequests = positiveNumber('LOPATA_LIMIT_SUBREQUESTS', subrequests)
+	return { mode: mode as ResolvedLimits['mode'], plan: plan as LimitsPlan, limits }
+}
+
+/**
+ * Record that an invocation went over a limit: a `limits.exceeded` event on its
+ * span, plus a console warning in warn mode (enforce mode surfaces the error).
+ */
+export function reportLimitExceeded(config: ResolvedLimits, span: SpanContext | undefined, error: string, limit: string, detail: string): void {
+	if (span) {
+		getTraceStore().addEvent({
+			spanId: span.spanId,
+			traceId: span.traceId,
+			timestamp: Date.now(),
+			name: 'limits.exceeded',
+			level: config.mode === 'enforce' ? 'error' : 'warn',
+			message: `${error} ${detail}`,
+			attributes: { 'lopata.limit': limit },
+		})
+	}
+	if (config.mode === 'warn') console.warn(`[lopata] ${error} ${detail}`)
+}
+
+interface Invocation {
+	startCpu: NodeJS.CpuUsage
+	/** Another invocation ran on the thread at the same time. */
+	shared: boolean
+}
+
+/**
+ * Measures handler invocations on one worker thread.
+ *
+ * CPU time is the thread's CPU clock between the handler starting and its
+ * promise settling, so time spent awaiting I/O doesn't count — as on
+ * Cloudflare. Invocations that overlap share that clock; their measurement is
+ * an upper bound, so it is recorded but never enforced. Limits are checked when
+ * the handler settles: a loop that never yields still hangs the worker.
+ */
+export class InvocationMeter {
+	private active = new Set<Invocation>()
+
+	constructor(readonly config: ResolvedLimits) {}
+
+	/** Run `fn`, record its CPU time on the active span and apply the limits to it. */
+	async measure<T>(fn: () => Promise<T>): Promise<T> {
+		const span = getActiveContext()
+		const invocation: Invocation = { startCpu: process.threadCpuUsage(), shared: this.active.size > 0 }
+		for (const other of this.active) other.shared = true
+		this.active.add(invocation)
+		let result: T
+		try {
+			result = await fn()
+		} catch (err) {
+			this.finish(invocation, span)
+			throw err
+		}
+		const exceeded = this.finish(invocation, span)
+		if (exceeded && this.config.mode === 'enforce') throw new Error(exceeded)
+		return result
+	}
+
+	/** Record the measurements; returns the Cloudflare error the invocation earned, if any. */
+	private finish(invocation: Invocation, span: SpanContext | undefined): string | null {
+		this.active.delete(invocation)
+		const usage = process.threadCpuUsage(invocation.startCpu)
+		const cpuMs = Math.round((usage.user + usage.system) / 10) / 100
+		const { limits, plan } = this.config
+
+		let heapMb = process.memoryUsage().heapUsed / 1024 / 1024
+		if (heapMb > limits.memoryMb) {
+			// Only live objects count — collect before deciding the isolate is over.
+			Bun.gc(true)
+			heapMb = process.memoryUsage().heapUsed / 1024 / 1024
+		}
+
+		let exceeded: string | null = null
+		if (!invocation.shared && cpuMs > limits.cpuMs) {
+			exceeded = CPU_LIMIT_ERROR
+			reportLimitExceeded(this.config, span, exceeded, 'cpu', `— used ${cpuMs} ms of CPU time (limit ${limits.cpuMs} ms on the ${plan} plan)`)
+		} else if (heapMb > limits.memoryMb) {
+			exceeded = MEMORY_LIMIT_ERROR
+			reportLimitExceeded(this.config, span, exceeded, 'memory', `— left ${Math.round(heapMb)} MB on the heap (limit ${limits.memoryMb} MB on the ${plan} plan)`)
+		}
+
+		if (span) {
+			const attributes: Record<string, unknown> = { 'lopata.cpu_ms': cpuMs, 'lopata.heap_mb': Math.round(heapMb * 10) / 10 }
+			if (invocation.shared) attributes['lopata.cpu_shared'] = true
+			getTraceStore().updateAttributes(span.spanId, attributes)
+		}
+		return exceeded
+	}
+}
+
+// ─── Subrequests, connections and invocation chains ──────────────────
+// Checked on the worker thread, against the budget of the invocation whose
+// span context is active (see `SubrequestCounterRef`).
+
+let threadLimits: ResolvedLimits | null = null
+
+/** Install the limits of the worker this thread runs. */
+export function setThreadLimits(limits: ResolvedLimits | null): void {
+	threadLimits = limits
+}
+
+export function getThreadLimits(): ResolvedLimits | null {
+	return threadLimits
+}
+
+/** Count one subrequest against the active invocation; throws Cloudflare's error once it's over the plan. */
+export function countSubrequest(): void {
+	const config = threadLimits
+	const span = getActiveContext()
+	if (!config || !span) return
+	const budget = span.subrequests
+	budget.count++
+	if (budget.count <= config.limits.subrequests) return
+	const detail = `— ${budget.count} subrequests in one invocation (limit ${config.limits.subrequests} on the ${config.plan} plan)`
+	if (config.mode === 'enforce') {
+		reportLimitExceeded(config, span, SUBREQUEST_LIMIT_ERROR, 'subrequests', detail)
+		throw new Error(SUBREQUEST_LIMIT_ERROR)
+	}
+	if (!budget.warned) {
+		budget.warned = true
+		reportLimitExceeded(config, span, SUBREQUEST_LIMIT_ERROR, 'subrequests', detail)
+	}
+}
+
+/**
+ * Take one of the active invocation's connection slots, waiting for a free one
+ * in enforce mode (Cloudflare queues connections beyond the limit rather than
+ * failing them). Call the returned function once the response headers arrive.
+ */
+export async function acquireConnection(): Promise<() => void> {
+	const config = threadLimits
+	const span = getActiveContext()
+	if (!config || !span) return () => {}
+	const pool = span.subrequests.connections ??= { open: 0, waiting: [] }
+	if (pool.open < config.limits.connections) {
+		pool.open++
+	} else if (config.mode === 'enforce') {
+		// A released slot is handed straight to the next waiter; `open` stays put.
+		await new Promise<void>(resolve => pool.waiting.push(resolve))
+	} else {
+		pool.open++
+		if (!span.subrequests.warnedConnections) {
+			span.subrequests.warnedConnections = true
+			reportLimitExceeded(config, span, 'Too many simultaneous connections.', 'connections', `— ${pool.open} open at once (limit ${config.limits.connections}; Cloudflare would queue the rest)`)
+		}
+	}
+	let released = false
+	return () => {
+		if (released) return
+		released = true
+		const next = pool.waiting.shift()
+		if (next) next()
+		else pool.open--
+	}
+}
+
+/** Run an outbound call in one of the active invocation's connection slots. */
+export async function withConnection<T>(call: () => Promise<T>): Promise<T> {
+	if (!threadLimits) return call()
+	const release = await acquireConnection()
+	try {
+		return await call()
+	} finally {
+		release()
+	}
+}
+
+/** Check the chain of the worker invocation that just started on this thread. */
+export function checkInvocationDepth(): void {
+	const config = threadLimits
+	const span = getActiveContext()
+	const depth = span?.chain?.depth ?? 0
+	if (!config || depth <= MAX_INVOCATION_DEPTH) return
+	reportLimitExceeded(config, span, DEPTH_LIMIT_ERROR, 'depth', `(${depth} chained invocations, limit ${MAX_INVOCATION_DEPTH})`)
+	if (config.mode === 'enforce') throw new Error(DEPTH_LIMIT_ERROR)
+}
@@ -1,11 +1,21 @@
 import { existsSync } from 'node:fs'
 import { dirname, join, resolve } from 'node:path'
+import type { HttpsConfig } from './certs'
+import type { RequestCfConfig } from './request-cf'
+import type { HostMap } from './route-matcher'
+import type { OtlpExporterConfig } from './tracing/otlp'
 
 export interface LopataConfig {
 	/** Path to the main worker's wrangler config (HTTP entrypoint) */
 	main: string
 	/** Host patterns that route to the main worker (takes priority over wildcard auxiliary hosts). */
 	hosts?: string[]
+	/**
+	 * Map production hostnames from wrangler `routes` to the local hostnames you
+	 * browse, e.g. `{ 'example.com': 'localhost', '*.example.com': '*.localhost' }`,
+	 * so `api.example.com/*` and `example.com/api/*` routes stay distinct locally.
+	 */
+	hostMap?: HostMap
 	/** Auxiliary workers, each with a service name and wrangler config path */
 	workers?: Array<{
 		name: string
@@ -48,6 +58,28 @@ export interface LopataConfig {
 	 * In single-worker auto-load mode there is no `lopata.config.ts` to read this from.
 	 */
 	watchExtra?: string[]
+	/**
+	 * Export completed spans to an OpenTelemetry collector over OTLP/HTTP. Without
+	 * this, the standard `OTEL_EXPORTER_OTLP_ENDPOINT` / `OTEL_EXPORTER_OTLP_PROTOCOL`
+	 * environment variables are honored; with neither, traces stay local.
+	 */
+	otlp?: OtlpExporterConfig
+	/**
+	 * `request.cf` for incoming requests: named profiles (each overriding the
+	 * built-in San Francisco values), the profile active at startup, and MaxMind
+	 * database files for looking up the client IP. Paths resolve relative to
+	 * the directory containing `lopata.config.ts`. The active profile can be
+	 * switched from the dashboard; single requests can override fields with
+	 * `x-lopata-cf-<field>` headers or `__cf_<field>` query params.
+	 */
+	cf?: RequestCfConfig
+	/**
+	 * Serve the dev server over HTTPS (same as `lopata dev --https`). `true` uses
+	 * a certificate signed by a local CA generated under `.lopata/certs/`, covering
+	 * localhost and every configured host; pass `cert`/`key` paths (relative to
+	 * the directory containing `lopata.config.ts`) to serve your own instead.
+	 */
+	https?: boolean | HttpsConfig
 }
 
 export function defineConfig(config: LopataConfig): LopataConfig {
@@ -76,6 +108,14 @@ export async function loadLopataConfig(baseDir: string): Promise<LopataConfig |
 	if (config.watchExtra) {
 		config.watchExtra = config.watchExtra.map(p => resolve(baseDir, p))
 	}
+	if (config.cf?.geoipDatabase) {
+		const paths = typeof config.cf.geoipDatabase === 'string' ? [config.cf.geoipDatabase] : config.cf.geoipDatabase
+		config.cf.geoipDatabase = paths.map(p => resolve(baseDir, p))
+	}
+	if (typeof config.https === 'object') {
+		if (config.https.cert) config.https.cert = resolve(baseDir, config.https.cert)
+		if (config.https.key) config.https.key = resolve(baseDir, config.https.key)
+	}
 
 	return config
 }
@@ -0,0 +1,203 @@
+import { readFileSync } from 'node:fs'
+import { isIPv4, isIPv6 } from 'node:net'
+
+/**
+ * Minimal reader for MaxMind DB files (GeoIP2 / GeoLite2 `.mmdb`).
+ *
+ * Implements just enough of the format spec to look up an address: the
+ * binary search tree and the data-section decoder. The whole file is read
+ * into memory — City databases are ~70 MB, which is fine for a dev server.
+ * https://maxmind.github.io/MaxMind-DB/
+ */
+
+const METADATA_MARKER = Buffer.from('\xAB\xCD\xEFMaxMind.com', 'latin1')
+const DATA_SECTION_SEPARATOR = 16
+
+export interface MmdbMetadata {
+	node_count: number
+	record_size: number
+	ip_version: number
+	database_type: string
+	build_epoch: number
+	[key: string]: unknown
+}
+
+export class MmdbReader {
+	readonly metadata: MmdbMetadata
+	private buf: Buffer
+	private nodeCount: number
+	private recordSize: number
+	private treeSize: number
+	private ipv4Start = 0
+
+	constructor(buf: Buffer) {
+		this.buf = buf
+		const markerAt = buf.lastIndexOf(METADATA_MARKER)
+		if (markerAt === -1) throw new Error('Not a MaxMind DB file (metadata marker missing)')
+		const metaStart = markerAt + METADATA_MARKER.length
+		this.metadata = new Decoder(buf, metaStart).decode(metaStart).value as MmdbMetadata
+		this.nodeCount = this.metadata.node_count
+		this.recordSize = this.metadata.record_size
+		if (![24, 28, 32].includes(this.recordSize)) throw new Error(`Unsupported MaxMind DB record size ${this.recordSize}`)
+		this.treeSize = this.recordSize * 2 / 8 * this.nodeCount
+
+		// IPv4 addresses live under ::/96 in an IPv6 tree.
+		if (this.metadata.ip_version === 6) {
+			let node = 0
+			for (let i = 0; i < 96 && node < this.nodeCount; i++) node = this.readRecord(node, 0)
+			this.ipv4Start = node
+		}
+	}
+
+	static open(path: string): MmdbReader {
+		return new MmdbReader(readFileSync(path))
+	}
+
+	/** Record stored for `ip`, or null when the address isn't in the database. */
+	get(ip: string): Record<string, unknown> | null {
+		const bytes = parseIp(ip)
+		if (!bytes) return null
+		if (bytes.length === 16 && this.metadata.ip_version === 4) return null
+
+		let node = bytes.length === 4 ? this.ipv4Start : 0
+		const bitCount = bytes.length * 8
+		for (let i = 0; i < bitCount && node < this.nodeCount; i++) {
+			const bit = (bytes[i >> 3]! >> (7 - (i & 7))) & 1
+			node = this.readRecord(node, bit)
+		}
+		if (node <= this.nodeCount) return null
+
+		const dataStart = this.treeSize + DATA_SECTION_SEPARATOR
+		const offset = node - this.nodeCount - DATA_SECTION_SEPARATOR + dataStart
+		return new Decoder(this.buf, dataStart).decode(offset).value as Record<string, unknown>
+	}
+
+	private readRecord(node: number, bit: number): number {
+		const buf = this.buf
+		const base = node * this.recordSize * 2 / 8
+		switch (this.recordSize) {
+			case 24:
+				return buf.readUIntBE(base + bit * 3, 3)
+			case 28:
+				if (bit === 0) return ((buf[base + 3]! & 0xf0) << 20) | buf.readUIntBE(base, 3)
+				return ((buf[base + 3]! & 0x0f) << 24) | buf.readUIntBE(base + 4, 3)
+			default:
+				return buf.readUInt32BE(base + bit * 4)
+		}
+	}
+}
+
+/** Data-section decoder; `pointerBase` is where pointers are relative to. */
+class Decoder {
+	constructor(private buf: Buffer, private pointerBase: number) {}
+
+	decode(offset: number): { value: unknown; next: number } {
+		const buf = this.buf
+		const ctrl = buf[offset++]!
+		let type = ctrl >> 5
+
+		if (type === 1) {
+			const ss = (ctrl >> 3) & 0x3
+			const vvv = ctrl & 0x7
+			let pointer: number
+			if (ss === 0) pointer = (vvv << 8) | buf[offset]!
+			else if (ss === 1) pointer = ((vvv << 16) | buf.readUInt16BE(offset)) + 2048
+			else if (ss === 2) pointer = ((vvv << 24) | buf.readUIntBE(offset, 3)) + 526336
+			else pointer = buf.readUInt32BE(offset)
+			const { value } = this.decode(this.pointerBase + pointer)
+			return { value, next: offset + ss + 1 }
+		}
+
+		if (type === 0) type = 7 + buf[offset++]!
+
+		let size = ctrl & 0x1f
+		if (size === 29) size = 29 + buf[offset++]!
+		else if (size === 30) {
+			size = 285 + buf.readUInt16BE(offset)
+			offset += 2
+		} else if (size === 31) {
+			size = 65821 + buf.readUIntBE(offset, 3)
+			offset += 3
+		}
+
+		switch (type) {
+			case 2:
+				return { value: buf.toString('utf8', offset, offset + size), next: offset + size }
+			case 3:
+				return { value: buf.readDoubleBE(offset), next: offset + 8 }
+			case 4:
+				return { value: buf.subarray(offset, offset + size), next: offset + size }
+			case 5:
+			case 6:
+				return { value: size === 0 ? 0 : buf.readUIntBE(offset, size), next: offset + size }
+			case 7: {
+				const map: Record<string, unknown> = {}
+				for (let i = 0; i < size; i++) {
+					const key = this.decode(offset)
+					const value = this.decode(key.next)
+					map[key.value as string] = value.value
+					offset = value.next
+				}
+				return { value: map, next: offset }
+			}
+			case 8:
+				// Only a full 4-byte int32 carries a sign bit.
+				if (size === 0) return { value: 0, next: offset }
+				return { value: size === 4 ? buf.readInt32BE(offset) : buf.readUIntBE(offset, size), next: offset + size }
+			case 9:
+			case 10: {
+				let n = 0n
+				for (let i = 0; i < size; i++) n = (n << 8n) | BigInt(buf[offset + i]!)
+				return { value: n <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(n) : n, next: offset + size }
+			}
+			case 11: {
+				const list: unknown[] = []
+				for (let i = 0; i < size; i++) {
+					const item = this.decode(offset)
+					list.push(item.value)
+					offset = item.next
+				}
+				return { value: list, next: offset }
+			}
+			case 14:
+				return { value: size !== 0, next: offset }
+			case 15:
+				return { value: buf.readFloatBE(offset), next: offset + 4 }
+			default:
+				throw new Error(`Unsupported MaxMind DB data type ${type}`)
+		}
+	}
+}
+
+function parseIp(ip: string): Uint8Array | null {
+	if (isIPv4(ip)) return Uint8Array.from(ip.split('.').map(Number))
+	if (!isIPv6(ip)) return null
+
+	// IPv4-mapped (::ffff:1.2.3.4) is looked up as plain IPv4.
+	const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+	if (mapped) return parseIp(mapped[1]!)
+
+	const [head, tail] = ip.split('::') as [string, string | undefined]
+	const parseGroups = (part: string | undefined): number[] => {
+		if (!part) return []
+		const groups: number[] = []
+		for (const g of part.split(':')) {
+			if (g.includes('.')) {
+				const [a, b, c, d] = g.split('.').map(Number) as [number, number, number, number]
+				groups.push((a << 8) | b, (c << 8) | d)
+			} else {
+				groups.push(parseInt(g, 16))
+			}
+		}
+		return groups
+	}
+	const left = parseGroups(head)
+	const right = parseGroups(tail)
+	const groups = tail === undefined ? left : [...left, ...new Array(8 - left.length - right.length).fill(0), ...right]
+	const bytes = new Uint8Array(16)
+	groups.forEach((g, i) => {
+		bytes[i * 2] = g >> 8
+		bytes[i * 2 + 1] = g & 0xff
+	})
+	return bytes
+}
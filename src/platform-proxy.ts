@@ -0,0 +1,125 @@
+/**
+ * `getPlatformProxy()` — lopata's bindings for framework dev servers.
+ *
+ * Mirrors wrangler's export of the same name, which Astro, Nuxt, SvelteKit and
+ * OpenNext call from their own dev server to get `env`, `cf`, `ctx` and `caches`
+ * without running the app inside a Worker. The env is built exactly as
+ * `lopata dev` builds it: a config with `main` gets a `GenerationManager`, so
+ * Durable Objects and Workflows run in worker threads against the worker's own
+ * classes; a bindings-only config gets the env alone.
+ *
+ * Everything is imported lazily so `import { defineConfig } from 'lopata'` in a
+ * config file stays cheap.
+ */
+
+import type { SqliteCacheStorage } from './bindings/cache'
+import type { ExecutionContext } from './execution-context'
+import type { CfProperties } from './request-cf'
+
+export interface GetPlatformProxyOptions {
+	/** Wrangler config file. Default: `wrangler.jsonc` / `wrangler.json` / `wrangler.toml` in the cwd. */
+	configPath?: string
+	/** Wrangler environment (`env.<name>` overrides), like `lopata dev --env`. */
+	environment?: string
+	/**
+	 * Where binding state lives. `true` (default) shares `<cwd>/.lopata` with
+	 * `lopata dev` and the CLI, `{ path }` uses another directory, and `false`
+	 * uses a temporary one that `dispose()` removes.
+	 */
+	persist?: boolean | { path: string }
+}
+
+export interface PlatformProxy<Env = Record<string, unknown>> {
+	env: Env
+	/** `request.cf` of the active profile from `lopata.config.ts` (or the built-in one). */
+	cf: CfProperties
+	ctx: ExecutionContext
+	caches: SqliteCacheStorage
+	/** Stop the worker threads and Durable Objects; the env is unusable afterwards. */
+	dispose(): Promise<void>
+}
+
+export async function getPlatformProxy<Env = Record<string, unknown>>(options: GetPlatformProxyOptions = {}): Promise<PlatformProxy<Env>> {
+	const { mkdtempSync, rmSync } = await import('node:fs')
+	const { tmpdir } = await import('node:os')
+	const path = await import('node:path')
+	const { closeDatabase, getDatabase, getDataDir, setDataDir } = await import('./db')
+
+	const baseDir = process.cwd()
+	const persist = options.persist ?? true
+	const previousDataDir = getDataDir()
+	// Set when the proxy moved the data dir; dispose() closes its database and moves it back.
+	const movesDataDir = persist !== true
+	let tmpDir: string | null = null
+	if (persist === false) {
+		tmpDir = mkdtempSync(path.join(tmpdir(), 'lopata-proxy-'))
+		setDataDir(tmpDir)
+	} else if (persist !== true) {
+		setDataDir(path.resolve(baseDir, persist.path))
+	}
+
+	// Registers the `cloudflare:*` modules and the Workers globals for this process.
+	await import('./plugin')
+	const { autoLoadConfig, findConfigPath, hasScript, loadConfig } = await import('./config')
+	const { buildEnv, setGlobalEnv, wireServiceBindings } = await import('./env')
+	const { ExecutionContext } = await import('./execution-context')
+	const { SqliteCacheStorage } = await import('./bindings/cache')
+	const { loadLopataConfig } = await import('./lopata-config')
+	const { RequestCfResolver } = await import('./request-cf')
+
+	const configPath = options.configPath ? path.resolve(baseDir, options.configPath) : null
+	const config = configPath ? await loadConfig(configPath, options.environment) : await autoLoadConfig(baseDir, options.environment)
+	const configDir = configPath ? path.dirname(configPath) : baseDir
+	const lopataConfig = await loadLopataConfig(baseDir)
+
+	let env: Record<string, unknown>
+	let stop: () => void
+	if (hasScript(config)) {
+		const { GenerationManager } = await import('./generation-manager')
+		const { WorkerRegistry } = await import('./worker-registry')
+		const { WorkerExecutorFactory } = await import('./bindings/do-executor-worker')
+		const registry = new WorkerRegistry()
+		const manager = new GenerationManager(config, configDir, {
+			workerName: config.name,
+			workerRegistry: registry,
+			isMain: true,
+			executorFactory: new WorkerExecutorFactory(),
+			configPath: configPath ?? findConfigPath(baseDir),
+			browserConfig: lopataConfig?.browser,
+		})
+		registry.register(config.name, manager, true)
+		const gen = await manager.reload()
+		env = gen.env
+		// No shared namespaces: this is the last generation, so its Durable Objects go too.
+		stop = () => gen.stop()
+	} else {
+		const built = buildEnv(config, configDir, undefined, lopataConfig?.browser)
+		wireServiceBindings(built.registry, {}, built.env)
+		env = built.env
+		stop = () => {
+			for (const entry of built.registry.durableObjects) entry.namespace.destroy({ force: true })
+		}
+	}
+	setGlobalEnv(env)
+
+	const cfResolver = new RequestCfResolver(lopataConfig?.cf)
+	let disposed = false
+
+	return {
+		env: env as Env,
+		cf: cfResolver.profileCf(cfResolver.activeProfile),
+		ctx: new ExecutionContext(),
+		caches: new SqliteCacheStorage(getDatabase()),
+		async dispose() {
+			if (disposed) return
+			disposed = true
+			stop()
+			setGlobalEnv({})
+			if (movesDataDir) {
+				closeDatabase()
+				if (tmpDir) rmSync(tmpDir, { recursive: true, force: true })
+				setDataDir(previousDataDir)
+			}
+		},
+	}
+}
@@ -1,9 +1,15 @@
 import { plugin } from 'bun'
 import type { Database } from 'bun:sqlite'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
 import { buildAnalyticsEngineSqlResponse, isAnalyticsEngineSqlUrl, isLocalAnalyticsEngineToken } from './bindings/analytics-engine-sql'
 import type { ImageTransformOptions, OutputOptions } from './bindings/images'
+import { type CompatibilityFlags, isPrivateHost } from './compat'
+import { collectImportGraph } from './import-graph'
+import { countSubrequest, getThreadLimits, LOOP_COUNT_HEADER, withConnection } from './limits'
 import { setupCloudflareGlobals } from './setup-globals'
 import { getActiveContext } from './tracing/context'
+import { injectTraceContext } from './tracing/propagation'
 import { addSpanEvent, persistError, setSpanAttribute, startSpan } from './tracing/span'
 import { registerVirtualModules } from './virtual-modules'
 
@@ -203,6 +209,7 @@ globalThis.fetch = ((input: any, init?: any): Promise<Response> => {
 	const ctx = getActiveContext()
 	if (ctx) {
 		ctx.fetchStack.current = new Error()
+		if (_strictlyPublicFetch && typeof aeUrl === 'string') warnPrivateFetch(aeUrl)
 	}
 
 	// Extract cf.image options before creating request (Request constructor drops cf)
@@ -214,6 +221,11 @@ globalThis.fetch = ((input: any, init?: any): Promise<Response> => {
 		return cfImageOpts ? p.then(r => applyCfImageTransform(r, cfImageOpts)) : p
 	}
 
+	try {
+		countSubrequest()
+	} catch (err) {
+		return Promise.reject(err)
+	}
 	const request = new Request(input, init)
 	const fetchRequest = request.clone()
 	const url = request.url
@@ -238,7 +250,18 @@ globalThis.fetch = ((input: any, init?: any): Promise<Response> => {
 		const reqBody = await readBodyLimited(request)
 		if (reqBody) setSpanAttribute('http.request.body', reqBody)
 
-		let response = await _originalFetch(fetchRequest as globalThis.Request)
+		// A forwarded incoming request still carries its caller's trace context;
+		// the hop continues this span instead (fetchRequest is a copy).
+		fetchRequest.headers.delete('traceparent')
+		fetchRequest.headers.delete('tracestate')
+		injectTraceContext(fetchRequest.headers as globalThis.Headers)
+		// With opt-in limits on, count the hop so a local worker this lands on can
+		// detect a fetch() loop (see `Generation.callFetch`). Only private hosts can
+		// be the dev server, so the header never leaves the machine.
+		if (getThreadLimits() && isPrivateHost(new URL(url).hostname)) {
+			fetchRequest.headers.set(LOOP_COUNT_HEADER, String((ctx.chain?.loops ?? 0) + 1))
+		}
+		let response = await withConnection(() => _originalFetch(fetchRequest as globalThis.Request))
 
 		// Apply cf.image transform if present
 		if (cfImageOpts) {
@@ -256,6 +279,91 @@ globalThis.fetch = ((input: any, init?: any): Promise<Response> => {
 	})
 }) as typeof globalThis.fetch
 
+// ─── Compatibility flags ─────────────────────────────────────────────
+// Applied per worker thread once its wrangler config is known (see compat.ts).
+
+let _strictlyPublicFetch = false
+const _warnedPrivateHosts = new Set<string>()
+
+function warnPrivateFetch(url: string): void {
+	let hostname: string
+	try {
+		hostname = new URL(url).hostname
+	} catch {
+		return
+	}
+	if (_warnedPrivateHosts.has(hostname) || !isPrivateHost(hostname)) return
+	_warnedPrivateHosts.add(hostname)
+	console.warn(
+		`[lopata] fetch() to private address "${hostname}" — with global_fetch_strictly_public this is only reachable locally, never from Cloudflare's edge`,
+	)
+}
+
+const LOADERS: Record<string, 'ts' | 'tsx' | 'js' | 'jsx'> = {
+	'.ts': 'ts',
+	'.mts': 'ts',
+	'.tsx': 'tsx',
+	'.js': 'js',
+	'.mjs': 'js',
+	'.jsx': 'jsx',
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+/**
+ * Apply the worker's compatibility date/flags to this thread's runtime. Must run
+ * before the user module is imported: the module guard only sees files loaded
+ * after it is registered.
+ *
+ * The guard covers the worker's project sources (its static import graph, the
+ * same set the file watcher follows) — dependencies in `node_modules` are left
+ * alone, since their builtin imports are often conditional.
+ */
+export function applyCompatibility(compat: CompatibilityFlags, entry: string, baseDir: string): void {
+	_strictlyPublicFetch = compat.isEnabled('global_fetch_strictly_public')
+
+	if (!compat.isEnabled('global_navigator')) {
+		delete (globalThis as { navigator?: unknown }).navigator
+	}
+
+	if (!compat.isEnabled('formdata_parser_supports_files')) {
+		// Pre-2021-11-03 semantics: file parts come back as their text content.
+		for (const proto of [globalThis.Request.prototype, globalThis.Response.prototype]) {
+			const original = proto.formData
+			proto.formData = async function(this: Request | Response) {
+				const form = await original.call(this)
+				const converted = new FormData()
+				for (const [name, value] of form.entries()) {
+					converted.append(name, typeof value === 'string' ? value : await value.text())
+				}
+				return converted
+			} as typeof proto.formData
+		}
+	}
+
+	if (compat.nodeCompat === 'v2') return
+	const root = entry.startsWith(baseDir + path.sep) ? baseDir : path.dirname(entry)
+	const files = [...collectImportGraph(entry, root)].filter(file => LOADERS[path.extname(file)])
+	if (!files.length) return
+	const transpiler = new Bun.Transpiler({ loader: 'tsx' })
+	plugin({
+		name: 'cloudflare-compat-node-imports',
+		setup(build) {
+			build.onLoad({ filter: new RegExp(`^(?:${files.map(escapeRegExp).join('|')})$`) }, args => {
+				const contents = readFileSync(args.path, 'utf8')
+				for (const imp of transpiler.scanImports(contents)) {
+					if (!compat.isNodeImportAllowed(imp.path)) {
+						throw new Error(`${compat.nodeImportError(imp.path)} (imported from ${args.path})`)
+					}
+				}
+				return { contents, loader: LOADERS[path.extname(args.path)]! }
+			})
+		},
+	})
+}
+
 plugin({
 	name: 'cloudflare-workers-shim',
 	setup(build) {
@@ -1,4 +1,22 @@
-const DEFAULT_CF: Record<string, unknown> = {
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { MmdbReader } from './mmdb'
+
+export type CfProperties = Record<string, unknown>
+
+export interface RequestCfConfig {
+	/** Named `request.cf` profiles; each overrides fields of the built-in San Francisco profile. */
+	profiles?: Record<string, CfProperties>
+	/** Profile applied to requests that don't pick one themselves (default: the built-in profile). */
+	profile?: string
+	/**
+	 * MaxMind DB files (GeoIP2/GeoLite2 City, Country or ASN) to look the client
+	 * IP up in. Addresses that aren't found — e.g. loopback — keep the profile's values.
+	 */
+	geoipDatabase?: string | string[]
+}
+
+const DEFAULT_CF: CfProperties = {
 	country: 'US',
 	city: 'San Francisco',
 	continent: 'NA',
@@ -19,12 +37,192 @@ const DEFAULT_CF: Record<string, unknown> = {
 	clientAcceptEncoding: 'gzip, deflate, br',
 }
 
-export function addCfProperty(request: Request): Request {
+/** Fields describing where the client is; they stop making sense once the country changes. */
+const LOCATION_FIELDS = ['continent', 'city', 'region', 'regionCode', 'postalCode', 'metroCode', 'latitude', 'longitude', 'timezone']
+
+const NUMERIC_FIELDS = new Set(['asn', 'clientTcpRtt', 'edgeRequestKeepAliveStatus'])
+
+const KNOWN_FIELDS = [...Object.keys(DEFAULT_CF), 'clientTcpRtt', 'edgeRequestKeepAliveStatus', 'requestPriority', 'hostMetroCode']
+
+const EU_COUNTRIES = new Set([
+	'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+])
+
+/** Dev-only override: `x-lopata-cf-<field>` header or `__cf_<field>` query param. */
+const OVERRIDE_HEADER_PREFIX = 'x-lopata-cf-'
+const OVERRIDE_PARAM_PREFIX = '__cf_'
+
+const requestProfiles = new WeakMap<Request, string>()
+
+export function addCfProperty(request: Request, cf: CfProperties = DEFAULT_CF): Request {
 	Object.defineProperty(request, 'cf', {
-		value: Object.freeze({ ...DEFAULT_CF }),
+		value: Object.freeze({ ...cf }),
 		writable: false,
 		enumerable: false,
 		configurable: true,
 	})
 	return request
 }
+
+/** Layer `overrides` onto `base`, dropping base location fields that belong to a different country. */
+function mergeCf(base: CfProperties, overrides: CfProperties): CfProperties {
+	const merged = { ...base }
+	if (typeof overrides.country === 'string' && overrides.country !== base.country) {
+		for (const field of LOCATION_FIELDS) delete merged[field]
+		merged.isEUCountry = EU_COUNTRIES.has(overrides.country.toUpperCase()) ? '1' : '0'
+	}
+	return Object.assign(merged, overrides)
+}
+
+/** Bun.serve speaks HTTP/1.1 only; plain-HTTP requests carry empty TLS fields like on Cloudflare. */
+function transportCf(protocol: string): CfProperties {
+	return protocol === 'https:'
+		? { httpProtocol: 'HTTP/1.1', tlsVersion: 'TLSv1.3' }
+		: { httpProtocol: 'HTTP/1.1', tlsVersion: '', tlsCipher: '' }
+}
+
+/** `region-code`, `regioncode` and `region_code` all name `regionCode`. */
+function fieldName(raw: string): string {
+	const normalized = raw.toLowerCase().replace(/[-_]/g, '')
+	return KNOWN_FIELDS.find(f => f.toLowerCase() === normalized) ?? raw.replace(/[-_]([a-z])/g, (_, c: string) => c.toUpperCase())
+}
+
+/** Map a GeoIP2 City/Country/ASN record onto `request.cf` fields. */
+function geoipToCf(record: Record<string, any>): CfProperties {
+	const cf: CfProperties = {}
+	if (record.country?.iso_code) cf.country = record.country.iso_code
+	if (record.continent?.code) cf.continent = record.continent.code
+	if (record.country?.iso_code) cf.isEUCountry = record.country.is_in_european_union ? '1' : '0'
+	if (record.city?.names?.en) cf.city = record.city.names.en
+	const subdivision = record.subdivisions?.[0]
+	if (subdivision?.names?.en) cf.region = subdivision.names.en
+	if (subdivision?.iso_code) cf.regionCode = subdivision.iso_code
+	if (record.postal?.code) cf.postalCode = record.postal.code
+	if (record.location?.latitude !== undefined) cf.latitude = String(record.location.latitude)
+	if (record.location?.longitude !== undefined) cf.longitude = String(record.location.longitude)
+	if (record.location?.time_zone) cf.timezone = record.location.time_zone
+	if (record.location?.metro_code !== undefined) cf.metroCode = String(record.location.metro_code)
+	if (record.autonomous_system_number !== undefined) cf.asn = record.autonomous_system_number
+	if (record.autonomous_system_organization) cf.asOrganization = record.autonomous_system_organization
+	return cf
+}
+
+/**
+ * Decides the `request.cf` object for each incoming request.
+ *
+ * Layers, later ones winning: the built-in profile, the active profile (or the
+ * one the request names via `x-lopata-cf-profile`), the GeoIP lookup of the
+ * client IP (or `x-lopata-cf-ip`), then single-field overrides such as
+ * `x-lopata-cf-country: DE`. Override headers and `__cf_*` query params are
+ * stripped before the worker sees the request.
+ */
+export class RequestCfResolver {
+	readonly profiles: Record<string, CfProperties>
+	private active: string | null
+	private geoip: MmdbReader[]
+
+	constructor(config: RequestCfConfig = {}, baseDir = process.cwd()) {
+		this.profiles = config.profiles ?? {}
+		this.active = null
+		if (config.profile) this.setActiveProfile(config.profile)
+		const paths = typeof config.geoipDatabase === 'string' ? [config.geoipDatabase] : config.geoipDatabase ?? []
+		this.geoip = paths.map(p => {
+			const path = resolve(baseDir, p)
+			if (!existsSync(path)) throw new Error(`GeoIP database not found: ${path}`)
+			return MmdbReader.open(path)
+		})
+	}
+
+	get activeProfile(): string | null {
+		return this.active
+	}
+
+	setActiveProfile(name: string | null): void {
+		if (name !== null && !(name in this.profiles)) {
+			throw new Error(`Unknown cf profile "${name}". Available: ${Object.keys(this.profiles).join(', ') || '(none)'}`)
+		}
+		this.active = name
+	}
+
+	/** The cf values a profile produces (null: the built-in profile) before GeoIP and per-request overrides. */
+	profileCf(name: string | null): CfProperties {
+		return name === null ? { ...DEFAULT_CF } : mergeCf(DEFAULT_CF, this.profiles[name] ?? {})
+	}
+
+	/**
+	 * Compute the cf object for `request` and attach it. Returns the request the
+	 * worker should see — a copy when override headers or params were stripped.
+	 */
+	apply(request: Request, clientIp: string | null): Request {
+		const url = new URL(request.url)
+		const overrides = new Map<string, string>()
+		const strippedHeaders: string[] = []
+		for (const [name, value] of request.headers) {
+			if (name.startsWith(OVERRIDE_HEADER_PREFIX)) {
+				overrides.set(name.slice(OVERRIDE_HEADER_PREFIX.length), value)
+				strippedHeaders.push(name)
+			}
+		}
+		const strippedParams: string[] = []
+		for (const [name, value] of url.searchParams) {
+			if (name.startsWith(OVERRIDE_PARAM_PREFIX)) {
+				overrides.set(name.slice(OVERRIDE_PARAM_PREFIX.length), value)
+				strippedParams.push(name)
+			}
+		}
+
+		const profile = overrides.get('profile') ?? this.active
+		overrides.delete('profile')
+		if (profile !== null && !(profile in this.profiles)) {
+			throw new Error(`Unknown cf profile "${profile}". Available: ${Object.keys(this.profiles).join(', ') || '(none)'}`)
+		}
+		// Transport fields follow how the dev server was actually reached; a profile can still pin them.
+		let cf = mergeCf(mergeCf(DEFAULT_CF, transportCf(url.protocol)), profile === null ? {} : this.profiles[profile] ?? {})
+
+		const ip = overrides.get('ip') ?? clientIp
+		overrides.delete('ip')
+		if (ip) cf = mergeCf(cf, this.lookup(ip))
+
+		const fields: CfProperties = {}
+		for (const [name, value] of overrides) {
+			const field = fieldName(name)
+			fields[field] = NUMERIC_FIELDS.has(field) ? Number(value) : value
+		}
+		cf = mergeCf(cf, fields)
+
+		// Bun can only upgrade the original request object, so WebSocket upgrades keep their override headers.
+		const upgrade = request.headers.get('upgrade')?.toLowerCase() === 'websocket'
+		let result = request
+		if ((strippedHeaders.length > 0 || strippedParams.length > 0) && !upgrade) {
+			for (const name of strippedParams) url.searchParams.delete(name)
+			const headers = new Headers(request.headers)
+			for (const name of strippedHeaders) headers.delete(name)
+			result = new Request(url.href, { method: request.method, headers, body: request.body, signal: request.signal, redirect: request.redirect })
+		}
+		addCfProperty(result, cf)
+		if (profile !== null) requestProfiles.set(result, profile)
+		return result
+	}
+
+	private lookup(ip: string): CfProperties {
+		let cf: CfProperties = {}
+		for (const reader of this.geoip) {
+			const record = reader.get(ip)
+			if (record) cf = { ...cf, ...geoipToCf(record) }
+		}
+		return cf
+	}
+}
+
+/** `request.cf` values worth recording on the request's root span. */
+export function cfSpanAttributes(request: Request): Record<string, unknown> {
+	const cf = (request as { cf?: CfProperties }).cf
+	if (!cf) return {}
+	const attributes: Record<string, unknown> = {}
+	for (const field of ['country', 'city', 'region', 'continent', 'colo', 'asn', 'timezone', 'isEUCountry']) {
+		if (cf[field] !== undefined) attributes[`cf.${field}`] = cf[field]
+	}
+	const profile = requestProfiles.get(request)
+	if (profile) attributes['lopata.cf_profile'] = profile
+	return attributes
+}
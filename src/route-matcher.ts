@@ -36,6 +36,19 @@ export function extractPathPattern(route: string | { pattern: string }): string
 	return path
 }
 
+/**
+ * Extract the host portion from a Cloudflare route pattern, lowercased and
+ * without protocol or port: `https://*.example.com:8443/api/*` → `*.example.com`.
+ * Returns null for path-only patterns (`/api/*`), which match any host.
+ */
+export function extractHostPattern(route: string | { pattern: string }): string | null {
+	const pattern = (typeof route === 'string' ? route : route.pattern).trim().replace(/^https?:\/\//, '')
+	if (pattern === '' || pattern.startsWith('/')) return null
+	const slashIndex = pattern.indexOf('/')
+	const host = slashIndex === -1 ? pattern : pattern.slice(0, slashIndex)
+	return host.replace(/:\d+$/, '').toLowerCase() || null
+}
+
 /**
  * Match a request pathname against a Cloudflare-style route pattern (path portion only).
  * Supports trailing `*` as a wildcard that matches any suffix.
@@ -66,7 +79,11 @@ export function extractHostname(hostHeader: string): string {
 	return hostHeader.split(':')[0] ?? ''
 }
 
-/** Match a hostname against a host pattern. Supports exact match and `*.domain` wildcards. */
+/**
+ * Match a hostname against a host pattern. Supports exact match and leading
+ * wildcards: `*.example.com` matches subdomains only, `*example.com` (Cloudflare
+ * route syntax) also matches `example.com` itself.
+ */
 export function matchHost(hostname: string, pattern: string): boolean {
 	if (pattern === hostname) return true
 	if (pattern.startsWith('*.')) {
@@ -74,9 +91,41 @@ export function matchHost(hostname: string, pattern: string): boolean {
 		// Must have a subdomain — bare hostname doesn't match *.localhost
 		return hostname.endsWith(suffix) && hostname.length > suffix.length
 	}
+	if (pattern.startsWith('*')) return hostname.endsWith(pattern.slice(1))
 	return false
 }
 
+/**
+ * Production → local hostname mapping used to match domain routes locally,
+ * e.g. `{ 'example.com': 'localhost', '*.example.com': '*.localhost' }`.
+ * Wildcard entries carry the subdomain over (`api.localhost` → `api.example.com`).
+ */
+export type HostMap = Record<string, string>
+
+/** The production hostnames a local hostname stands for under `hostMap` (the hostname itself included). */
+export function productionHostnames(hostname: string, hostMap: HostMap = {}): string[] {
+	const host = hostname.toLowerCase()
+	const result = [host]
+	for (const [production, local] of Object.entries(hostMap)) {
+		const prod = production.toLowerCase()
+		const loc = local.toLowerCase()
+		let mapped: string | null = null
+		if (!loc.startsWith('*.')) {
+			if (host === loc && !prod.includes('*')) mapped = prod
+		} else if (prod.startsWith('*.') && matchHost(host, loc)) {
+			mapped = host.slice(0, host.length - loc.length + 1) + prod.slice(1)
+		}
+		if (mapped && !result.includes(mapped)) result.push(mapped)
+	}
+	return result
+}
+
+/** Host specificity: exact hosts beat wildcard hosts, which beat routes without a host. */
+function hostRank(host: string | null): number {
+	if (host === null) return 0
+	return host.includes('*') ? 1 : 2
+}
+
 /** Check if host patterns contain any wildcard entries (e.g. `*.localhost`). */
 function hasWildcardHost(patterns?: string[]): boolean {
 	if (!patterns) return false
@@ -91,7 +140,15 @@ function segmentCount(pattern: string): number {
 }
 
 interface RouteEntry {
+	/** Path portion of the route. */
 	pattern: string
+	/** Host portion of the route (production hostname pattern), null for path-only routes. */
+	host: string | null
+	/** The route as written in wrangler config, for display. */
+	route: string
+	zoneName?: string
+	/** `custom_domain: true` routes match only their own hostname, never by path alone. */
+	customDomain: boolean
 	workerName: string
 	manager: RoutableManager
 	/** When set, this route only matches requests whose hostname matches one of these patterns. */
@@ -100,10 +157,26 @@ interface RouteEntry {
 	hasWildcardHost: boolean
 }
 
+export interface RouteResolution {
+	/** Worker the request is dispatched to; null when it falls through to the main worker. */
+	workerName: string | null
+	/** The matched route as written in config, null on fallback. */
+	route: string | null
+	/** Production hostnames the request host was matched as (after `hostMap`). */
+	hostnames: string[]
+	/** False when no route host matched the request host, so routes were matched by path only. */
+	domainAware: boolean
+}
+
 /**
  * Dispatches requests to workers based on route patterns.
  * Routes are sorted by specificity (most specific first).
  *
+ * Route hosts are matched against the request's Host header — directly, or via
+ * `hostMap` (production → local hostnames). When the request host matches no
+ * route host at all (plain `localhost` without a mapping), routes fall back to
+ * path-only matching, so single-domain setups work without any mapping.
+ *
  * Only auxiliary workers should be added here — the main worker
  * is the fallback and handles all unmatched requests.
  */
@@ -111,11 +184,27 @@ export class RouteDispatcher {
 	private routes: RouteEntry[] = []
 	private sorted = true
 	private fallback: RoutableManager
+	private hostMap: HostMap = {}
 
 	constructor(fallback: RoutableManager) {
 		this.fallback = fallback
 	}
 
+	/** Set the production → local hostname mapping. Entries mixing exact and wildcard hosts are ignored with a warning. */
+	setHostMap(hostMap: HostMap | undefined): void {
+		this.hostMap = {}
+		for (const [production, local] of Object.entries(hostMap ?? {})) {
+			const valid = production.startsWith('*.') ? local.startsWith('*.') : !production.includes('*') && !local.includes('*')
+			if (!valid) {
+				console.warn(
+					`[lopata] Warning: hostMap entry "${production}" → "${local}" must map an exact host to an exact host or *.domain to *.domain — skipping`,
+				)
+				continue
+			}
+			this.hostMap[production] = local
+		}
+	}
+
 	addRoutes(config: WranglerConfig, manager: RoutableManager, workerName: string, hostPatterns?: string[]): void {
 		if (!config.routes) return
 
@@ -125,15 +214,24 @@ export class RouteDispatcher {
 		if (hadRoutes && this.routes.length === 0) this.sorted = true
 
 		for (const route of config.routes) {
-			// Skip custom_domain entries — they are domain ownership claims, not request routing patterns
-			if (typeof route === 'object' && route.custom_domain) continue
-
 			const rawPattern = typeof route === 'string' ? route : route.pattern
 			if (!rawPattern || rawPattern.trim() === '') {
 				console.warn(`[lopata] Warning: empty route pattern in worker "${workerName}" — skipping`)
 				continue
 			}
 
+			const customDomain = typeof route === 'object' && route.custom_domain === true
+			const zoneName = typeof route === 'object' ? route.zone_name : undefined
+			const host = extractHostPattern(route)
+			if (customDomain && (host === null || host.includes('*') || extractPathPattern(route) !== '/*')) {
+				console.warn(`[lopata] Warning: custom domain "${rawPattern}" in worker "${workerName}" must be a plain hostname — skipping`)
+				continue
+			}
+			const bareHost = host?.replace(/^\*\.?/, '')
+			if (zoneName && bareHost && bareHost !== zoneName && !bareHost.endsWith(`.${zoneName}`)) {
+				console.warn(`[lopata] Warning: route "${rawPattern}" in worker "${workerName}" is outside its zone "${zoneName}"`)
+			}
+
 			const pattern = extractPathPattern(route)
 
 			// Warn about mid-pattern wildcards (CF only supports trailing wildcards)
@@ -143,7 +241,7 @@ export class RouteDispatcher {
 			}
 
 			// Skip duplicate patterns from different workers when they share the same host scope (first registered wins)
-			const existing = this.routes.find(r => r.pattern === pattern && !r.hostPatterns && !hostPatterns)
+			const existing = this.routes.find(r => r.pattern === pattern && r.host === host && !r.hostPatterns && !hostPatterns)
 			if (existing) {
 				console.warn(
 					`[lopata] Warning: route pattern "${pattern}" is already registered by "${existing.workerName}" — skipping duplicate from "${workerName}"`,
@@ -151,7 +249,17 @@ export class RouteDispatcher {
 				continue
 			}
 
-			this.routes.push({ pattern, workerName, manager, hostPatterns, hasWildcardHost: hasWildcardHost(hostPatterns) })
+			this.routes.push({
+				pattern,
+				host,
+				route: rawPattern.trim(),
+				zoneName,
+				customDomain,
+				workerName,
+				manager,
+				hostPatterns,
+				hasWildcardHost: hasWildcardHost(hostPatterns),
+			})
 			this.sorted = false
 		}
 	}
@@ -160,7 +268,16 @@ export class RouteDispatcher {
 	addHostWorker(manager: RoutableManager, workerName: string, hostPatterns: string[]): void {
 		// Clear existing routes for this worker to support re-registration
 		this.routes = this.routes.filter(r => r.workerName !== workerName)
-		this.routes.push({ pattern: '/*', workerName, manager, hostPatterns, hasWildcardHost: hasWildcardHost(hostPatterns) })
+		this.routes.push({
+			pattern: '/*',
+			host: null,
+			route: hostPatterns.join(', '),
+			customDomain: false,
+			workerName,
+			manager,
+			hostPatterns,
+			hasWildcardHost: hasWildcardHost(hostPatterns),
+		})
 		this.sorted = false
 	}
 
@@ -185,6 +302,10 @@ export class RouteDispatcher {
 			if (aSlashStar !== bSlashStar) return aSlashStar ? -1 : 1
 			// Exact host patterns beat wildcard host patterns (e.g. admin.localhost before *.localhost)
 			if (a.hasWildcardHost !== b.hasWildcardHost) return a.hasWildcardHost ? 1 : -1
+			// Same for route hosts: api.example.com/* before *.example.com/* before /*
+			const hostDiff = hostRank(b.host) - hostRank(a.host)
+			if (hostDiff !== 0) return hostDiff
+			if (a.host && b.host && a.host.length !== b.host.length) return b.host.length - a.host.length
 			// Longer pattern string as tiebreaker
 			return b.pattern.length - a.pattern.length
 		})
@@ -192,17 +313,31 @@ export class RouteDispatcher {
 	}
 
 	resolve(pathname: string, hostname?: string): RoutableManager {
+		return this.find(pathname, hostname).entry?.manager ?? this.fallback
+	}
+
+	/** Like `resolve`, but reports which route matched and how the host was interpreted. */
+	explain(pathname: string, hostname?: string): RouteResolution {
+		const { entry, hostnames, domainAware } = this.find(pathname, hostname)
+		return { workerName: entry?.workerName ?? null, route: entry?.route ?? null, hostnames, domainAware }
+	}
+
+	private find(pathname: string, hostname?: string): { entry: RouteEntry | null; hostnames: string[]; domainAware: boolean } {
 		this.ensureSorted()
+		const hostnames = hostname ? productionHostnames(hostname, this.hostMap) : []
+		const matchesRouteHost = (entry: RouteEntry) => entry.host !== null && hostnames.some(h => matchHost(h, entry.host!))
+		const domainAware = this.routes.some(matchesRouteHost)
 		for (const entry of this.routes) {
 			// If route has host constraints, skip unless hostname matches one of them
 			if (entry.hostPatterns) {
 				if (hostname === undefined || !entry.hostPatterns.some(hp => matchHost(hostname, hp))) continue
 			}
+			if (entry.host !== null && (domainAware || entry.customDomain) && !matchesRouteHost(entry)) continue
 			if (matchRoute(pathname, entry.pattern)) {
-				return entry.manager
+				return { entry, hostnames, domainAware }
 			}
 		}
-		return this.fallback
+		return { entry: null, hostnames, domainAware }
 	}
 
 	/** Check whether the given manager is the fallback (main worker). */
@@ -214,8 +349,22 @@ export class RouteDispatcher {
 		return this.routes.length > 0
 	}
 
-	getRegisteredRoutes(): Array<{ pattern: string; workerName: string; hostPatterns?: string[] }> {
+	getRegisteredRoutes(): Array<
+		{ pattern: string; host: string | null; route: string; zoneName?: string; customDomain: boolean; workerName: string; hostPatterns?: string[] }
+	> {
 		this.ensureSorted()
-		return this.routes.map(r => ({ pattern: r.pattern, workerName: r.workerName, hostPatterns: r.hostPatterns }))
+		return this.routes.map(r => ({
+			pattern: r.pattern,
+			host: r.host,
+			route: r.route,
+			zoneName: r.zoneName,
+			customDomain: r.customDomain,
+			workerName: r.workerName,
+			hostPatterns: r.hostPatterns,
+		}))
+	}
+
+	getHostMap(): HostMap {
+		return { ...this.hostMap }
 	}
 }
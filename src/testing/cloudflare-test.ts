@@ -0,0 +1,202 @@
+/**
+ * `cloudflare:test` — the test module of `@cloudflare/vitest-pool-workers`,
+ * mapped onto lopata's testing primitives so those suites run under `bun test`.
+ *
+ * The first import builds one env per process from the wrangler config in the
+ * cwd (`createTestEnv({ wrangler, worker: main })`). With `src/testing/setup.ts`
+ * preloaded, every test then starts from the storage the previous one started
+ * from: whatever `beforeAll` wrote stays, whatever a test wrote is rolled back
+ * (see `IsolatedStorage`). There's no per-file scope — bun has no global
+ * per-file hook — so data a file's `beforeAll` writes is visible to later files.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import type { SqliteCacheStorage } from '../bindings/cache'
+import { splitStatements } from '../bindings/d1'
+import type { LocalD1Database } from '../bindings/d1'
+import type { InProcessExecutor } from '../bindings/do-executor-inprocess'
+import type { DurableObjectNamespaceImpl, DurableObjectStateImpl } from '../bindings/durable-object'
+import { createScheduledController } from '../bindings/scheduled'
+import { createServiceBinding } from '../bindings/service-binding'
+import { findConfigPath, loadConfig } from '../config'
+import { setGlobalEnv } from '../env'
+import { ExecutionContext } from '../execution-context'
+import { setGlobalFetchInterceptor } from './fetch-mock'
+import { IsolatedStorage, testStorageOf } from './isolated-storage'
+import { MockAgent } from './mock-agent'
+import { cloudflareTestRef, testCachesRef } from './setup'
+import type { TestQueueDispatchMessage } from './types'
+
+export interface CloudflareTestOptions {
+	/** Wrangler config. Default: `wrangler.jsonc` / `wrangler.json` / `wrangler.toml` in the cwd. */
+	wrangler?: string
+	/** Worker entry module. Default: the config's `main`. */
+	main?: string
+	/** Extra env values (like `miniflare.bindings`), e.g. `{ TEST_MIGRATIONS: readD1Migrations('migrations') }`. */
+	env?: Record<string, unknown>
+	/** Roll storage back after every test. Default: true. */
+	isolatedStorage?: boolean
+}
+
+export interface D1Migration {
+	name: string
+	queries: string[]
+}
+
+let options: CloudflareTestOptions = {}
+let started = false
+
+/**
+ * Configure the `cloudflare:test` env. Call it from a preload (before any test
+ * file imports `cloudflare:test`), the way `vitest.config.ts` configures the pool.
+ */
+export function configureCloudflareTest(config: CloudflareTestOptions): void {
+	if (started) throw new Error('configureCloudflareTest() must run before the first import of "cloudflare:test"')
+	options = config
+}
+
+/** Read `.sql` files of a migrations directory, in order, for `applyD1Migrations()`. */
+export function readD1Migrations(dir: string): D1Migration[] {
+	return readdirSync(dir)
+		.filter(f => f.endsWith('.sql'))
+		.sort()
+		.map(name => ({ name, queries: splitStatements(readFileSync(join(dir, name), 'utf-8')) }))
+}
+
+/**
+ * Apply the migrations not yet recorded in `migrationsTable`, each in one batch.
+ * Uses the same table as `lopata d1 migrations apply` and wrangler.
+ */
+export async function applyD1Migrations(db: LocalD1Database, migrations: D1Migration[], migrationsTable = 'd1_migrations'): Promise<void> {
+	const table = `"${migrationsTable.replace(/"/g, '""')}"`
+	await db.prepare(`
+		CREATE TABLE IF NOT EXISTS ${table} (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			name TEXT NOT NULL UNIQUE,
+			applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+		)
+	`).run()
+	const { results } = await db.prepare(`SELECT name FROM ${table}`).all<{ name: string }>()
+	const applied = new Set(results.map(r => r.name))
+	for (const migration of migrations) {
+		if (applied.has(migration.name)) continue
+		await db.batch([
+			...migration.queries.map(query => db.prepare(query)),
+			db.prepare(`INSERT INTO ${table} (name) VALUES (?)`).bind(migration.name),
+		])
+	}
+}
+
+/** @internal Build the `cloudflare:test` exports; called once, by the virtual module. */
+export async function createCloudflareTestModule(): Promise<Record<string, unknown>> {
+	started = true
+	// Imported lazily: `./index` re-exports this module.
+	const { createTestEnv } = await import('./index')
+
+	const configPath = options.wrangler ? resolve(options.wrangler) : findConfigPath(process.cwd())
+	const config = await loadConfig(configPath)
+	const main = options.main ? resolve(options.main) : config.main ? resolve(dirname(configPath), config.main) : undefined
+
+	const testEnv = await createTestEnv({ wrangler: configPath, worker: main })
+	Object.assign(testEnv.env as Record<string, unknown>, options.env)
+	const caches = testCachesRef.current as SqliteCacheStorage
+	const storage = testStorageOf(testEnv)
+	const isolated = options.isolatedStorage === false ? null : new IsolatedStorage(storage)
+
+	const fetchMock = new MockAgent()
+	setGlobalFetchInterceptor(fetchMock)
+
+	cloudflareTestRef.current = {
+		beforeEach() {
+			// A test that built (and disposed) its own createTestEnv() took over the globals.
+			if (!testCachesRef.current) {
+				setGlobalEnv(testEnv.env as Record<string, unknown>)
+				testCachesRef.current = caches
+			}
+			isolated?.begin()
+		},
+		async afterEach() {
+			isolated?.rollback()
+		},
+		dispose() {
+			cloudflareTestRef.current = null
+			setGlobalFetchInterceptor(null)
+			isolated?.dispose()
+			testEnv.dispose()
+		},
+	}
+
+	// RPC to the default entrypoint goes through a service binding, like a real `SELF`.
+	const workerModule: Record<string, unknown> = main ? await import(main) : {}
+	const selfBinding = createServiceBinding(config.name ?? 'SELF') as Record<string, unknown> & {
+		_wire(resolver: () => { kind: 'in-process'; workerModule: Record<string, unknown>; env: Record<string, unknown> }): void
+	}
+	selfBinding._wire(() => ({ kind: 'in-process', workerModule, env: testEnv.env as Record<string, unknown> }))
+
+	const SELF = new Proxy(selfBinding, {
+		get(target, prop) {
+			if (prop === 'fetch') return (input: string | Request | URL, init?: RequestInit) => testEnv.fetch(input instanceof URL ? input.href : input, init)
+			if (prop === 'scheduled') {
+				return async (opts: { scheduledTime?: number | Date; cron?: string } = {}) => {
+					const scheduledTime = opts.scheduledTime instanceof Date ? opts.scheduledTime.getTime() : opts.scheduledTime
+					try {
+						await testEnv.scheduled({ cron: opts.cron, scheduledTime })
+						return { outcome: 'ok', noRetry: false }
+					} catch (error) {
+						return { outcome: 'exception', noRetry: false, error }
+					}
+				}
+			}
+			if (prop === 'queue') {
+				return async (queueName: string, messages: TestQueueDispatchMessage[]) => {
+					try {
+						return { outcome: 'ok', ...await testEnv.queue(queueName, messages) }
+					} catch (error) {
+						return { outcome: 'exception', ackAll: false, retryBatch: { retry: false }, explicitAcks: [], retryMessages: [], error }
+					}
+				}
+			}
+			return target[prop as string]
+		},
+	})
+
+	function namespaceOf(stub: unknown): { namespace: DurableObjectNamespaceImpl; executor: InProcessExecutor } {
+		for (const { namespace } of storage.registry.durableObjects) {
+			const executor = namespace._executorForStub(stub)
+			if (executor) return { namespace, executor: executor as InProcessExecutor }
+		}
+		throw new Error('Not a Durable Object stub of this env')
+	}
+
+	return {
+		env: testEnv.env,
+		SELF,
+		fetchMock,
+		createExecutionContext: () => new ExecutionContext(),
+		waitOnExecutionContext: (ctx: ExecutionContext) => ctx._awaitAll(),
+		createScheduledController: (opts: { scheduledTime?: number | Date; cron?: string } = {}) => {
+			const scheduledTime = opts.scheduledTime instanceof Date ? opts.scheduledTime.getTime() : opts.scheduledTime
+			return createScheduledController(opts.cron ?? '', scheduledTime ?? Date.now())
+		},
+		async runInDurableObject<T>(stub: unknown, callback: (instance: unknown, state: DurableObjectStateImpl) => T | Promise<T>): Promise<T> {
+			const { executor } = namespaceOf(stub)
+			const state = executor._rawState
+			await state._enter()
+			try {
+				return await callback(executor._rawInstance, state)
+			} finally {
+				state._exit()
+			}
+		},
+		async runDurableObjectAlarm(stub: unknown): Promise<boolean> {
+			const { namespace, executor } = namespaceOf(stub)
+			if (await executor._rawState.storage.getAlarm() === null) return false
+			await namespace.triggerAlarm(String((stub as { id: unknown }).id))
+			return true
+		},
+		listDurableObjectIds: (namespace: DurableObjectNamespaceImpl) => namespace._listInstanceIds().map(id => namespace.idFromString(id)),
+		applyD1Migrations,
+		readD1Migrations,
+	}
+}
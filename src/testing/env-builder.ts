@@ -1,18 +1,35 @@
 import { Database } from 'bun:sqlite'
 import { mkdtempSync } from 'node:fs'
 import { tmpdir } from 'node:os'
-import { join } from 'node:path'
+import { join, resolve } from 'node:path'
+import { AiBinding } from '../bindings/ai'
+import { AiSearchNamespaceBinding } from '../bindings/ai-search'
+import { SqliteAnalyticsEngine } from '../bindings/analytics-engine'
+import { ArtifactsBinding } from '../bindings/artifacts'
+import { BrowserBinding } from '../bindings/browser'
 import { LocalD1Database } from '../bindings/d1'
+import { resolveD1ReplicaOptions } from '../bindings/d1-replicas'
 import type { DurableObjectNamespaceImpl } from '../bindings/durable-object'
+import { SendEmailBinding } from '../bindings/email'
+import { FlagshipBinding } from '../bindings/flagship'
+import { HyperdriveBinding } from '../bindings/hyperdrive'
+import { ImagesBinding } from '../bindings/images'
 import { SqliteKVNamespace } from '../bindings/kv'
+import { MediaBinding } from '../bindings/media'
 import { SqliteQueueProducer } from '../bindings/queue'
 import { FileR2Bucket } from '../bindings/r2'
+import { checkRateLimit, rateLimitBindings, SqliteRateLimiter } from '../bindings/rate-limit'
+import { LocalSecretsStore, SecretsStoreSecret } from '../bindings/secrets-store'
 import { createServiceBinding } from '../bindings/service-binding'
+import { StaticAssets } from '../bindings/static-assets'
+import { createVectorizeIndex, getVectorizeIndex, SqliteVectorizeIndex } from '../bindings/vectorize'
+import { VpcNetworkBinding } from '../bindings/vpc-network'
+import { WorkerLoaderBinding } from '../bindings/worker-loader'
 import type { SqliteWorkflowBinding } from '../bindings/workflow'
 import type { WranglerConfig } from '../config'
 import { runMigrations } from '../db'
 import type { Clock } from './clock'
-import type { BindingSpec } from './types'
+import type { BindingSpec, TestQueueOptions } from './types'
 
 interface ServiceBindingEntry {
 	bindingName: string
@@ -22,7 +39,8 @@ interface ServiceBindingEntry {
 }
 
 export interface TestClassRegistry {
-	durableObjects: { bindingName: string; className: string; namespace: DurableObjectNamespaceImpl }[]
+	/** `scriptName` is set for classes another `createTestWorld()` worker defines. */
+	durableObjects: { bindingName: string; className: string; scriptName?: string; namespace: DurableObjectNamespaceImpl }[]
 	workflows: { bindingName: string; className: string; binding: SqliteWorkflowBinding }[]
 	serviceBindings: ServiceBindingEntry[]
 }
@@ -32,19 +50,35 @@ export interface BuiltTestEnv {
 	env: Record<string, unknown>
 	registry: TestClassRegistry
 	tmpDirs: string[]
+	/** Databases with binding state besides `db` (one per D1 database). */
+	databases: Database[]
 }
 
+/** Storage that the workers of a `createTestWorld()` share, keyed like the real resources. */
+export interface SharedTestStorage {
+	/** Migrated by the caller. */
+	db: Database
+	/** D1 databases by database name. */
+	d1: Map<string, Database>
+	/** R2 bucket directories by bucket name. */
+	r2: Map<string, string>
+}
+
+/** Bindings are backed by `shared` storage when given, else by a new in-memory database. */
 export function buildTestEnv(
 	bindings: Record<string, BindingSpec> | undefined,
 	vars: Record<string, string> | undefined,
 	clock?: Clock,
+	shared?: SharedTestStorage,
 ): BuiltTestEnv {
-	const db = new Database(':memory:')
-	runMigrations(db)
+	const db = shared?.db ?? new Database(':memory:')
+	if (!shared) runMigrations(db)
+	const storage: SharedTestStorage = shared ?? { db, d1: new Map(), r2: new Map() }
 
 	const env: Record<string, unknown> = {}
 	const registry: TestClassRegistry = { durableObjects: [], workflows: [], serviceBindings: [] }
 	const tmpDirs: string[] = []
+	const databases: Database[] = []
 
 	if (vars) {
 		for (const [key, value] of Object.entries(vars)) {
@@ -53,27 +87,59 @@ export function buildTestEnv(
 	}
 
 	if (!bindings) {
-		return { db, env, registry, tmpDirs }
+		return { db, env, registry, tmpDirs, databases }
+	}
+
+	function makeTmpDir(kind: string): string {
+		const dir = mkdtempSync(join(tmpdir(), `lopata-test-${kind}-`))
+		tmpDirs.push(dir)
+		return dir
+	}
+	function r2Bucket(bucketName: string): FileR2Bucket {
+		let dir = storage.r2.get(bucketName)
+		if (!dir) {
+			dir = makeTmpDir('r2')
+			storage.r2.set(bucketName, dir)
+		} else if (!tmpDirs.includes(dir)) {
+			tmpDirs.push(dir)
+		}
+		return new FileR2Bucket(db, bucketName, dir)
+	}
+	function d1Database(databaseName: string): LocalD1Database {
+		let d1 = storage.d1.get(databaseName)
+		if (!d1) {
+			d1 = new Database(':memory:')
+			storage.d1.set(databaseName, d1)
+		}
+		if (!databases.includes(d1)) databases.push(d1)
+		return new LocalD1Database(d1, null, resolveD1ReplicaOptions(env), clock)
 	}
+	let secretsStore: LocalSecretsStore | null = null
 
 	for (const [bindingName, spec] of Object.entries(bindings)) {
 		if (spec === 'kv') {
 			env[bindingName] = new SqliteKVNamespace(db, bindingName, undefined, clock)
 		} else if (spec === 'r2') {
-			const tmpDir = mkdtempSync(join(tmpdir(), 'lopata-test-r2-'))
-			tmpDirs.push(tmpDir)
-			env[bindingName] = new FileR2Bucket(db, bindingName, tmpDir)
+			env[bindingName] = r2Bucket(bindingName)
 		} else if (spec === 'd1') {
-			env[bindingName] = new LocalD1Database(new Database(':memory:'))
+			env[bindingName] = d1Database(bindingName)
 		} else if (spec === 'queue') {
 			env[bindingName] = new SqliteQueueProducer(db, bindingName, 0, undefined, clock)
 		} else if (typeof spec === 'object') {
-			if (spec.type === 'durable-object') {
+			if (spec.type === 'kv') {
+				env[bindingName] = new SqliteKVNamespace(db, spec.namespaceId ?? bindingName, undefined, clock)
+			} else if (spec.type === 'r2') {
+				env[bindingName] = r2Bucket(spec.bucketName ?? bindingName)
+			} else if (spec.type === 'd1') {
+				env[bindingName] = d1Database(spec.databaseName ?? bindingName)
+			} else if (spec.type === 'queue') {
+				env[bindingName] = new SqliteQueueProducer(db, spec.queue, spec.deliveryDelay, undefined, clock)
+			} else if (spec.type === 'durable-object') {
 				// Lazy import to avoid pulling in the whole DO module at parse time
 				const { DurableObjectNamespaceImpl } = require('../bindings/durable-object')
 				const namespace = new DurableObjectNamespaceImpl(db, spec.className, undefined, { evictionTimeoutMs: 0 }, undefined, clock)
 				env[bindingName] = namespace
-				registry.durableObjects.push({ bindingName, className: spec.className, namespace })
+				registry.durableObjects.push({ bindingName, className: spec.className, scriptName: spec.scriptName, namespace })
 			} else if (spec.type === 'workflow') {
 				const { SqliteWorkflowBinding } = require('../bindings/workflow')
 				const binding = new SqliteWorkflowBinding(db, bindingName, spec.className, undefined, clock)
@@ -88,32 +154,91 @@ export function buildTestEnv(
 					entrypoint: spec.entrypoint,
 					proxy,
 				})
+			} else if (spec.type === 'ratelimit') {
+				checkRateLimit(bindingName, spec.limit, spec.period)
+				env[bindingName] = new SqliteRateLimiter(db, spec.namespaceId ?? bindingName, spec.limit, spec.period, clock)
+			} else if (spec.type === 'assets') {
+				env[bindingName] = new StaticAssets(resolve(spec.directory), spec.htmlHandling, spec.notFoundHandling)
+			} else if (spec.type === 'send-email') {
+				env[bindingName] = new SendEmailBinding(db, bindingName, spec.destinationAddress, spec.allowedDestinationAddresses)
+			} else if (spec.type === 'analytics-engine') {
+				env[bindingName] = new SqliteAnalyticsEngine(db, spec.dataset ?? bindingName)
+			} else if (spec.type === 'images') {
+				env[bindingName] = new ImagesBinding()
+			} else if (spec.type === 'media') {
+				env[bindingName] = new MediaBinding()
+			} else if (spec.type === 'hyperdrive') {
+				env[bindingName] = new HyperdriveBinding(spec.connectionString)
+			} else if (spec.type === 'flagship') {
+				env[bindingName] = new FlagshipBinding(db, spec.appId ?? bindingName)
+			} else if (spec.type === 'ai') {
+				// Stub by default: a test must not need credentials or the network.
+				env[bindingName] = new AiBinding(db, undefined, undefined, { mode: spec.mode ?? 'stub', fixturesDir: spec.fixturesDir })
+			} else if (spec.type === 'ai-search') {
+				env[bindingName] = new AiSearchNamespaceBinding(db, spec.namespace)
+			} else if (spec.type === 'vectorize') {
+				const indexName = spec.indexName ?? bindingName.toLowerCase().replace(/[^a-z0-9-]/g, '-')
+				if (spec.dimensions && !getVectorizeIndex(db, indexName)) {
+					createVectorizeIndex(db, indexName, { dimensions: spec.dimensions, metric: spec.metric ?? 'cosine' })
+				}
+				env[bindingName] = new SqliteVectorizeIndex(db, indexName)
+			} else if (spec.type === 'secret') {
+				secretsStore ??= new LocalSecretsStore(makeTmpDir('secrets'))
+				if (spec.value !== undefined) secretsStore.put('test', bindingName, spec.value)
+				env[bindingName] = new SecretsStoreSecret(secretsStore, bindingName, 'test', bindingName)
+			} else if (spec.type === 'browser') {
+				env[bindingName] = new BrowserBinding({})
+			} else if (spec.type === 'vpc-network') {
+				env[bindingName] = new VpcNetworkBinding({ networkId: spec.networkId, bindingName })
+			} else if (spec.type === 'artifacts') {
+				env[bindingName] = new ArtifactsBinding(db, spec.namespace, makeTmpDir('artifacts'), 'http://localhost/__artifacts/git')
+			} else if (spec.type === 'worker-loader') {
+				env[bindingName] = new WorkerLoaderBinding(makeTmpDir('worker-loader'))
+			} else if (spec.type === 'version-metadata') {
+				env[bindingName] = { id: spec.id ?? 'test', tag: spec.tag ?? '', timestamp: spec.timestamp ?? new Date(0).toISOString() }
 			}
 		}
 	}
 
-	return { db, env, registry, tmpDirs }
+	return { db, env, registry, tmpDirs, databases }
 }
 
-/** Translate a WranglerConfig into a flat BindingSpec map + vars */
-export function configToBindings(config: WranglerConfig): { bindings: Record<string, BindingSpec>; vars: Record<string, string> } {
+/**
+ * Translate a WranglerConfig into a flat BindingSpec map + vars, plus the
+ * queue consumer settings keyed by queue name. Paths in the config (assets
+ * directory) are resolved against `baseDir`. Containers need Docker and have
+ * no spec; declare their class as a `durable-object` instead.
+ */
+export function configToBindings(
+	config: WranglerConfig,
+	baseDir = process.cwd(),
+): { bindings: Record<string, BindingSpec>; vars: Record<string, string>; queueConsumers: Record<string, TestQueueOptions> } {
 	const bindings: Record<string, BindingSpec> = {}
 	const vars: Record<string, string> = { ...config.vars }
+	const queueConsumers: Record<string, TestQueueOptions> = {}
 
 	for (const kv of config.kv_namespaces ?? []) {
-		bindings[kv.binding] = 'kv'
+		bindings[kv.binding] = { type: 'kv', namespaceId: kv.id }
 	}
 	for (const r2 of config.r2_buckets ?? []) {
-		bindings[r2.binding] = 'r2'
+		bindings[r2.binding] = { type: 'r2', bucketName: r2.bucket_name }
 	}
 	for (const d1 of config.d1_databases ?? []) {
-		bindings[d1.binding] = 'd1'
+		bindings[d1.binding] = { type: 'd1', databaseName: d1.database_name }
 	}
 	for (const producer of config.queues?.producers ?? []) {
-		bindings[producer.binding] = 'queue'
+		bindings[producer.binding] = { type: 'queue', queue: producer.queue, deliveryDelay: producer.delivery_delay }
+	}
+	for (const consumer of config.queues?.consumers ?? []) {
+		queueConsumers[consumer.queue] = {
+			maxBatchSize: consumer.max_batch_size,
+			maxRetries: consumer.max_retries,
+			deadLetterQueue: consumer.dead_letter_queue,
+			retryDelay: consumer.retry_delay,
+		}
 	}
 	for (const doBinding of config.durable_objects?.bindings ?? []) {
-		bindings[doBinding.name] = { type: 'durable-object', className: doBinding.class_name }
+		bindings[doBinding.name] = { type: 'durable-object', className: doBinding.class_name, scriptName: doBinding.script_name }
 	}
 	for (const wf of config.workflows ?? []) {
 		bindings[wf.binding] = { type: 'workflow', className: wf.class_name }
@@ -121,6 +246,54 @@ export function configToBindings(config: WranglerConfig): { bindings: Record<str
 	for (const svc of config.services ?? []) {
 		bindings[svc.binding] = { type: 'service', service: svc.service, entrypoint: svc.entrypoint }
 	}
+	for (const rl of rateLimitBindings(config)) {
+		bindings[rl.binding] = { type: 'ratelimit', limit: rl.limit, period: rl.period, namespaceId: rl.namespaceId }
+	}
+	if (config.assets?.binding) {
+		bindings[config.assets.binding] = {
+			type: 'assets',
+			directory: resolve(baseDir, config.assets.directory),
+			htmlHandling: config.assets.html_handling,
+			notFoundHandling: config.assets.not_found_handling,
+		}
+	}
+	for (const email of config.send_email ?? []) {
+		bindings[email.name] = {
+			type: 'send-email',
+			destinationAddress: email.destination_address,
+			allowedDestinationAddresses: email.allowed_destination_addresses,
+		}
+	}
+	for (const ae of config.analytics_engine_datasets ?? []) {
+		bindings[ae.binding] = { type: 'analytics-engine', dataset: ae.dataset }
+	}
+	if (config.images) bindings[config.images.binding] = { type: 'images' }
+	if (config.media) bindings[config.media.binding] = { type: 'media' }
+	for (const hd of config.hyperdrive ?? []) {
+		bindings[hd.binding] = { type: 'hyperdrive', connectionString: hd.localConnectionString ?? '' }
+	}
+	if (config.flagship) bindings[config.flagship.binding] = { type: 'flagship', appId: config.flagship.app_id }
+	if (config.ai) bindings[config.ai.binding] = { type: 'ai' }
+	for (const ns of config.ai_search_namespaces ?? []) {
+		bindings[ns.binding] = { type: 'ai-search', namespace: ns.namespace }
+	}
+	for (const vi of config.vectorize ?? []) {
+		bindings[vi.binding] = { type: 'vectorize', indexName: vi.index_name }
+	}
+	for (const secret of config.secrets_store_secrets ?? []) {
+		bindings[secret.binding] = { type: 'secret' }
+	}
+	if (config.browser) bindings[config.browser.binding] = { type: 'browser' }
+	for (const vpc of config.vpc_networks ?? []) {
+		bindings[vpc.binding] = { type: 'vpc-network', networkId: vpc.network_id ?? vpc.tunnel_id ?? '' }
+	}
+	for (const artifacts of config.artifacts ?? []) {
+		bindings[artifacts.binding] = { type: 'artifacts', namespace: artifacts.namespace }
+	}
+	for (const loader of config.worker_loaders ?? []) {
+		bindings[loader.binding] = { type: 'worker-loader' }
+	}
+	if (config.version_metadata) bindings[config.version_metadata.binding] = { type: 'version-metadata' }
 
-	return { bindings, vars }
+	return { bindings, vars, queueConsumers }
 }
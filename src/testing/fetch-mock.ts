@@ -18,12 +18,35 @@ interface MockRoute {
 	method?: string
 }
 
+/** Something the patched `fetch` hands outgoing requests to before they reach the network. */
+export interface FetchInterceptor {
+	/** The response to serve, or null to let the request through. Throws to refuse it. */
+	_handle(request: Request): Promise<{ response: Response; mocked: boolean } | null>
+	_recordPassthrough?(request: Request, response: Response): void
+}
+
 const fetchMockStorage = new AsyncLocalStorage<FetchMock>()
 
+/** Process-wide interceptor (`fetchMock` from `cloudflare:test`), consulted after the scoped FetchMock. */
+let globalInterceptor: FetchInterceptor | null = null
+
 export function getActiveFetchMock(): FetchMock | undefined {
 	return fetchMockStorage.getStore()
 }
 
+export function setGlobalFetchInterceptor(interceptor: FetchInterceptor | null): void {
+	globalInterceptor = interceptor
+}
+
+/** Interceptors for the current call: the scoped FetchMock first, then the global one. */
+export function getFetchInterceptors(): FetchInterceptor[] {
+	const interceptors: FetchInterceptor[] = []
+	const scoped = fetchMockStorage.getStore()
+	if (scoped) interceptors.push(scoped)
+	if (globalInterceptor) interceptors.push(globalInterceptor)
+	return interceptors
+}
+
 export function runWithFetchMock<T>(mock: FetchMock, fn: () => T): T {
 	return fetchMockStorage.run(mock, fn)
 }
@@ -33,7 +56,7 @@ function toHandlerFn(handler: Response | HandlerFn): HandlerFn {
 	return () => (handler as any).clone()
 }
 
-export class FetchMock {
+export class FetchMock implements FetchInterceptor {
 	private routes: MockRoute[] = []
 	private _calls: FetchCall[] = []
 	private _passthrough = true
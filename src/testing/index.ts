@@ -1,9 +1,11 @@
 import { randomUUIDv7 } from 'bun'
+import { Database } from 'bun:sqlite'
 import { rmSync } from 'node:fs'
-import { resolve } from 'node:path'
+import { dirname, resolve } from 'node:path'
 import { SqliteCacheStorage } from '../bindings/cache'
 import type { DurableObjectNamespaceImpl } from '../bindings/durable-object'
 import { ForwardableEmailMessage } from '../bindings/email'
+import { QueueConsumer } from '../bindings/queue'
 import { createScheduledController } from '../bindings/scheduled'
 import type { SqliteWorkflowBinding } from '../bindings/workflow'
 import {
@@ -13,25 +15,193 @@ import {
 	isClassEntrypoint,
 	resolveEntrypointHandler,
 } from '../entrypoint-handler'
+import { runMigrations } from '../db'
 import { setGlobalEnv } from '../env'
 import { ExecutionContext, runWithExecutionContext } from '../execution-context'
 import { TestClock } from './clock'
 import { TestDurableObjectNamespace } from './durable-object'
 import { buildTestEnv, configToBindings } from './env-builder'
+import type { SharedTestStorage, TestClassRegistry } from './env-builder'
 import { FetchMock, runWithFetchMock } from './fetch-mock'
+import { listAiRequests, TestAnalyticsEngine, TestFlagship, TestSendEmail } from './inspectors'
+import { registerTestStorage } from './isolated-storage'
+import { TestQueue } from './queue'
 import { setupTestEnv, testCachesRef } from './setup'
-import type { TestEnv, TestEnvOptions, WorkerHandlers, WorkerModule } from './types'
+import type {
+	BindingSpec,
+	TestEnv,
+	TestEnvOptions,
+	TestQueueDispatch,
+	TestQueueDispatchMessage,
+	TestQueueOptions,
+	TestWorld,
+	TestWorldOptions,
+	WorkerHandlers,
+	WorkerModule,
+} from './types'
 import { TestWorkflowBinding } from './workflow'
 
+export { applyD1Migrations, configureCloudflareTest, readD1Migrations } from './cloudflare-test'
+export type { CloudflareTestOptions, D1Migration } from './cloudflare-test'
 export { TestClock } from './clock'
 export type { Clock } from './clock'
 export type { TestDurableObjectHandle, TestDurableObjectNamespace, TestDurableObjectStorage, TestWebSocket } from './durable-object'
 export { FetchMock } from './fetch-mock'
 export type { FetchCall } from './fetch-mock'
-export type { BindingSpec, TestEnv, TestEnvOptions, WorkerHandlers, WorkerModule } from './types'
+export type { SentEmail, TestAiRequest, TestAnalyticsEngine, TestFlagship, TestSendEmail, WrittenDataPoint } from './inspectors'
+export type { QueueMessageOutcome } from '../bindings/queue'
+export type { TestQueue, TestQueueMessage } from './queue'
+export type {
+	BindingSpec,
+	TestEnv,
+	TestEnvOptions,
+	TestQueueDispatch,
+	TestQueueDispatchMessage,
+	TestQueueOptions,
+	TestWorld,
+	TestWorldOptions,
+	WorkerHandlers,
+	WorkerModule,
+} from './types'
 export type { TestWorkflowBinding, TestWorkflowInstance, TestWorkflowRun } from './workflow'
 
+type InProcessTarget = { kind: 'in-process'; workerModule: Record<string, unknown>; env: Record<string, unknown> }
+
+/** What a `createTestWorld()` worker shares with the others. */
+interface WorldMember {
+	name: string
+	storage: SharedTestStorage
+	fetchMock: FetchMock
+	resolveService(serviceName: string): InProcessTarget
+	advanceTime(ms: number): Promise<void>
+}
+
+interface BuiltWorker<Env> {
+	testEnv: TestEnv<Env>
+	workerModule: Record<string, unknown>
+	env: Record<string, unknown>
+	registry: TestClassRegistry
+	/** Disposes the worker; `testEnv.dispose()` is a no-op for world members. */
+	dispose(): void
+}
+
 export async function createTestEnv<Env = Record<string, unknown>>(options: TestEnvOptions = {}): Promise<TestEnv<Env>> {
+	return (await buildWorker<Env>(options, null)).testEnv
+}
+
+/**
+ * Build several workers that call each other: service bindings resolve to the
+ * worker with that name (named entrypoints included), and a Durable Object
+ * binding with a `scriptName` reaches the namespace of the worker that defines
+ * the class — one namespace per class, however many workers bind it. All
+ * workers share one in-memory database, clock and fetch mock, like workers of
+ * one `lopata dev`. `import { env } from 'cloudflare:workers'` is the first
+ * worker's env.
+ */
+export async function createTestWorld(options: TestWorldOptions): Promise<TestWorld> {
+	const names = Object.keys(options.workers)
+	if (names.length === 0) throw new Error('createTestWorld needs at least one worker')
+
+	let clock: TestClock | null = null
+	if (options.clock === true) {
+		clock = new TestClock()
+	} else if (options.clock instanceof TestClock) {
+		clock = options.clock
+	}
+
+	const db = new Database(':memory:')
+	runMigrations(db)
+	const storage: SharedTestStorage = { db, d1: new Map(), r2: new Map() }
+	const fetchMock = new FetchMock()
+	const workers = new Map<string, BuiltWorker<Record<string, unknown>>>()
+
+	function resolveService(serviceName: string): InProcessTarget {
+		const worker = workers.get(serviceName)
+		if (!worker) throw new Error(`Worker "${serviceName}" is not part of the test world. Workers: ${names.join(', ')}`)
+		return { kind: 'in-process', workerModule: worker.workerModule, env: worker.env }
+	}
+
+	function namespaces(): Set<DurableObjectNamespaceImpl> {
+		return new Set([...workers.values()].flatMap(w => w.registry.durableObjects.map(e => e.namespace)))
+	}
+
+	async function advanceTime(ms: number): Promise<void> {
+		if (!clock) throw new Error('advanceTime requires clock: true in createTestWorld options')
+		clock.advance(ms)
+		for (const namespace of namespaces()) {
+			await Promise.all(namespace._fireReadyAlarms())
+		}
+	}
+
+	function dispose(): void {
+		for (const worker of workers.values()) worker.dispose()
+		db.close()
+	}
+
+	try {
+		for (const name of names) {
+			const worker = await buildWorker<Record<string, unknown>>({ ...options.workers[name], clock: clock ?? undefined }, {
+				name,
+				storage,
+				fetchMock,
+				resolveService,
+				advanceTime,
+			})
+			workers.set(name, worker)
+		}
+
+		// Durable Objects defined by another worker: bind the namespace of the worker
+		// that defines the class, creating it there when that worker doesn't bind it.
+		const hosted = new Map<string, DurableObjectNamespaceImpl>()
+		for (const [name, worker] of workers) {
+			for (const entry of worker.registry.durableObjects) {
+				if (!entry.scriptName || entry.scriptName === name) hosted.set(`${name}:${entry.className}`, entry.namespace)
+			}
+		}
+		for (const [name, worker] of workers) {
+			for (const entry of worker.registry.durableObjects) {
+				if (!entry.scriptName || entry.scriptName === name) continue
+				const owner = workers.get(entry.scriptName)
+				if (!owner) {
+					throw new Error(
+						`Durable Object binding "${entry.bindingName}" of worker "${name}" refers to worker "${entry.scriptName}", which is not part of the test world`,
+					)
+				}
+				const key = `${entry.scriptName}:${entry.className}`
+				const namespace = hosted.get(key)
+				if (namespace) {
+					entry.namespace = namespace
+				} else {
+					const cls = owner.workerModule[entry.className]
+					if (!cls) throw new Error(`Durable Object class "${entry.className}" not exported from worker "${entry.scriptName}"`)
+					entry.namespace._setClass(cls as any, owner.env)
+					hosted.set(key, entry.namespace)
+				}
+				worker.env[entry.bindingName] = entry.namespace
+			}
+		}
+	} catch (e) {
+		dispose()
+		throw e
+	}
+
+	setGlobalEnv(workers.get(names[0]!)!.env)
+
+	return {
+		worker<Env = Record<string, unknown>>(name: string): TestEnv<Env> {
+			const worker = workers.get(name)
+			if (!worker) throw new Error(`Worker "${name}" not found. Available: ${names.join(', ')}`)
+			return worker.testEnv as TestEnv<Env>
+		},
+		db,
+		clock,
+		fetchMock,
+		advanceTime,
+		dispose,
+	}
+}
+
+async function buildWorker<Env>(options: TestEnvOptions, member: WorldMember | null): Promise<BuiltWorker<Env>> {
 	// Ensure virtual modules + globals are registered (no-op if preload already ran)
 	setupTestEnv()
 
@@ -44,26 +214,30 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 	}
 
 	// Create fetch mock (always available, defaults to passthrough)
-	const fetchMock = new FetchMock()
+	const fetchMock = member?.fetchMock ?? new FetchMock()
 
 	let mergedBindings = options.bindings
 	let mergedVars = options.vars
+	let queueConsumers: Record<string, TestQueueOptions> = {}
 
 	// Load from wrangler config if specified — translate to BindingSpec
 	if (options.wrangler) {
 		const { loadConfig } = await import('../config')
-		const config = await loadConfig(resolve(options.wrangler))
-		const { bindings: configBindings, vars: configVars } = configToBindings(config)
+		const configPath = resolve(options.wrangler)
+		const config = await loadConfig(configPath)
+		const { bindings: configBindings, vars: configVars, queueConsumers: configConsumers } = configToBindings(config, dirname(configPath))
+		queueConsumers = configConsumers
 		// Merge: explicit options.bindings override wrangler-derived bindings
 		mergedBindings = { ...configBindings, ...options.bindings }
 		// Merge: explicit options.vars override wrangler vars
 		mergedVars = { ...configVars, ...options.vars }
 	}
 
-	const { db, env, registry, tmpDirs } = buildTestEnv(mergedBindings, mergedVars, clock ?? undefined)
+	const { db, env, registry, tmpDirs, databases } = buildTestEnv(mergedBindings, mergedVars, clock ?? undefined, member?.storage)
 
 	// Wire in-memory caches for this test env
-	testCachesRef.current = new SqliteCacheStorage(db, undefined, clock ?? undefined)
+	const caches = new SqliteCacheStorage(db, undefined, clock ?? undefined)
+	testCachesRef.current = caches
 
 	// Resolve worker module
 	let workerModule: Record<string, unknown>
@@ -92,6 +266,8 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 
 	// Wire DO/Workflow classes
 	for (const entry of registry.durableObjects) {
+		// Another world member's class — createTestWorld() binds its namespace.
+		if (member && entry.scriptName && entry.scriptName !== member.name) continue
 		const cls = workerModule[entry.className]
 		if (!cls) throw new Error(`Durable Object class "${entry.className}" not exported from worker module`)
 		entry.namespace._setClass(cls as any, env)
@@ -104,13 +280,11 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 		entry.binding.resumeInterrupted()
 	}
 
-	// Wire service bindings — self-referencing (always in-process for tests)
+	// Wire service bindings — self-referencing, or to the named world member (always in-process for tests)
 	for (const entry of registry.serviceBindings) {
-		const wire = entry.proxy._wire as
-			| ((resolver: () => { kind: 'in-process'; workerModule: Record<string, unknown>; env: Record<string, unknown> }) => void)
-			| undefined
+		const wire = entry.proxy._wire as ((resolver: () => InProcessTarget) => void) | undefined
 		if (wire) {
-			wire(() => ({ kind: 'in-process', workerModule, env }))
+			wire(() => member ? member.resolveService(entry.serviceName) : { kind: 'in-process', workerModule, env })
 		}
 	}
 
@@ -153,24 +327,36 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 			}))
 	}
 
-	async function queueHandler(queueName: string, messages: { body: unknown; contentType?: string }[]): Promise<void> {
+	async function queueHandler(queueName: string, messages: TestQueueDispatchMessage[]): Promise<TestQueueDispatch> {
 		const handler = getHandler('queue')
 		if (!handler) throw new Error('No queue handler found')
 
-		const builtMessages = messages.map((msg, i) => ({
-			id: randomUUIDv7(),
-			timestamp: new Date(),
-			body: msg.body,
-			attempts: 1,
-			ack() {},
-			retry(_options?: { delaySeconds?: number }) {},
-		}))
+		const result: TestQueueDispatch = { ackAll: false, retryBatch: { retry: false }, explicitAcks: [], retryMessages: [] }
+		const builtMessages = messages.map(msg => {
+			const id = msg.id ?? randomUUIDv7()
+			return {
+				id,
+				timestamp: msg.timestamp ?? new Date(),
+				body: msg.body,
+				attempts: msg.attempts ?? 1,
+				ack() {
+					result.explicitAcks.push(id)
+				},
+				retry(options?: { delaySeconds?: number }) {
+					result.retryMessages.push({ msgId: id, delaySeconds: options?.delaySeconds })
+				},
+			}
+		})
 
 		const batch = {
 			queue: queueName,
 			messages: builtMessages,
-			ackAll() {},
-			retryAll(_options?: { delaySeconds?: number }) {},
+			ackAll() {
+				result.ackAll = true
+			},
+			retryAll(options?: { delaySeconds?: number }) {
+				result.retryBatch = { retry: true, delaySeconds: options?.delaySeconds }
+			},
 		}
 
 		const ctx = new ExecutionContext()
@@ -179,6 +365,7 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 				await handler(batch, env, ctx)
 				await ctx._awaitAll()
 			}))
+		return result
 	}
 
 	async function scheduledHandler(opts?: { cron?: string; scheduledTime?: number }): Promise<void> {
@@ -218,6 +405,7 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 
 	const testWorkflows: TestWorkflowBinding[] = []
 	const testDOs: TestDurableObjectNamespace[] = []
+	const testQueues = new Map<string, TestQueue>()
 
 	function workflowHelper(bindingName: string): TestWorkflowBinding {
 		const entry = registry.workflows.find(e => e.bindingName === bindingName)
@@ -237,7 +425,59 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 		return td
 	}
 
+	function testQueueHelper(queueName: string, queueOptions: TestQueueOptions = {}): TestQueue {
+		const existing = testQueues.get(queueName)
+		if (existing) return existing
+
+		const handler = getHandler('queue')
+		const settings = { ...queueConsumers[queueName], ...queueOptions }
+		const consumer = handler
+			? new QueueConsumer(
+				db,
+				{
+					queue: queueName,
+					maxBatchSize: settings.maxBatchSize ?? 10,
+					maxBatchTimeout: 0,
+					maxRetries: settings.maxRetries ?? 3,
+					deadLetterQueue: settings.deadLetterQueue ?? null,
+					retryDelay: settings.retryDelay ?? null,
+				},
+				(batch, batchEnv, ctx) => runWithExecutionContext(ctx, () => runWithFetchMock(fetchMock, () => handler(batch, batchEnv, ctx))) as Promise<void>,
+				env,
+				undefined,
+				clock ?? undefined,
+			)
+			: null
+		const tq = new TestQueue(db, queueName, consumer, clock, advanceTime)
+		testQueues.set(queueName, tq)
+		return tq
+	}
+
+	function bindingSpec<T extends Exclude<BindingSpec, string>['type']>(bindingName: string, type: T): Extract<BindingSpec, { type: T }> {
+		const spec = mergedBindings?.[bindingName]
+		if (typeof spec !== 'object' || spec.type !== type) {
+			const available = Object.entries(mergedBindings ?? {}).filter(([, s]) => typeof s === 'object' && s.type === type).map(([name]) => name)
+			throw new Error(`${type} binding "${bindingName}" not found. Available: ${available.join(', ')}`)
+		}
+		return spec as Extract<BindingSpec, { type: T }>
+	}
+
+	function sendEmailHelper(bindingName: string): TestSendEmail {
+		bindingSpec(bindingName, 'send-email')
+		return new TestSendEmail(db, bindingName)
+	}
+
+	function analyticsEngineHelper(bindingName: string): TestAnalyticsEngine {
+		return new TestAnalyticsEngine(db, bindingSpec(bindingName, 'analytics-engine').dataset ?? bindingName)
+	}
+
+	function flagshipHelper(bindingName: string): TestFlagship {
+		return new TestFlagship(db, bindingSpec(bindingName, 'flagship').appId ?? bindingName)
+	}
+
 	async function advanceTime(ms: number): Promise<void> {
+		// World members share the clock, so alarms of every worker are due.
+		if (member) return member.advanceTime(ms)
 		if (!clock) throw new Error('advanceTime requires clock: true in createTestEnv options')
 		clock.advance(ms)
 		// Fire ready DO alarms
@@ -257,7 +497,8 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 		for (const entry of registry.workflows) {
 			entry.binding.abortRunning()
 		}
-		db.close()
+		// A world's database outlives its workers; createTestWorld() closes it.
+		if (!member) db.close()
 		for (const dir of tmpDirs) {
 			try {
 				rmSync(dir, { recursive: true, force: true })
@@ -269,18 +510,26 @@ export async function createTestEnv<Env = Record<string, unknown>>(options: Test
 		fetchMock.reset()
 	}
 
-	return {
+	const testEnv: TestEnv<Env> = {
 		env: env as Env,
 		db,
 		fetch: fetchHandler,
 		queue: queueHandler,
+		testQueue: testQueueHelper,
 		scheduled: scheduledHandler,
 		email: emailHandler,
 		workflow: workflowHelper as TestEnv<Env>['workflow'],
 		durableObject: durableObjectHelper as TestEnv<Env>['durableObject'],
+		sendEmail: sendEmailHelper as TestEnv<Env>['sendEmail'],
+		analyticsEngine: analyticsEngineHelper as TestEnv<Env>['analyticsEngine'],
+		flagship: flagshipHelper as TestEnv<Env>['flagship'],
+		aiRequests: () => listAiRequests(db),
+		caches,
 		clock,
 		fetchMock,
 		advanceTime,
-		dispose,
+		dispose: member ? () => {} : dispose,
 	}
+	registerTestStorage(testEnv, { db, databases, dirs: tmpDirs, registry })
+	return { testEnv, workerModule, env, registry, dispose }
 }
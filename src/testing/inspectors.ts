@@ -0,0 +1,130 @@
+import type { Database } from 'bun:sqlite'
+import { getFlag, setFlagEnabled, setFlagRules, setFlagValue } from '../bindings/flagship'
+import type { FlagRecord, FlagRule, FlagType } from '../bindings/flagship'
+
+// --- send_email ---
+
+export interface SentEmail {
+	from: string
+	to: string
+	/** The raw MIME message. */
+	raw: string
+	sentAt: number
+}
+
+export class TestSendEmail {
+	private db: Database
+	private bindingName: string
+
+	constructor(db: Database, bindingName: string) {
+		this.db = db
+		this.bindingName = bindingName
+	}
+
+	/** Messages sent through the binding, oldest first. */
+	get messages(): SentEmail[] {
+		const rows = this.db
+			.query("SELECT from_addr, to_addr, raw, created_at FROM email_messages WHERE binding = ? AND status = 'sent' ORDER BY created_at, rowid")
+			.all(this.bindingName) as { from_addr: string; to_addr: string; raw: Uint8Array; created_at: number }[]
+		const decoder = new TextDecoder()
+		return rows.map(r => ({ from: r.from_addr, to: r.to_addr, raw: decoder.decode(r.raw), sentAt: r.created_at }))
+	}
+
+	clear(): void {
+		this.db.run("DELETE FROM email_messages WHERE binding = ? AND status = 'sent'", [this.bindingName])
+	}
+}
+
+// --- Analytics Engine ---
+
+export interface WrittenDataPoint {
+	indexes: string[]
+	/** Up to the last non-null blob. */
+	blobs: (string | null)[]
+	/** Up to the last non-null double. */
+	doubles: number[]
+	timestamp: number
+}
+
+export class TestAnalyticsEngine {
+	private db: Database
+	private dataset: string
+
+	constructor(db: Database, dataset: string) {
+		this.db = db
+		this.dataset = dataset
+	}
+
+	/** Data points written to the dataset, oldest first. */
+	get dataPoints(): WrittenDataPoint[] {
+		const rows = this.db
+			.query('SELECT * FROM analytics_engine WHERE dataset = ? ORDER BY timestamp, rowid')
+			.all(this.dataset) as Record<string, string | number | null>[]
+		return rows.map(row => ({
+			indexes: row.index1 === null ? [] : [row.index1 as string],
+			blobs: trimTrailingNulls(Array.from({ length: 20 }, (_, i) => row[`blob${i + 1}`] as string | null)),
+			doubles: trimTrailingNulls(Array.from({ length: 20 }, (_, i) => row[`double${i + 1}`] as number | null)) as number[],
+			timestamp: row.timestamp as number,
+		}))
+	}
+
+	clear(): void {
+		this.db.run('DELETE FROM analytics_engine WHERE dataset = ?', [this.dataset])
+	}
+}
+
+function trimTrailingNulls<T>(values: (T | null)[]): (T | null)[] {
+	let end = values.length
+	while (end > 0 && values[end - 1] === null) end--
+	return values.slice(0, end)
+}
+
+// --- Flagship ---
+
+export class TestFlagship {
+	private db: Database
+	private appId: string
+
+	constructor(db: Database, appId: string) {
+		this.db = db
+		this.appId = appId
+	}
+
+	/** Create or overwrite a flag; its type follows the value (objects and arrays are `object`). */
+	set(key: string, value: boolean | string | number | object, variant?: string): void {
+		const type = (typeof value === 'object' ? 'object' : typeof value) as FlagType
+		setFlagValue(this.db, this.appId, key, type, value, variant)
+	}
+
+	setRules(key: string, rules: FlagRule[]): void {
+		setFlagRules(this.db, this.appId, key, rules)
+	}
+
+	setEnabled(key: string, enabled: boolean): void {
+		setFlagEnabled(this.db, this.appId, key, enabled)
+	}
+
+	get(key: string): FlagRecord | null {
+		return getFlag(this.db, this.appId, key)
+	}
+}
+
+// --- Workers AI ---
+
+export interface TestAiRequest {
+	model: string
+	status: string
+	/** `stub`, `replay`, `record` or `remote`. */
+	provider: string
+	input: string | null
+	output: string | null
+	error: string | null
+}
+
+/** Logged `run()` calls, oldest first. Inputs and outputs are the (truncated) summaries the dashboard shows. */
+export function listAiRequests(db: Database): TestAiRequest[] {
+	const rows = db
+		.query('SELECT model, status, provider, input_summary, output_summary, error FROM ai_requests ORDER BY created_at, rowid')
+		.all() as { model: string; status: string; provider: string; input_summary: string | null; output_summary: string | null; error: string | null }[]
+	return rows.map(r => ({ model: r.model, status: r.status, provider: r.provider, input: r.input_summary, output: r.output_summary, error: r.error }))
+}
@@ -0,0 +1,94 @@
+import type { Database } from 'bun:sqlite'
+import { cpSync, mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { replaceDatabaseContents } from '../bindings/sqlite-restore'
+import type { TestClassRegistry } from './env-builder'
+
+/** Everything that holds binding state of one `createTestEnv()` env. */
+export interface TestStorage {
+	db: Database
+	/** D1 databases. */
+	databases: Database[]
+	/** R2 bucket directories. */
+	dirs: string[]
+	registry: TestClassRegistry
+}
+
+const storages = new WeakMap<object, TestStorage>()
+
+/** @internal Called by `createTestEnv()` so `cloudflare:test` can snapshot the env it created. */
+export function registerTestStorage(testEnv: object, storage: TestStorage): void {
+	storages.set(testEnv, storage)
+}
+
+/** @internal */
+export function testStorageOf(testEnv: object): TestStorage {
+	const storage = storages.get(testEnv)
+	if (!storage) throw new Error('Not an env returned by createTestEnv()')
+	return storage
+}
+
+/**
+ * Per-test storage isolation for `cloudflare:test`: `begin()` before each test
+ * snapshots every database and bucket directory, `rollback()` after it puts
+ * them back. Snapshots are only taken and restored when a database actually
+ * changed (R2 writes always touch `r2_objects` too), so suites that barely use
+ * storage pay next to nothing.
+ *
+ * Durable Objects restart on every rollback: their key-value storage lives in
+ * `db` and is restored, but their in-memory SQLite databases start empty.
+ */
+export class IsolatedStorage {
+	private storage: TestStorage
+	private snapshotDir = mkdtempSync(join(tmpdir(), 'lopata-test-snapshot-'))
+	/** Signature of the state the snapshot holds; null until the first one. */
+	private snapshotSignature: string | null = null
+
+	constructor(storage: TestStorage) {
+		this.storage = storage
+	}
+
+	begin(): void {
+		const signature = this.signature()
+		if (signature === this.snapshotSignature) return
+		rmSync(this.snapshotDir, { recursive: true, force: true })
+		mkdirSync(this.snapshotDir)
+		this.databases().forEach((db, i) => db.run('VACUUM INTO ?', [join(this.snapshotDir, `${i}.sqlite`)]))
+		this.storage.dirs.forEach((dir, i) => cpSync(dir, join(this.snapshotDir, `dir-${i}`), { recursive: true }))
+		this.snapshotSignature = signature
+	}
+
+	rollback(): void {
+		for (const entry of this.storage.registry.durableObjects) entry.namespace.destroy({ force: true })
+		for (const entry of this.storage.registry.workflows) entry.binding.abortRunning()
+		if (this.snapshotSignature === null || this.signature() === this.snapshotSignature) return
+
+		this.databases().forEach((db, i) => replaceDatabaseContents(db, join(this.snapshotDir, `${i}.sqlite`)))
+		this.storage.dirs.forEach((dir, i) => {
+			rmSync(dir, { recursive: true, force: true })
+			cpSync(join(this.snapshotDir, `dir-${i}`), dir, { recursive: true })
+		})
+		// Restoring counts as changes; the state now matches the snapshot again.
+		this.snapshotSignature = this.signature()
+	}
+
+	dispose(): void {
+		rmSync(this.snapshotDir, { recursive: true, force: true })
+	}
+
+	private databases(): Database[] {
+		return [this.storage.db, ...this.storage.databases]
+	}
+
+	/** `total_changes()` only grows on a connection, so it changes whenever a write lands. */
+	private signature(): string {
+		return this.databases()
+			.map(db => {
+				const { changes } = db.query('SELECT total_changes() AS changes').get() as { changes: number }
+				const { schema_version } = db.query('PRAGMA schema_version').get() as { schema_version: number }
+				return `${changes}:${schema_version}`
+			})
+			.join(',')
+	}
+}
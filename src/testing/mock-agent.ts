@@ -0,0 +1,262 @@
+/**
+ * The `fetchMock` of `cloudflare:test`: the subset of undici's `MockAgent` API
+ * that `@cloudflare/vitest-pool-workers` suites use.
+ *
+ * ```ts
+ * fetchMock.activate()
+ * fetchMock.disableNetConnect()
+ * fetchMock.get('https://api.example.com').intercept({ path: '/users/1' }).reply(200, { id: 1 })
+ * ```
+ *
+ * Inactive until `activate()`; while active, every `fetch` in the process goes
+ * through it (after a scoped `createTestEnv()` FetchMock). Interceptors match
+ * once unless `.times(n)` or `.persist()` says otherwise.
+ */
+
+import type { FetchInterceptor } from './fetch-mock'
+
+type Matcher<T = string> = T | RegExp | ((value: T) => boolean)
+
+export interface MockInterceptorOptions {
+	/** Path including the query string, e.g. `/search?q=x`. */
+	path: Matcher
+	/** Default: `GET`. */
+	method?: Matcher
+	body?: Matcher
+	headers?: Record<string, Matcher> | ((headers: Record<string, string>) => boolean)
+	/** Appended to `path` as a query string. */
+	query?: Record<string, string | number | boolean>
+}
+
+export interface MockReplyOptions {
+	headers?: Record<string, string>
+}
+
+/** What a reply callback receives. */
+export interface MockRequestOptions {
+	origin: string
+	path: string
+	method: string
+	headers: Record<string, string>
+	body: string
+}
+
+type ReplyData = string | Uint8Array | ArrayBuffer | object | null | undefined
+
+interface MockReply {
+	statusCode: number
+	data?: ReplyData
+	responseOptions?: MockReplyOptions
+}
+
+interface Interceptor {
+	origin: Matcher
+	options: MockInterceptorOptions
+	reply: ((request: MockRequestOptions) => MockReply) | null
+	error: Error | null
+	defaultHeaders: Record<string, string>
+	delayMs: number
+	/** Remaining matches; Infinity once persisted. */
+	times: number
+	invoked: number
+}
+
+export class MockScope {
+	private interceptor: Interceptor
+
+	constructor(interceptor: Interceptor) {
+		this.interceptor = interceptor
+	}
+
+	/** Wait this long before replying. */
+	delay(ms: number): this {
+		this.interceptor.delayMs = ms
+		return this
+	}
+
+	/** Match any number of times. */
+	persist(): this {
+		this.interceptor.times = Infinity
+		return this
+	}
+
+	/** Match exactly `n` times. */
+	times(n: number): this {
+		this.interceptor.times = n
+		return this
+	}
+}
+
+export class MockInterceptor {
+	private interceptor: Interceptor
+
+	constructor(interceptor: Interceptor) {
+		this.interceptor = interceptor
+	}
+
+	/** Headers added to every reply of this interceptor. */
+	defaultReplyHeaders(headers: Record<string, string>): this {
+		this.interceptor.defaultHeaders = headers
+		return this
+	}
+
+	reply(statusCode: number, data?: ReplyData | ((request: MockRequestOptions) => ReplyData), responseOptions?: MockReplyOptions): MockScope
+	reply(callback: (request: MockRequestOptions) => MockReply): MockScope
+	reply(
+		statusOrCallback: number | ((request: MockRequestOptions) => MockReply),
+		data?: ReplyData | ((request: MockRequestOptions) => ReplyData),
+		responseOptions?: MockReplyOptions,
+	): MockScope {
+		if (typeof statusOrCallback === 'function') {
+			this.interceptor.reply = statusOrCallback
+		} else {
+			this.interceptor.reply = request => ({
+				statusCode: statusOrCallback,
+				data: typeof data === 'function' ? data(request) : data,
+				responseOptions,
+			})
+		}
+		return new MockScope(this.interceptor)
+	}
+
+	/** Make the matching `fetch` reject with `error`. */
+	replyWithError(error: Error): MockScope {
+		this.interceptor.error = error
+		return new MockScope(this.interceptor)
+	}
+}
+
+export class MockPool {
+	private agent: MockAgent
+	private origin: Matcher
+
+	constructor(agent: MockAgent, origin: Matcher) {
+		this.agent = agent
+		this.origin = origin
+	}
+
+	intercept(options: MockInterceptorOptions): MockInterceptor {
+		const interceptor: Interceptor = { origin: this.origin, options, reply: null, error: null, defaultHeaders: {}, delayMs: 0, times: 1, invoked: 0 }
+		this.agent._add(interceptor)
+		return new MockInterceptor(interceptor)
+	}
+}
+
+export class MockAgent implements FetchInterceptor {
+	private interceptors: Interceptor[] = []
+	private active = false
+	/** null = every host may reach the network. */
+	private netConnect: Matcher[] | null = null
+
+	activate(): void {
+		this.active = true
+	}
+
+	deactivate(): void {
+		this.active = false
+	}
+
+	/** Requests no interceptor matches fail instead of reaching the network. */
+	disableNetConnect(): void {
+		this.netConnect = []
+	}
+
+	/** Let unmatched requests through — to every host, or (cumulatively) to hosts matching `host`. */
+	enableNetConnect(host?: Matcher): void {
+		if (host === undefined) this.netConnect = null
+		else this.netConnect = [...this.netConnect ?? [], host]
+	}
+
+	get(origin: Matcher): MockPool {
+		return new MockPool(this, origin)
+	}
+
+	/** Interceptors that haven't been used up (persisted ones until their first match). */
+	pendingInterceptors(): { origin: string; path: string; method: string; timesInvoked: number }[] {
+		return this.interceptors
+			.filter(i => (i.times === Infinity ? i.invoked === 0 : i.times > 0))
+			.map(i => ({ origin: String(i.origin), path: String(i.options.path), method: String(i.options.method ?? 'GET'), timesInvoked: i.invoked }))
+	}
+
+	assertNoPendingInterceptors(): void {
+		const pending = this.pendingInterceptors()
+		if (pending.length === 0) return
+		const lines = pending.map(p => `  ${p.method} ${p.origin}${p.path} (matched ${p.timesInvoked}x)`)
+		throw new Error(`fetchMock: ${pending.length} interceptor(s) are still pending:\n${lines.join('\n')}`)
+	}
+
+	/** Drop every interceptor and allow the network again; stays activated or not as before. */
+	reset(): void {
+		this.interceptors = []
+		this.netConnect = null
+	}
+
+	/** @internal */
+	_add(interceptor: Interceptor): void {
+		this.interceptors.push(interceptor)
+	}
+
+	/** @internal */
+	async _handle(request: Request): Promise<{ response: Response; mocked: boolean } | null> {
+		if (!this.active) return null
+		const url = new URL(request.url)
+		const body = request.body ? await request.text() : ''
+		const options: MockRequestOptions = {
+			origin: url.origin,
+			path: url.pathname + url.search,
+			method: request.method,
+			headers: Object.fromEntries(request.headers),
+			body,
+		}
+
+		const interceptor = this.interceptors.find(i => i.times > 0 && interceptorMatches(i, options))
+		if (!interceptor) {
+			if (this.netConnect === null || this.netConnect.some(m => matches(m, url.host))) return null
+			throw new Error(`fetchMock: no interceptor matched ${request.method} ${request.url} and network connections are disabled`)
+		}
+
+		interceptor.times--
+		interceptor.invoked++
+		if (interceptor.delayMs > 0) await new Promise(r => setTimeout(r, interceptor.delayMs))
+		if (interceptor.error) throw interceptor.error
+		if (!interceptor.reply) throw new Error(`fetchMock: interceptor for ${request.method} ${request.url} has no reply`)
+
+		const { statusCode, data, responseOptions } = interceptor.reply(options)
+		const headers = new Headers({ ...interceptor.defaultHeaders, ...responseOptions?.headers })
+		let responseBody: string | Uint8Array | ArrayBuffer | null = null
+		if (typeof data === 'string' || data instanceof Uint8Array || data instanceof ArrayBuffer) {
+			responseBody = data
+		} else if (data !== null && data !== undefined) {
+			responseBody = JSON.stringify(data)
+			if (!headers.has('content-type')) headers.set('content-type', 'application/json')
+		}
+		return { response: new Response(responseBody, { status: statusCode, headers }), mocked: true }
+	}
+}
+
+function matches<T>(matcher: Matcher<T>, value: T): boolean {
+	if (matcher instanceof RegExp) return matcher.test(String(value))
+	if (typeof matcher === 'function') return (matcher as (value: T) => boolean)(value)
+	return matcher === value
+}
+
+function interceptorMatches(interceptor: Interceptor, request: MockRequestOptions): boolean {
+	const { options } = interceptor
+	if (!matches(interceptor.origin, request.origin)) return false
+	if (!matches(options.method ?? 'GET', request.method)) return false
+
+	let path = options.path
+	if (options.query && typeof path === 'string') {
+		const query = new URLSearchParams(Object.entries(options.query).map(([k, v]): [string, string] => [k, String(v)]))
+		path = `${path}${path.includes('?') ? '&' : '?'}${query}`
+	}
+	if (!matches(path, request.path)) return false
+
+	if (options.body !== undefined && !matches(options.body, request.body)) return false
+	if (typeof options.headers === 'function') return options.headers(request.headers)
+	for (const [name, matcher] of Object.entries(options.headers ?? {})) {
+		const value = request.headers[name.toLowerCase()]
+		if (value === undefined || !matches(matcher, value)) return false
+	}
+	return true
+}
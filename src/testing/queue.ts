@@ -0,0 +1,128 @@
+import type { Database } from 'bun:sqlite'
+import { decodeBody } from '../bindings/queue'
+import type { QueueConsumer, QueueMessageOutcome } from '../bindings/queue'
+import type { TestClock } from './clock'
+
+const DEFAULT_MAX_BATCHES = 100
+
+export interface TestQueueMessage {
+	id: string
+	body: unknown
+	/** Delivery attempts so far; 0 until the consumer first sees it. */
+	attempts: number
+	/** `pending`, `acked` or `failed`. */
+	status: string
+	/** When the message becomes (or became) deliverable. */
+	visibleAt: number
+}
+
+interface MessageRow {
+	id: string
+	body: Uint8Array | Buffer
+	content_type: string
+	attempts: number
+	status: string
+	visible_at: number
+}
+
+/**
+ * A queue as seen from a test: what producers sent to it, and a consumer —
+ * the real `QueueConsumer`, running the worker's `queue()` handler — that
+ * `drain()` runs on demand instead of on a poll timer. Retry delays are
+ * skipped by advancing the env's TestClock, so retries and dead-lettering
+ * play out deterministically.
+ */
+export class TestQueue {
+	private db: Database
+	private queueName: string
+	/** null when the worker has no `queue()` handler. */
+	private consumer: QueueConsumer | null
+	private clock: TestClock | null
+	private advanceTime: (ms: number) => Promise<void>
+	private recorded: QueueMessageOutcome[] = []
+
+	constructor(
+		db: Database,
+		queueName: string,
+		consumer: QueueConsumer | null,
+		clock: TestClock | null,
+		advanceTime: (ms: number) => Promise<void>,
+	) {
+		this.db = db
+		this.queueName = queueName
+		this.consumer = consumer
+		this.clock = clock
+		this.advanceTime = advanceTime
+		consumer?.onMessageOutcome(outcome => this.recorded.push(outcome))
+	}
+
+	get name(): string {
+		return this.queueName
+	}
+
+	/** Messages sent to the queue that are still in it (acked and failed ones included), oldest first. */
+	sent(): TestQueueMessage[] {
+		const rows = this.db
+			.query<MessageRow, [string]>(
+				'SELECT id, body, content_type, attempts, status, visible_at FROM queue_messages WHERE queue = ? ORDER BY created_at, rowid',
+			)
+			.all(this.queueName)
+		return rows.map(toMessage)
+	}
+
+	/** Outcome of every delivery so far, in order; a retried message shows up once per attempt. */
+	get outcomes(): QueueMessageOutcome[] {
+		return [...this.recorded]
+	}
+
+	/** Messages that ran out of retries and were moved to the dead letter queue, as they are there now. */
+	deadLettered(): TestQueueMessage[] {
+		const ids = this.recorded.filter(o => o.outcome === 'dead-letter').map(o => o.id)
+		if (ids.length === 0) return []
+		const rows = this.db
+			.query<MessageRow, string[]>(
+				`SELECT id, body, content_type, attempts, status, visible_at FROM queue_messages WHERE id IN (${ids.map(() => '?').join(',')}) ORDER BY created_at, rowid`,
+			)
+			.all(...ids)
+		return rows.map(toMessage)
+	}
+
+	/**
+	 * Deliver batches until no message is pending. When the remaining messages
+	 * are all delayed, time jumps to the earliest one (firing due DO alarms on
+	 * the way), so this needs `clock` in `createTestEnv()` options whenever a
+	 * retry or send is delayed. Returns the outcomes of this drain.
+	 */
+	async drain(options: { maxBatches?: number } = {}): Promise<QueueMessageOutcome[]> {
+		if (!this.consumer) throw new Error('No queue handler found')
+		const maxBatches = options.maxBatches ?? DEFAULT_MAX_BATCHES
+		const start = this.recorded.length
+		for (let batches = 0;; batches++) {
+			const { next } = this.db
+				.query<{ next: number | null }, [string]>("SELECT MIN(visible_at) AS next FROM queue_messages WHERE queue = ? AND status = 'pending'")
+				.get(this.queueName)!
+			if (next === null) break
+			if (batches >= maxBatches) throw new Error(`Queue "${this.queueName}" still has pending messages after ${maxBatches} batches`)
+
+			const now = this.clock?.now() ?? Date.now()
+			if (next > now) {
+				if (!this.clock) {
+					throw new Error(`Queue "${this.queueName}" has delayed messages; draining it requires clock: true in createTestEnv options`)
+				}
+				await this.advanceTime(next - now)
+			}
+			await this.consumer.poll()
+		}
+		return this.recorded.slice(start)
+	}
+}
+
+function toMessage(row: MessageRow): TestQueueMessage {
+	return {
+		id: row.id,
+		body: decodeBody(row.body, row.content_type),
+		attempts: row.attempts,
+		status: row.status,
+		visibleAt: row.visible_at,
+	}
+}
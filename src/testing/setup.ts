@@ -1,8 +1,9 @@
 import { plugin } from 'bun'
+import { afterAll, afterEach, beforeEach } from 'bun:test'
 import type { SqliteCacheStorage } from '../bindings/cache'
 import { setupCloudflareGlobals } from '../setup-globals'
 import { registerVirtualModules } from '../virtual-modules'
-import { getActiveFetchMock } from './fetch-mock'
+import { getFetchInterceptors } from './fetch-mock'
 
 /**
  * Mutable ref for per-test caches instance.
@@ -11,6 +12,15 @@ import { getActiveFetchMock } from './fetch-mock'
  */
 export const testCachesRef: { current: SqliteCacheStorage | null } = { current: null }
 
+/** Per-test hooks of the `cloudflare:test` session, set once the module is first imported. */
+export interface CloudflareTestHooks {
+	beforeEach(): void
+	afterEach(): Promise<void>
+	dispose(): void
+}
+
+export const cloudflareTestRef: { current: CloudflareTestHooks | null } = { current: null }
+
 let initialized = false
 
 /**
@@ -42,16 +52,18 @@ export function setupTestEnv() {
 	// Override globalThis.fetch to support ALS-scoped fetch mocking
 	const _originalFetch = globalThis.fetch
 	const mockedFetch = async (input: string | Request | URL, init?: RequestInit) => {
-		const mock = getActiveFetchMock()
-		if (!mock) return _originalFetch(input, init)
+		const interceptors = getFetchInterceptors()
+		if (interceptors.length === 0) return _originalFetch(input, init)
 
 		const request = new Request(input as any, init)
-		const result = await mock._handle(request)
-		if (result) return result.response
+		for (const interceptor of interceptors) {
+			const result = await interceptor._handle(request.clone() as Request)
+			if (result) return result.response
+		}
 
 		// Passthrough — call original fetch and record it
-		const response = await _originalFetch(input, init)
-		mock._recordPassthrough(new Request(input as any, init), response)
+		const response = await _originalFetch(request.clone() as Request)
+		for (const interceptor of interceptors) interceptor._recordPassthrough?.(request, response)
 		return response
 	}
 	globalThis.fetch = mockedFetch as typeof globalThis.fetch
@@ -66,3 +78,14 @@ export function setupTestEnv() {
 
 // Auto-run on import (preload behavior)
 setupTestEnv()
+
+// Global hooks for `cloudflare:test`'s isolated storage — only a preload can
+// register hooks that apply to every file.
+try {
+	beforeEach(() => cloudflareTestRef.current?.beforeEach())
+	afterEach(() => cloudflareTestRef.current?.afterEach())
+	afterAll(() => cloudflareTestRef.current?.dispose())
+} catch (err) {
+	// Outside the test runner (a script importing `lopata/testing`) — nothing to isolate.
+	if (!(err instanceof Error && err.message.includes('outside of the test runner'))) throw err
+}
@@ -1,7 +1,10 @@
 import type { Database } from 'bun:sqlite'
+import type { SqliteCacheStorage } from '../bindings/cache'
 import type { TestClock } from './clock'
 import type { TestDurableObjectNamespace } from './durable-object'
 import type { FetchMock } from './fetch-mock'
+import type { TestAiRequest, TestAnalyticsEngine, TestFlagship, TestSendEmail } from './inspectors'
+import type { TestQueue } from './queue'
 import type { TestWorkflowBinding } from './workflow'
 
 export interface WorkerHandlers {
@@ -35,10 +38,78 @@ export type BindingSpec =
 	| 'kv'
 	| 'r2'
 	| 'd1'
+	/** Bindings with the same `namespaceId` share their keys, also across `createTestWorld()` workers. Default: the binding name. */
+	| { type: 'kv'; namespaceId?: string }
+	/** Bindings with the same `bucketName` share their objects. Default: the binding name. */
+	| { type: 'r2'; bucketName?: string }
+	/** Bindings with the same `databaseName` share one database. Default: the binding name. */
+	| { type: 'd1'; databaseName?: string }
+	/** Producer for the queue named like the binding. */
 	| 'queue'
-	| { type: 'durable-object'; className: string }
+	/** Producer for `queue`; `deliveryDelay` (seconds) applies to sends without their own delay. */
+	| { type: 'queue'; queue: string; deliveryDelay?: number }
+	/** `scriptName` names the `createTestWorld()` worker that defines the class, when it's another one. */
+	| { type: 'durable-object'; className: string; scriptName?: string }
 	| { type: 'workflow'; className: string }
+	/** Targets the worker itself in `createTestEnv()`, the worker named `service` in `createTestWorld()`. */
 	| { type: 'service'; service: string; entrypoint?: string }
+	/** `period`: 10 or 60 seconds, the windows Cloudflare accepts. */
+	| { type: 'ratelimit'; limit: number; period: number; namespaceId?: string }
+	/** Static assets served from `directory` (resolved against the cwd). */
+	| { type: 'assets'; directory: string; htmlHandling?: string; notFoundHandling?: string }
+	/** Sent messages are kept in the test db — see `TestEnv.sendEmail()`. */
+	| { type: 'send-email'; destinationAddress?: string; allowedDestinationAddresses?: string[] }
+	/** Written data points are kept in the test db — see `TestEnv.analyticsEngine()`. Default dataset: the binding name. */
+	| { type: 'analytics-engine'; dataset?: string }
+	| { type: 'images' }
+	| { type: 'media' }
+	| { type: 'hyperdrive'; connectionString: string }
+	/** Flags are seeded with `TestEnv.flagship()`. Default app id: the binding name. */
+	| { type: 'flagship'; appId?: string }
+	/** Default mode: `stub` (canned outputs, no network); `replay` reads fixtures from `fixturesDir`. */
+	| { type: 'ai'; mode?: 'remote' | 'record' | 'replay' | 'stub'; fixturesDir?: string }
+	| { type: 'ai-search'; namespace: string }
+	/** Default index name: the binding name, lowercased and dashed. `dimensions` creates the index up front. */
+	| { type: 'vectorize'; indexName?: string; dimensions?: number; metric?: 'cosine' | 'euclidean' | 'dot-product' }
+	/** `get()` resolves to `value`, or rejects like a missing secret when it's omitted. */
+	| { type: 'secret'; value?: string }
+	| { type: 'browser' }
+	| { type: 'vpc-network'; networkId: string }
+	| { type: 'artifacts'; namespace: string }
+	| { type: 'worker-loader' }
+	| { type: 'version-metadata'; id?: string; tag?: string; timestamp?: string }
+
+/** Consumer settings for `TestEnv.testQueue()`; defaults come from the wrangler `queues.consumers` entry, then Cloudflare's. */
+export interface TestQueueOptions {
+	/** Default: 10. */
+	maxBatchSize?: number
+	/** Default: 3. */
+	maxRetries?: number
+	deadLetterQueue?: string
+	/** Seconds before a retried message is redelivered, unless `retry()` says otherwise. Default: 0. */
+	retryDelay?: number
+}
+
+/** A message for `TestEnv.queue()`; `id`, `timestamp` and `attempts` default to a new id, now and 1. */
+export interface TestQueueDispatchMessage {
+	id?: string
+	timestamp?: Date
+	attempts?: number
+	body: unknown
+	contentType?: string
+}
+
+/** What the queue handler did with a batch dispatched by `TestEnv.queue()` (vitest-pool-workers' `FetcherQueueResult` without `outcome`). */
+export interface TestQueueDispatch {
+	/** `batch.ackAll()` was called. */
+	ackAll: boolean
+	/** `batch.retryAll()` was called, with its delay. */
+	retryBatch: { retry: boolean; delaySeconds?: number }
+	/** Ids of the messages acked with `message.ack()`. */
+	explicitAcks: string[]
+	/** Messages retried with `message.retry()`. */
+	retryMessages: { msgId: string; delaySeconds?: number }[]
+}
 
 export interface TestEnv<Env = Record<string, unknown>> {
 	/** The built env object with all bindings */
@@ -47,8 +118,10 @@ export interface TestEnv<Env = Record<string, unknown>> {
 	db: Database
 	/** Dispatch a fetch request to the worker */
 	fetch(input: string | Request, init?: RequestInit): Promise<Response>
-	/** Dispatch a queue batch to the worker's queue handler */
-	queue(queueName: string, messages: { body: unknown; contentType?: string }[]): Promise<void>
+	/** Dispatch a queue batch to the worker's queue handler; resolves to the acks and retries it made */
+	queue(queueName: string, messages: TestQueueDispatchMessage[]): Promise<TestQueueDispatch>
+	/** Inspect a queue and run its consumer on demand; one handle per queue, options apply on first call */
+	testQueue(queueName: string, options?: TestQueueOptions): TestQueue
 	/** Dispatch a scheduled event to the worker */
 	scheduled(options?: { cron?: string; scheduledTime?: number }): Promise<void>
 	/** Dispatch an email event to the worker */
@@ -57,6 +130,16 @@ export interface TestEnv<Env = Record<string, unknown>> {
 	workflow(bindingName: string & keyof Env): TestWorkflowBinding
 	/** Get a test-friendly durable object namespace wrapper */
 	durableObject(bindingName: string & keyof Env): TestDurableObjectNamespace
+	/** Messages sent through a `send-email` binding */
+	sendEmail(bindingName: string & keyof Env): TestSendEmail
+	/** Data points written to an `analytics-engine` binding */
+	analyticsEngine(bindingName: string & keyof Env): TestAnalyticsEngine
+	/** Seed and toggle the flags a `flagship` binding evaluates */
+	flagship(bindingName: string & keyof Env): TestFlagship
+	/** `run()` calls made through `ai` bindings */
+	aiRequests(): TestAiRequest[]
+	/** The Cache API storage behind the global `caches` */
+	caches: SqliteCacheStorage
 	/** Test clock for time control (null if not enabled) */
 	clock: TestClock | null
 	/** Fetch mock for intercepting outgoing HTTP requests */
@@ -66,3 +149,25 @@ export interface TestEnv<Env = Record<string, unknown>> {
 	/** Cleanup: close DB, remove temp dirs, destroy DO namespaces */
 	dispose(): void
 }
+
+export interface TestWorldOptions {
+	/** Workers keyed by service name — the name service bindings and Durable Object `scriptName`s refer to */
+	workers: Record<string, Omit<TestEnvOptions, 'clock'>>
+	/** Test clock shared by all workers. Pass true to create a new TestClock, or pass a TestClock instance. */
+	clock?: boolean | TestClock
+}
+
+export interface TestWorld {
+	/** The test env of one worker; `dispose()` on it is a no-op, dispose the world instead */
+	worker<Env = Record<string, unknown>>(name: string): TestEnv<Env>
+	/** The in-memory database shared by all workers */
+	db: Database
+	/** Shared test clock (null if not enabled) */
+	clock: TestClock | null
+	/** Fetch mock shared by all workers */
+	fetchMock: FetchMock
+	/** Advance time and fire ready DO alarms of every worker */
+	advanceTime(ms: number): Promise<void>
+	/** Cleanup all workers, then close the shared database */
+	dispose(): void
+}
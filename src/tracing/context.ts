@@ -13,6 +13,22 @@ export interface FetchStackRef {
  *  minted at the root span and inherited by every child span. */
 export interface SubrequestCounterRef {
 	count: number
+	/** Opt-in limits (`src/limits.ts`): outbound connections waiting for a response, and the queue beyond the limit. */
+	connections?: { open: number; waiting: (() => void)[] }
+	/** Opt-in limits in warn mode: the overrun was already reported for this request. */
+	warned?: boolean
+	warnedConnections?: boolean
+	/** Seeded from a caller on another thread (`runWithParentContext`), which already counted the call that landed here. */
+	inherited?: boolean
+}
+
+/** Where an invocation sits in its request chain. Unlike the refs it is a
+ *  plain value, so it crosses thread boundaries with the parent context. */
+export interface InvocationChain {
+	/** Worker invocations so far, counting the current one. */
+	depth: number
+	/** Times the request looped back into a local worker through `fetch()`. */
+	loops: number
 }
 
 export interface SpanContext {
@@ -26,6 +42,10 @@ export interface SpanContext {
 	fetchStack: FetchStackRef
 	/** Per-top-level-request subrequest counter, shared across the trace. */
 	subrequests: SubrequestCounterRef
+	/** W3C `tracestate` received with the trace, forwarded on outbound calls. */
+	traceState?: string
+	/** Invocation chain of the request, inherited by child spans. */
+	chain?: InvocationChain
 }
 
 const storage = new AsyncLocalStorage<SpanContext>()
@@ -38,21 +58,49 @@ export function runWithContext<T>(ctx: SpanContext, fn: () => T): T {
 	return storage.run(ctx, fn)
 }
 
+/** Run `fn` with no active trace context, so nothing it does (e.g. an outbound
+ *  fetch) is recorded as part of the caller's trace. */
+export function runOutsideContext<T>(fn: () => T): T {
+	return storage.exit(fn)
+}
+
+/** What crosses an isolate boundary of a span context; the other side adopts it with `runWithParentContext`. */
+export interface ParentContext {
+	traceId: string
+	spanId: string
+	traceState?: string
+	chain?: InvocationChain
+	/** Subrequests the request has made so far; the receiving side continues the count. */
+	subrequests?: number
+}
+
+/** The active context as a `ParentContext`, or undefined outside a trace. */
+export function getParentContext(): ParentContext | undefined {
+	const active = storage.getStore()
+	if (!active) return undefined
+	return { traceId: active.traceId, spanId: active.spanId, traceState: active.traceState, chain: active.chain, subrequests: active.subrequests.count }
+}
+
 /**
  * Adopt a parent (traceId + spanId) sent across an isolate boundary — refs
- * (`fetchStack`, `subrequests`) can't cross postMessage, so we re-seed empty
- * ones and let sub-spans created on this side share them via `getActiveContext`.
- * Note: the per-request subrequest budget resets on each side of the boundary;
- * a nested service-binding hop into another thread effectively gets a fresh
- * budget. Acceptable for dev; a real fix would round-trip the count.
+ * (`fetchStack`, `subrequests`) can't cross postMessage, so we re-seed them
+ * and let sub-spans created on this side share them via `getActiveContext`.
+ * The subrequest counter starts from the caller's count, so a chain of
+ * service-binding hops spends one budget; what the callee spends doesn't flow
+ * back to the caller.
  */
-export function runWithParentContext<T>(parent: { traceId: string; spanId: string } | undefined, fn: () => T): T {
+export function runWithParentContext<T>(
+	parent: ParentContext | undefined,
+	fn: () => T,
+): T {
 	if (!parent) return fn()
 	return storage.run({
 		traceId: parent.traceId,
 		spanId: parent.spanId,
 		fetchStack: { current: null },
-		subrequests: { count: 0 },
+		subrequests: { count: parent.subrequests ?? 0, inherited: true },
+		traceState: parent.traceState,
+		chain: parent.chain,
 	}, fn)
 }
 
@@ -1,18 +1,16 @@
 import { Database } from 'bun:sqlite'
 import { mkdirSync } from 'node:fs'
 import { join } from 'node:path'
-
-const DATA_DIR = join(process.cwd(), '.lopata')
-const DB_PATH = join(DATA_DIR, 'traces.sqlite')
+import { getDataDir } from '../db'
 
 let instance: Database | null = null
 
 export function getTracingDatabase(): Database {
 	if (instance) return instance
 
-	mkdirSync(DATA_DIR, { recursive: true })
+	mkdirSync(getDataDir(), { recursive: true })
 
-	instance = new Database(DB_PATH, { create: true })
+	instance = new Database(join(getDataDir(), 'traces.sqlite'), { create: true })
 	instance.run('PRAGMA journal_mode=WAL')
 	instance.run('PRAGMA busy_timeout=5000')
 	runTracingMigrations(instance)
@@ -1,3 +1,4 @@
+import { countSubrequest } from '../limits'
 import { startSpan } from './span'
 import type { SpanData } from './types'
 
@@ -21,10 +22,12 @@ interface InstrumentConfig {
 	name: string
 	methods: string[]
 	kind?: SpanData['kind']
+	/** Whether calls count against the invocation's subrequest limit (`countSubrequest`). Default: true. */
+	countSubrequests?: boolean
 }
 
-function wrapMethod(target: Function, type: string, bindingName: string, method: string, kind: SpanData['kind']): Function {
-	return wrapMethodWithExtraAttrs(target, type, bindingName, method, kind, {})
+function wrapMethod(target: Function, type: string, bindingName: string, method: string, kind: SpanData['kind'], countSubrequests = false): Function {
+	return wrapMethodWithExtraAttrs(target, type, bindingName, method, kind, {}, countSubrequests)
 }
 
 function wrapMethodWithExtraAttrs(
@@ -34,8 +37,16 @@ function wrapMethodWithExtraAttrs(
 	method: string,
 	kind: SpanData['kind'],
 	extraAttrs: Record<string, unknown>,
+	countSubrequests = false,
 ): Function {
 	return function(this: unknown, ...args: unknown[]) {
+		if (countSubrequests) {
+			try {
+				countSubrequest()
+			} catch (err) {
+				return Promise.reject(err)
+			}
+		}
 		const attrs: Record<string, unknown> = {
 			'binding.type': type,
 			'binding.name': bindingName,
@@ -59,7 +70,7 @@ export function instrumentBinding<T extends object>(binding: T, config: Instrume
 		get(obj, prop, receiver) {
 			const value = Reflect.get(obj, prop, receiver)
 			if (typeof prop === 'string' && methodSet.has(prop) && typeof value === 'function') {
-				return wrapMethod(value, config.type, config.name, prop, kind)
+				return wrapMethod(value, config.type, config.name, prop, kind, config.countSubrequests ?? true)
 			}
 			return value
 		},
@@ -84,7 +95,7 @@ export function instrumentD1<T extends object>(binding: T, name: string): T {
 			}
 			// Also instrument batch and exec directly
 			if ((prop === 'batch' || prop === 'exec' || prop === 'dump') && typeof value === 'function') {
-				return wrapMethod(value, 'd1', name, prop as string, 'client')
+				return wrapMethod(value, 'd1', name, prop as string, 'client', true)
 			}
 			// withSession() returns a new database-like object — wrap it with the same instrumentation
 			if (prop === 'withSession' && typeof value === 'function') {
@@ -108,9 +119,11 @@ function wrapD1Stmt(stmt: object, name: string, sql: string | undefined): object
 			const sValue = Reflect.get(s, sProp, sReceiver)
 			if (typeof sProp === 'string' && stmtMethods.includes(sProp) && typeof sValue === 'function') {
 				// `allUnlocked` is `all` minus the db lock its caller already holds — trace it under the
-				// public name so statements run inside a batch still show up as `d1.all`.
+				// public name so statements run inside a batch still show up as `d1.all`. The batch
+				// itself is the subrequest.
 				const method = sProp === 'allUnlocked' ? 'all' : sProp
-				return wrapMethodWithExtraAttrs(sValue.bind(s), 'd1', name, method, 'client', sql ? { 'db.statement': sql } : {})
+				const attrs = sql ? { 'db.statement': sql } : {}
+				return wrapMethodWithExtraAttrs(sValue.bind(s), 'd1', name, method, 'client', attrs, sProp !== 'allUnlocked')
 			}
 			// bind() returns a new statement — re-wrap it so execution methods stay instrumented
 			if (sProp === 'bind' && typeof sValue === 'function') {
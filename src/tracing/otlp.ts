@@ -0,0 +1,371 @@
+/**
+ * OTLP/HTTP trace exporter. Streams every completed span from the trace store —
+ * request roots, binding spans, outbound fetches and custom `tracing.enterSpan()`
+ * spans alike — to an OpenTelemetry collector (Jaeger, otel-collector, Tempo, …),
+ * in either the JSON or the protobuf encoding of `ExportTraceServiceRequest`.
+ *
+ * Spans are batched and flushed on an interval; a failing collector is reported
+ * once and never affects request handling. The local SQLite store stays the
+ * source of truth for the dashboard either way.
+ */
+
+import { runOutsideContext } from './context'
+import { REMOTE_PARENT_ATTRIBUTE } from './propagation'
+import { getTraceStore, type TraceStore } from './store'
+import type { SpanData, SpanEventData } from './types'
+
+export interface OtlpExporterConfig {
+	/** Collector base URL; spans are POSTed to `<endpoint>/v1/traces`. Default `http://localhost:4318`. */
+	endpoint?: string
+	/** Wire encoding. Default `http/json`. */
+	protocol?: 'http/json' | 'http/protobuf'
+	/** Extra request headers, e.g. an auth token for a hosted collector. */
+	headers?: Record<string, string>
+	/** `service.name` for spans without a worker name. Default `lopata`. */
+	serviceName?: string
+	/** Max spans per export request. Default 512. */
+	maxBatchSize?: number
+	/** How often buffered spans are flushed, in ms. Default 1000. */
+	flushIntervalMs?: number
+}
+
+const DEFAULT_ENDPOINT = 'http://localhost:4318'
+const DEFAULT_SERVICE_NAME = 'lopata'
+const MAX_QUEUE = 10_000
+const SCOPE_NAME = 'lopata'
+
+/**
+ * Resolve the exporter config from `lopata.config.ts`, falling back to the
+ * standard `OTEL_EXPORTER_OTLP_*` environment variables. Returns null when
+ * neither enables export.
+ */
+export function resolveOtlpConfig(
+	config: OtlpExporterConfig | undefined,
+	env: Record<string, string | undefined> = process.env,
+): OtlpExporterConfig | null {
+	if (config) return config
+	const tracesEndpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+	const endpoint = env.OTEL_EXPORTER_OTLP_ENDPOINT
+	if (!tracesEndpoint && !endpoint) return null
+	const protocol = env.OTEL_EXPORTER_OTLP_TRACES_PROTOCOL ?? env.OTEL_EXPORTER_OTLP_PROTOCOL
+	return {
+		// The traces-specific variable is the full URL already, so strip the path we append.
+		endpoint: tracesEndpoint ? tracesEndpoint.replace(/\/v1\/traces\/?$/, '') : endpoint,
+		...(protocol === 'http/protobuf' || protocol === 'http/json' ? { protocol } : {}),
+		...(env.OTEL_SERVICE_NAME ? { serviceName: env.OTEL_SERVICE_NAME } : {}),
+	}
+}
+
+// ─── Model ───────────────────────────────────────────────────────────
+
+type AttributeValue =
+	| { stringValue: string }
+	| { boolValue: boolean }
+	| { intValue: string }
+	| { doubleValue: number }
+	| { arrayValue: { values: AttributeValue[] } }
+
+interface KeyValue {
+	key: string
+	value: AttributeValue
+}
+
+interface OtlpSpan {
+	traceId: string
+	spanId: string
+	parentSpanId: string
+	name: string
+	kind: number
+	startTimeUnixNano: string
+	endTimeUnixNano: string
+	attributes: KeyValue[]
+	events: { timeUnixNano: string; name: string; attributes: KeyValue[] }[]
+	status: { code: number; message?: string }
+}
+
+export interface OtlpTraceRequest {
+	resourceSpans: {
+		resource: { attributes: KeyValue[] }
+		scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[]
+	}[]
+}
+
+export interface ExportedSpan {
+	span: SpanData
+	events: SpanEventData[]
+}
+
+// SpanKind: 1 INTERNAL, 2 SERVER, 3 CLIENT. StatusCode: 0 UNSET, 1 OK, 2 ERROR.
+const SPAN_KIND: Record<SpanData['kind'], number> = { internal: 1, server: 2, client: 3 }
+const STATUS_CODE: Record<SpanData['status'], number> = { unset: 0, ok: 1, error: 2 }
+
+function toAttributeValue(value: unknown): AttributeValue {
+	if (typeof value === 'string') return { stringValue: value }
+	if (typeof value === 'boolean') return { boolValue: value }
+	if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+	if (typeof value === 'bigint') return { intValue: value.toString() }
+	if (Array.isArray(value) && value.every(v => v === null || typeof v !== 'object')) {
+		return { arrayValue: { values: value.map(toAttributeValue) } }
+	}
+	return { stringValue: typeof value === 'object' ? JSON.stringify(value) : String(value) }
+}
+
+function toKeyValues(attributes: Record<string, unknown>): KeyValue[] {
+	return Object.entries(attributes)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => ({ key, value: toAttributeValue(value) }))
+}
+
+function msToNanos(ms: number): string {
+	return (BigInt(Math.round(ms)) * 1_000_000n).toString()
+}
+
+function toOtlpSpan({ span, events }: ExportedSpan): OtlpSpan {
+	// A root span continuing an incoming `traceparent` links to the caller's span in the collector.
+	const remoteParent = span.attributes[REMOTE_PARENT_ATTRIBUTE]
+	return {
+		traceId: span.traceId,
+		spanId: span.spanId,
+		parentSpanId: span.parentSpanId ?? (typeof remoteParent === 'string' ? remoteParent : ''),
+		name: span.name,
+		kind: SPAN_KIND[span.kind],
+		startTimeUnixNano: msToNanos(span.startTime),
+		endTimeUnixNano: msToNanos(span.endTime ?? span.startTime),
+		attributes: toKeyValues(span.attributes),
+		events: events.map(e => ({
+			timeUnixNano: msToNanos(e.timestamp),
+			name: e.name,
+			attributes: toKeyValues({ ...e.attributes, level: e.level, message: e.message }),
+		})),
+		status: { code: STATUS_CODE[span.status], ...(span.statusMessage ? { message: span.statusMessage } : {}) },
+	}
+}
+
+/** Group spans into one `ResourceSpans` per worker (`service.name`). */
+export function buildTraceRequest(spans: ExportedSpan[], serviceName = DEFAULT_SERVICE_NAME): OtlpTraceRequest {
+	const byService = new Map<string, OtlpSpan[]>()
+	for (const exported of spans) {
+		const service = exported.span.workerName ?? serviceName
+		const list = byService.get(service) ?? []
+		list.push(toOtlpSpan(exported))
+		byService.set(service, list)
+	}
+	return {
+		resourceSpans: [...byService].map(([service, otlpSpans]) => ({
+			resource: { attributes: toKeyValues({ 'service.name': service, 'telemetry.sdk.name': SCOPE_NAME }) },
+			scopeSpans: [{ scope: { name: SCOPE_NAME }, spans: otlpSpans }],
+		})),
+	}
+}
+
+// ─── Protobuf encoding ───────────────────────────────────────────────
+// Hand-rolled writer for the handful of opentelemetry.proto messages we emit.
+
+class ProtoWriter {
+	private chunks: number[] = []
+
+	private varint(value: number | bigint): void {
+		let v = BigInt(value)
+		if (v < 0n) v += 1n << 64n
+		while (v > 0x7fn) {
+			this.chunks.push(Number(v & 0x7fn) | 0x80)
+			v >>= 7n
+		}
+		this.chunks.push(Number(v))
+	}
+
+	private tag(field: number, wireType: number): void {
+		this.varint((field << 3) | wireType)
+	}
+
+	uint(field: number, value: number | bigint): this {
+		if (BigInt(value) === 0n) return this
+		this.tag(field, 0)
+		this.varint(value)
+		return this
+	}
+
+	bool(field: number, value: boolean): this {
+		return this.uint(field, value ? 1 : 0)
+	}
+
+	fixed64(field: number, value: string): this {
+		this.tag(field, 1)
+		let v = BigInt(value)
+		for (let i = 0; i < 8; i++) {
+			this.chunks.push(Number(v & 0xffn))
+			v >>= 8n
+		}
+		return this
+	}
+
+	double(field: number, value: number): this {
+		this.tag(field, 1)
+		const buf = new DataView(new ArrayBuffer(8))
+		buf.setFloat64(0, value, true)
+		for (let i = 0; i < 8; i++) this.chunks.push(buf.getUint8(i))
+		return this
+	}
+
+	bytes(field: number, value: Uint8Array): this {
+		if (value.length === 0) return this
+		this.tag(field, 2)
+		this.varint(value.length)
+		for (const b of value) this.chunks.push(b)
+		return this
+	}
+
+	string(field: number, value: string): this {
+		return this.bytes(field, new TextEncoder().encode(value))
+	}
+
+	message(field: number, build: (w: ProtoWriter) => void): this {
+		const inner = new ProtoWriter()
+		build(inner)
+		const encoded = inner.finish()
+		this.tag(field, 2)
+		this.varint(encoded.length)
+		for (const b of encoded) this.chunks.push(b)
+		return this
+	}
+
+	finish(): Uint8Array {
+		return Uint8Array.from(this.chunks)
+	}
+}
+
+function hexToBytes(hex: string): Uint8Array {
+	const bytes = new Uint8Array(hex.length / 2)
+	for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+	return bytes
+}
+
+function writeAnyValue(w: ProtoWriter, value: AttributeValue): void {
+	if ('stringValue' in value) w.string(1, value.stringValue)
+	else if ('boolValue' in value) w.bool(2, value.boolValue)
+	else if ('intValue' in value) w.uint(3, BigInt(value.intValue))
+	else if ('doubleValue' in value) w.double(4, value.doubleValue)
+	else w.message(5, arr => value.arrayValue.values.forEach(v => arr.message(1, item => writeAnyValue(item, v))))
+}
+
+function writeKeyValues(w: ProtoWriter, field: number, attributes: KeyValue[]): void {
+	for (const kv of attributes) {
+		w.message(field, m => m.string(1, kv.key).message(2, v => writeAnyValue(v, kv.value)))
+	}
+}
+
+/** Encode as an `opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest`. */
+export function encodeTraceRequestProtobuf(request: OtlpTraceRequest): Uint8Array {
+	const w = new ProtoWriter()
+	for (const rs of request.resourceSpans) {
+		w.message(1, rsw => {
+			rsw.message(1, res => writeKeyValues(res, 1, rs.resource.attributes))
+			for (const ss of rs.scopeSpans) {
+				rsw.message(2, ssw => {
+					ssw.message(1, scope => scope.string(1, ss.scope.name))
+					for (const span of ss.spans) {
+						ssw.message(2, sw => {
+							sw.bytes(1, hexToBytes(span.traceId))
+							sw.bytes(2, hexToBytes(span.spanId))
+							sw.bytes(4, hexToBytes(span.parentSpanId))
+							sw.string(5, span.name)
+							sw.uint(6, span.kind)
+							sw.fixed64(7, span.startTimeUnixNano)
+							sw.fixed64(8, span.endTimeUnixNano)
+							writeKeyValues(sw, 9, span.attributes)
+							for (const event of span.events) {
+								sw.message(11, ew => {
+									ew.fixed64(1, event.timeUnixNano)
+									ew.string(2, event.name)
+									writeKeyValues(ew, 3, event.attributes)
+								})
+							}
+							sw.message(15, st => st.string(2, span.status.message ?? '').uint(3, span.status.code))
+						})
+					}
+				})
+			}
+		})
+	}
+	return w.finish()
+}
+
+// ─── Exporter ────────────────────────────────────────────────────────
+
+export class OtlpExporter {
+	private queue: ExportedSpan[] = []
+	private timer: ReturnType<typeof setInterval>
+	private unsubscribe: () => void
+	private inFlight: Promise<void> = Promise.resolve()
+	private failing = false
+	private readonly url: string
+	private readonly protocol: 'http/json' | 'http/protobuf'
+	private readonly maxBatchSize: number
+
+	constructor(private config: OtlpExporterConfig, private store: TraceStore = getTraceStore()) {
+		this.url = `${(config.endpoint ?? DEFAULT_ENDPOINT).replace(/\/+$/, '')}/v1/traces`
+		this.protocol = config.protocol ?? 'http/json'
+		this.maxBatchSize = config.maxBatchSize ?? 512
+		this.unsubscribe = store.subscribe(event => {
+			if (event.type === 'span.end') this.enqueue(event.span)
+		})
+		this.timer = setInterval(() => void this.flush(), config.flushIntervalMs ?? 1000)
+		this.timer.unref()
+	}
+
+	get endpoint(): string {
+		return this.url
+	}
+
+	private enqueue(span: SpanData): void {
+		// Drop the oldest spans rather than grow without bound while the collector is down.
+		if (this.queue.length >= MAX_QUEUE) this.queue.shift()
+		const workerName = span.workerName ?? this.store.getTraceWorkerName(span.traceId)
+		this.queue.push({ span: { ...span, workerName }, events: this.store.getSpanEvents(span.spanId) })
+		if (this.queue.length >= this.maxBatchSize) void this.flush()
+	}
+
+	/**
+	 * Export everything buffered so far. Requests are sent one at a time, in order,
+	 * outside any trace context — otherwise the instrumented fetch would trace the
+	 * export itself, and that span would be exported in turn.
+	 */
+	flush(): Promise<void> {
+		this.inFlight = runOutsideContext(() =>
+			this.inFlight.then(async () => {
+				while (this.queue.length > 0) {
+					const batch = this.queue.splice(0, this.maxBatchSize)
+					await this.send(batch)
+				}
+			})
+		)
+		return this.inFlight
+	}
+
+	private async send(batch: ExportedSpan[]): Promise<void> {
+		const request = buildTraceRequest(batch, this.config.serviceName)
+		const protobuf = this.protocol === 'http/protobuf'
+		try {
+			const res = await fetch(this.url, {
+				method: 'POST',
+				headers: { ...this.config.headers, 'content-type': protobuf ? 'application/x-protobuf' : 'application/json' },
+				body: protobuf ? encodeTraceRequestProtobuf(request) : JSON.stringify(request),
+			})
+			if (!res.ok) throw new Error(`HTTP ${res.status} ${await res.text().catch(() => '')}`.trim())
+			if (this.failing) console.log(`[lopata] OTLP export to ${this.url} recovered`)
+			this.failing = false
+		} catch (err) {
+			if (!this.failing) {
+				console.warn(`[lopata] OTLP export to ${this.url} failed: ${err instanceof Error ? err.message : String(err)}`)
+			}
+			this.failing = true
+		}
+	}
+
+	/** Flush what's buffered and stop listening. */
+	async shutdown(): Promise<void> {
+		this.unsubscribe()
+		clearInterval(this.timer)
+		await this.flush()
+	}
+}
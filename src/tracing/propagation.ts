@@ -0,0 +1,59 @@
+/**
+ * W3C Trace Context (`traceparent` / `tracestate`, https://www.w3.org/TR/trace-context/).
+ *
+ * An incoming request carrying a `traceparent` continues the caller's trace: its
+ * root span adopts the caller's trace id, and the caller's span id is kept as the
+ * `trace.remote_parent_span_id` attribute (the span itself stays a root in the
+ * local store, so the dashboard still lists it). Outbound fetches and service
+ * binding fetches get a `traceparent` naming the span that made the call, so a
+ * local backend instrumented with OpenTelemetry lands in the same trace.
+ */
+
+import { getActiveContext, type SpanContext } from './context'
+
+export interface RemoteTraceContext {
+	traceId: string
+	parentSpanId: string
+	traceState?: string
+}
+
+/** Attribute on a root span holding the span id from the incoming `traceparent`. */
+export const REMOTE_PARENT_ATTRIBUTE = 'trace.remote_parent_span_id'
+
+const TRACEPARENT_RE = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+
+/** Parse a `traceparent` header. Invalid or all-zero ids yield null, per the spec. */
+export function parseTraceparent(traceparent: string | null | undefined, tracestate?: string | null): RemoteTraceContext | null {
+	if (!traceparent) return null
+	const match = TRACEPARENT_RE.exec(traceparent.trim())
+	if (!match) return null
+	const [, version, traceId, parentSpanId, , rest] = match as unknown as [string, string, string, string, string, string | undefined]
+	// Version ff is forbidden; version 00 has exactly four fields. Later versions may append more.
+	if (version === 'ff' || (version === '00' && rest !== undefined)) return null
+	if (/^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) return null
+	const traceState = tracestate?.trim()
+	return { traceId, parentSpanId, ...(traceState ? { traceState } : {}) }
+}
+
+export function formatTraceparent(traceId: string, spanId: string): string {
+	return `00-${traceId}-${spanId}-01`
+}
+
+/** Read the trace context from incoming request headers. */
+export function extractTraceContext(headers: Headers): RemoteTraceContext | null {
+	return parseTraceparent(headers.get('traceparent'), headers.get('tracestate'))
+}
+
+/**
+ * Advertise the active span on outgoing request headers. A `traceparent` the
+ * caller set explicitly is left alone. Does nothing outside a trace.
+ */
+export function injectTraceContext(headers: Headers, ctx: SpanContext | undefined = getActiveContext()): void {
+	if (!ctx || headers.has('traceparent')) return
+	try {
+		headers.set('traceparent', formatTraceparent(ctx.traceId, ctx.spanId))
+		if (ctx.traceState && !headers.has('tracestate')) headers.set('tracestate', ctx.traceState)
+	} catch {
+		// Immutable headers (e.g. a Response-bound Headers object) — nothing to propagate into.
+	}
+}
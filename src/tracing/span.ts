@@ -1,5 +1,6 @@
 import { generateId, generateTraceId, getActiveContext, runWithContext } from './context'
 import { buildErrorFrames } from './frames'
+import { extractTraceContext, REMOTE_PARENT_ATTRIBUTE } from './propagation'
 import { getTraceStore, type TraceStore } from './store'
 import type { SpanData } from './types'
 
@@ -10,6 +11,8 @@ export interface SpanOptions {
 	workerName?: string
 	/** Force a new root trace, ignoring any active parent context. */
 	newTrace?: boolean
+	/** Incoming request headers: a valid W3C `traceparent` makes a root span continue the caller's trace. */
+	traceContext?: Headers
 }
 
 /** Handle passed to span callbacks, mirroring Cloudflare's custom-span Span object. */
@@ -37,9 +40,12 @@ function runInSpan<T>(opts: SpanRunOptions, fn: (span: SpanHandle) => T): T {
 	const store = getTraceStore()
 	const parent = opts.newTrace ? undefined : getActiveContext()
 
+	const remote = !parent && opts.traceContext ? extractTraceContext(opts.traceContext) : null
+
 	const spanId = generateId()
-	const traceId = parent?.traceId ?? generateTraceId()
+	const traceId = parent?.traceId ?? remote?.traceId ?? generateTraceId()
 	const parentSpanId = parent?.spanId ?? null
+	const traceState = parent ? parent.traceState : remote?.traceState
 
 	const span: SpanData = {
 		spanId,
@@ -52,7 +58,7 @@ function runInSpan<T>(opts: SpanRunOptions, fn: (span: SpanHandle) => T): T {
 		startTime: Date.now(),
 		endTime: null,
 		durationMs: null,
-		attributes: opts.attributes ?? {},
+		attributes: remote ? { ...opts.attributes, [REMOTE_PARENT_ATTRIBUTE]: remote.parentSpanId } : opts.attributes ?? {},
 		workerName: opts.workerName ?? null,
 	}
 	store.insertSpan(span)
@@ -96,7 +102,7 @@ function runInSpan<T>(opts: SpanRunOptions, fn: (span: SpanHandle) => T): T {
 	}
 
 	try {
-		const result = runWithContext({ traceId, spanId, fetchStack, subrequests }, () => fn(handle))
+		const result = runWithContext({ traceId, spanId, fetchStack, subrequests, traceState, chain: parent?.chain }, () => fn(handle))
 		if (result != null && typeof (result as { then?: unknown }).then === 'function') {
 			return (result as unknown as Promise<unknown>).then(
 				value => {
@@ -150,6 +150,19 @@ export class TraceStore {
 		this.broadcast({ type: 'span.event', event: { ...event, id } })
 	}
 
+	/** Worker of the trace's root span — child spans (bindings, fetches) don't carry their own. */
+	getTraceWorkerName(traceId: string): string | null {
+		return this.db.prepare<{ worker_name: string | null }, [string]>(
+			'SELECT worker_name FROM spans WHERE trace_id = ? AND parent_span_id IS NULL LIMIT 1',
+		).get(traceId)?.worker_name ?? null
+	}
+
+	getSpanEvents(spanId: string): SpanEventData[] {
+		return this.db.prepare<Record<string, unknown>, [string]>(
+			'SELECT * FROM span_events WHERE span_id = ? ORDER BY timestamp ASC',
+		).all(spanId).map(r => this.rowToEvent(r))
+	}
+
 	listTraces(opts: { limit?: number; cursor?: string }): { items: TraceSummary[]; cursor: string | null } {
 		const limit = opts.limit ?? 50
 		const { time: cursorTime, id: cursorId } = parseCursor(opts.cursor)
@@ -204,16 +217,7 @@ export class TraceStore {
 
 		return {
 			spans: spanRows.map(r => this.rowToSpan(r)!),
-			events: eventRows.map(r => ({
-				id: r.id as number,
-				spanId: r.span_id as string,
-				traceId: r.trace_id as string,
-				timestamp: r.timestamp as number,
-				name: r.name as string,
-				level: r.level as string | null,
-				message: r.message as string | null,
-				attributes: r.attributes ? JSON.parse(r.attributes as string) : {},
-			})),
+			events: eventRows.map(r => this.rowToEvent(r)),
 		}
 	}
 
@@ -575,6 +579,19 @@ export class TraceStore {
 		this.rootSpanCount -= oldest.length
 	}
 
+	private rowToEvent(r: Record<string, unknown>): SpanEventData {
+		return {
+			id: r.id as number,
+			spanId: r.span_id as string,
+			traceId: r.trace_id as string,
+			timestamp: r.timestamp as number,
+			name: r.name as string,
+			level: r.level as string | null,
+			message: r.message as string | null,
+			attributes: r.attributes ? JSON.parse(r.attributes as string) : {},
+		}
+	}
+
 	private rowToSpan(row: Record<string, unknown> | null): SpanData | null {
 		if (!row) return null
 		return {
@@ -3,6 +3,7 @@ import { ContainerBase, getContainer, getRandom } from './bindings/container'
 import { DurableObjectBase, WebSocketRequestResponsePair } from './bindings/durable-object'
 import { EmailMessage } from './bindings/email'
 import type { ImageTransformOptions, OutputOptions } from './bindings/images'
+import { connect } from './bindings/sockets'
 import { WebSocketPair } from './bindings/websocket-pair'
 import { NonRetryableError, WorkflowEntrypointBase } from './bindings/workflow'
 import { globalEnv } from './env'
@@ -11,7 +12,8 @@ import { tracing } from './tracing/span'
 
 /**
  * Registers virtual modules for `cloudflare:workers`, `cloudflare:workflows`,
- * `cloudflare:email`, `@cloudflare/containers`, and `@cloudflare/puppeteer`.
+ * `cloudflare:email`, `cloudflare:sockets`, `cloudflare:test`,
+ * `@cloudflare/containers`, and `@cloudflare/puppeteer`.
  *
  * Shared between `src/plugin.ts` (dev server) and `src/testing/setup.ts` (test preload).
  */
@@ -76,6 +78,15 @@ export function registerVirtualModules(build: { module: (name: string, fn: () =>
 		}
 	})
 
+	build.module('cloudflare:sockets', () => {
+		return {
+			exports: {
+				connect,
+			},
+			loader: 'object',
+		}
+	})
+
 	build.module('cloudflare:workflows', () => {
 		return {
 			exports: {
@@ -85,6 +96,15 @@ export function registerVirtualModules(build: { module: (name: string, fn: () =>
 		}
 	})
 
+	// Builds the test env on first import, so it's loaded lazily and only ever by tests.
+	build.module('cloudflare:test', async () => {
+		const { createCloudflareTestModule } = await import('./testing/cloudflare-test')
+		return {
+			exports: await createCloudflareTestModule(),
+			loader: 'object',
+		}
+	})
+
 	build.module('@cloudflare/puppeteer', () => {
 		return {
 			exports: {
@@ -5,7 +5,7 @@ import type { Plugin, ViteDevServer } from 'vite'
 import { createScheduledController } from '../bindings/scheduled.ts'
 import { type EntrypointHandlerName, resolveEntrypointHandler } from '../entrypoint-handler.ts'
 import { FileWatcher } from '../file-watcher.ts'
-import type { RoutableManager } from '../route-matcher.ts'
+import type { HostMap, RoutableManager } from '../route-matcher.ts'
 import { extractHostname, RouteDispatcher } from '../route-matcher.ts'
 import { serializeResponseHeaders } from '../worker-thread/serialize.ts'
 
@@ -13,6 +13,7 @@ interface DevServerPluginOptions {
 	configPath?: string
 	envName: string
 	hosts?: string[]
+	hostMap?: HostMap
 	auxiliaryWorkers?: { configPath: string; name?: string; hosts?: string[] }[]
 }
 
@@ -184,6 +185,7 @@ export function devServerPlugin(options: DevServerPluginOptions): Plugin {
 				name: `${request.method} ${parsedUrl.pathname}`,
 				kind: 'server',
 				attributes: { 'http.method': request.method, 'http.url': request.url, 'lopata.generation_id': genId },
+				traceContext: request.headers,
 			}, () =>
 				runWithExecutionContext(ctx, async () => {
 					try {
@@ -607,6 +609,7 @@ export function devServerPlugin(options: DevServerPluginOptions): Plugin {
 
 				// Build route dispatcher (aux workers only — main is the fallback)
 				routeDispatcher = new RouteDispatcher(mainAdapter)
+				routeDispatcher.setHostMap(options.hostMap)
 
 				// Register main worker host patterns so they take priority over wildcard aux hosts
 				if (options.hosts?.length) {
@@ -627,7 +630,7 @@ export function devServerPlugin(options: DevServerPluginOptions): Plugin {
 				if (routeDispatcher.hasRoutes()) {
 					for (const r of routeDispatcher.getRegisteredRoutes()) {
 						const hostInfo = r.hostPatterns ? ` (hosts: ${r.hostPatterns.join(', ')})` : ''
-						console.log(`[lopata:vite] Route: ${r.pattern} → ${r.workerName}${hostInfo}`)
+						console.log(`[lopata:vite] Route: ${r.hostPatterns ? r.pattern : r.route} → ${r.workerName}${hostInfo}`)
 					}
 				}
 				apiMod.setRouteDispatcher(routeDispatcher)
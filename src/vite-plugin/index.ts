@@ -1,4 +1,5 @@
 import type { Plugin } from 'vite'
+import type { HostMap } from '../route-matcher.ts'
 import { configPlugin } from './config-plugin.ts'
 import { devServerPlugin } from './dev-server-plugin.ts'
 import { globalsPlugin } from './globals-plugin.ts'
@@ -12,6 +13,8 @@ export interface LopataPluginConfig {
 	viteEnvironment?: { name?: string }
 	/** Host patterns that route to the main worker (takes priority over wildcard auxiliary hosts). */
 	hosts?: string[]
+	/** Production → local hostname mapping for domain routes, e.g. `{ '*.example.com': '*.localhost' }`. */
+	hostMap?: HostMap
 	/**
 	 * Auxiliary workers. Unlike the main worker (which runs in-process via Vite
 	 * SSR), each aux worker runs in its own Bun Worker thread and is loaded via
@@ -46,6 +49,7 @@ export function lopata(config?: LopataPluginConfig): Plugin[] {
 			configPath: config?.configPath,
 			envName,
 			hosts: config?.hosts,
+			hostMap: config?.hostMap,
 			auxiliaryWorkers: config?.auxiliaryWorkers,
 		}),
 		reactRouterPlugin(),
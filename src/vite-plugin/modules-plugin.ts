@@ -7,6 +7,7 @@ const __dirname = dirname(fileURLToPath(import.meta.url))
 const VIRTUAL_MODULES: Record<string, string> = {
 	'cloudflare:workers': '\0cloudflare:workers',
 	'cloudflare:workflows': '\0cloudflare:workflows',
+	'cloudflare:sockets': '\0cloudflare:sockets',
 	'@cloudflare/containers': '\0@cloudflare/containers',
 }
 
@@ -16,7 +17,7 @@ function resolvePath(relativePath: string): string {
 
 /**
  * Resolves Cloudflare virtual modules (cloudflare:workers, cloudflare:workflows,
- * @cloudflare/containers) to re-exports from Lopata runtime binding implementations.
+ * cloudflare:sockets, @cloudflare/containers) to re-exports from Lopata runtime binding implementations.
  *
  * Only active in the SSR environment.
  */
@@ -79,6 +80,11 @@ export function waitUntil(promise) {
 				return `export { NonRetryableError } from "${workflow}";`
 			}
 
+			if (id === '\0cloudflare:sockets') {
+				const sockets = resolvePath('bindings/sockets')
+				return `export { connect } from "${sockets}";`
+			}
+
 			if (id === '\0@cloudflare/containers') {
 				const container = resolvePath('bindings/container')
 				return `
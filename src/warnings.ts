@@ -1,3 +1,5 @@
+import type { CompatibilityFlags } from './compat'
+
 export interface OptionalDep {
 	id: string
 	description: string
@@ -28,3 +30,36 @@ const resolved: OptionalDep[] = OPTIONAL_DEPS.map(dep => ({
 export function getOptionalDeps(): OptionalDep[] {
 	return resolved
 }
+
+/** Compatibility flags a worker's config uses that lopata can't honor (see compat.ts). */
+export interface CompatWarning {
+	worker: string
+	compatibilityDate: string
+	unknownFlags: string[]
+	unsupportedFlags: string[]
+}
+
+const compatWarnings = new Map<string, CompatWarning>()
+
+/** Record (and log once) the flags a worker's config uses that lopata can't honor. */
+export function registerCompatWarnings(worker: string, compat: CompatibilityFlags): void {
+	const unknownFlags = compat.unknownFlags()
+	const unsupportedFlags = compat.unsupportedFlags()
+	if (!unknownFlags.length && !unsupportedFlags.length) {
+		compatWarnings.delete(worker)
+		return
+	}
+	const previous = compatWarnings.get(worker)
+	compatWarnings.set(worker, { worker, compatibilityDate: compat.date, unknownFlags, unsupportedFlags })
+	if (previous) return
+	if (unknownFlags.length) {
+		console.warn(`[lopata] ${worker}: unknown compatibility flag(s) ${unknownFlags.join(', ')} — not emulated locally`)
+	}
+	if (unsupportedFlags.length) {
+		console.warn(`[lopata] ${worker}: compatibility flag(s) ${unsupportedFlags.join(', ')} are not supported locally`)
+	}
+}
+
+export function getCompatWarnings(): CompatWarning[] {
+	return [...compatWarnings.values()]
+}
@@ -3,11 +3,14 @@
 import './request-clone-fix' // global Request shim — must load before user code
 import { ForwardableEmailMessage } from '../bindings/email'
 import { createScheduledController } from '../bindings/scheduled'
-import { resolveEntrypointTarget } from '../bindings/service-binding'
+import { resolveEntrypointTarget, serveConnect } from '../bindings/service-binding'
+import { type TailItem, toTailEvents } from '../bindings/tail'
 import { CFWebSocket, type ResponseWithWebSocket } from '../bindings/websocket-pair'
-import { getDatabase } from '../db'
+import { compatFromConfig } from '../compat'
+import { getDatabase, setDataDir } from '../db'
 import { resolveEntrypointHandler } from '../entrypoint-handler'
-import { getActiveContext, runWithParentContext } from '../tracing/context'
+import { checkInvocationDepth, InvocationMeter, resolveLimits, setThreadLimits } from '../limits'
+import { getParentContext, runWithParentContext } from '../tracing/context'
 import { setTraceStoreOverride } from '../tracing/store'
 import { trackBackgroundWork, WorkerExecutionContext } from './execution-context'
 import type {
@@ -160,6 +163,10 @@ function dispatchServiceWorkerFetch(
 }
 
 async function initRuntime(init: WorkerInitConfig) {
+	// Main may have moved its data dir (`getPlatformProxy({ persist: { path } })`);
+	// thread-local `getDatabase()` users — `caches`, inbound email — must follow.
+	setDataDir(init.dataDir)
+
 	// Plugin import must run before user code so Bun.plugin().module() intercepts
 	// `cloudflare:workers` etc. and `globalThis.caches` is patched in.
 	const plugin = await import('../plugin')
@@ -167,11 +174,7 @@ async function initRuntime(init: WorkerInitConfig) {
 	// Route all tracing operations through main so the dashboard's subscribers fire.
 	setTraceStoreOverride(new RemoteTraceStore(post))
 
-	const getParent = (): ParentSpanContext | undefined => {
-		const active = getActiveContext()
-		return active ? { traceId: active.traceId, spanId: active.spanId } : undefined
-	}
-	const rpc = new RpcClient(post, getParent)
+	const rpc = new RpcClient(post, getParentContext)
 	const wsBridge = new WsGuestBridge<WorkerMessage>(post, {
 		remoteMessage: (wsId, data) => ({ type: 'ws-worker-send', wsId, data }),
 		// User-worker channel doesn't propagate wasClean — drop it (matches the
@@ -195,6 +198,14 @@ async function initRuntime(init: WorkerInitConfig) {
 		envWsBridge,
 	})
 	const { env } = built
+	const limits = resolveLimits(env, init.config)
+	setThreadLimits(limits)
+	const meter = limits ? new InvocationMeter(limits) : null
+	/** Apply the CPU and memory limits to one handler invocation. */
+	const metered = <T>(fn: () => Promise<T>): Promise<T> => meter ? meter.measure(fn) : fn()
+	/** A fetch or entrypoint call landing here is one more Worker invocation in its request's chain. */
+	const enterInvocation = (parent: ParentSpanContext | undefined): ParentSpanContext | undefined =>
+		parent && { ...parent, chain: { depth: (parent.chain?.depth ?? 0) + 1, loops: parent.chain?.loops ?? 0 } }
 
 	// Make env visible to top-level `import { env } from 'cloudflare:workers'`
 	// in the user module — that import resolves to `globalEnv` from `src/env.ts`,
@@ -216,6 +227,8 @@ async function initRuntime(init: WorkerInitConfig) {
 		rpc.handle(event.data as { type: string })
 	}
 
+	plugin.applyCompatibility(compatFromConfig(init.config), init.modulePath, init.baseDir)
+
 	const workerModule = await import(init.modulePath)
 	const defaultExport = workerModule.default
 
@@ -251,6 +264,7 @@ async function initRuntime(init: WorkerInitConfig) {
 		workerModule,
 		init.workerName,
 		(p) => trackBackgroundWork(post, p),
+		metered,
 	)
 
 	const invokeEntrypointRpc = async (
@@ -280,6 +294,12 @@ async function initRuntime(init: WorkerInitConfig) {
 		return { kind: 'value', value: member }
 	}
 
+	const invokeEntrypointConnect = (entrypoint: string | undefined, props?: Record<string, unknown>): number => {
+		const ctx = new WorkerExecutionContext(post, props)
+		const target = resolveEntrypointTarget(workerModule, entrypoint, ctx, env)
+		return serveConnect(entrypoint ?? init.workerName ?? 'default', target, env, ctx).port
+	}
+
 	const invokeWorkflowControl = async (bindingName: string, op: WorkflowControlOp): Promise<WorkflowControlResult> => {
 		const wf = built.workflows.find(w => w.bindingName === bindingName)
 		if (!wf) throw new Error(`Workflow binding "${bindingName}" not found`)
@@ -324,6 +344,14 @@ async function initRuntime(init: WorkerInitConfig) {
 		return { ok: true }
 	}
 
+	const callTail = async (events: TailItem[]): Promise<{ ok: boolean; noHandler?: boolean }> => {
+		const ctx = new WorkerExecutionContext(post)
+		const handler = resolveHandler('tail', ctx)
+		if (!handler) return { ok: false, noHandler: true }
+		await handler(toTailEvents(events), env, ctx)
+		return { ok: true }
+	}
+
 	// When `noHandler:true` the `error.message` field is a wire-format placeholder —
 	// the main-side executor resolves with `ok:false` rather than rejecting, so the
 	// message is never surfaced to user code.
@@ -337,7 +365,10 @@ async function initRuntime(init: WorkerInitConfig) {
 				try {
 					const reqBody = cmd.request.streamId !== undefined ? requestStreams.open(cmd.request.streamId) : undefined
 					const request = deserializeRequest(cmd.request, reqBody, abortController.signal)
-					const response = await runWithParentContext(cmd.parent, () => callFetch(request, cmd.props))
+					const response = await runWithParentContext(enterInvocation(cmd.parent), () => {
+						checkInvocationDepth()
+						return metered(() => callFetch(request, cmd.props))
+					})
 					const serialized = serializeResponse(response, wsBridge)
 					post({ type: 'fetch-result', id: cmd.id, response: serialized })
 					if (serialized.streamId !== undefined && response.body) {
@@ -355,7 +386,7 @@ async function initRuntime(init: WorkerInitConfig) {
 			}
 			case 'scheduled':
 				try {
-					const result = await runWithParentContext(cmd.parent, () => callScheduled(cmd.cronExpr, cmd.scheduledTime))
+					const result = await runWithParentContext(cmd.parent, () => metered(() => callScheduled(cmd.cronExpr, cmd.scheduledTime)))
 					if (!result.ok) post({ type: 'scheduled-error', id: cmd.id, error: { message: 'no-handler' }, noHandler: true })
 					else post({ type: 'scheduled-result', id: cmd.id })
 				} catch (e) {
@@ -364,13 +395,22 @@ async function initRuntime(init: WorkerInitConfig) {
 				break
 			case 'email':
 				try {
-					const result = await runWithParentContext(cmd.parent, () => callEmail(cmd.messageId, cmd.from, cmd.to, cmd.raw))
+					const result = await runWithParentContext(cmd.parent, () => metered(() => callEmail(cmd.messageId, cmd.from, cmd.to, cmd.raw)))
 					if (!result.ok) post({ type: 'email-error', id: cmd.id, error: { message: 'no-handler' }, noHandler: true })
 					else post({ type: 'email-result', id: cmd.id })
 				} catch (e) {
 					post({ type: 'email-error', id: cmd.id, error: serializeError(e) })
 				}
 				break
+			case 'tail':
+				try {
+					const result = await runWithParentContext(cmd.parent, () => metered(() => callTail(cmd.events)))
+					if (!result.ok) post({ type: 'tail-error', id: cmd.id, error: { message: 'no-handler' }, noHandler: true })
+					else post({ type: 'tail-result', id: cmd.id })
+				} catch (e) {
+					post({ type: 'tail-error', id: cmd.id, error: serializeError(e) })
+				}
+				break
 			case 'ws-client-message':
 				wsBridge.deliverClientMessage(cmd.wsId, cmd.data)
 				break
@@ -409,7 +449,10 @@ async function initRuntime(init: WorkerInitConfig) {
 				break
 			case 'entrypoint-rpc':
 				try {
-					const value = await runWithParentContext(cmd.parent, () => invokeEntrypointRpc(cmd.entrypoint, cmd.method, cmd.args, cmd.props))
+					const value = await runWithParentContext(enterInvocation(cmd.parent), () => {
+						checkInvocationDepth()
+						return metered(() => invokeEntrypointRpc(cmd.entrypoint, cmd.method, cmd.args, cmd.props))
+					})
 					post({ type: 'entrypoint-rpc-result', id: cmd.id, value })
 				} catch (e) {
 					post({ type: 'entrypoint-rpc-error', id: cmd.id, error: serializeError(e) })
@@ -427,6 +470,17 @@ async function initRuntime(init: WorkerInitConfig) {
 					post({ type: 'entrypoint-rpc-get-error', id: cmd.id, error: serializeError(e) })
 				}
 				break
+			case 'entrypoint-connect':
+				try {
+					const port = runWithParentContext(enterInvocation(cmd.parent), () => {
+						checkInvocationDepth()
+						return invokeEntrypointConnect(cmd.entrypoint, cmd.props)
+					})
+					post({ type: 'entrypoint-connect-result', id: cmd.id, port })
+				} catch (e) {
+					post({ type: 'entrypoint-connect-error', id: cmd.id, error: serializeError(e) })
+				}
+				break
 			case 'workflow-control':
 				try {
 					const result = await runWithParentContext(cmd.parent, () => invokeWorkflowControl(cmd.binding, cmd.op))
@@ -9,10 +9,11 @@
 
 import { dirname, resolve } from 'node:path'
 import { DurableObjectIdImpl } from '../bindings/durable-object'
+import type { TailItem } from '../bindings/tail'
 import { CFWebSocket, type ResponseWithWebSocket } from '../bindings/websocket-pair'
 import type { WranglerConfig } from '../config'
 import { getDataDir } from '../db'
-import { getActiveContext } from '../tracing/context'
+import { getParentContext } from '../tracing/context'
 import { getTraceStore } from '../tracing/store'
 import type {
 	BindingTarget,
@@ -68,6 +69,7 @@ export class WorkerThreadExecutor {
 	private _pending = new Map<number, Pending<SerializedResponse>>()
 	private _pendingHandlers = new Map<number, Pending<HandlerResult>>()
 	private _pendingRpc = new Map<number, Pending<unknown>>()
+	private _pendingConnect = new Map<number, Pending<number>>()
 	private _pendingRpcGet = new Map<number, Pending<{ kind: 'value'; value: unknown } | { kind: 'function' }>>()
 	private _pendingWorkflowControl = new Map<number, Pending<WorkflowControlResult>>()
 	private _nextId = 1
@@ -162,11 +164,13 @@ export class WorkerThreadExecutor {
 		for (const [, pending] of this._pending) pending.reject(err)
 		for (const [, pending] of this._pendingHandlers) pending.reject(err)
 		for (const [, pending] of this._pendingRpc) pending.reject(err)
+		for (const [, pending] of this._pendingConnect) pending.reject(err)
 		for (const [, pending] of this._pendingRpcGet) pending.reject(err)
 		for (const [, pending] of this._pendingWorkflowControl) pending.reject(err)
 		this._pending.clear()
 		this._pendingHandlers.clear()
 		this._pendingRpc.clear()
+		this._pendingConnect.clear()
 		this._pendingRpcGet.clear()
 		this._pendingWorkflowControl.clear()
 		this._pendingWaitUntil.clear()
@@ -235,7 +239,8 @@ export class WorkerThreadExecutor {
 				break
 			}
 			case 'scheduled-result':
-			case 'email-result': {
+			case 'email-result':
+			case 'tail-result': {
 				const p = this._pendingHandlers.get(msg.id)
 				if (p) {
 					this._pendingHandlers.delete(msg.id)
@@ -273,6 +278,21 @@ export class WorkerThreadExecutor {
 				p.reject(deserializeError(msg.error))
 				break
 			}
+			case 'entrypoint-connect-result': {
+				const p = this._pendingConnect.get(msg.id)
+				if (p) {
+					this._pendingConnect.delete(msg.id)
+					p.resolve(msg.port)
+				}
+				break
+			}
+			case 'entrypoint-connect-error': {
+				const p = this._pendingConnect.get(msg.id)
+				if (!p) break
+				this._pendingConnect.delete(msg.id)
+				p.reject(deserializeError(msg.error))
+				break
+			}
 			case 'workflow-control-result': {
 				const p = this._pendingWorkflowControl.get(msg.id)
 				if (p) {
@@ -289,7 +309,8 @@ export class WorkerThreadExecutor {
 				break
 			}
 			case 'scheduled-error':
-			case 'email-error': {
+			case 'email-error':
+			case 'tail-error': {
 				const p = this._pendingHandlers.get(msg.id)
 				if (!p) break
 				this._pendingHandlers.delete(msg.id)
@@ -380,7 +401,7 @@ export class WorkerThreadExecutor {
 	 *  this so a cron/email handler or inbound RPC firing just before reload isn't
 	 *  force-terminated mid-execution. */
 	pendingHandlerWork(): number {
-		return this._pendingHandlers.size + this._pendingRpc.size + this._pendingRpcGet.size + this._pendingWorkflowControl.size
+		return this._pendingHandlers.size + this._pendingRpc.size + this._pendingRpcGet.size + this._pendingConnect.size + this._pendingWorkflowControl.size
 	}
 
 	/** In-flight streamed bodies for the top-level fetch path: response bodies the
@@ -457,8 +478,7 @@ export class WorkerThreadExecutor {
 		// terminated Worker (a silent no-op) and the promise would never settle.
 		// Re-check after the await (mirrors the DO channel's `_sendCommand`).
 		if (this._disposed) throw new Error('Worker-thread executor disposed')
-		const active = getActiveContext()
-		const parent: ParentSpanContext | undefined = active ? { traceId: active.traceId, spanId: active.spanId } : undefined
+		const parent = getParentContext()
 		const id = this._nextId++
 		return new Promise<T>((resolve, reject) => {
 			map.set(id, { resolve, reject })
@@ -569,10 +589,20 @@ export class WorkerThreadExecutor {
 		}))
 	}
 
+	/** Have the worker accept one TCP connection for its `connect` handler; resolves with the loopback port. */
+	executeConnect(entrypoint: string | undefined, props?: Record<string, unknown>): Promise<number> {
+		return this._sendAndAwait(this._pendingConnect, (id, parent) => ({ type: 'entrypoint-connect', id, entrypoint, props, parent }))
+	}
+
 	executeEmail(messageId: string, from: string, to: string, raw: Uint8Array): Promise<HandlerResult> {
 		return this._sendAndAwait(this._pendingHandlers, (id, parent) => ({ type: 'email', id, messageId, from, to, raw, parent }))
 	}
 
+	/** Deliver a batch of TraceItems to the worker's `tail()` handler (it is a tail consumer). */
+	executeTail(events: TailItem[]): Promise<HandlerResult> {
+		return this._sendAndAwait(this._pendingHandlers, (id, parent) => ({ type: 'tail', id, events, parent }))
+	}
+
 	/** Run a dashboard workflow control op against the live worker-side binding. */
 	executeWorkflowControl(binding: string, op: WorkflowControlOp): Promise<WorkflowControlResult> {
 		return this._sendAndAwait(this._pendingWorkflowControl, (id, parent) => ({ type: 'workflow-control', id, binding, op, parent }))
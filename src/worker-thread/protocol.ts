@@ -6,15 +6,14 @@
  * terminate + respawn.
  */
 
+import type { TailItem } from '../bindings/tail'
 import type { WranglerConfig } from '../config'
+import type { ParentContext } from '../tracing/context'
 import type { TraceStore } from '../tracing/store'
 import type { SpanData, SpanEventData } from '../tracing/types'
 
 /** Parent span context handed to the worker so its spans nest under main's server span. */
-export interface ParentSpanContext {
-	traceId: string
-	spanId: string
-}
+export type ParentSpanContext = ParentContext
 
 export type TraceErrorPayload = Parameters<TraceStore['insertError']>[0]
 
@@ -32,6 +31,8 @@ export interface SerializedRequest {
 	 * it as the rebuilt Request's body.
 	 */
 	streamId?: number
+	/** The request's `cf` object, re-attached to the rebuilt Request. */
+	cf?: Record<string, unknown>
 }
 
 export interface SerializedResponse {
@@ -157,7 +158,7 @@ export interface WorkerInitConfig {
 }
 
 /** Names of the worker handlers we know how to invoke via RPC. */
-export type WorkerHandlerName = 'fetch' | 'scheduled' | 'email' | 'queue'
+export type WorkerHandlerName = 'fetch' | 'scheduled' | 'email' | 'queue' | 'tail'
 
 /**
  * Workflow control operation, routed to the *live* worker-side
@@ -393,6 +394,7 @@ export type WorkerCommand =
 	| { type: 'fetch'; id: number; request: SerializedRequest; parent?: ParentSpanContext; props?: Record<string, unknown> }
 	| { type: 'scheduled'; id: number; cronExpr: string; scheduledTime: number; parent?: ParentSpanContext }
 	| { type: 'email'; id: number; messageId: string; from: string; to: string; raw: Uint8Array; parent?: ParentSpanContext }
+	| { type: 'tail'; id: number; events: TailItem[]; parent?: ParentSpanContext }
 	| RpcCallReply
 	| RpcCallErrorReply
 	| RpcFetchReply
@@ -428,6 +430,16 @@ export type WorkerCommand =
 		props?: Record<string, unknown>
 		parent?: ParentSpanContext
 	}
+	// Service binding `connect()` into this worker: listen on a loopback port for
+	// one connection and run the entrypoint's `connect(socket)` handler on it.
+	// The reply carries the port, which the caller's socket dials directly.
+	| {
+		type: 'entrypoint-connect'
+		id: number
+		entrypoint: string | undefined
+		props?: Record<string, unknown>
+		parent?: ParentSpanContext
+	}
 	// Dashboard-initiated workflow control (create/terminate/pause/resume/
 	// restart/skipSleep/sendEvent + introspection reads). Routed to the worker
 	// because the live workflow state machine — abort controllers, event
@@ -496,11 +508,15 @@ export type WorkerMessage =
 	| { type: 'scheduled-error'; id: number; error: SerializedError; noHandler?: boolean }
 	| { type: 'email-result'; id: number }
 	| { type: 'email-error'; id: number; error: SerializedError; noHandler?: boolean }
+	| { type: 'tail-result'; id: number }
+	| { type: 'tail-error'; id: number; error: SerializedError; noHandler?: boolean }
 	| { type: 'entrypoint-rpc-result'; id: number; value: unknown }
 	| { type: 'entrypoint-rpc-error'; id: number; error: SerializedError }
 	| { type: 'entrypoint-rpc-get-result'; id: number; kind: 'value'; value: unknown }
 	| { type: 'entrypoint-rpc-get-result'; id: number; kind: 'function' }
 	| { type: 'entrypoint-rpc-get-error'; id: number; error: SerializedError }
+	| { type: 'entrypoint-connect-result'; id: number; port: number }
+	| { type: 'entrypoint-connect-error'; id: number; error: SerializedError }
 	| { type: 'workflow-control-result'; id: number; result: WorkflowControlResult }
 	| { type: 'workflow-control-error'; id: number; error: SerializedError }
 	| RpcCallRequest
@@ -1,5 +1,6 @@
 /** Request/Response serialization helpers shared between the worker bridges. */
 
+import { addCfProperty } from '../request-cf'
 import type { SerializedRequest, SerializedResponse } from './protocol'
 
 /**
@@ -12,7 +13,8 @@ import type { SerializedRequest, SerializedResponse } from './protocol'
 export function serializeRequestShell(request: Request): Omit<SerializedRequest, 'body' | 'streamId'> {
 	const headers: [string, string][] = []
 	request.headers.forEach((v, k) => headers.push([k, v]))
-	return { url: request.url, method: request.method, headers }
+	const cf = (request as { cf?: Record<string, unknown> }).cf
+	return cf ? { url: request.url, method: request.method, headers, cf: { ...cf } } : { url: request.url, method: request.method, headers }
 }
 
 export function deserializeRequest(
@@ -20,12 +22,13 @@ export function deserializeRequest(
 	body?: ReadableStream<Uint8Array> | null,
 	signal?: AbortSignal,
 ): Request {
-	return new Request(req.url, {
+	const request = new Request(req.url, {
 		method: req.method,
 		headers: req.headers,
 		body: body !== undefined ? body : req.body,
 		signal,
 	})
+	return req.cf ? addCfProperty(request, req.cf) : request
 }
 
 /**
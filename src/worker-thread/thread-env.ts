@@ -9,12 +9,14 @@
 import { Database } from 'bun:sqlite'
 import { existsSync, mkdirSync, readFileSync } from 'node:fs'
 import path from 'node:path'
-import { AiBinding } from '../bindings/ai'
+import { AiBinding, resolveAiProviderOptions } from '../bindings/ai'
 import { AiSearchNamespaceBinding } from '../bindings/ai-search'
 import { SqliteAnalyticsEngine } from '../bindings/analytics-engine'
 import { ArtifactsBinding } from '../bindings/artifacts'
 import { BrowserBinding } from '../bindings/browser'
 import { openD1Database } from '../bindings/d1'
+import { resolveD1ReplicaOptions } from '../bindings/d1-replicas'
+import { resolveD1TimeTravel } from '../bindings/d1-time-travel'
 import { DurableObjectIdImpl, hashIdFromName, randomUniqueIdHex } from '../bindings/durable-object'
 import { EmailMessage } from '../bindings/email'
 import { FlagshipBinding } from '../bindings/flagship'
@@ -23,9 +25,12 @@ import { ImagesBinding } from '../bindings/images'
 import { SqliteKVNamespace } from '../bindings/kv'
 import { MediaBinding } from '../bindings/media'
 import { FileR2Bucket } from '../bindings/r2'
+import { rateLimitBindings, SqliteRateLimiter } from '../bindings/rate-limit'
 import { makeBindingProxy } from '../bindings/rpc-stub'
-import { serviceBindingConnectError } from '../bindings/service-binding'
+import { LocalSecretsStore, SecretsStoreSecret } from '../bindings/secrets-store'
+import { openSocket, type SocketAddress, type SocketOptions } from '../bindings/sockets'
 import { StaticAssets } from '../bindings/static-assets'
+import { SqliteVectorizeIndex } from '../bindings/vectorize'
 import { VpcNetworkBinding } from '../bindings/vpc-network'
 import type { ResponseWithWebSocket } from '../bindings/websocket-pair'
 import { WorkerLoaderBinding } from '../bindings/worker-loader'
@@ -33,6 +38,7 @@ import { SqliteWorkflowBinding } from '../bindings/workflow'
 import type { WranglerConfig } from '../config'
 import { runMigrations } from '../db'
 import { parseDevVars } from '../env'
+import { countSubrequest, getThreadLimits, withConnection } from '../limits'
 import { warnCrossThreadRpcArgs, warnInvalidRpcArgs } from '../rpc-validate'
 import { getActiveContext } from '../tracing/context'
 import { instrumentBinding, instrumentD1 } from '../tracing/instrument'
@@ -113,8 +119,10 @@ export function buildThreadEnv({ config, baseDir, dataDir, rpc, envWsBridge, bro
 		})
 	}
 
+	const d1Replicas = config.d1_databases?.length ? resolveD1ReplicaOptions(env) : null
+	const d1TimeTravel = config.d1_databases?.length ? resolveD1TimeTravel(env) : false
 	for (const d1 of config.d1_databases ?? []) {
-		env[d1.binding] = instrumentD1(openD1Database(dataDir, d1.database_name), d1.binding)
+		env[d1.binding] = instrumentD1(openD1Database(dataDir, d1.database_name, d1Replicas, d1TimeTravel), d1.binding)
 	}
 
 	for (const producer of config.queues?.producers ?? []) {
@@ -157,7 +165,7 @@ export function buildThreadEnv({ config, baseDir, dataDir, rpc, envWsBridge, bro
 		const assetsDir = path.resolve(baseDir, config.assets.directory)
 		env[config.assets.binding] = instrumentBinding(
 			new StaticAssets(assetsDir, config.assets.html_handling, config.assets.not_found_handling),
-			{ type: 'assets', name: config.assets.binding, methods: ['fetch'] },
+			{ type: 'assets', name: config.assets.binding, methods: ['fetch'], countSubrequests: false },
 		)
 	}
 
@@ -192,7 +200,7 @@ export function buildThreadEnv({ config, baseDir, dataDir, rpc, envWsBridge, bro
 	if (config.ai) {
 		const accountId = typeof env.CLOUDFLARE_ACCOUNT_ID === 'string' ? env.CLOUDFLARE_ACCOUNT_ID : process.env.CLOUDFLARE_ACCOUNT_ID
 		const apiToken = typeof env.CLOUDFLARE_API_TOKEN === 'string' ? env.CLOUDFLARE_API_TOKEN : process.env.CLOUDFLARE_API_TOKEN
-		env[config.ai.binding] = instrumentBinding(new AiBinding(db, accountId, apiToken), {
+		env[config.ai.binding] = instrumentBinding(new AiBinding(db, accountId, apiToken, resolveAiProviderOptions(env, dataDir)), {
 			type: 'ai',
 			name: config.ai.binding,
 			methods: ['run', 'models'],
@@ -204,6 +212,7 @@ export function buildThreadEnv({ config, baseDir, dataDir, rpc, envWsBridge, bro
 			type: 'analytics_engine',
 			name: ae.binding,
 			methods: ['writeDataPoint'],
+			countSubrequests: false,
 		})
 	}
 
@@ -267,6 +276,34 @@ export function buildThreadEnv({ config, baseDir, dataDir, rpc, envWsBridge, bro
 		})
 	}
 
+	if (config.secrets_store_secrets?.length) {
+		const store = new LocalSecretsStore(dataDir)
+		for (const secret of config.secrets_store_secrets) {
+			env[secret.binding] = instrumentBinding(new SecretsStoreSecret(store, secret.binding, secret.store_id, secret.secret_name), {
+				type: 'secrets_store',
+				name: secret.binding,
+				methods: ['get'],
+			})
+		}
+	}
+
+	for (const vi of config.vectorize ?? []) {
+		env[vi.binding] = instrumentBinding(new SqliteVectorizeIndex(db, vi.index_name), {
+			type: 'vectorize',
+			name: vi.binding,
+			methods: ['describe', 'insert', 'upsert', 'query', 'queryById', 'getByIds', 'deleteByIds'],
+		})
+	}
+
+	for (const rl of rateLimitBindings(config)) {
+		env[rl.binding] = instrumentBinding(new SqliteRateLimiter(db, rl.namespaceId, rl.limit, rl.period), {
+			type: 'ratelimit',
+			name: rl.binding,
+			methods: ['limit'],
+			countSubrequests: false,
+		})
+	}
+
 	if (config.version_metadata) {
 		env[config.version_metadata.binding] = {
 			id: 'local-dev',
@@ -314,15 +351,17 @@ async function proxyFetch(
 
 /**
  * Per-top-level-request subrequest budget, counted on the WORKER side. The
- * main-side `ServiceBinding._checkSubrequestLimit` is effectively dead in thread
- * mode — every binding call arrives as its own RPC dispatch wrapped in
- * `runWithParentContext`, which re-seeds `count: 0`, so it never trips. The
- * worker's fetch context (seeded once per request and shared across all its
- * binding calls via AsyncLocalStorage) is where the budget actually accumulates.
+ * main-side `ServiceBinding._checkSubrequestLimit` skips calls that arrive as
+ * RPC dispatches (their counter is `inherited`), so each call counts once. The
+ * worker's fetch context (seeded once per request from its caller's count and
+ * shared across all its binding calls via AsyncLocalStorage) is where the budget
+ * accumulates. With opt-in limits on (`LOPATA_LIMITS`), the plan's budget applies
+ * instead; local bindings count through `instrumentBinding`.
  */
 const MAX_SUBREQUESTS = 1000
 
 function checkSubrequestLimit(): void {
+	if (getThreadLimits()) return countSubrequest()
 	const counter = getActiveContext()?.subrequests
 	if (!counter) return
 	counter.count++
@@ -341,7 +380,7 @@ function makeRpcProxy(
 		{
 			fetch: (input, init) => {
 				checkSubrequestLimit()
-				return proxyFetch(target, rpc, envWsBridge, input, init)
+				return withConnection(() => proxyFetch(target, rpc, envWsBridge, input, init))
 			},
 			call: (prop, args) => {
 				// Restore the in-process path's dev-time warning for args that won't
@@ -350,7 +389,7 @@ function makeRpcProxy(
 				warnInvalidRpcArgs(args, prop)
 				warnCrossThreadRpcArgs(args, prop)
 				checkSubrequestLimit()
-				return rpc.call(target, prop, args)
+				return withConnection(() => rpc.call(target, prop, args))
 			},
 			getProperty: prop => rpc.callGet(target, prop),
 		},
@@ -396,9 +435,14 @@ function makeDONamespaceProxy(bindingName: string, rpc: RpcClient, envWsBridge:
 }
 
 function makeServiceBindingProxy(bindingName: string, rpc: RpcClient, envWsBridge: WsGuestBridge<WorkerMessage>): unknown {
-	return makeRpcProxy({ binding: bindingName }, rpc, envWsBridge, {
-		connect: () => {
-			throw serviceBindingConnectError(bindingName)
+	const target: BindingTarget = { binding: bindingName }
+	return makeRpcProxy(target, rpc, envWsBridge, {
+		// Main asks the target worker to listen on a loopback port; the socket then
+		// connects to it directly instead of streaming bytes through main.
+		connect: (_address?: string | SocketAddress, options: SocketOptions = {}) => {
+			checkSubrequestLimit()
+			const endpoint = rpc.call(target, '_connectEndpoint', []) as Promise<SocketAddress>
+			return openSocket(endpoint, { allowHalfOpen: options.allowHalfOpen })
 		},
 	})
 }
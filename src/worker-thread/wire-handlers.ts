@@ -19,7 +19,8 @@ export function wireWorkflows(built: ThreadEnvBuilt, workerModule: Record<string
 /**
  * Spawn queue consumers in the worker thread. Shared SQLite means the consumer
  * can poll, manage leases, and apply ack/retry decisions locally — exactly
- * like the in-process flow — without any cross-thread RPC.
+ * like the in-process flow — without any cross-thread RPC. `measure` wraps each
+ * batch's handler call, so the opt-in CPU and memory limits apply to it.
  */
 export function startThreadQueueConsumers(
 	config: WranglerConfig,
@@ -28,9 +29,11 @@ export function startThreadQueueConsumers(
 	workerModule: Record<string, unknown>,
 	workerName?: string,
 	trackBatch?: (p: Promise<unknown>) => void,
+	measure?: (fn: () => Promise<void>) => Promise<void>,
 ): QueueConsumer[] {
-	const handler = resolveQueueHandler(workerModule)
-	if (!handler) return []
+	const queueHandler = resolveQueueHandler(workerModule)
+	if (!queueHandler) return []
+	const handler = measure ? (batch: unknown, env: unknown, ctx: unknown) => measure(() => queueHandler(batch, env, ctx)) : queueHandler
 	const consumers: QueueConsumer[] = []
 	for (const cfg of config.queues?.consumers ?? []) {
 		const consumer = new QueueConsumer(
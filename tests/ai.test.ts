@@ -1,6 +1,9 @@
 import { Database } from 'bun:sqlite'
 import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test'
-import { AiBinding } from '../src/bindings/ai'
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { AiBinding, aiFixtureKey, aiModelTask, resolveAiProviderOptions } from '../src/bindings/ai'
 import { runMigrations } from '../src/db'
 
 let db: Database
@@ -204,4 +207,101 @@ describe('AiBinding', () => {
 			expect(() => ai.toMarkdown()).toThrow('not supported in local dev')
 		})
 	})
+
+	describe('provider modes', () => {
+		let fixturesDir: string
+
+		beforeEach(() => {
+			fixturesDir = mkdtempSync(join(tmpdir(), 'ai-fixtures-test-'))
+		})
+
+		afterEach(() => {
+			rmSync(fixturesDir, { recursive: true, force: true })
+		})
+
+		test('fixture key ignores input key order', () => {
+			expect(aiFixtureKey('@cf/m', { a: 1, b: [1, { c: 2, d: 3 }] })).toBe(aiFixtureKey('@cf/m', { b: [1, { d: 3, c: 2 }], a: 1 }))
+			expect(aiFixtureKey('@cf/m', { a: 1 })).not.toBe(aiFixtureKey('@cf/other', { a: 1 }))
+		})
+
+		test('record stores the response and replay serves it without network', async () => {
+			mockFetch(() => Response.json({ result: { response: 'recorded' } }))
+			const recorder = new AiBinding(db, 'acc', 'tok', { mode: 'record', fixturesDir })
+			await recorder.run('@cf/meta/llama-3-8b-instruct', { prompt: 'hi' })
+			expect(readdirSync(fixturesDir)).toHaveLength(1)
+
+			const fetchSpy = mock(() => Response.json({}))
+			globalThis.fetch = fetchSpy as any
+			const replayer = new AiBinding(db, undefined, undefined, { mode: 'replay', fixturesDir })
+			const result = await replayer.run('@cf/meta/llama-3-8b-instruct', { prompt: 'hi' })
+			expect(result).toEqual({ response: 'recorded' })
+			expect(fetchSpy).not.toHaveBeenCalled()
+
+			const rows = db.query<any, []>('SELECT provider FROM ai_requests ORDER BY created_at').all()
+			expect(rows.map(r => r.provider).sort()).toEqual(['record', 'replay'])
+		})
+
+		test('record captures streamed SSE bodies for replay', async () => {
+			const sse = 'data: {"response":"Hello "}\n\ndata: {"response":"world"}\n\ndata: [DONE]\n\n'
+			mockFetch(() => new Response(sse))
+			const recorder = new AiBinding(db, 'acc', 'tok', { mode: 'record', fixturesDir })
+			const stream = await recorder.run('@cf/meta/llama-3-8b-instruct', { prompt: 'hi', stream: true }) as ReadableStream
+			expect(await new Response(stream).text()).toBe(sse)
+			// The fixture is written once the teed branch finishes draining.
+			await Bun.sleep(10)
+
+			const replayer = new AiBinding(db, undefined, undefined, { mode: 'replay', fixturesDir })
+			const replayed = await replayer.run('@cf/meta/llama-3-8b-instruct', { prompt: 'hi', stream: true }) as ReadableStream
+			expect(await new Response(replayed).text()).toBe(sse)
+		})
+
+		test('replay without a fixture throws a clear error', async () => {
+			const replayer = new AiBinding(db, undefined, undefined, { mode: 'replay', fixturesDir })
+			await expect(replayer.run('@cf/test/model', { prompt: 'missing' })).rejects.toThrow('No recorded Workers AI fixture')
+			const rows = db.query<any, []>('SELECT status, provider FROM ai_requests').all()
+			expect(rows[0]).toEqual({ status: 'error', provider: 'replay' })
+		})
+
+		test('stub returns stable unit-length embeddings', async () => {
+			const stub = new AiBinding(db, undefined, undefined, { mode: 'stub' })
+			const a = await stub.run('@cf/baai/bge-small-en-v1.5', { text: ['hello', 'world'] }) as { shape: number[]; data: number[][] }
+			const b = await stub.run('@cf/baai/bge-small-en-v1.5', { text: ['hello'] }) as { shape: number[]; data: number[][] }
+			expect(a.shape).toEqual([2, 384])
+			expect(a.data[0]).toEqual(b.data[0]!)
+			expect(a.data[0]).not.toEqual(a.data[1]!)
+			const norm = Math.sqrt(a.data[0]!.reduce((sum, v) => sum + v * v, 0))
+			expect(norm).toBeCloseTo(1, 6)
+		})
+
+		test('stub text generation supports streaming', async () => {
+			const stub = new AiBinding(db, undefined, undefined, { mode: 'stub' })
+			const result = await stub.run('@cf/meta/llama-3-8b-instruct', { prompt: 'Tell me a joke' }) as { response: string }
+			expect(result.response).toContain('Tell me a joke')
+
+			const stream = await stub.run('@cf/meta/llama-3-8b-instruct', { prompt: 'Tell me a joke', stream: true }) as ReadableStream
+			const text = await new Response(stream).text()
+			expect(text).toContain('data: {"response":')
+			expect(text.endsWith('data: [DONE]\n\n')).toBe(true)
+		})
+
+		test('stub image classification returns sorted label scores', async () => {
+			const stub = new AiBinding(db, undefined, undefined, { mode: 'stub' })
+			const result = await stub.run('@cf/microsoft/resnet-50', { image: [1, 2, 3] }) as { label: string; score: number }[]
+			expect(result.length).toBeGreaterThan(0)
+			expect(result[0]!.score).toBeGreaterThanOrEqual(result[1]!.score)
+			expect(result.reduce((sum, r) => sum + r.score, 0)).toBeCloseTo(1, 6)
+		})
+
+		test('model task detection', () => {
+			expect(aiModelTask('@cf/baai/bge-base-en-v1.5')).toBe('text-embeddings')
+			expect(aiModelTask('@cf/microsoft/resnet-50')).toBe('image-classification')
+			expect(aiModelTask('@cf/meta/llama-3.1-8b-instruct')).toBe('text-generation')
+		})
+
+		test('mode resolves from LOPATA_AI_MODE and rejects unknown values', () => {
+			expect(resolveAiProviderOptions({}, '/data').mode).toBe('remote')
+			expect(resolveAiProviderOptions({ LOPATA_AI_MODE: 'replay' }, '/data')).toEqual({ mode: 'replay', fixturesDir: join('/data', 'ai-fixtures') })
+			expect(() => resolveAiProviderOptions({ LOPATA_AI_MODE: 'offline' }, '/data')).toThrow('Invalid LOPATA_AI_MODE')
+		})
+	})
 })
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { X509Certificate } from 'node:crypto'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+	configuredHostnames,
+	createCertificateAuthority,
+	describeDevCertificates,
+	ensureDevCertificates,
+	issueServerCertificate,
+	removeDevCertificates,
+} from '../src/certs'
+
+const dirs: string[] = []
+
+function dataDir(): string {
+	const dir = mkdtempSync(join(tmpdir(), 'lopata-certs-'))
+	dirs.push(dir)
+	return dir
+}
+
+afterEach(() => {
+	for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+})
+
+describe('certificate issuance', () => {
+	test('server certificates are signed by the CA and cover DNS names, wildcards and IPs', () => {
+		const ca = createCertificateAuthority()
+		const caCert = new X509Certificate(ca.cert)
+		expect(caCert.ca).toBe(true)
+		expect(caCert.verify(caCert.publicKey)).toBe(true)
+
+		const server = new X509Certificate(issueServerCertificate(ca, ['localhost', '*.api.localhost', '127.0.0.1', '::1']).cert)
+		expect(server.ca).toBe(false)
+		expect(server.verify(caCert.publicKey)).toBe(true)
+		expect(server.checkIssued(caCert)).toBe(true)
+		expect(server.checkHost('localhost')).toBe('localhost')
+		expect(server.checkHost('eu.api.localhost')).toBe('*.api.localhost')
+		expect(server.checkHost('example.com')).toBeUndefined()
+		expect(server.checkIP('127.0.0.1')).toBe('127.0.0.1')
+		expect(server.checkIP('::1')).toBe('::1')
+	})
+
+	test('a TLS server with the certificate is trusted by a client that knows the CA', async () => {
+		const certs = ensureDevCertificates(dataDir())
+		const server = Bun.serve({ port: 0, hostname: '127.0.0.1', tls: { cert: certs.cert, key: certs.key }, fetch: () => new Response('secure') })
+		try {
+			const response = await fetch(`https://localhost:${server.port}/`, { tls: { ca: await Bun.file(certs.caPath).text() } })
+			expect(await response.text()).toBe('secure')
+		} finally {
+			server.stop(true)
+		}
+	})
+})
+
+describe('ensureDevCertificates', () => {
+	test('reuses the stored certificate and reissues it when a hostname is added', () => {
+		const dir = dataDir()
+		const first = ensureDevCertificates(dir, ['app.localhost'])
+		expect(first.issued).toBe(true)
+		expect(first.hostnames).toEqual(['localhost', '127.0.0.1', '::1', 'app.localhost'])
+
+		const again = ensureDevCertificates(dir, ['app.localhost'])
+		expect(again.issued).toBe(false)
+		expect(again.cert).toBe(first.cert)
+
+		const ca = readFileSync(first.caPath, 'utf8')
+		const extended = ensureDevCertificates(dir, ['app.localhost', '*.tenants.localhost'])
+		expect(extended.issued).toBe(true)
+		// The CA survives, so a CA the user already trusts keeps working.
+		expect(readFileSync(first.caPath, 'utf8')).toBe(ca)
+		expect(extended.cert.endsWith(ca)).toBe(true)
+		expect(describeDevCertificates(dir)?.hostnames).toContain('*.tenants.localhost')
+
+		removeDevCertificates(dir)
+		expect(describeDevCertificates(dir)).toBeNull()
+	})
+
+	test('configured hosts come from the top level, workers and the https block', () => {
+		expect(configuredHostnames(null)).toEqual([])
+		expect(configuredHostnames({
+			main: './wrangler.jsonc',
+			hosts: ['app.localhost'],
+			workers: [{ name: 'api', config: './api/wrangler.jsonc', hosts: ['*.api.localhost'] }],
+			https: { hosts: ['preview.localhost'] },
+		})).toEqual(['app.localhost', '*.api.localhost', 'preview.localhost'])
+	})
+})
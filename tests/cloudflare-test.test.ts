@@ -0,0 +1,15 @@
+import { expect, test } from 'bun:test'
+import { resolve } from 'node:path'
+
+const FIXTURE_DIR = resolve(import.meta.dir, 'fixtures/cloudflare-test-suite')
+
+// The suite needs its own preload (configureCloudflareTest) and a process whose
+// only cloudflare:test env is the fixture's, so it runs as a separate `bun test`.
+test('a vitest-pool-workers style suite passes under bun test', async () => {
+	const proc = Bun.spawn(['bun', 'test', './suite.ts'], { cwd: FIXTURE_DIR, stdout: 'pipe', stderr: 'pipe' })
+	const timer = setTimeout(() => proc.kill(), 60_000)
+	const [stdout, stderr, code] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited])
+	clearTimeout(timer)
+	if (code !== 0) throw new Error(`suite.ts failed (exit ${code}):\n${stdout}${stderr}`)
+	expect(stderr).toContain(' 0 fail')
+}, 90_000)
@@ -55,6 +55,24 @@ declare module 'cloudflare:workflows' {
 	}
 }
 
+declare module 'cloudflare:sockets' {
+	export interface Socket {
+		readonly readable: ReadableStream<Uint8Array>
+		readonly writable: WritableStream<ArrayBuffer | ArrayBufferView>
+		readonly opened: Promise<{ remoteAddress?: string; localAddress?: string }>
+		readonly closed: Promise<void>
+		readonly upgraded: boolean
+		readonly secureTransport: 'off' | 'on' | 'starttls'
+		close(): Promise<void>
+		startTls(options?: { expectedServerHostname?: string }): Socket
+	}
+
+	export function connect(
+		address: string | { hostname: string; port: number },
+		options?: { secureTransport?: 'off' | 'on' | 'starttls'; allowHalfOpen?: boolean },
+	): Socket
+}
+
 declare class WebSocketPair {
 	0: WebSocket
 	1: WebSocket;
@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test'
+import { CompatibilityFlags, compatFromConfig, isPrivateHost } from '../src/compat'
+
+describe('CompatibilityFlags.isEnabled', () => {
+	test('date-gated flag turns on at its default date', () => {
+		expect(new CompatibilityFlags('2021-11-02').isEnabled('formdata_parser_supports_files')).toBe(false)
+		expect(new CompatibilityFlags('2021-11-03').isEnabled('formdata_parser_supports_files')).toBe(true)
+	})
+
+	test('explicit flag enables before its date', () => {
+		expect(new CompatibilityFlags('2020-01-01', ['global_navigator']).isEnabled('global_navigator')).toBe(true)
+	})
+
+	test('disable flag overrides the date default', () => {
+		expect(new CompatibilityFlags('2024-01-01', ['no_global_navigator']).isEnabled('global_navigator')).toBe(false)
+	})
+
+	test('flag without a default date is only on when listed', () => {
+		expect(new CompatibilityFlags('2026-01-01').isEnabled('global_fetch_strictly_public')).toBe(false)
+		expect(new CompatibilityFlags('2026-01-01', ['global_fetch_strictly_public']).isEnabled('global_fetch_strictly_public')).toBe(true)
+	})
+
+	test('missing date defaults to today', () => {
+		expect(compatFromConfig({}).date).toBe(new Date().toISOString().slice(0, 10))
+	})
+})
+
+describe('CompatibilityFlags.nodeCompat', () => {
+	test('no flags → none', () => {
+		expect(new CompatibilityFlags('2025-01-01').nodeCompat).toBe('none')
+	})
+
+	test('nodejs_compat before the v2 date → v1', () => {
+		expect(new CompatibilityFlags('2024-09-22', ['nodejs_compat']).nodeCompat).toBe('v1')
+	})
+
+	test('nodejs_compat on or after the v2 date → v2', () => {
+		expect(new CompatibilityFlags('2024-09-23', ['nodejs_compat']).nodeCompat).toBe('v2')
+	})
+
+	test('no_nodejs_compat_v2 keeps v1', () => {
+		expect(new CompatibilityFlags('2025-01-01', ['nodejs_compat', 'no_nodejs_compat_v2']).nodeCompat).toBe('v1')
+	})
+
+	test('nodejs_compat_v2 explicitly → v2', () => {
+		expect(new CompatibilityFlags('2023-01-01', ['nodejs_compat_v2']).nodeCompat).toBe('v2')
+	})
+
+	test('nodejs_als alone → als', () => {
+		expect(new CompatibilityFlags('2025-01-01', ['nodejs_als']).nodeCompat).toBe('als')
+	})
+})
+
+describe('CompatibilityFlags.isNodeImportAllowed', () => {
+	test('non-builtins are always allowed', () => {
+		const compat = new CompatibilityFlags('2025-01-01')
+		expect(compat.isNodeImportAllowed('hono')).toBe(true)
+		expect(compat.isNodeImportAllowed('cloudflare:workers')).toBe(true)
+		expect(compat.isNodeImportAllowed('./util')).toBe(true)
+	})
+
+	test('builtins are refused without nodejs_compat', () => {
+		const compat = new CompatibilityFlags('2025-01-01')
+		expect(compat.isNodeImportAllowed('node:buffer')).toBe(false)
+		expect(compat.isNodeImportAllowed('fs')).toBe(false)
+		expect(compat.nodeImportError('node:buffer')).toContain('nodejs_compat')
+	})
+
+	test('v1 requires the node: prefix and a v1 module', () => {
+		const compat = new CompatibilityFlags('2024-01-01', ['nodejs_compat'])
+		expect(compat.isNodeImportAllowed('node:buffer')).toBe(true)
+		expect(compat.isNodeImportAllowed('buffer')).toBe(false)
+		expect(compat.isNodeImportAllowed('node:fs')).toBe(false)
+		expect(compat.nodeImportError('buffer')).toContain('"node:buffer"')
+		expect(compat.nodeImportError('node:fs')).toContain('nodejs_compat_v2')
+	})
+
+	test('v2 allows any builtin, prefixed or bare', () => {
+		const compat = new CompatibilityFlags('2025-01-01', ['nodejs_compat'])
+		expect(compat.isNodeImportAllowed('node:fs')).toBe(true)
+		expect(compat.isNodeImportAllowed('crypto')).toBe(true)
+	})
+
+	test('nodejs_als only allows node:async_hooks', () => {
+		const compat = new CompatibilityFlags('2025-01-01', ['nodejs_als'])
+		expect(compat.isNodeImportAllowed('node:async_hooks')).toBe(true)
+		expect(compat.isNodeImportAllowed('node:buffer')).toBe(false)
+	})
+})
+
+describe('flag diagnostics', () => {
+	test('unknownFlags lists unrecognized flags only', () => {
+		const compat = new CompatibilityFlags('2025-01-01', ['nodejs_compat', 'no_global_navigator', 'nodejs_compta'])
+		expect(compat.unknownFlags()).toEqual(['nodejs_compta'])
+	})
+
+	test('unsupportedFlags lists known flags lopata does not emulate', () => {
+		const compat = new CompatibilityFlags('2025-01-01', ['enable_ctx_exports', 'rpc'])
+		expect(compat.unsupportedFlags()).toEqual(['enable_ctx_exports'])
+	})
+})
+
+describe('isPrivateHost', () => {
+	test('loopback and private ranges', () => {
+		for (const host of ['localhost', 'api.localhost', '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.0.1', '[::1]', 'fd00::1']) {
+			expect(isPrivateHost(host)).toBe(true)
+		}
+	})
+
+	test('public hosts', () => {
+		for (const host of ['example.com', '8.8.8.8', '172.32.0.1', '192.169.0.1', '2001:db8::1']) {
+			expect(isPrivateHost(host)).toBe(false)
+		}
+	})
+})
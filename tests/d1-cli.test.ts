@@ -0,0 +1,91 @@
+import { Database } from 'bun:sqlite'
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createMigration, exportD1Sql, listMigrations } from '../src/cli/d1'
+
+const dbConfig = { binding: 'DB', database_name: 'app', database_id: 'x' }
+
+let baseDir: string
+
+beforeEach(() => {
+	baseDir = mkdtempSync(join(tmpdir(), 'lopata-d1-cli-'))
+})
+
+function seed(db: Database): void {
+	db.run('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, avatar BLOB)')
+	db.run('CREATE INDEX users_name ON users (name)')
+	db.run('CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT)')
+	db.run("INSERT INTO users (name, avatar) VALUES ('o''neil', X'00ff'), (NULL, NULL)")
+	db.run("INSERT INTO posts (title) VALUES ('hello')")
+}
+
+describe('exportD1Sql', () => {
+	test('dumps schema and data that import back into an empty database', () => {
+		const db = new Database(':memory:')
+		seed(db)
+		const sql = exportD1Sql(db)
+		expect(sql).toContain("INSERT INTO \"users\" VALUES(1,'o''neil',X'00ff');")
+		expect(sql.indexOf('CREATE INDEX users_name')).toBeGreaterThan(sql.indexOf('INSERT INTO "posts"'))
+
+		const copy = new Database(':memory:')
+		copy.exec(sql)
+		expect(copy.query('SELECT id, name, hex(avatar) AS avatar FROM users ORDER BY id').all()).toEqual([
+			{ id: 1, name: "o'neil", avatar: '00FF' },
+			{ id: 2, name: null, avatar: '' },
+		])
+		copy.run("INSERT INTO users (name) VALUES ('next')")
+		expect(copy.query("SELECT id FROM users WHERE name = 'next'").get()).toEqual({ id: 3 })
+	})
+
+	test('--no-data, --no-schema and --table narrow the dump', () => {
+		const db = new Database(':memory:')
+		seed(db)
+		expect(exportD1Sql(db, { data: false })).not.toContain('INSERT')
+		expect(exportD1Sql(db, { schema: false })).not.toContain('CREATE')
+
+		const postsOnly = exportD1Sql(db, { tables: ['posts'] })
+		expect(postsOnly).toContain('CREATE TABLE posts')
+		expect(postsOnly).not.toContain('users')
+		expect(() => exportD1Sql(db, { tables: ['nope'] })).toThrow('Table(s) not found: nope')
+	})
+
+	test('refuses databases with virtual tables', () => {
+		const db = new Database(':memory:')
+		db.run('CREATE VIRTUAL TABLE docs USING fts5(body)')
+		expect(() => exportD1Sql(db)).toThrow('virtual tables')
+	})
+})
+
+describe('migrations', () => {
+	test('create numbers files after the highest existing one', () => {
+		const dir = join(baseDir, 'migrations')
+		expect(createMigration(dbConfig, baseDir, 'create users')).toBe(join(dir, '0001_create_users.sql'))
+		expect(readFileSync(join(dir, '0001_create_users.sql'), 'utf-8')).toStartWith('-- Migration number: 0001')
+
+		const custom = { ...dbConfig, migrations_dir: 'db/migrations' }
+		mkdirSync(join(baseDir, 'db/migrations'), { recursive: true })
+		createMigration(custom, baseDir, 'a')
+		createMigration(custom, baseDir, 'b')
+		expect(readdirSync(join(baseDir, 'db/migrations')).sort()).toEqual(['0001_a.sql', '0002_b.sql'])
+	})
+
+	test('list shows applied and pending migrations', () => {
+		createMigration(dbConfig, baseDir, 'one')
+		createMigration(dbConfig, baseDir, 'two')
+		const dataDir = join(baseDir, '.lopata')
+		expect(listMigrations(dbConfig, dataDir, baseDir).map(m => m.appliedAt)).toEqual([null, null])
+
+		mkdirSync(join(dataDir, 'd1'), { recursive: true })
+		const db = new Database(join(dataDir, 'd1', 'app.sqlite'), { create: true })
+		db.run('CREATE TABLE d1_migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE, applied_at DATETIME NOT NULL)')
+		db.run("INSERT INTO d1_migrations (name, applied_at) VALUES ('0001_one.sql', '2026-03-01 12:00:00')")
+		db.close()
+
+		expect(listMigrations(dbConfig, dataDir, baseDir)).toEqual([
+			{ name: '0001_one.sql', appliedAt: '2026-03-01 12:00:00' },
+			{ name: '0002_two.sql', appliedAt: null },
+		])
+	})
+})
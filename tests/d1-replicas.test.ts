@@ -0,0 +1,101 @@
+import { Database } from 'bun:sqlite'
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { LocalD1Database } from '../src/bindings/d1'
+import { D1_PRIMARY_REGION, resolveD1ReplicaOptions } from '../src/bindings/d1-replicas'
+import { TestClock } from '../src/testing/clock'
+
+let clock: TestClock
+let d1: LocalD1Database
+
+function names(result: { results: { name: string }[] }): string[] {
+	return result.results.map(r => r.name)
+}
+
+beforeEach(async () => {
+	clock = new TestClock(new Date('2026-03-01T12:00:00Z'))
+	d1 = new LocalD1Database(new Database(':memory:'), null, { lagMs: [1000] }, clock)
+	await d1.exec('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+	clock.advance(5000)
+})
+
+describe('D1 read replicas', () => {
+	test('unconstrained session reads lag behind the primary', async () => {
+		await d1.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+
+		const result = await d1.withSession().prepare('SELECT name FROM users').all<{ name: string }>()
+		expect(names(result)).toEqual([])
+		expect(result.meta.served_by_primary).toBe(false)
+		expect(result.meta.served_by_region).not.toBe(D1_PRIMARY_REGION)
+
+		clock.advance(1000)
+		expect(names(await d1.withSession().prepare('SELECT name FROM users').all<{ name: string }>())).toEqual(['alice'])
+	})
+
+	test('queries outside a session go to the primary', async () => {
+		await d1.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		const result = await d1.prepare('SELECT name FROM users').all<{ name: string }>()
+		expect(names(result)).toEqual(['alice'])
+		expect(result.meta.served_by_primary).toBe(true)
+		expect(result.meta.served_by_region).toBe(D1_PRIMARY_REGION)
+	})
+
+	test('a session reads its own writes', async () => {
+		const session = d1.withSession()
+		const write = await session.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		expect(write.meta.served_by_primary).toBe(true)
+
+		const read = await session.prepare('SELECT name FROM users').all<{ name: string }>()
+		expect(names(read)).toEqual(['alice'])
+		expect(read.meta.served_by_primary).toBe(false)
+	})
+
+	test('a bookmark carries consistency into a new session', async () => {
+		const writer = d1.withSession()
+		await writer.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		const bookmark = writer.getBookmark()!
+
+		expect(names(await d1.withSession().prepare('SELECT name FROM users').all<{ name: string }>())).toEqual([])
+		const resumed = d1.withSession(bookmark)
+		expect(names(await resumed.prepare('SELECT name FROM users').all<{ name: string }>())).toEqual(['alice'])
+		expect(resumed.getBookmark()).toBe(bookmark)
+	})
+
+	test('first-primary sends the first query to the primary', async () => {
+		await d1.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		const session = d1.withSession('first-primary')
+		const first = await session.prepare('SELECT name FROM users').all<{ name: string }>()
+		expect(first.meta.served_by_primary).toBe(true)
+		expect(names(first)).toEqual(['alice'])
+
+		// Later reads may use a replica, but never one older than the first read.
+		const second = await session.prepare('SELECT name FROM users').all<{ name: string }>()
+		expect(second.meta.served_by_primary).toBe(false)
+		expect(names(second)).toEqual(['alice'])
+	})
+
+	test('read-only batches in a session run on the replica', async () => {
+		await d1.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		const session = d1.withSession()
+		const [result] = await session.batch([session.prepare('SELECT name FROM users')])
+		expect(result!.meta.served_by_primary).toBe(false)
+		expect(result!.results).toEqual([])
+	})
+
+	test('without replication every query reports the primary', async () => {
+		const plain = new LocalD1Database(new Database(':memory:'))
+		const result = await plain.withSession().prepare('SELECT 1 AS one').all()
+		expect(result.meta.served_by_primary).toBe(true)
+		expect(result.meta.served_by_region).toBe(D1_PRIMARY_REGION)
+	})
+})
+
+describe('resolveD1ReplicaOptions', () => {
+	test('reads replica count and per-replica lag from env', () => {
+		expect(resolveD1ReplicaOptions({})).toBeNull()
+		expect(resolveD1ReplicaOptions({ LOPATA_D1_REPLICAS: '0' })).toBeNull()
+		expect(resolveD1ReplicaOptions({ LOPATA_D1_REPLICAS: '2' })).toEqual({ lagMs: [1000, 1000] })
+		expect(resolveD1ReplicaOptions({ LOPATA_D1_REPLICAS: '3', LOPATA_D1_REPLICA_LAG_MS: '100, 5000' })).toEqual({ lagMs: [100, 5000, 5000] })
+		expect(() => resolveD1ReplicaOptions({ LOPATA_D1_REPLICAS: 'many' })).toThrow('Invalid LOPATA_D1_REPLICAS')
+		expect(() => resolveD1ReplicaOptions({ LOPATA_D1_REPLICAS: '1', LOPATA_D1_REPLICA_LAG_MS: 'x' })).toThrow('Invalid LOPATA_D1_REPLICA_LAG_MS')
+	})
+})
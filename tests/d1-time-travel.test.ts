@@ -0,0 +1,174 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test'
+import { mkdtempSync, readdirSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { LocalD1Database, openD1Database } from '../src/bindings/d1'
+import {
+	D1Journal,
+	d1JournalPath,
+	parseD1Bookmark,
+	resolveD1TimeTravel,
+	restoreD1Database,
+	TIME_TRAVEL_RETENTION_MS,
+} from '../src/bindings/d1-time-travel'
+
+const T0 = new Date('2026-03-01T12:00:00Z').getTime()
+
+let dataDir: string
+let db: Database
+let journal: D1Journal
+
+beforeEach(() => {
+	dataDir = mkdtempSync(join(tmpdir(), 'lopata-d1-tt-'))
+	db = new Database(join(dataDir, 'main.sqlite'), { create: true })
+	db.run('PRAGMA journal_mode=WAL')
+	journal = new D1Journal(d1JournalPath(dataDir, 'main'))
+	setSystemTime(T0)
+})
+
+afterEach(() => {
+	setSystemTime()
+	journal.close()
+	db.close()
+})
+
+function names(target: Database): string[] {
+	return target.query<{ name: string }, []>('SELECT name FROM users ORDER BY id').all().map(r => r.name)
+}
+
+describe('D1Journal', () => {
+	test('only records a new entry when the database changed', () => {
+		db.run('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+		const first = journal.record(db, T0)
+		expect(journal.record(db, T0 + 1)).toBe(first)
+
+		db.run("INSERT INTO users (name) VALUES ('alice')")
+		const second = journal.record(db, T0 + 2)
+		expect(second > first).toBe(true)
+		expect(parseD1Bookmark(second)).toBe(parseD1Bookmark(first)! + 1)
+		expect(journal.count()).toBe(2)
+	})
+
+	test('restores data and schema, keeping an undo bookmark', () => {
+		db.run('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+		db.run("INSERT INTO users (name) VALUES ('alice'), ('bob')")
+		const good = journal.record(db, T0)
+
+		db.run('DELETE FROM users')
+		db.run('CREATE TABLE junk (x)')
+		db.run('CREATE INDEX users_name ON users (name)')
+
+		const { bookmark, previousBookmark } = restoreD1Database(db, journal, good)
+		expect(names(db)).toEqual(['alice', 'bob'])
+		expect(db.query("SELECT name FROM sqlite_master WHERE name IN ('junk', 'users_name')").all()).toEqual([])
+		expect(bookmark > previousBookmark).toBe(true)
+		db.run("INSERT INTO users (name) VALUES ('carol')")
+		expect(db.query<{ id: number }, []>("SELECT id FROM users WHERE name = 'carol'").get()!.id).toBe(3)
+
+		restoreD1Database(db, journal, previousBookmark)
+		expect(names(db)).toEqual([])
+		expect(db.query("SELECT name FROM sqlite_master WHERE name = 'junk'").all()).toHaveLength(1)
+	})
+
+	test('entryAt and find look up bookmarks', () => {
+		db.run('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+		const first = journal.record(db, T0)
+		db.run("INSERT INTO users (name) VALUES ('alice')")
+		const second = journal.record(db, T0 + 60_000)
+
+		expect(journal.entryAt(T0 - 1)).toBeNull()
+		expect(journal.entryAt(T0 + 30_000)!.bookmark).toBe(first)
+		expect(journal.entryAt(T0 + 60_000)!.bookmark).toBe(second)
+		expect(journal.find(second)!.createdAt).toBe(T0 + 60_000)
+		expect(journal.find('nope')).toBeNull()
+		expect(() => restoreD1Database(db, journal, 'nope')).toThrow('Unknown bookmark "nope"')
+	})
+
+	test('prunes entries past the retention window without losing the oldest kept state', () => {
+		db.run('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+		db.run("INSERT INTO users (name) VALUES ('alice')")
+		journal.record(db, T0)
+		db.run("INSERT INTO users (name) VALUES ('bob')")
+		const kept = journal.record(db, T0 + 1000)
+		db.run("INSERT INTO users (name) VALUES ('carol')")
+		setSystemTime(T0 + TIME_TRAVEL_RETENTION_MS + 500)
+		journal.record(db)
+
+		expect(journal.count()).toBe(2)
+		expect(journal.oldest()!.bookmark).toBe(kept)
+		restoreD1Database(db, journal, kept)
+		expect(names(db)).toEqual(['alice', 'bob'])
+	})
+})
+
+describe('D1 session bookmarks', () => {
+	test('writes through the binding are journaled with increasing bookmarks', async () => {
+		const d1 = openD1Database(dataDir, 'app', null, true)
+		await d1.exec('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)')
+		const session = d1.withSession()
+		expect(session.getBookmark()).toBeNull()
+
+		await session.prepare('SELECT * FROM users').all()
+		const afterRead = session.getBookmark()!
+		expect(afterRead).not.toBeNull()
+
+		await session.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		const afterWrite = session.getBookmark()!
+		expect(afterWrite > afterRead).toBe(true)
+
+		await session.batch([session.prepare('INSERT INTO users (name) VALUES (?)').bind('bob')])
+		expect(session.getBookmark()! > afterWrite).toBe(true)
+
+		expect(readdirSync(join(dataDir, 'd1-time-travel'))).toContain('app.sqlite')
+	})
+
+	test('writes are journaled lazily, when a bookmark is asked for', async () => {
+		const d1 = openD1Database(dataDir, 'app', null, true)
+		const session = d1.withSession()
+		await session.prepare('CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT)').run()
+		const created = session.getBookmark()!
+
+		const appJournal = new D1Journal(d1JournalPath(dataDir, 'app'))
+		const entries = appJournal.count()
+		await session.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		await session.prepare('INSERT INTO users (name) VALUES (?)').bind('bob').run()
+		expect(appJournal.count()).toBe(entries)
+
+		const bookmark = session.getBookmark()!
+		expect(bookmark > created).toBe(true)
+		expect(appJournal.count()).toBe(entries + 1)
+		expect(appJournal.head()!.bookmark).toBe(bookmark)
+		appJournal.close()
+	})
+
+	test('journaling is off unless LOPATA_D1_TIME_TRAVEL is set', async () => {
+		const d1 = openD1Database(dataDir, 'app')
+		await d1.exec('CREATE TABLE t (x)')
+		const session = d1.withSession()
+		await session.prepare('INSERT INTO t VALUES (1)').run()
+		expect(session.getBookmark()).not.toBeNull()
+		expect(readdirSync(join(dataDir, 'd1-time-travel'))).not.toContain('app.sqlite')
+
+		expect(resolveD1TimeTravel({})).toBe(false)
+		expect(resolveD1TimeTravel({ LOPATA_D1_TIME_TRAVEL: '1' })).toBe(true)
+		expect(resolveD1TimeTravel({ LOPATA_D1_TIME_TRAVEL: 'false' })).toBe(false)
+		expect(() => resolveD1TimeTravel({ LOPATA_D1_TIME_TRAVEL: 'yes' })).toThrow('Invalid LOPATA_D1_TIME_TRAVEL')
+	})
+
+	test('sessions without a journal still get monotonic bookmarks', async () => {
+		const d1 = new LocalD1Database(new Database(':memory:'))
+		await d1.exec('CREATE TABLE t (x)')
+		const session = d1.withSession('first-primary')
+		await session.prepare('SELECT * FROM t').all()
+		const before = session.getBookmark()!
+		await session.prepare('INSERT INTO t VALUES (1)').run()
+		expect(session.getBookmark()! > before).toBe(true)
+	})
+
+	test('withSession(bookmark) starts from that bookmark', () => {
+		const d1 = new LocalD1Database(new Database(':memory:'))
+		const bookmark = '00000005-000000000001'
+		expect(d1.withSession(bookmark).getBookmark()).toBe(bookmark)
+	})
+})
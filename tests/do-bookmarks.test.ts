@@ -0,0 +1,233 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test'
+import { existsSync, mkdtempSync, readdirSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { BOOKMARK_CAPTURE_INTERVAL_MS, BOOKMARK_RETENTION_MS, DurableObjectBookmarks } from '../src/bindings/do-bookmarks'
+import {
+	DurableObjectBase,
+	DurableObjectIdImpl,
+	DurableObjectNamespaceImpl,
+	DurableObjectStateImpl,
+	restoreDurableObjectBookmark,
+} from '../src/bindings/durable-object'
+import { runMigrations } from '../src/db'
+
+const T0 = new Date('2026-03-01T12:00:00Z').getTime()
+const ID = new DurableObjectIdImpl('a'.repeat(64))
+
+let db: Database
+let dataDir: string
+
+function newState(): DurableObjectStateImpl {
+	return new DurableObjectStateImpl(ID, db, 'Counter', dataDir)
+}
+
+/** Run `fn` as a request against the state, so the bookmark snapshot happens on exit like in production. */
+async function request(state: DurableObjectStateImpl, fn: () => unknown): Promise<void> {
+	await state._enter()
+	try {
+		await fn()
+	} finally {
+		state._exit()
+	}
+}
+
+function rows(state: DurableObjectStateImpl): unknown[] {
+	return state.storage.sql.exec('SELECT id, label FROM items ORDER BY id').toArray()
+}
+
+beforeEach(() => {
+	db = new Database(':memory:')
+	runMigrations(db)
+	dataDir = mkdtempSync(join(tmpdir(), 'lopata-bookmarks-'))
+	setSystemTime(T0)
+})
+
+afterEach(() => {
+	setSystemTime()
+})
+
+describe('DO bookmarks', () => {
+	test('getCurrentBookmark only changes after a write', async () => {
+		const state = newState()
+		const first = await state.storage.getCurrentBookmark()
+		expect(await state.storage.getCurrentBookmark()).toBe(first)
+
+		setSystemTime(T0 + 1000)
+		await state.storage.put('n', 1)
+		const second = await state.storage.getCurrentBookmark()
+		expect(second).not.toBe(first)
+		expect(second > first).toBe(true)
+	})
+
+	test('requests that write take a snapshot when they finish', async () => {
+		const state = newState()
+		await request(state, () => state.storage.get('n'))
+		expect(new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir).list()).toHaveLength(0)
+
+		await request(state, () => state.storage.kv.put('n', 1))
+		expect(new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir).list()).toHaveLength(1)
+	})
+
+	test('snapshots after requests are taken at most once per capture interval', async () => {
+		const state = newState()
+		const bookmarks = new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir)
+		await request(state, () => state.storage.put('n', 1))
+		setSystemTime(T0 + 1000)
+		await request(state, () => state.storage.put('n', 2))
+		await request(state, () => state.storage.put('n', 3))
+		expect(bookmarks.list()).toHaveLength(1)
+
+		setSystemTime(T0 + BOOKMARK_CAPTURE_INTERVAL_MS)
+		await request(state, () => state.storage.get('n'))
+		expect(bookmarks.list()).toHaveLength(2)
+
+		// Asking for the current bookmark snapshots pending writes right away.
+		setSystemTime(T0 + BOOKMARK_CAPTURE_INTERVAL_MS + 1000)
+		await request(state, () => state.storage.put('n', 4))
+		expect(bookmarks.list()).toHaveLength(2)
+		expect(await state.storage.getCurrentBookmark()).toBe(bookmarks.latest()!.bookmark)
+		expect(bookmarks.list()).toHaveLength(3)
+
+		setSystemTime(T0 + BOOKMARK_CAPTURE_INTERVAL_MS + 2000)
+		await request(state, () => state.storage.put('n', 5))
+		state._flushBookmarks()
+		expect(bookmarks.list()).toHaveLength(4)
+		restoreDurableObjectBookmark(db, 'Counter', ID.toString(), dataDir, bookmarks.list()[2]!.bookmark)
+		expect(await newState().storage.get('n')).toBe(3)
+	})
+
+	test('a session that ended before its snapshot still gets a current bookmark with its writes', async () => {
+		const state = newState()
+		await request(state, () => state.storage.put('n', 1))
+		setSystemTime(T0 + 1000)
+		await request(state, () => state.storage.put('n', 2))
+
+		// No flush: the next session has to notice the unsnapshotted write itself.
+		setSystemTime(T0 + 2000)
+		const next = newState()
+		const bookmark = await next.storage.getCurrentBookmark()
+		expect(bookmark > new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir).list()[1]!.bookmark).toBe(true)
+		await request(next, () => next.storage.put('n', 3))
+		await next.storage.onNextSessionRestoreBookmark(bookmark)
+		expect(await newState().storage.get('n')).toBe(2)
+	})
+
+	test('onNextSessionRestoreBookmark rolls KV and SQL back when the object restarts', async () => {
+		const state = newState()
+		await request(state, () => {
+			state.storage.sql.exec('CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT)')
+			state.storage.sql.exec('CREATE INDEX items_label ON items (label)')
+			state.storage.sql.exec("INSERT INTO items (label) VALUES ('a'), ('b')")
+			return state.storage.put('count', 2)
+		})
+
+		setSystemTime(T0 + 60_000)
+		const good = await state.storage.getBookmarkForTime(T0 + 30_000)
+		await request(state, () => {
+			state.storage.sql.exec('DELETE FROM items')
+			state.storage.sql.exec('CREATE TABLE junk (x)')
+			return state.storage.put('count', 0)
+		})
+
+		const undo = await state.storage.onNextSessionRestoreBookmark(good)
+		expect(undo > good).toBe(true)
+		// Nothing changes until the next session.
+		expect(await state.storage.get('count')).toBe(0)
+
+		const next = newState()
+		expect(await next.storage.get('count')).toBe(2)
+		expect(rows(next)).toEqual([{ id: 1, label: 'a' }, { id: 2, label: 'b' }])
+		expect(next.storage.sql.exec("SELECT name FROM sqlite_master WHERE type = 'index'").toArray()).toEqual([{ name: 'items_label' }])
+		expect(next.storage.sql.exec("SELECT name FROM sqlite_master WHERE name = 'junk'").toArray()).toEqual([])
+		next.storage.sql.exec("INSERT INTO items (label) VALUES ('c')")
+		expect(next.storage.sql.exec("SELECT id FROM items WHERE label = 'c'").one()).toEqual({ id: 3 })
+
+		// The restore is applied once.
+		await next.storage.put('count', 5)
+		expect(await newState().storage.get('count')).toBe(5)
+	})
+
+	test('getBookmarkForTime validates the time', async () => {
+		const state = newState()
+		await request(state, () => state.storage.put('n', 1))
+		setSystemTime(T0 + 10_000)
+
+		await expect(state.storage.getBookmarkForTime(T0 - 1)).rejects.toThrow('No bookmark exists for')
+		await expect(state.storage.getBookmarkForTime(T0 - BOOKMARK_RETENTION_MS)).rejects.toThrow('more than 30 days')
+		expect(await state.storage.getBookmarkForTime(new Date(T0 + 5_000))).toBe(await state.storage.getCurrentBookmark())
+		await expect(state.storage.onNextSessionRestoreBookmark('nope')).rejects.toThrow('Unknown bookmark "nope"')
+	})
+
+	test('bookmarks past the retention window are pruned with their SQL copies', async () => {
+		const state = newState()
+		await request(state, () => state.storage.sql.exec('CREATE TABLE t (x)'))
+		const dir = join(dataDir, 'do-bookmarks', 'Counter', ID.toString())
+		expect(readdirSync(dir)).toHaveLength(1)
+
+		setSystemTime(T0 + BOOKMARK_RETENTION_MS + 1)
+		await request(state, () => state.storage.sql.exec('INSERT INTO t VALUES (1)'))
+		const bookmarks = new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir).list()
+		expect(bookmarks).toHaveLength(1)
+		expect(readdirSync(dir)).toEqual([`${bookmarks[0]!.bookmark}.sqlite`])
+	})
+
+	test('restoreDurableObjectBookmark keeps an undo point', async () => {
+		const state = newState()
+		await request(state, () => state.storage.put('v', 'old'))
+		const old = await state.storage.getCurrentBookmark()
+		setSystemTime(T0 + 1000)
+		await request(state, () => state.storage.put('v', 'new'))
+
+		setSystemTime(T0 + 2000)
+		restoreDurableObjectBookmark(db, 'Counter', ID.toString(), dataDir, old)
+		expect(await newState().storage.get('v')).toBe('old')
+
+		const bookmarks = new DurableObjectBookmarks(db, 'Counter', ID.toString(), dataDir)
+		const undo = bookmarks.list()[1]!.bookmark
+		restoreDurableObjectBookmark(db, 'Counter', ID.toString(), dataDir, undo)
+		expect(await newState().storage.get('v')).toBe('new')
+	})
+})
+
+describe('DurableObjectNamespaceImpl bookmarks', () => {
+	class Counter extends DurableObjectBase {
+		async increment(): Promise<number> {
+			const n = ((await this.ctx.storage.get<number>('n')) ?? 0) + 1
+			await this.ctx.storage.put('n', n)
+			return n
+		}
+	}
+
+	test('restoreInstance restarts a running instance on the restored data', async () => {
+		const ns = new DurableObjectNamespaceImpl(db, 'Counter', dataDir, { evictionTimeoutMs: 0 })
+		ns._setClass(Counter, {})
+		const stub = ns.get(ns.idFromName('x')) as unknown as Counter
+		const idStr = ns.idFromName('x').toString()
+
+		await stub.increment()
+		const atOne = new DurableObjectBookmarks(db, 'Counter', idStr, dataDir).latest()!.bookmark
+		setSystemTime(T0 + 1000)
+		await stub.increment()
+		const before = ns._getInstance(idStr)
+
+		await ns.restoreInstance(idStr, atOne)
+		expect(await stub.increment()).toBe(2)
+		expect(ns._getInstance(idStr)).not.toBe(before)
+		ns.destroy()
+	})
+
+	test('deleteInstance drops the bookmark history', async () => {
+		const ns = new DurableObjectNamespaceImpl(db, 'Counter', dataDir, { evictionTimeoutMs: 0 })
+		ns._setClass(Counter, {})
+		const idStr = ns.idFromName('x').toString()
+		await (ns.get(ns.idFromName('x')) as unknown as Counter).increment()
+		expect(existsSync(join(dataDir, 'do-bookmarks', 'Counter', idStr))).toBe(true)
+
+		ns.deleteInstance(idStr)
+		expect(new DurableObjectBookmarks(db, 'Counter', idStr, dataDir).list()).toEqual([])
+		expect(existsSync(join(dataDir, 'do-bookmarks', 'Counter', idStr))).toBe(false)
+		ns.destroy()
+	})
+})
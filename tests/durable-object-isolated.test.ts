@@ -46,6 +46,12 @@ beforeAll(() => {
         await this.ctx.storage.put("count", count);
         return count;
       }
+      async currentBookmark() {
+        return this.ctx.storage.getCurrentBookmark();
+      }
+      async restoreOnNextSession(bookmark) {
+        return this.ctx.storage.onNextSessionRestoreBookmark(bookmark);
+      }
       async fetch(request) {
         const url = new URL(request.url);
         if (url.pathname === "/count") {
@@ -231,6 +237,8 @@ beforeAll(() => {
 	const dbPath = join(dataDir, 'data.sqlite')
 	db = new Database(dbPath, { create: true })
 	db.run('PRAGMA journal_mode=WAL')
+	// Like db.ts: DO threads write through their own connections, so wait for the lock instead of failing with SQLITE_BUSY.
+	db.run('PRAGMA busy_timeout=5000')
 	runMigrations(db)
 
 	// Create factory
@@ -482,6 +490,29 @@ describe('Isolated DO — data persistence', () => {
 	})
 })
 
+describe('Isolated DO — bookmarks', () => {
+	test('writes since the last snapshot are in the current bookmark after the thread is evicted', async () => {
+		const ns = new DurableObjectNamespaceImpl(db, 'TestCounter', dataDir, { evictionTimeoutMs: 0 }, factory)
+		ns._setClass(class {} as any, {})
+		const id = ns.idFromName('bookmark-evict')
+		const idStr = id.toString()
+
+		// The first write is snapshotted right away, the second falls inside the capture interval.
+		await (ns.get(id) as any).increment()
+		await (ns.get(id) as any).increment()
+		await ns._getExecutor(idStr)!.dispose()
+
+		const stub = ns.get(id) as any
+		const bookmark = await stub.currentBookmark()
+		await stub.increment()
+		await stub.restoreOnNextSession(bookmark)
+		await ns._getExecutor(idStr)!.dispose()
+		expect(await (ns.get(id) as any).getCount()).toBe(2)
+
+		await ns._getExecutor(idStr)?.dispose()
+	})
+})
+
 describe('Isolated DO — cross-DO routing via env-RPC', () => {
 	/**
 	 * Main owns the namespace; both DO bindings on the worker side are env-RPC
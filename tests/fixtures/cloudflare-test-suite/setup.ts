@@ -0,0 +1,5 @@
+// The vitest.config.ts of this suite: preload lopata's test setup, then configure the env.
+import '../../../src/testing/setup'
+import { configureCloudflareTest, readD1Migrations } from '../../../src/testing'
+
+configureCloudflareTest({ env: { TEST_MIGRATIONS: readD1Migrations('migrations') } })
@@ -0,0 +1,45 @@
+import { DurableObject, WorkerEntrypoint } from 'cloudflare:workers'
+
+interface Env {
+	GREETING: string
+	KV: { put(key: string, value: string): Promise<void> }
+}
+
+export class Counter extends DurableObject {
+	count = 0
+
+	async increment(): Promise<number> {
+		const value = ((await this.ctx.storage.get<number>('value')) ?? 0) + 1
+		await this.ctx.storage.put('value', value)
+		return value
+	}
+
+	async alarm(): Promise<void> {
+		await this.ctx.storage.put('alarmed', true)
+	}
+}
+
+export default class extends WorkerEntrypoint<Env> {
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url)
+		if (url.pathname === '/upstream') return fetch('https://api.example.com/data')
+		return new Response(`${this.env.GREETING} ${url.pathname}`)
+	}
+
+	async scheduled(controller: { cron: string }): Promise<void> {
+		if (controller.cron === '0 0 * * *') throw new Error('nightly job failed')
+		await this.env.KV.put('cron', 'ran')
+	}
+
+	async queue(batch: { messages: { id: string; body: unknown; ack(): void; retry(options?: { delaySeconds?: number }): void }[] }): Promise<void> {
+		for (const message of batch.messages) {
+			if (message.body === 'boom') throw new Error('queue consumer failed')
+			if (message.body === 'later') message.retry({ delaySeconds: 30 })
+			else message.ack()
+		}
+	}
+
+	add(a: number, b: number): number {
+		return a + b
+	}
+}
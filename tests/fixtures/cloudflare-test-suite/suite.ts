@@ -0,0 +1,123 @@
+// A vitest-pool-workers style suite, run by tests/cloudflare-test.test.ts with `bun test ./suite.ts`.
+import { afterEach, beforeAll, describe, expect, it } from 'bun:test'
+import {
+	applyD1Migrations,
+	createExecutionContext,
+	createScheduledController,
+	env,
+	fetchMock,
+	listDurableObjectIds,
+	runDurableObjectAlarm,
+	runInDurableObject,
+	SELF,
+	waitOnExecutionContext,
+} from 'cloudflare:test'
+import worker, { Counter } from './src/index'
+
+beforeAll(async () => {
+	await applyD1Migrations(env.DB, env.TEST_MIGRATIONS)
+	await env.KV.put('from-before-all', 'yes')
+})
+
+afterEach(() => {
+	fetchMock.deactivate()
+	fetchMock.reset()
+})
+
+describe('isolated storage', () => {
+	it('writes in one test...', async () => {
+		await env.KV.put('leaked', 'no')
+		await env.BUCKET.put('leaked.txt', 'no')
+		await env.DB.prepare("INSERT INTO notes (body) VALUES ('written')").run()
+		expect(await env.COUNTER.getByName('a').increment()).toBe(1)
+	})
+
+	it('...are rolled back before the next, beforeAll data stays', async () => {
+		expect(await env.KV.get('leaked')).toBeNull()
+		expect(await env.BUCKET.get('leaked.txt')).toBeNull()
+		expect((await env.BUCKET.list()).objects).toEqual([])
+		expect(await env.KV.get('from-before-all')).toBe('yes')
+		const { results } = await env.DB.prepare('SELECT body FROM notes').all()
+		expect(results).toEqual([{ body: 'seeded' }])
+		expect(await env.COUNTER.getByName('a').increment()).toBe(1)
+	})
+
+	it('migrations are applied once', async () => {
+		await applyD1Migrations(env.DB, env.TEST_MIGRATIONS)
+		const { results } = await env.DB.prepare('SELECT name FROM d1_migrations').all()
+		expect(results).toEqual([{ name: '0001_notes.sql' }])
+	})
+})
+
+describe('SELF', () => {
+	it('fetch, scheduled and RPC reach the worker', async () => {
+		expect(await (await SELF.fetch('https://example.com/hi')).text()).toBe('hello /hi')
+		expect(await SELF.scheduled({ cron: '* * * * *' })).toEqual({ outcome: 'ok', noRetry: false })
+		expect(await env.KV.get('cron')).toBe('ran')
+		expect(await SELF.add(1, 2)).toBe(3)
+	})
+
+	it('scheduled reports a failing handler with its error', async () => {
+		const result = await SELF.scheduled({ cron: '0 0 * * *' })
+		expect(result).toMatchObject({ outcome: 'exception', noRetry: false })
+		expect((result as { error?: Error }).error?.message).toBe('nightly job failed')
+	})
+
+	it('queue reports the acks and retries of the batch', async () => {
+		const timestamp = new Date(1000)
+		const result = await SELF.queue('jobs', [
+			{ id: 'a', timestamp, attempts: 1, body: 'now' },
+			{ id: 'b', timestamp, attempts: 2, body: 'later' },
+		])
+		expect(result).toEqual({
+			outcome: 'ok',
+			ackAll: false,
+			retryBatch: { retry: false },
+			explicitAcks: ['a'],
+			retryMessages: [{ msgId: 'b', delaySeconds: 30 }],
+		})
+		expect(await SELF.queue('jobs', [{ id: 'c', timestamp, attempts: 1, body: 'boom' }])).toMatchObject({ outcome: 'exception' })
+	})
+
+	it('the worker module can be called directly with an execution context', async () => {
+		const ctx = createExecutionContext()
+		const instance = new worker(ctx, env)
+		await instance.scheduled(createScheduledController({ scheduledTime: new Date(0) }))
+		await waitOnExecutionContext(ctx)
+		expect(await env.KV.get('cron')).toBe('ran')
+	})
+})
+
+describe('Durable Objects', () => {
+	it('runInDurableObject gets the instance and its state', async () => {
+		const stub = env.COUNTER.getByName('b')
+		await stub.increment()
+		const value = await runInDurableObject(stub, async (instance: Counter, state) => {
+			expect(instance).toBeInstanceOf(Counter)
+			return state.storage.get('value')
+		})
+		expect(value).toBe(1)
+		expect(listDurableObjectIds(env.COUNTER).map(id => id.toString())).toEqual([stub.id.toString()])
+	})
+
+	it('runDurableObjectAlarm runs a scheduled alarm once', async () => {
+		const stub = env.COUNTER.getByName('c')
+		expect(await runDurableObjectAlarm(stub)).toBe(false)
+		await runInDurableObject(stub, (_instance, state) => state.storage.setAlarm(Date.now() + 60_000))
+		expect(await runDurableObjectAlarm(stub)).toBe(true)
+		expect(await runInDurableObject(stub, (_instance, state) => state.storage.get('alarmed'))).toBe(true)
+		expect(await runDurableObjectAlarm(stub)).toBe(false)
+	})
+})
+
+describe('fetchMock', () => {
+	it('intercepts outgoing fetches', async () => {
+		fetchMock.activate()
+		fetchMock.disableNetConnect()
+		fetchMock.get('https://api.example.com').intercept({ path: '/data' }).reply(200, { ok: true })
+		const response = await SELF.fetch('https://example.com/upstream')
+		expect(await response.json()).toEqual({ ok: true })
+		fetchMock.assertNoPendingInterceptors()
+		await expect(fetch('https://api.example.com/other')).rejects.toThrow('network connections are disabled')
+	})
+})
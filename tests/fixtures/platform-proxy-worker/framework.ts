@@ -0,0 +1,23 @@
+// Stands in for a framework dev server: gets the bindings through
+// `getPlatformProxy()` instead of running the app in a Worker, then prints what
+// it saw as one JSON line.
+import { getDataDir } from '../../../src/db'
+import { getPlatformProxy } from '../../../src/index'
+
+const PERSIST: Record<string, boolean | { path: string } | undefined> = { default: undefined, memory: false, path: { path: 'state' } }
+const persist = PERSIST[process.argv[2] ?? 'default']
+const dataDir = getDataDir()
+
+const { env, cf, ctx, caches, dispose } = await getPlatformProxy<any>({ persist })
+
+const runs = Number(await env.KV.get('runs') ?? 0) + 1
+await env.KV.put('runs', String(runs))
+const count = await env.COUNTER.get(env.COUNTER.idFromName('a')).increment()
+await caches.default.put('http://example.com/cached', new Response('from cache'))
+const cached = await (await caches.default.match('http://example.com/cached'))?.text()
+ctx.waitUntil(Promise.resolve())
+
+await dispose()
+// dispose() gives the process its data dir back.
+const restored = getDataDir() === dataDir
+console.log(JSON.stringify({ greeting: env.GREETING, runs, count, cached, country: cf.country, restored }))
@@ -0,0 +1,15 @@
+import { DurableObject } from 'cloudflare:workers'
+
+export class Counter extends DurableObject {
+	async increment(): Promise<number> {
+		const value = ((await this.ctx.storage.get<number>('value')) ?? 0) + 1
+		await this.ctx.storage.put('value', value)
+		return value
+	}
+}
+
+export default {
+	async fetch(): Promise<Response> {
+		return new Response('platform-proxy-worker')
+	},
+}
@@ -10,6 +10,15 @@ export default {
 		return new Response('aux: not found', { status: 404 })
 	},
 
+	// TCP handler behind `env.AUX.connect()`: read until the caller ends its
+	// side, then answer and close.
+	async connect(socket: any): Promise<void> {
+		const text = await new Response(socket.readable).text()
+		const writer = socket.writable.getWriter()
+		await writer.write(new TextEncoder().encode(`aux heard ${text}`))
+		await writer.close()
+	},
+
 	// Service-binding RPC methods invoked from worker A via `env.AUX.<method>()`.
 	async double(n: number): Promise<number> {
 		return n * 2
@@ -1,3 +1,5 @@
+import { connect } from 'cloudflare:sockets'
+
 export default {
 	async fetch(request: Request, env: any): Promise<Response> {
 		const url = new URL(request.url)
@@ -14,6 +16,24 @@ export default {
 			return new Response(`main->aux: ${auxText}`)
 		}
 
+		if (url.pathname === '/aux-connect') {
+			const socket = env.AUX.connect('aux.internal:9000')
+			const writer = socket.writable.getWriter()
+			await writer.write(new TextEncoder().encode(url.searchParams.get('msg') ?? ''))
+			await writer.close()
+			return new Response(await new Response(socket.readable).text())
+		}
+
+		if (url.pathname === '/raw-tcp') {
+			// Speak HTTP/1.0 to this very dev server over a `cloudflare:sockets` socket.
+			const socket = connect({ hostname: '127.0.0.1', port: Number(url.port) })
+			const writer = socket.writable.getWriter()
+			await writer.write(new TextEncoder().encode('GET /local HTTP/1.0\r\nHost: localhost\r\n\r\n'))
+			const raw = await new Response(socket.readable).text()
+			await socket.closed
+			return new Response(raw.slice(raw.indexOf('\r\n\r\n') + 4))
+		}
+
 		if (url.pathname.startsWith('/aux-rpc/')) {
 			const method = url.pathname.slice('/aux-rpc/'.length)
 			if (method === 'double') {
@@ -1,6 +1,6 @@
 import { Database } from 'bun:sqlite'
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
-import { deleteFlag, FlagshipBinding, setFlagValue } from '../src/bindings/flagship'
+import { deleteFlag, evaluateFlag, FlagshipBinding, listFlags, setFlagEnabled, setFlagRules, setFlagValue, validateFlagRules } from '../src/bindings/flagship'
 import { runMigrations } from '../src/db'
 
 let db: Database
@@ -79,3 +79,97 @@ describe('FlagshipBinding', () => {
 		expect(await flags.getBooleanValue('gone', false)).toBe(false)
 	})
 })
+
+describe('targeting rules', () => {
+	test('first matching rule wins with reason TARGETING_MATCH', async () => {
+		setFlagValue(db, 'app-1', 'theme', 'string', 'light')
+		setFlagRules(db, 'app-1', 'theme', [
+			{ when: [{ attribute: 'email', operator: 'ends_with', value: '@example.com' }], value: 'staff', variant: 'staff' },
+			{ when: [{ attribute: 'country', operator: 'in', value: ['CZ', 'SK'] }], value: 'dark' },
+		])
+
+		const staff = await flags.getStringValueDetails('theme', 'x', { email: 'a@example.com', country: 'CZ' })
+		expect(staff).toEqual({ value: 'staff', variant: 'staff', reason: 'TARGETING_MATCH' })
+		expect(await flags.getStringValue('theme', 'x', { country: 'SK' })).toBe('dark')
+
+		const fallthrough = await flags.getStringValueDetails('theme', 'x', { country: 'DE' })
+		expect(fallthrough).toEqual({ value: 'light', variant: undefined, reason: 'STATIC' })
+	})
+
+	test('conditions read nested attributes and compare numbers', async () => {
+		setFlagValue(db, 'app-1', 'beta', 'boolean', false)
+		setFlagRules(db, 'app-1', 'beta', [{
+			when: [
+				{ attribute: 'user.plan', operator: 'equals', value: 'pro' },
+				{ attribute: 'user.seats', operator: 'gte', value: 10 },
+			],
+			value: true,
+		}])
+		expect(await flags.getBooleanValue('beta', false, { user: { plan: 'pro', seats: 12 } })).toBe(true)
+		expect(await flags.getBooleanValue('beta', false, { user: { plan: 'pro', seats: 3 } })).toBe(false)
+		expect(await flags.getBooleanValue('beta', false)).toBe(false)
+	})
+
+	test('percentage rollout is stable per targeting key', async () => {
+		setFlagValue(db, 'app-1', 'checkout', 'boolean', false)
+		setFlagRules(db, 'app-1', 'checkout', [{ rollout: 30, value: true }])
+
+		const keys = Array.from({ length: 1000 }, (_, i) => `user-${i}`)
+		const first = await Promise.all(keys.map(k => flags.getBooleanValue('checkout', false, { targetingKey: k })))
+		const second = await Promise.all(keys.map(k => flags.getBooleanValue('checkout', false, { targetingKey: k })))
+		expect(second).toEqual(first)
+		const share = first.filter(Boolean).length / keys.length
+		expect(share).toBeGreaterThan(0.25)
+		expect(share).toBeLessThan(0.35)
+
+		// Without a targeting key there is nothing to bucket on.
+		expect((await flags.getBooleanValueDetails('checkout', false, {})).reason).toBe('STATIC')
+	})
+
+	test('variant lists split traffic by weight', async () => {
+		setFlagValue(db, 'app-1', 'color', 'string', 'gray')
+		setFlagRules(db, 'app-1', 'color', [{
+			variants: [
+				{ value: 'blue', variant: 'a', weight: 1 },
+				{ value: 'green', variant: 'b', weight: 3 },
+			],
+		}])
+		const seen: Record<string, number> = {}
+		for (let i = 0; i < 1000; i++) {
+			const details = await flags.getStringValueDetails('color', 'x', { targetingKey: `u${i}` })
+			expect(details.reason).toBe('TARGETING_MATCH')
+			seen[details.variant!] = (seen[details.variant!] ?? 0) + 1
+		}
+		expect(seen.a! / 1000).toBeGreaterThan(0.2)
+		expect(seen.a! / 1000).toBeLessThan(0.3)
+		expect(seen.a! + seen.b!).toBe(1000)
+	})
+
+	test('disabled flag returns the caller default', async () => {
+		setFlagValue(db, 'app-1', 'killswitch', 'boolean', true)
+		setFlagEnabled(db, 'app-1', 'killswitch', false)
+		expect(await flags.getBooleanValueDetails('killswitch', false)).toEqual({ value: false, reason: 'DISABLED' })
+
+		// Updating the value keeps the flag disabled.
+		setFlagValue(db, 'app-1', 'killswitch', 'boolean', true)
+		expect(listFlags(db, 'app-1')[0]!.enabled).toBe(false)
+		setFlagEnabled(db, 'app-1', 'killswitch', true)
+		expect(await flags.getBooleanValue('killswitch', false)).toBe(true)
+	})
+
+	test('evaluateFlag uses the stored type', () => {
+		setFlagValue(db, 'app-1', 'limit', 'number', 5)
+		setFlagRules(db, 'app-1', 'limit', [{ when: [{ attribute: 'tier', operator: 'equals', value: 'gold' }], value: 50 }])
+		expect(evaluateFlag(db, 'app-1', 'limit', { tier: 'gold' })).toEqual({ value: 50, variant: undefined, reason: 'TARGETING_MATCH' })
+		expect(evaluateFlag(db, 'app-1', 'missing')).toBeNull()
+	})
+
+	test('invalid rules are rejected', () => {
+		setFlagValue(db, 'app-1', 'n', 'number', 1)
+		expect(() => setFlagRules(db, 'app-1', 'n', [{ value: 'two' }])).toThrow('Rule 1: value "two" is not a number')
+		expect(() => validateFlagRules('boolean', [{ when: [{ attribute: 'a', operator: 'like' }], value: true }])).toThrow('unknown operator')
+		expect(() => validateFlagRules('boolean', [{ rollout: 150, value: true }])).toThrow('between 0 and 100')
+		expect(() => validateFlagRules('boolean', [{ value: true, variants: [] }])).toThrow('either "value" or "variants"')
+		expect(() => setFlagRules(db, 'app-1', 'nope', [])).toThrow('Flag not found: nope')
+	})
+})
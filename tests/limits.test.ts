@@ -0,0 +1,216 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import type { WranglerConfig } from '../src/config'
+import {
+	acquireConnection,
+	checkInvocationDepth,
+	countSubrequest,
+	CPU_LIMIT_ERROR,
+	DEPTH_LIMIT_ERROR,
+	InvocationMeter,
+	MEMORY_LIMIT_ERROR,
+	type PlanLimits,
+	type ResolvedLimits,
+	resolveLimits,
+	setThreadLimits,
+	LOOP_COUNT_HEADER,
+	SUBREQUEST_LIMIT_ERROR,
+} from '../src/limits'
+import '../src/plugin'
+import { runWithParentContext } from '../src/tracing/context'
+import { runTracingMigrations } from '../src/tracing/db'
+import { instrumentBinding, instrumentD1 } from '../src/tracing/instrument'
+import { startSpan } from '../src/tracing/span'
+import { setTraceStore, TraceStore } from '../src/tracing/store'
+
+const config = { name: 'test' } as WranglerConfig
+
+function profile(mode: ResolvedLimits['mode'], limits: Partial<PlanLimits>): ResolvedLimits {
+	return { mode, plan: 'custom', limits: { cpuMs: 60_000, memoryMb: 4096, subrequests: 10_000, connections: 6, ...limits } }
+}
+
+/** Keep the thread busy for `ms`, then return `result`. */
+function spin<T>(ms: number, result?: T): T | undefined {
+	const start = performance.now()
+	while (performance.now() - start < ms) {}
+	return result
+}
+
+describe('resolveLimits', () => {
+	test('limits are off unless LOPATA_LIMITS is set', () => {
+		expect(resolveLimits({}, config)).toBeNull()
+		expect(resolveLimits({ LOPATA_LIMITS: 'off' }, config)).toBeNull()
+		expect(() => resolveLimits({ LOPATA_LIMITS: 'strict' }, config)).toThrow('Invalid LOPATA_LIMITS "strict"')
+	})
+
+	test('plans pick the Cloudflare limits and overrides apply on top', () => {
+		expect(resolveLimits({ LOPATA_LIMITS: 'warn' }, config)).toEqual({
+			mode: 'warn',
+			plan: 'paid',
+			limits: { cpuMs: 30_000, memoryMb: 128, subrequests: 10_000, connections: 6 },
+		})
+		expect(resolveLimits({ LOPATA_LIMITS: 'enforce', LOPATA_PLAN: 'free' }, config)?.limits).toEqual({
+			cpuMs: 10,
+			memoryMb: 128,
+			subrequests: 50,
+			connections: 6,
+		})
+		expect(resolveLimits({ LOPATA_LIMITS: 'enforce' }, { ...config, limits: { cpu_ms: 120_000, subrequests: 50_000 } })?.limits)
+			.toMatchObject({ cpuMs: 120_000, subrequests: 50_000 })
+		// The free plan can't raise its CPU limit.
+		expect(resolveLimits({ LOPATA_LIMITS: 'enforce', LOPATA_PLAN: 'free' }, { ...config, limits: { cpu_ms: 120_000 } })?.limits.cpuMs).toBe(10)
+		expect(
+			resolveLimits({ LOPATA_LIMITS: 'enforce', LOPATA_PLAN: 'custom', LOPATA_LIMIT_CPU_MS: '50', LOPATA_LIMIT_MEMORY_MB: '64', LOPATA_LIMIT_SUBREQUESTS: '5' }, config),
+		).toEqual(profile('enforce', { cpuMs: 50, memoryMb: 64, subrequests: 5 }))
+		expect(() => resolveLimits({ LOPATA_LIMITS: 'warn', LOPATA_PLAN: 'pro' }, config)).toThrow('Invalid LOPATA_PLAN "pro"')
+		expect(() => resolveLimits({ LOPATA_LIMITS: 'warn', LOPATA_LIMIT_CPU_MS: '-1' }, config)).toThrow('Invalid LOPATA_LIMIT_CPU_MS')
+		expect(() => resolveLimits({ LOPATA_LIMITS: 'warn' }, { ...config, limits: { cpu_ms: 600_000 } })).toThrow('Invalid limits.cpu_ms')
+	})
+})
+
+describe('InvocationMeter', () => {
+	test('enforce fails an invocation that burns more CPU than the plan allows', async () => {
+		const meter = new InvocationMeter(profile('enforce', { cpuMs: 10 }))
+		expect(await meter.measure(async () => 'ok')).toBe('ok')
+		await expect(meter.measure(async () => spin(50))).rejects.toThrow(CPU_LIMIT_ERROR)
+	})
+
+	test('time spent awaiting I/O is not CPU time', async () => {
+		const meter = new InvocationMeter(profile('enforce', { cpuMs: 10 }))
+		expect(await meter.measure(() => Bun.sleep(50).then(() => 'slept'))).toBe('slept')
+	})
+
+	test('warn reports but keeps the result', async () => {
+		const meter = new InvocationMeter(profile('warn', { cpuMs: 10 }))
+		const warn = console.warn
+		const warnings: string[] = []
+		console.warn = (message: string) => warnings.push(message)
+		try {
+			expect(await meter.measure(async () => spin(50, 'done'))).toBe('done')
+		} finally {
+			console.warn = warn
+		}
+		expect(warnings[0]).toContain(CPU_LIMIT_ERROR)
+	})
+
+	test('overlapping invocations are not held to the CPU limit', async () => {
+		const meter = new InvocationMeter(profile('enforce', { cpuMs: 10 }))
+		const slow = meter.measure(() => Bun.sleep(100).then(() => 'slow'))
+		const busy = meter.measure(async () => spin(50, 'busy'))
+		expect(await Promise.all([slow, busy])).toEqual(['slow', 'busy'])
+	})
+
+	test('enforce fails an invocation that leaves the heap over the limit', async () => {
+		const meter = new InvocationMeter(profile('enforce', { memoryMb: 1 }))
+		await expect(meter.measure(async () => null)).rejects.toThrow(MEMORY_LIMIT_ERROR)
+	})
+})
+
+describe('subrequests, connections and invocation chains', () => {
+	beforeEach(() => {
+		const db = new Database(':memory:')
+		runTracingMigrations(db)
+		setTraceStore(new TraceStore(db))
+	})
+
+	afterEach(() => {
+		setThreadLimits(null)
+		setTraceStore(null)
+	})
+
+	const request = <T>(fn: () => T) => startSpan({ name: 'GET /' }, async () => fn())
+
+	test('each request gets its own subrequest budget', async () => {
+		setThreadLimits(profile('enforce', { subrequests: 2 }))
+		await request(() => {
+			countSubrequest()
+			countSubrequest()
+			expect(() => countSubrequest()).toThrow(SUBREQUEST_LIMIT_ERROR)
+		})
+		await request(() => countSubrequest())
+	})
+
+	test('binding calls count, local bindings and D1 statements inside a batch do not', async () => {
+		setThreadLimits(profile('enforce', { subrequests: 3 }))
+		const kv = instrumentBinding({ get: async (key: string) => key }, { type: 'kv', name: 'KV', methods: ['get'] })
+		const assets = instrumentBinding({ fetch: async () => new Response() }, {
+			type: 'assets',
+			name: 'ASSETS',
+			methods: ['fetch'],
+			countSubrequests: false,
+		})
+		const statement = { all: async () => [], allUnlocked: async () => [] }
+		const d1 = instrumentD1({ prepare: () => statement }, 'DB')
+		await request(async () => {
+			expect(await kv.get('a')).toBe('a')
+			await assets.fetch()
+			await d1.prepare().allUnlocked()
+			await d1.prepare().all()
+			await kv.get('b')
+			await expect(kv.get('c')).rejects.toThrow(SUBREQUEST_LIMIT_ERROR)
+		})
+	})
+
+	test('a request handed to another thread keeps spending its budget there', () => {
+		setThreadLimits(profile('enforce', { subrequests: 2 }))
+		const parent = { traceId: 't', spanId: 's', subrequests: 1 }
+		runWithParentContext(parent, () => {
+			countSubrequest()
+			expect(() => countSubrequest()).toThrow(SUBREQUEST_LIMIT_ERROR)
+		})
+	})
+
+	test('warn mode reports the overrun once per request', async () => {
+		setThreadLimits(profile('warn', { subrequests: 1 }))
+		const warn = console.warn
+		const warnings: string[] = []
+		console.warn = (message: string) => warnings.push(message)
+		try {
+			await request(() => {
+				for (let i = 0; i < 5; i++) countSubrequest()
+			})
+		} finally {
+			console.warn = warn
+		}
+		expect(warnings).toHaveLength(1)
+		expect(warnings[0]).toContain(SUBREQUEST_LIMIT_ERROR)
+	})
+
+	test('connections beyond the limit wait for a free slot', async () => {
+		setThreadLimits(profile('enforce', { connections: 2 }))
+		await request(async () => {
+			const first = await acquireConnection()
+			await acquireConnection()
+			let third = false
+			const queued = acquireConnection().then(release => {
+				third = true
+				return release
+			})
+			await Bun.sleep(10)
+			expect(third).toBe(false)
+			first()
+			first() // releasing twice frees one slot only
+			await queued
+			expect(third).toBe(true)
+		})
+	})
+
+	test('fetch() to a local host carries the loop count only while limits are on', async () => {
+		const server = Bun.serve({ port: 0, hostname: '127.0.0.1', fetch: req => new Response(req.headers.get(LOOP_COUNT_HEADER)) })
+		try {
+			const url = `http://127.0.0.1:${server.port}/`
+			expect(await request(async () => (await fetch(url)).text())).toBe('')
+			setThreadLimits(profile('enforce', {}))
+			expect(await request(async () => (await fetch(url)).text())).toBe('1')
+		} finally {
+			server.stop(true)
+		}
+	})
+
+	test('a chain deeper than 32 invocations fails', () => {
+		setThreadLimits(profile('enforce', {}))
+		const parent = (depth: number) => ({ traceId: 't', spanId: 's', chain: { depth, loops: 0 } })
+		expect(() => runWithParentContext(parent(32), checkInvocationDepth)).not.toThrow()
+		expect(() => runWithParentContext(parent(33), checkInvocationDepth)).toThrow(DEPTH_LIMIT_ERROR)
+	})
+})
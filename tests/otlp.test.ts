@@ -0,0 +1,211 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { runTracingMigrations } from '../src/tracing/db'
+import { buildTraceRequest, encodeTraceRequestProtobuf, type ExportedSpan, OtlpExporter, type OtlpTraceRequest, resolveOtlpConfig } from '../src/tracing/otlp'
+import { addSpanEvent, startSpan } from '../src/tracing/span'
+import { setTraceStore, TraceStore } from '../src/tracing/store'
+import type { SpanData } from '../src/tracing/types'
+
+function span(overrides: Partial<SpanData> = {}): SpanData {
+	return {
+		spanId: '0102030405060708',
+		traceId: '0102030405060708090a0b0c0d0e0f10',
+		parentSpanId: null,
+		name: 'GET /',
+		kind: 'server',
+		status: 'ok',
+		statusMessage: null,
+		startTime: 1_700_000_000_000,
+		endTime: 1_700_000_000_250,
+		durationMs: 250,
+		attributes: {},
+		workerName: 'api',
+		...overrides,
+	}
+}
+
+/** Minimal protobuf reader: field number → raw values (varint as bigint, length-delimited as bytes). */
+function readFields(buf: Uint8Array): Map<number, (bigint | Uint8Array)[]> {
+	const fields = new Map<number, (bigint | Uint8Array)[]>()
+	let pos = 0
+	const varint = (): bigint => {
+		let result = 0n
+		let shift = 0n
+		while (true) {
+			const b = buf[pos++]!
+			result |= BigInt(b & 0x7f) << shift
+			if (!(b & 0x80)) return result
+			shift += 7n
+		}
+	}
+	while (pos < buf.length) {
+		const key = Number(varint())
+		const field = key >> 3
+		let value: bigint | Uint8Array
+		switch (key & 7) {
+			case 0:
+				value = varint()
+				break
+			case 1:
+				value = buf.slice(pos, pos + 8)
+				pos += 8
+				break
+			case 2: {
+				const len = Number(varint())
+				value = buf.slice(pos, pos + len)
+				pos += len
+				break
+			}
+			default:
+				throw new Error(`unexpected wire type ${key & 7}`)
+		}
+		fields.set(field, [...(fields.get(field) ?? []), value])
+	}
+	return fields
+}
+
+const text = (bytes: bigint | Uint8Array | undefined) => new TextDecoder().decode(bytes as Uint8Array)
+const hex = (bytes: bigint | Uint8Array | undefined) => Buffer.from(bytes as Uint8Array).toString('hex')
+
+describe('buildTraceRequest', () => {
+	test('groups spans into one resource per worker', () => {
+		const request = buildTraceRequest([
+			{ span: span(), events: [] },
+			{ span: span({ spanId: 'aa', workerName: 'auth' }), events: [] },
+			{ span: span({ spanId: 'bb', workerName: null }), events: [] },
+		], 'fallback')
+		const services = request.resourceSpans.map(rs => rs.resource.attributes.find(a => a.key === 'service.name')!.value)
+		expect(services).toEqual([{ stringValue: 'api' }, { stringValue: 'auth' }, { stringValue: 'fallback' }])
+	})
+
+	test('maps kind, status, timestamps, attributes and events', () => {
+		const exported: ExportedSpan = {
+			span: span({
+				parentSpanId: '1112131415161718',
+				kind: 'client',
+				status: 'error',
+				statusMessage: 'HTTP 500',
+				attributes: { 'http.method': 'GET', 'http.status_code': 500, ratio: 0.5, cached: false, tags: ['a', 'b'], headers: { a: '1' } },
+			}),
+			events: [{ spanId: '0102030405060708', traceId: 't', timestamp: 1_700_000_000_100, name: 'console.log', level: 'log', message: 'hi', attributes: {} }],
+		}
+		const otlpSpan = buildTraceRequest([exported]).resourceSpans[0]!.scopeSpans[0]!.spans[0]!
+		expect(otlpSpan.kind).toBe(3)
+		expect(otlpSpan.parentSpanId).toBe('1112131415161718')
+		expect(otlpSpan.status).toEqual({ code: 2, message: 'HTTP 500' })
+		expect(otlpSpan.startTimeUnixNano).toBe('1700000000000000000')
+		expect(otlpSpan.endTimeUnixNano).toBe('1700000000250000000')
+		expect(Object.fromEntries(otlpSpan.attributes.map(a => [a.key, a.value]))).toEqual({
+			'http.method': { stringValue: 'GET' },
+			'http.status_code': { intValue: '500' },
+			ratio: { doubleValue: 0.5 },
+			cached: { boolValue: false },
+			tags: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } },
+			headers: { stringValue: '{"a":"1"}' },
+		})
+		expect(otlpSpan.events).toEqual([{
+			timeUnixNano: '1700000000100000000',
+			name: 'console.log',
+			attributes: [{ key: 'level', value: { stringValue: 'log' } }, { key: 'message', value: { stringValue: 'hi' } }],
+		}])
+	})
+})
+
+describe('encodeTraceRequestProtobuf', () => {
+	test('encodes ExportTraceServiceRequest fields', () => {
+		const request = buildTraceRequest([{ span: span({ attributes: { n: 7 } }), events: [] }])
+		const resourceSpans = readFields(encodeTraceRequestProtobuf(request)).get(1)!
+		expect(resourceSpans).toHaveLength(1)
+		const rs = readFields(resourceSpans[0] as Uint8Array)
+		const resourceAttr = readFields(readFields(rs.get(1)![0] as Uint8Array).get(1)![0] as Uint8Array)
+		expect(text(resourceAttr.get(1)![0])).toBe('service.name')
+		expect(text(readFields(resourceAttr.get(2)![0] as Uint8Array).get(1)![0])).toBe('api')
+
+		const scopeSpans = readFields(rs.get(2)![0] as Uint8Array)
+		expect(text(readFields(scopeSpans.get(1)![0] as Uint8Array).get(1)![0])).toBe('lopata')
+		const s = readFields(scopeSpans.get(2)![0] as Uint8Array)
+		expect(hex(s.get(1)![0])).toBe('0102030405060708090a0b0c0d0e0f10')
+		expect(hex(s.get(2)![0])).toBe('0102030405060708')
+		expect(s.has(4)).toBe(false) // root span: no parent id
+		expect(text(s.get(5)![0])).toBe('GET /')
+		expect(s.get(6)![0]).toBe(2n)
+		expect(Buffer.from(s.get(7)![0] as Uint8Array).readBigUInt64LE()).toBe(1_700_000_000_000_000_000n)
+		const attr = readFields(s.get(9)![0] as Uint8Array)
+		expect(text(attr.get(1)![0])).toBe('n')
+		expect(readFields(attr.get(2)![0] as Uint8Array).get(3)![0]).toBe(7n)
+		expect(readFields(s.get(15)![0] as Uint8Array).get(3)![0]).toBe(1n)
+	})
+})
+
+describe('resolveOtlpConfig', () => {
+	test('lopata.config.ts wins', () => {
+		expect(resolveOtlpConfig({ endpoint: 'http://a:4318' }, { OTEL_EXPORTER_OTLP_ENDPOINT: 'http://b:4318' })).toEqual({ endpoint: 'http://a:4318' })
+	})
+
+	test('falls back to OTEL_* environment variables', () => {
+		expect(resolveOtlpConfig(undefined, {})).toBeNull()
+		expect(resolveOtlpConfig(undefined, { OTEL_EXPORTER_OTLP_ENDPOINT: 'http://c:4318', OTEL_EXPORTER_OTLP_PROTOCOL: 'http/protobuf' })).toEqual({
+			endpoint: 'http://c:4318',
+			protocol: 'http/protobuf',
+		})
+		expect(resolveOtlpConfig(undefined, { OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://d:4318/v1/traces' })?.endpoint).toBe('http://d:4318')
+	})
+})
+
+describe('OtlpExporter', () => {
+	let store: TraceStore
+	let server: ReturnType<typeof Bun.serve>
+	const received: { path: string; contentType: string | null; body: Uint8Array }[] = []
+
+	beforeEach(() => {
+		const db = new Database(':memory:')
+		runTracingMigrations(db)
+		store = new TraceStore(db)
+		setTraceStore(store)
+		received.length = 0
+		server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				received.push({ path: new URL(req.url).pathname, contentType: req.headers.get('content-type'), body: new Uint8Array(await req.arrayBuffer()) })
+				return new Response('{}')
+			},
+		})
+	})
+
+	afterEach(() => {
+		server.stop(true)
+		setTraceStore(null)
+	})
+
+	test('streams completed spans with their events as OTLP/JSON', async () => {
+		const exporter = new OtlpExporter({ endpoint: `http://localhost:${server.port}`, flushIntervalMs: 60_000 }, store)
+		await startSpan({ name: 'GET /', kind: 'server', workerName: 'api' }, async () => {
+			addSpanEvent('console.log', 'log', 'hello')
+			await startSpan({ name: 'kv.get' }, async () => {})
+		})
+		await exporter.shutdown()
+
+		expect(received).toHaveLength(1)
+		expect(received[0]!.path).toBe('/v1/traces')
+		expect(received[0]!.contentType).toBe('application/json')
+		const body = JSON.parse(text(received[0]!.body)) as OtlpTraceRequest
+		const spans = body.resourceSpans[0]!.scopeSpans[0]!.spans
+		expect(spans.map(s => s.name)).toEqual(['kv.get', 'GET /'])
+		expect(spans[1]!.events.map(e => e.name)).toEqual(['console.log'])
+		expect(spans[0]!.parentSpanId).toBe(spans[1]!.spanId)
+	})
+
+	test('sends protobuf when configured', async () => {
+		const exporter = new OtlpExporter({ endpoint: `http://localhost:${server.port}/`, protocol: 'http/protobuf', flushIntervalMs: 60_000 }, store)
+		await startSpan({ name: 'scheduled', kind: 'server' }, async () => {})
+		await exporter.shutdown()
+		expect(received[0]!.contentType).toBe('application/x-protobuf')
+		expect(readFields(received[0]!.body).get(1)).toHaveLength(1)
+	})
+
+	test('an unreachable collector does not throw', async () => {
+		const exporter = new OtlpExporter({ endpoint: 'http://127.0.0.1:1', flushIntervalMs: 60_000 }, store)
+		await startSpan({ name: 'x' }, async () => {})
+		await exporter.shutdown()
+	})
+})
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { existsSync, rmSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+const FIXTURE_DIR = resolve(import.meta.dir, 'fixtures/platform-proxy-worker')
+
+/** Run the fixture's stand-in framework in its own process (cwd = fixture) and parse what it printed. */
+async function runFramework(mode: 'default' | 'memory' | 'path') {
+	const proc = Bun.spawn(['bun', 'framework.ts', mode], { cwd: FIXTURE_DIR, stdout: 'pipe', stderr: 'pipe' })
+	const timer = setTimeout(() => proc.kill(), 20_000)
+	const [stdout, stderr, code] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited])
+	clearTimeout(timer)
+	// A clean exit also proves dispose() left no worker thread or timer running.
+	if (code !== 0) throw new Error(`framework.ts exited with ${code}:\n${stderr}`)
+	return JSON.parse(stdout.trim().split('\n').at(-1)!)
+}
+
+function cleanup() {
+	rmSync(resolve(FIXTURE_DIR, '.lopata'), { recursive: true, force: true })
+	rmSync(resolve(FIXTURE_DIR, 'state'), { recursive: true, force: true })
+}
+
+afterEach(cleanup)
+
+describe('getPlatformProxy()', () => {
+	test('env, cf, ctx and caches are backed by the dev server bindings; state persists in .lopata', async () => {
+		cleanup()
+		expect(await runFramework('default')).toEqual({ greeting: 'hello', runs: 1, count: 1, cached: 'from cache', country: 'US', restored: true })
+		expect(existsSync(resolve(FIXTURE_DIR, '.lopata/data.sqlite'))).toBe(true)
+		// KV and the Durable Object's storage survive into the next process.
+		expect(await runFramework('default')).toMatchObject({ runs: 2, count: 2 })
+	}, 60_000)
+
+	test('persist: { path } keeps state in that directory', async () => {
+		cleanup()
+		expect(await runFramework('path')).toMatchObject({ runs: 1, restored: true })
+		expect(await runFramework('path')).toMatchObject({ runs: 2, count: 2 })
+		expect(existsSync(resolve(FIXTURE_DIR, 'state/data.sqlite'))).toBe(true)
+		expect(existsSync(resolve(FIXTURE_DIR, '.lopata'))).toBe(false)
+	}, 60_000)
+
+	test('persist: false starts empty every time and leaves nothing behind', async () => {
+		cleanup()
+		expect(await runFramework('memory')).toMatchObject({ runs: 1, count: 1, restored: true })
+		expect(await runFramework('memory')).toMatchObject({ runs: 1, count: 1 })
+		expect(existsSync(resolve(FIXTURE_DIR, '.lopata'))).toBe(false)
+	}, 60_000)
+})
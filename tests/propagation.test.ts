@@ -0,0 +1,116 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import '../src/plugin'
+import { getActiveContext } from '../src/tracing/context'
+import { runTracingMigrations } from '../src/tracing/db'
+import { buildTraceRequest } from '../src/tracing/otlp'
+import { formatTraceparent, injectTraceContext, parseTraceparent, REMOTE_PARENT_ATTRIBUTE } from '../src/tracing/propagation'
+import { startSpan } from '../src/tracing/span'
+import { setTraceStore, TraceStore } from '../src/tracing/store'
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+const PARENT_ID = '00f067aa0ba902b7'
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`
+
+describe('parseTraceparent', () => {
+	test('parses a valid header', () => {
+		expect(parseTraceparent(TRACEPARENT)).toEqual({ traceId: TRACE_ID, parentSpanId: PARENT_ID })
+		expect(parseTraceparent(TRACEPARENT, 'vendor=abc')).toEqual({ traceId: TRACE_ID, parentSpanId: PARENT_ID, traceState: 'vendor=abc' })
+	})
+
+	test('accepts future versions with extra fields', () => {
+		expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-01-extra`)?.traceId).toBe(TRACE_ID)
+	})
+
+	test('rejects malformed headers', () => {
+		expect(parseTraceparent(null)).toBeNull()
+		expect(parseTraceparent('garbage')).toBeNull()
+		expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeNull()
+		expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01-extra`)).toBeNull()
+		expect(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`)).toBeNull()
+		expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeNull()
+		expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull()
+	})
+
+	test('formatTraceparent round-trips', () => {
+		expect(parseTraceparent(formatTraceparent(TRACE_ID, PARENT_ID))).toEqual({ traceId: TRACE_ID, parentSpanId: PARENT_ID })
+	})
+})
+
+describe('trace context propagation', () => {
+	let store: TraceStore
+
+	beforeEach(() => {
+		const db = new Database(':memory:')
+		runTracingMigrations(db)
+		store = new TraceStore(db)
+		setTraceStore(store)
+	})
+
+	afterEach(() => {
+		setTraceStore(null)
+	})
+
+	test('a root span continues the incoming trace', async () => {
+		const headers = new Headers({ traceparent: TRACEPARENT, tracestate: 'vendor=abc' })
+		const ctx = await startSpan({ name: 'GET /', kind: 'server', traceContext: headers }, async () => getActiveContext())
+		expect(ctx?.traceId).toBe(TRACE_ID)
+		expect(ctx?.traceState).toBe('vendor=abc')
+
+		const root = store.getTrace(TRACE_ID).spans[0]!
+		expect(root.parentSpanId).toBeNull()
+		expect(root.attributes[REMOTE_PARENT_ATTRIBUTE]).toBe(PARENT_ID)
+		const otlpSpan = buildTraceRequest([{ span: root, events: [] }]).resourceSpans[0]!.scopeSpans[0]!.spans[0]!
+		expect(otlpSpan.parentSpanId).toBe(PARENT_ID)
+	})
+
+	test('an invalid traceparent starts a fresh trace', async () => {
+		const ctx = await startSpan({ name: 'GET /', traceContext: new Headers({ traceparent: 'nope' }) }, async () => getActiveContext())
+		expect(ctx?.traceId).not.toBe(TRACE_ID)
+		expect(store.getTrace(ctx!.traceId).spans[0]!.attributes[REMOTE_PARENT_ATTRIBUTE]).toBeUndefined()
+	})
+
+	test('child spans ignore traceContext', async () => {
+		const traceContext = new Headers({ traceparent: TRACEPARENT })
+		const child = await startSpan({ name: 'root' }, () => startSpan({ name: 'child', traceContext }, async () => getActiveContext()))
+		expect(child?.traceId).not.toBe(TRACE_ID)
+	})
+
+	test('injects the active span into outgoing headers', async () => {
+		const headers = new Headers()
+		const ctx = await startSpan({ name: 'GET /', traceContext: new Headers({ traceparent: TRACEPARENT, tracestate: 'vendor=abc' }) }, async () => {
+			injectTraceContext(headers)
+			return getActiveContext()
+		})
+		expect(headers.get('traceparent')).toBe(`00-${TRACE_ID}-${ctx!.spanId}-01`)
+		expect(headers.get('tracestate')).toBe('vendor=abc')
+	})
+
+	test('leaves an explicit traceparent alone and does nothing outside a trace', async () => {
+		const explicit = new Headers({ traceparent: TRACEPARENT })
+		await startSpan({ name: 'GET /' }, async () => injectTraceContext(explicit))
+		expect(explicit.get('traceparent')).toBe(TRACEPARENT)
+
+		const outside = new Headers()
+		injectTraceContext(outside)
+		expect(outside.has('traceparent')).toBe(false)
+	})
+	test('fetch() of a forwarded incoming request sends the fetch span, not the caller\'s traceparent', async () => {
+		const server = Bun.serve({
+			port: 0,
+			hostname: '127.0.0.1',
+			fetch: req => new Response(`${req.headers.get('traceparent')} ${req.headers.get('tracestate')}`),
+		})
+		try {
+			const incoming = new Request(`http://127.0.0.1:${server.port}/`, { headers: { traceparent: TRACEPARENT, tracestate: 'vendor=abc' } })
+			const sent = await startSpan({ name: 'GET /', kind: 'server', traceContext: incoming.headers }, async () => (await fetch(incoming)).text())
+			const [traceparent, tracestate] = sent.split(' ')
+			const fetchSpan = store.getTrace(TRACE_ID).spans.find(span => span.name === 'fetch GET /')!
+			expect(traceparent).toBe(`00-${TRACE_ID}-${fetchSpan.spanId}-01`)
+			expect(tracestate).toBe('vendor=abc')
+			expect(incoming.headers.get('traceparent')).toBe(TRACEPARENT)
+		} finally {
+			server.stop(true)
+		}
+	})
+})
@@ -0,0 +1,149 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { listRateLimitCounters, rateLimitBindings, resetRateLimits, SqliteRateLimiter } from '../src/bindings/rate-limit'
+import type { WranglerConfig } from '../src/config'
+import { runMigrations } from '../src/db'
+import type { TestEnv } from '../src/testing'
+import { createTestEnv } from '../src/testing'
+import { TestClock } from '../src/testing/clock'
+
+let db: Database
+let clock: TestClock
+
+beforeEach(() => {
+	db = new Database(':memory:')
+	runMigrations(db)
+	clock = new TestClock(1_700_000_000_000)
+})
+
+describe('SqliteRateLimiter', () => {
+	test('allows `limit` calls per key within the period', async () => {
+		const limiter = new SqliteRateLimiter(db, '1001', 3, 10, clock)
+		for (let i = 0; i < 3; i++) expect(await limiter.limit({ key: 'alice' })).toEqual({ success: true })
+		expect(await limiter.limit({ key: 'alice' })).toEqual({ success: false })
+		// Other keys have their own budget.
+		expect(await limiter.limit({ key: 'bob' })).toEqual({ success: true })
+	})
+
+	test('the window slides: calls free up one by one as they age out', async () => {
+		const limiter = new SqliteRateLimiter(db, '1001', 2, 10, clock)
+		await limiter.limit({ key: 'k' })
+		clock.advance(4_000)
+		await limiter.limit({ key: 'k' })
+		expect((await limiter.limit({ key: 'k' })).success).toBe(false)
+
+		// The first call leaves the window; the second is still in it.
+		clock.advance(6_000)
+		expect((await limiter.limit({ key: 'k' })).success).toBe(true)
+		expect((await limiter.limit({ key: 'k' })).success).toBe(false)
+
+		clock.advance(10_000)
+		expect((await limiter.limit({ key: 'k' })).success).toBe(true)
+	})
+
+	test('rejected calls do not extend the window', async () => {
+		const limiter = new SqliteRateLimiter(db, '1001', 1, 10, clock)
+		await limiter.limit({ key: 'k' })
+		clock.advance(9_000)
+		expect((await limiter.limit({ key: 'k' })).success).toBe(false)
+		clock.advance(1_000)
+		expect((await limiter.limit({ key: 'k' })).success).toBe(true)
+	})
+
+	test('limiters on the same namespace share counters', async () => {
+		const a = new SqliteRateLimiter(db, 'shared', 2, 60, clock)
+		const b = new SqliteRateLimiter(db, 'shared', 2, 60, clock)
+		const other = new SqliteRateLimiter(db, 'other', 2, 60, clock)
+		await a.limit({ key: 'k' })
+		await b.limit({ key: 'k' })
+		expect((await a.limit({ key: 'k' })).success).toBe(false)
+		expect((await other.limit({ key: 'k' })).success).toBe(true)
+	})
+
+	test('rejects a non-string key', async () => {
+		const limiter = new SqliteRateLimiter(db, '1001', 1, 10, clock)
+		await expect(limiter.limit({ key: 42 as unknown as string })).rejects.toThrow('"key" must be a string')
+	})
+})
+
+describe('counters and reset', () => {
+	test('lists keys in the current window and resets by key or namespace', async () => {
+		const limiter = new SqliteRateLimiter(db, 'ns', 5, 10, clock)
+		await limiter.limit({ key: 'a' })
+		await limiter.limit({ key: 'a' })
+		await limiter.limit({ key: 'b' })
+
+		const counters = listRateLimitCounters(db, 'ns', 10, clock.now())
+		expect(counters).toEqual([
+			{ namespaceId: 'ns', key: 'a', count: 2, resetsAt: clock.now() + 10_000 },
+			{ namespaceId: 'ns', key: 'b', count: 1, resetsAt: clock.now() + 10_000 },
+		])
+		expect(listRateLimitCounters(db, 'ns', 10, clock.now() + 10_000)).toEqual([])
+
+		expect(resetRateLimits(db, 'ns', 'a')).toBe(2)
+		expect(listRateLimitCounters(db, 'ns', 10, clock.now()).map(c => c.key)).toEqual(['b'])
+		expect(resetRateLimits(db, 'ns')).toBe(1)
+		expect(listRateLimitCounters(db, 'ns', 10, clock.now())).toEqual([])
+	})
+})
+
+describe('rateLimitBindings', () => {
+	test('reads `ratelimits` and unsafe ratelimit bindings', () => {
+		const config = {
+			name: 'w',
+			main: 'index.ts',
+			ratelimits: [{ name: 'LIMITER', namespace_id: '1001', simple: { limit: 100, period: 60 } }],
+			unsafe: {
+				bindings: [
+					{ name: 'LEGACY', type: 'ratelimit', namespace_id: 1002, simple: { limit: 5, period: 10 } },
+					{ name: 'OTHER', type: 'something_else' },
+				],
+			},
+		} as WranglerConfig
+		expect(rateLimitBindings(config)).toEqual([
+			{ binding: 'LIMITER', namespaceId: '1001', limit: 100, period: 60 },
+			{ binding: 'LEGACY', namespaceId: '1002', limit: 5, period: 10 },
+		])
+	})
+
+	test('rejects periods other than 10 and 60 seconds', () => {
+		const config = {
+			name: 'w',
+			main: 'index.ts',
+			ratelimits: [{ name: 'LIMITER', namespace_id: '1', simple: { limit: 10, period: 30 } }],
+		} as WranglerConfig
+		expect(() => rateLimitBindings(config)).toThrow('"simple.period" must be 10 or 60 seconds')
+	})
+})
+
+describe('createTestEnv', () => {
+	let t: TestEnv | null = null
+
+	afterEach(() => {
+		t?.dispose()
+		t = null
+	})
+
+	test('a ratelimit binding follows the test clock', async () => {
+		t = await createTestEnv({
+			bindings: { LIMITER: { type: 'ratelimit', limit: 1, period: 60 } },
+			clock: true,
+			worker: {
+				async fetch(_req, env) {
+					const { success } = await (env.LIMITER as SqliteRateLimiter).limit({ key: 'client' })
+					return new Response(null, { status: success ? 200 : 429 })
+				},
+			},
+		})
+		expect((await t.fetch('/')).status).toBe(200)
+		expect((await t.fetch('/')).status).toBe(429)
+		await t.advanceTime(60_000)
+		expect((await t.fetch('/')).status).toBe(200)
+	})
+	test('a ratelimit spec is checked like a wrangler binding', async () => {
+		await expect(createTestEnv({ bindings: { LIMITER: { type: 'ratelimit', limit: 1, period: 120 } } }))
+			.rejects.toThrow('Rate limit binding "LIMITER": "period" must be 10 or 60 seconds')
+		await expect(createTestEnv({ bindings: { LIMITER: { type: 'ratelimit', limit: 0, period: 10 } } }))
+			.rejects.toThrow('"limit" must be a positive integer')
+	})
+})
@@ -0,0 +1,197 @@
+import { describe, expect, test } from 'bun:test'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MmdbReader } from '../src/mmdb'
+import { cfSpanAttributes, RequestCfResolver } from '../src/request-cf'
+import { deserializeRequest, serializeRequestShell } from '../src/worker-thread/serialize'
+
+// ─── Tiny MaxMind DB writer (IPv4 tree, 24-bit records) ──────────────
+
+function encode(value: unknown): Buffer {
+	const header = (type: number, size: number): Buffer => {
+		const ext = type > 7
+		const ctrl = ((ext ? 0 : type) << 5) | (size < 29 ? size : 29)
+		return Buffer.from([ctrl, ...(ext ? [type - 7] : []), ...(size < 29 ? [] : [size - 29])])
+	}
+	if (typeof value === 'string') {
+		const bytes = Buffer.from(value, 'utf8')
+		return Buffer.concat([header(2, bytes.length), bytes])
+	}
+	if (typeof value === 'boolean') return header(14, value ? 1 : 0)
+	if (typeof value === 'number' && !Number.isInteger(value)) {
+		const bytes = Buffer.alloc(8)
+		bytes.writeDoubleBE(value)
+		return Buffer.concat([header(3, 8), bytes])
+	}
+	if (typeof value === 'number') {
+		const bytes: number[] = []
+		for (let n = value; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256)
+		return Buffer.concat([header(6, bytes.length), Buffer.from(bytes)])
+	}
+	if (Array.isArray(value)) return Buffer.concat([header(11, value.length), ...value.map(encode)])
+	const entries = Object.entries(value as Record<string, unknown>)
+	return Buffer.concat([header(7, entries.length), ...entries.flatMap(([k, v]) => [encode(k), encode(v)])])
+}
+
+function writeMmdb(entries: { network: string; record: Record<string, unknown> }[]): Buffer {
+	type Child = number | { data: number } | null
+	const nodes: [Child, Child][] = [[null, null]]
+	const data: Buffer[] = []
+	let dataSize = 0
+	for (const { network, record } of entries) {
+		const [ip, len] = network.split('/') as [string, string]
+		const bytes = ip.split('.').map(Number)
+		const encoded = encode(record)
+		const leaf = { data: dataSize }
+		data.push(encoded)
+		dataSize += encoded.length
+		let node = 0
+		for (let i = 0; i < Number(len); i++) {
+			const bit = (bytes[i >> 3]! >> (7 - (i & 7))) & 1
+			if (i === Number(len) - 1) {
+				nodes[node]![bit] = leaf
+			} else {
+				if (typeof nodes[node]![bit] !== 'number') {
+					nodes.push([null, null])
+					nodes[node]![bit] = nodes.length - 1
+				}
+				node = nodes[node]![bit] as number
+			}
+		}
+	}
+	const nodeCount = nodes.length
+	const tree = Buffer.alloc(nodeCount * 6)
+	nodes.forEach((children, i) => {
+		children.forEach((child, bit) => {
+			const value = child === null ? nodeCount : typeof child === 'number' ? child : nodeCount + 16 + child.data
+			tree.writeUIntBE(value, i * 6 + bit * 3, 3)
+		})
+	})
+	const metadata = encode({ node_count: nodeCount, record_size: 24, ip_version: 4, database_type: 'Test-City', build_epoch: 0 })
+	return Buffer.concat([tree, Buffer.alloc(16), ...data, Buffer.from('\xAB\xCD\xEFMaxMind.com', 'latin1'), metadata])
+}
+
+const berlin = {
+	continent: { code: 'EU' },
+	country: { iso_code: 'DE', is_in_european_union: true },
+	city: { names: { en: 'Berlin' } },
+	subdivisions: [{ iso_code: 'BE', names: { en: 'Land Berlin' } }],
+	location: { latitude: 52.52, longitude: 13.405, time_zone: 'Europe/Berlin' },
+	autonomous_system_number: 3320,
+}
+
+function geoipFile(): string {
+	const path = join(mkdtempSync(join(tmpdir(), 'lopata-cf-')), 'test.mmdb')
+	writeFileSync(path, writeMmdb([{ network: '81.2.69.0/24', record: berlin }]))
+	return path
+}
+
+describe('MmdbReader', () => {
+	test('looks up IPv4 and IPv4-mapped addresses', () => {
+		const reader = MmdbReader.open(geoipFile())
+		expect(reader.metadata.database_type).toBe('Test-City')
+		expect(reader.get('81.2.69.160')).toEqual(berlin)
+		expect(reader.get('::ffff:81.2.69.1')).toEqual(berlin)
+		expect(reader.get('81.2.70.1')).toBeNull()
+		expect(reader.get('127.0.0.1')).toBeNull()
+		expect(reader.get('not-an-ip')).toBeNull()
+	})
+})
+
+// ─── RequestCfResolver ───────────────────────────────────────────────
+
+const profiles = {
+	eu: { country: 'DE', city: 'Frankfurt', colo: 'FRA', timezone: 'Europe/Berlin' },
+	uk: { country: 'GB', colo: 'LHR' },
+}
+
+function cfOf(request: Request): Record<string, unknown> {
+	return (request as unknown as { cf: Record<string, unknown> }).cf
+}
+
+describe('RequestCfResolver', () => {
+	test('without configuration every request gets the built-in San Francisco values', () => {
+		const cf = cfOf(new RequestCfResolver().apply(new Request('http://localhost/'), '127.0.0.1'))
+		expect(cf.country).toBe('US')
+		expect(cf.city).toBe('San Francisco')
+		expect(Object.isFrozen(cf)).toBe(true)
+	})
+
+	test('transport fields follow the scheme the dev server was reached on', () => {
+		const resolver = new RequestCfResolver()
+		expect(cfOf(resolver.apply(new Request('https://app.localhost/'), null))).toMatchObject({
+			httpProtocol: 'HTTP/1.1',
+			tlsVersion: 'TLSv1.3',
+			tlsCipher: 'AEAD-AES128-GCM-SHA256',
+		})
+		expect(cfOf(resolver.apply(new Request('http://localhost/'), null))).toMatchObject({ httpProtocol: 'HTTP/1.1', tlsVersion: '', tlsCipher: '' })
+		const pinned = new RequestCfResolver({ profiles: { h2: { httpProtocol: 'HTTP/2' } }, profile: 'h2' })
+		expect(cfOf(pinned.apply(new Request('http://localhost/'), null)).httpProtocol).toBe('HTTP/2')
+	})
+
+	test('the active profile applies and can be switched', () => {
+		const resolver = new RequestCfResolver({ profiles, profile: 'eu' })
+		const cf = cfOf(resolver.apply(new Request('http://localhost/'), null))
+		expect(cf).toMatchObject({ country: 'DE', city: 'Frankfurt', colo: 'FRA', isEUCountry: '1', asn: 13335 })
+		// Location fields of the built-in profile don't leak into another country.
+		expect(cf.region).toBeUndefined()
+
+		resolver.setActiveProfile('uk')
+		expect(cfOf(resolver.apply(new Request('http://localhost/'), null))).toMatchObject({ country: 'GB', isEUCountry: '0' })
+		resolver.setActiveProfile(null)
+		expect(cfOf(resolver.apply(new Request('http://localhost/'), null)).country).toBe('US')
+		expect(() => resolver.setActiveProfile('mars')).toThrow('Unknown cf profile "mars"')
+	})
+
+	test('per-request headers and query params override fields and are stripped', () => {
+		const resolver = new RequestCfResolver({ profiles })
+		const request = resolver.apply(
+			new Request('http://localhost/page?__cf_profile=eu&__cf_region-code=HE&keep=1', {
+				headers: { 'x-lopata-cf-city': 'Wiesbaden', 'x-lopata-cf-asn': '64512', accept: 'text/html' },
+			}),
+			null,
+		)
+		expect(request.url).toBe('http://localhost/page?keep=1')
+		expect(request.headers.get('x-lopata-cf-city')).toBeNull()
+		expect(request.headers.get('accept')).toBe('text/html')
+		expect(cfOf(request)).toMatchObject({ country: 'DE', city: 'Wiesbaden', regionCode: 'HE', asn: 64512 })
+
+		const country = cfOf(resolver.apply(new Request('http://localhost/', { headers: { 'x-lopata-cf-country': 'FR' } }), null))
+		expect(country).toMatchObject({ country: 'FR', isEUCountry: '1' })
+		expect(country.city).toBeUndefined()
+	})
+
+	test('client IPs are looked up in the GeoIP database', () => {
+		const resolver = new RequestCfResolver({ geoipDatabase: geoipFile() })
+		const cf = cfOf(resolver.apply(new Request('http://localhost/'), '81.2.69.160'))
+		expect(cf).toMatchObject({
+			country: 'DE',
+			city: 'Berlin',
+			region: 'Land Berlin',
+			regionCode: 'BE',
+			continent: 'EU',
+			timezone: 'Europe/Berlin',
+			latitude: '52.52',
+			asn: 3320,
+			isEUCountry: '1',
+		})
+		expect(cfOf(resolver.apply(new Request('http://localhost/'), '127.0.0.1')).country).toBe('US')
+
+		const viaHeader = resolver.apply(new Request('http://localhost/', { headers: { 'x-lopata-cf-ip': '81.2.69.1' } }), '127.0.0.1')
+		expect(cfOf(viaHeader).city).toBe('Berlin')
+		expect(() => new RequestCfResolver({ geoipDatabase: '/nope.mmdb' })).toThrow('GeoIP database not found')
+	})
+
+	test('chosen values become root span attributes', () => {
+		const request = new RequestCfResolver({ profiles }).apply(new Request('http://localhost/?__cf_profile=uk'), null)
+		expect(cfSpanAttributes(request)).toMatchObject({ 'cf.country': 'GB', 'cf.colo': 'LHR', 'lopata.cf_profile': 'uk' })
+		expect(cfSpanAttributes(new Request('http://localhost/'))).toEqual({})
+	})
+
+	test('cf survives the trip into the worker thread', () => {
+		const request = new RequestCfResolver({ profiles, profile: 'eu' }).apply(new Request('http://localhost/'), null)
+		const rebuilt = deserializeRequest({ ...serializeRequestShell(request), body: null })
+		expect(cfOf(rebuilt).colo).toBe('FRA')
+	})
+})
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test'
-import { extractPathPattern, matchHost, matchRoute, RouteDispatcher } from '../src/route-matcher'
+import { extractHostPattern, extractPathPattern, matchHost, matchRoute, productionHostnames, RouteDispatcher } from '../src/route-matcher'
 
 describe('extractPathPattern', () => {
 	test('strips domain from route pattern', () => {
@@ -75,6 +75,18 @@ describe('extractPathPattern', () => {
 	})
 })
 
+describe('extractHostPattern', () => {
+	test('returns the lowercased host without protocol or port', () => {
+		expect(extractHostPattern('https://API.example.com:8443/v1/*')).toBe('api.example.com')
+		expect(extractHostPattern({ pattern: '*.example.com/*' })).toBe('*.example.com')
+		expect(extractHostPattern('example.com')).toBe('example.com')
+	})
+
+	test('path-only patterns have no host', () => {
+		expect(extractHostPattern('/api/*')).toBeNull()
+	})
+})
+
 describe('matchRoute', () => {
 	test('wildcard /* matches everything', () => {
 		expect(matchRoute('/', '/*')).toBe(true)
@@ -166,6 +178,27 @@ describe('matchHost', () => {
 	test('non-wildcard pattern does not match subdomains', () => {
 		expect(matchHost('sub.localhost', 'localhost')).toBe(false)
 	})
+
+	test('*example.com also matches the bare domain', () => {
+		expect(matchHost('example.com', '*example.com')).toBe(true)
+		expect(matchHost('www.example.com', '*example.com')).toBe(true)
+		expect(matchHost('example.org', '*example.com')).toBe(false)
+	})
+})
+
+describe('productionHostnames', () => {
+	const hostMap = { 'example.com': 'localhost', '*.example.com': '*.localhost' }
+
+	test('maps exact and wildcard local hostnames back to production ones', () => {
+		expect(productionHostnames('localhost', hostMap)).toEqual(['localhost', 'example.com'])
+		expect(productionHostnames('api.localhost', hostMap)).toEqual(['api.localhost', 'api.example.com'])
+		expect(productionHostnames('a.b.localhost', hostMap)).toEqual(['a.b.localhost', 'a.b.example.com'])
+	})
+
+	test('unmapped hostnames stand for themselves', () => {
+		expect(productionHostnames('Example.com', hostMap)).toEqual(['example.com'])
+		expect(productionHostnames('localhost')).toEqual(['localhost'])
+	})
 })
 
 describe('RouteDispatcher', () => {
@@ -379,7 +412,7 @@ describe('RouteDispatcher', () => {
 		expect(dispatcher.resolve('/anything')).toBe(fallback)
 	})
 
-	test('custom_domain routes are skipped', () => {
+	test('custom_domain routes match only their own hostname', () => {
 		const fallback = mockManager('main')
 		const dispatcher = new RouteDispatcher(fallback)
 
@@ -395,8 +428,11 @@ describe('RouteDispatcher', () => {
 			'worker',
 		)
 
-		expect(dispatcher.getRegisteredRoutes()).toHaveLength(1)
-		expect(dispatcher.getRegisteredRoutes()[0]!.pattern).toBe('/api/*')
+		expect(dispatcher.getRegisteredRoutes()).toHaveLength(2)
+		expect(dispatcher.getRegisteredRoutes().find(r => r.customDomain)).toMatchObject({ host: 'api.example.com', pattern: '/*' })
+		// A custom domain never catches requests by path alone
+		expect(dispatcher.resolve('/other', 'localhost')).toBe(fallback)
+		expect(dispatcher.resolve('/other', 'api.example.com')).toBe(worker)
 	})
 
 	test('empty route patterns are skipped with warning', () => {
@@ -533,4 +569,69 @@ describe('RouteDispatcher', () => {
 		expect(dispatcher.resolve('/foo', 'b.localhost')).toBe(workerB)
 		expect(dispatcher.resolve('/foo', 'other.localhost')).toBe(fallback)
 	})
+
+	describe('domain routes', () => {
+		function domainDispatcher() {
+			const fallback = mockManager('main')
+			const dispatcher = new RouteDispatcher(fallback)
+			const apiWorker = mockManager('api')
+			const siteApiWorker = mockManager('site-api')
+			dispatcher.addRoutes({ routes: [{ pattern: 'api.example.com/*', zone_name: 'example.com' }] } as any, apiWorker, 'api')
+			dispatcher.addRoutes({ routes: [{ pattern: 'example.com/api/*', zone_name: 'example.com' }] } as any, siteApiWorker, 'site-api')
+			return { dispatcher, fallback, apiWorker, siteApiWorker }
+		}
+
+		test('routes on different hosts with overlapping paths stay distinct', () => {
+			const { dispatcher, fallback, apiWorker, siteApiWorker } = domainDispatcher()
+			dispatcher.setHostMap({ 'example.com': 'localhost', '*.example.com': '*.localhost' })
+
+			expect(dispatcher.resolve('/api/users', 'api.localhost')).toBe(apiWorker)
+			expect(dispatcher.resolve('/', 'api.localhost')).toBe(apiWorker)
+			expect(dispatcher.resolve('/api/users', 'localhost')).toBe(siteApiWorker)
+			expect(dispatcher.resolve('/', 'localhost')).toBe(fallback)
+			// Production hostnames pointed at 127.0.0.1 match without a mapping
+			expect(dispatcher.resolve('/api/users', 'example.com')).toBe(siteApiWorker)
+		})
+
+		test('without a matching host, routes fall back to path-only matching', () => {
+			const { dispatcher, siteApiWorker } = domainDispatcher()
+			expect(dispatcher.resolve('/api/users', 'localhost')).toBe(siteApiWorker)
+			expect(dispatcher.explain('/api/users', 'localhost')).toEqual({
+				workerName: 'site-api',
+				route: 'example.com/api/*',
+				hostnames: ['localhost'],
+				domainAware: false,
+			})
+		})
+
+		test('exact hosts win over leading-wildcard hosts for the same path', () => {
+			const fallback = mockManager('main')
+			const dispatcher = new RouteDispatcher(fallback)
+			const wildcard = mockManager('wildcard')
+			const exact = mockManager('exact')
+			dispatcher.addRoutes({ routes: ['*example.com/*'] } as any, wildcard, 'wildcard')
+			dispatcher.addRoutes({ routes: ['shop.example.com/*'] } as any, exact, 'exact')
+			dispatcher.setHostMap({ '*.example.com': '*.localhost' })
+
+			expect(dispatcher.resolve('/', 'shop.localhost')).toBe(exact)
+			expect(dispatcher.resolve('/', 'blog.localhost')).toBe(wildcard)
+			expect(dispatcher.explain('/', 'blog.localhost')).toMatchObject({ route: '*example.com/*', hostnames: ['blog.localhost', 'blog.example.com'] })
+		})
+
+		test('routes outside their zone and invalid host mappings warn', () => {
+			const warnings: string[] = []
+			const origWarn = console.warn
+			console.warn = (...args: any[]) => warnings.push(args.join(' '))
+			try {
+				const dispatcher = new RouteDispatcher(mockManager('main'))
+				dispatcher.addRoutes({ routes: [{ pattern: 'example.org/*', zone_name: 'example.com' }] } as any, mockManager('w'), 'w')
+				dispatcher.setHostMap({ '*.example.com': 'localhost' })
+				expect(warnings.some(w => w.includes('outside its zone "example.com"'))).toBe(true)
+				expect(warnings.some(w => w.includes('hostMap entry "*.example.com"'))).toBe(true)
+				expect(dispatcher.getHostMap()).toEqual({})
+			} finally {
+				console.warn = origWarn
+			}
+		})
+	})
 })
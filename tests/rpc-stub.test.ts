@@ -12,6 +12,7 @@ import {
 	wrapRpcReturnValue,
 } from '../src/bindings/rpc-stub'
 import { createServiceBinding } from '../src/bindings/service-binding'
+import { runMigrations } from '../src/db'
 import { validateRpcValue } from '../src/rpc-validate'
 
 // Helper: create an RpcTarget-branded object
@@ -462,9 +463,7 @@ describe('RPC validation with RpcTarget', () => {
 describe('Integration: DO stub with RpcTarget return', () => {
 	test('DO method returning RpcTarget gives wrapped stub', async () => {
 		const db = new Database(':memory:')
-		db.run(`CREATE TABLE IF NOT EXISTS do_storage (namespace TEXT, id TEXT, key TEXT, value TEXT, PRIMARY KEY(namespace, id, key))`)
-		db.run(`CREATE TABLE IF NOT EXISTS do_alarms (namespace TEXT, id TEXT, alarm_time INTEGER, PRIMARY KEY(namespace, id))`)
-		db.run(`CREATE TABLE IF NOT EXISTS do_instances (namespace TEXT, id TEXT, name TEXT, PRIMARY KEY(namespace, id))`)
+		runMigrations(db)
 
 		class ChildTarget {
 			childValue = 99
@@ -507,9 +506,7 @@ describe('Integration: DO stub with RpcTarget return', () => {
 
 	test('DO stub supports promise pipelining', async () => {
 		const db = new Database(':memory:')
-		db.run(`CREATE TABLE IF NOT EXISTS do_storage (namespace TEXT, id TEXT, key TEXT, value TEXT, PRIMARY KEY(namespace, id, key))`)
-		db.run(`CREATE TABLE IF NOT EXISTS do_alarms (namespace TEXT, id TEXT, alarm_time INTEGER, PRIMARY KEY(namespace, id))`)
-		db.run(`CREATE TABLE IF NOT EXISTS do_instances (namespace TEXT, id TEXT, name TEXT, PRIMARY KEY(namespace, id))`)
+		runMigrations(db)
 
 		class ChildTarget {
 			constructor() {
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { LocalSecretsStore, SecretsStoreSecret, secretsStoreDir } from '../src/bindings/secrets-store'
+
+const dirs: string[] = []
+
+function dataDir(): string {
+	const dir = mkdtempSync(join(tmpdir(), 'lopata-secrets-'))
+	dirs.push(dir)
+	return dir
+}
+
+afterEach(() => {
+	for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+})
+
+describe('LocalSecretsStore', () => {
+	test('values are encrypted at rest and the key file is private', () => {
+		const dir = dataDir()
+		const store = new LocalSecretsStore(dir)
+		expect(store.put('store-1', 'API_KEY', 'sk-very-secret', 'prod key')).toBe('created')
+
+		const file = readFileSync(join(secretsStoreDir(dir), 'secrets.json'), 'utf8')
+		expect(file).not.toContain('sk-very-secret')
+		expect(file).toContain('API_KEY')
+		expect(statSync(join(secretsStoreDir(dir), 'key')).mode & 0o777).toBe(0o600)
+
+		// A fresh instance reads the same key back from disk.
+		expect(new LocalSecretsStore(dir).get('store-1', 'API_KEY')).toBe('sk-very-secret')
+	})
+
+	test('put replaces, list hides values, delete removes', () => {
+		const store = new LocalSecretsStore(dataDir())
+		store.put('b-store', 'TOKEN', 'one')
+		store.put('a-store', 'TOKEN', 'other')
+		expect(store.put('b-store', 'TOKEN', 'two')).toBe('updated')
+		expect(store.get('b-store', 'TOKEN')).toBe('two')
+
+		const listed = store.list()
+		expect(listed.map(s => `${s.storeId}/${s.name}`)).toEqual(['a-store/TOKEN', 'b-store/TOKEN'])
+		expect(JSON.stringify(listed)).not.toContain('two')
+		expect(store.list('a-store')).toHaveLength(1)
+
+		expect(store.delete('b-store', 'TOKEN')).toBe(true)
+		expect(store.delete('b-store', 'TOKEN')).toBe(false)
+		expect(store.get('b-store', 'TOKEN')).toBeNull()
+		expect(store.has('a-store', 'TOKEN')).toBe(true)
+	})
+
+	test('rejects invalid secret names', () => {
+		const store = new LocalSecretsStore(dataDir())
+		expect(() => store.put('store-1', 'has space', 'x')).toThrow('invalid secret name')
+		expect(() => store.put('', 'NAME', 'x')).toThrow('store id is required')
+	})
+
+	test('a ciphertext moved to another secret does not decrypt', () => {
+		const dir = dataDir()
+		const store = new LocalSecretsStore(dir)
+		store.put('store-1', 'A', 'alpha')
+		store.put('store-1', 'B', 'beta')
+		const path = join(secretsStoreDir(dir), 'secrets.json')
+		const file = JSON.parse(readFileSync(path, 'utf8'))
+		file.secrets[1].value = file.secrets[0].value
+		writeFileSync(path, JSON.stringify(file))
+		expect(() => store.get('store-1', 'B')).toThrow('cannot decrypt')
+	})
+})
+
+describe('SecretsStoreSecret', () => {
+	test('get() reads the current value on every call', async () => {
+		const store = new LocalSecretsStore(dataDir())
+		const secret = new SecretsStoreSecret(store, 'API_KEY', 'store-1', 'API_KEY')
+		store.put('store-1', 'API_KEY', 'first')
+		expect(await secret.get()).toBe('first')
+		store.put('store-1', 'API_KEY', 'second')
+		expect(await secret.get()).toBe('second')
+	})
+
+	test('get() for a missing secret names the binding and the command that creates it', async () => {
+		const secret = new SecretsStoreSecret(new LocalSecretsStore(dataDir()), 'MY_SECRET', 'store-1', 'api-key')
+		const error = await secret.get().catch(e => e as Error)
+		expect(error).toBeInstanceOf(Error)
+		expect((error as Error).message).toContain('"MY_SECRET"')
+		expect((error as Error).message).toContain('lopata secrets-store secret create store-1 --name api-key')
+	})
+})
@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test'
 import { createServiceBinding } from '../src/bindings/service-binding'
+import type { Socket } from '../src/bindings/sockets'
 import { runWithContext } from '../src/tracing/context'
 
 describe('Service Binding', () => {
@@ -87,6 +88,25 @@ describe('Service Binding', () => {
 			const fetch = proxy.fetch as Function
 			expect(fetch(new Request('http://localhost/'))).rejects.toThrow('no fetch() handler')
 		})
+
+		test('sends the active span as traceparent and leaves the original request unchanged', async () => {
+			const workerModule: Record<string, unknown> = {
+				default: {
+					fetch: async (request: Request) => new Response(`${request.headers.get('traceparent')} ${request.headers.get('tracestate')}`),
+				},
+			}
+			const proxy = createServiceBinding('my-worker')
+			;(proxy._wire as Function)(workerModule, mockEnv)
+
+			const fetch = proxy.fetch as Function
+			const upstream = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+			const request = new Request('http://localhost/', { headers: { traceparent: upstream, tracestate: 'vendor=abc' } })
+			const ctx = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), fetchStack: { current: null }, subrequests: { count: 0 } }
+			const response: Response = await runWithContext(ctx, () => fetch(request))
+			expect(await response.text()).toBe(`00-${'a'.repeat(32)}-${'b'.repeat(16)}-01 null`)
+			expect(request.headers.get('traceparent')).toBe(upstream)
+			expect(request.headers.get('tracestate')).toBe('vendor=abc')
+		})
 	})
 
 	describe('RPC mode', () => {
@@ -517,12 +537,33 @@ describe('Service Binding', () => {
 	})
 
 	describe('TCP connect()', () => {
-		test('connect() throws not supported error', () => {
+		test('connect() hands a socket to the target connect handler', async () => {
+			const proxy = createServiceBinding('my-worker')
+			;(proxy._wire as Function)({
+				default: {
+					async connect(socket: Socket, env: { MY_VAR: string }) {
+						const text = await new Response(socket.readable).text()
+						const writer = socket.writable.getWriter()
+						await writer.write(new TextEncoder().encode(`${env.MY_VAR}:${text}`))
+						await writer.close()
+					},
+				},
+			}, mockEnv)
+
+			const socket = (proxy.connect as Function)('example.com:443') as Socket
+			const writer = socket.writable.getWriter()
+			await writer.write(new TextEncoder().encode('ping'))
+			await writer.close()
+			expect(await new Response(socket.readable).text()).toBe('test:ping')
+			await socket.closed
+		})
+
+		test('connect() to a worker without a connect handler rejects opened', async () => {
 			const proxy = createServiceBinding('my-worker')
 			;(proxy._wire as Function)(mockWorkerModule, mockEnv)
 
-			const connect = proxy.connect as Function
-			expect(() => connect('example.com:443')).toThrow('not supported in local dev mode')
+			const socket = (proxy.connect as Function)('example.com:443') as Socket
+			await expect(socket.opened).rejects.toThrow('has no connect() handler')
 		})
 	})
 
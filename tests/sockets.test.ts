@@ -0,0 +1,203 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { connect } from '../src/bindings/sockets'
+import { ensureDevCertificates } from '../src/certs'
+import { closeDatabase, getDataDir, setDataDir } from '../src/db'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const listeners: Array<{ stop(closeActiveConnections?: boolean): void }> = []
+
+afterEach(() => {
+	for (const listener of listeners.splice(0)) listener.stop(true)
+})
+
+/** Echo server that says "bye" once the client ends its side. */
+function echoServer(): number {
+	const listener = Bun.listen({
+		hostname: '127.0.0.1',
+		port: 0,
+		allowHalfOpen: true,
+		socket: {
+			data: (socket, data) => {
+				socket.write(data)
+			},
+			end: socket => {
+				socket.write('bye')
+				socket.end()
+			},
+		},
+	})
+	listeners.push(listener)
+	return listener.port
+}
+
+describe('connect()', () => {
+	test('round-trips bytes and reports the addresses once opened', async () => {
+		const port = echoServer()
+		const socket = connect(`127.0.0.1:${port}`)
+		expect(await socket.opened).toEqual({ remoteAddress: `127.0.0.1:${port}`, localAddress: expect.stringMatching(/^127\.0\.0\.1:\d+$/) })
+
+		const writer = socket.writable.getWriter()
+		await writer.write(encode('hello'))
+		// Closing the writable only half-closes — the reply still arrives.
+		await writer.close()
+		expect(await new Response(socket.readable).text()).toBe('hellobye')
+		await socket.closed
+	})
+
+	test('close() resolves closed and ends the readable', async () => {
+		const socket = connect({ hostname: '127.0.0.1', port: echoServer() })
+		await socket.opened
+		await socket.close()
+		expect(await new Response(socket.readable).text()).toBe('')
+	})
+
+	test('without allowHalfOpen the writable closes when the peer ends', async () => {
+		const listener = Bun.listen({
+			hostname: '127.0.0.1',
+			port: 0,
+			allowHalfOpen: true,
+			socket: {
+				open: socket => {
+					socket.write('hi')
+					socket.shutdown()
+				},
+				data: () => {},
+			},
+		})
+		listeners.push(listener)
+
+		const socket = connect(`127.0.0.1:${listener.port}`)
+		expect(await new Response(socket.readable).text()).toBe('hi')
+		await socket.closed
+		await expect(socket.writable.getWriter().write(encode('late'))).rejects.toThrow('Socket is closed')
+	})
+
+	test('allowHalfOpen keeps writing after the peer ends', async () => {
+		let received = ''
+		const done = Promise.withResolvers<void>()
+		const listener = Bun.listen({
+			hostname: '127.0.0.1',
+			port: 0,
+			allowHalfOpen: true,
+			socket: {
+				open: socket => {
+					socket.shutdown()
+				},
+				data: (_socket, data) => {
+					received += data.toString()
+				},
+				close: () => done.resolve(),
+			},
+		})
+		listeners.push(listener)
+
+		const socket = connect(`127.0.0.1:${listener.port}`, { allowHalfOpen: true })
+		expect(await new Response(socket.readable).text()).toBe('')
+		const writer = socket.writable.getWriter()
+		await writer.write(encode('still here'))
+		await writer.close()
+		await done.promise
+		expect(received).toBe('still here')
+	})
+
+	test('connection failures reject opened and closed', async () => {
+		const socket = connect('127.0.0.1:1')
+		await expect(socket.opened).rejects.toThrow()
+		await expect(socket.closed).rejects.toThrow()
+	})
+
+	test('validates the address and options', () => {
+		expect(() => connect('no-port')).toThrow('expected "host:port"')
+		expect(() => connect({ hostname: 'example.com', port: 70000 })).toThrow('invalid port')
+		expect(() => connect('smtp.example.com:25')).toThrow('port 25')
+		expect(() => connect('example.com:443', { secureTransport: 'tls' as 'on' })).toThrow('secureTransport')
+		expect(() => connect('[::1]:1').startTls()).toThrow("secureTransport: 'starttls'")
+	})
+})
+
+describe('TLS', () => {
+	// Sockets trust lopata's dev CA from the data dir — issue it into a temporary one.
+	const previousDataDir = getDataDir()
+	let dataDir: string
+	let certs: { cert: string; key: string }
+
+	beforeAll(() => {
+		dataDir = mkdtempSync(join(tmpdir(), 'lopata-sockets-'))
+		closeDatabase()
+		setDataDir(dataDir)
+		certs = ensureDevCertificates(dataDir)
+	})
+
+	afterAll(() => {
+		closeDatabase()
+		setDataDir(previousDataDir)
+		rmSync(dataDir, { recursive: true, force: true })
+	})
+
+	test("secureTransport: 'on' connects over TLS", async () => {
+		const listener = Bun.listen({
+			hostname: '127.0.0.1',
+			port: 0,
+			tls: { cert: certs.cert, key: certs.key },
+			socket: {
+				data: (socket, data) => {
+					socket.write(`tls:${data}`)
+				},
+			},
+		})
+		listeners.push(listener)
+
+		const socket = connect(`localhost:${listener.port}`, { secureTransport: 'on' })
+		await socket.opened
+		await socket.writable.getWriter().write(encode('x'))
+		const { value } = await socket.readable.getReader().read()
+		expect(new TextDecoder().decode(value)).toBe('tls:x')
+		await socket.close()
+	})
+
+	test('startTls() upgrades a plain connection', async () => {
+		// A STARTTLS-style server: plain until the client asks, then TLS.
+		const listener = Bun.listen({
+			hostname: '127.0.0.1',
+			port: 0,
+			socket: {
+				data: (socket, data) => {
+					if (data.toString() !== 'STARTTLS') return
+					socket.write('OK')
+					socket.upgradeTLS({
+						tls: { cert: certs.cert, key: certs.key },
+						socket: {
+							data: (secure, payload) => {
+								secure.write(`secure:${payload}`)
+							},
+						},
+					})
+				},
+			},
+		})
+		listeners.push(listener)
+
+		const plain = connect(`localhost:${listener.port}`, { secureTransport: 'starttls' })
+		const plainWriter = plain.writable.getWriter()
+		const plainReader = plain.readable.getReader()
+		await plainWriter.write(encode('STARTTLS'))
+		expect(new TextDecoder().decode((await plainReader.read()).value)).toBe('OK')
+
+		const secure = plain.startTls()
+		expect(plain.upgraded).toBe(true)
+		expect(() => plain.startTls()).toThrow('only be called once')
+		await secure.opened
+		expect(secure.secureTransport).toBe('on')
+		// The plain socket's streams are retired.
+		expect((await plainReader.read()).done).toBe(true)
+
+		await secure.writable.getWriter().write(encode('hello'))
+		expect(new TextDecoder().decode((await secure.readable.getReader().read()).value)).toBe('secure:hello')
+		await secure.close()
+		await plain.closed
+	})
+})
@@ -2,7 +2,8 @@ import { afterEach, beforeEach, expect, test } from 'bun:test'
 import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
-import { matchPattern, matchRedirectPattern, parseHeadersFile, parseRedirects, StaticAssets } from '../src/bindings/static-assets'
+import { brotliDecompressSync, gunzipSync } from 'node:zlib'
+import { matchPattern, matchRedirectPattern, parseHeadersFile, parseRange, parseRedirects, StaticAssets } from '../src/bindings/static-assets'
 
 let tmpDir: string
 let assets: StaticAssets
@@ -552,3 +553,137 @@ test('fetch with string input skips conditional-request handling (no If-None-Mat
 	expect(res.status).toBe(200)
 	expect(res.headers.get('ETag')).toBeTruthy()
 })
+
+// === Range requests ===
+
+const DIGITS = '0123456789'.repeat(10)
+
+test('parseRange: single, open-ended, suffix and invalid ranges', () => {
+	expect(parseRange('bytes=0-9', 100)).toEqual([[0, 9]])
+	expect(parseRange('bytes=90-', 100)).toEqual([[90, 99]])
+	expect(parseRange('bytes=-5', 100)).toEqual([[95, 99]])
+	expect(parseRange('bytes=95-500', 100)).toEqual([[95, 99]])
+	expect(parseRange('bytes=0-1, 4-5', 100)).toEqual([[0, 1], [4, 5]])
+	expect(parseRange('bytes=200-300', 100)).toBe('unsatisfiable')
+	expect(parseRange('bytes=5-2', 100)).toBeNull()
+	expect(parseRange('items=0-1', 100)).toBeNull()
+})
+
+test('Range returns 206 with Content-Range', async () => {
+	createFile('digits.txt', DIGITS)
+	assets = new StaticAssets(tmpDir)
+	const full = await assets.fetch(makeRequest('/digits.txt'))
+	expect(full.headers.get('Accept-Ranges')).toBe('bytes')
+
+	const res = await assets.fetch(makeRequest('/digits.txt', { Range: 'bytes=10-14' }))
+	expect(res.status).toBe(206)
+	expect(res.headers.get('Content-Range')).toBe('bytes 10-14/100')
+	expect(await res.text()).toBe('01234')
+})
+
+test('multiple ranges return multipart/byteranges', async () => {
+	createFile('digits.txt', DIGITS)
+	assets = new StaticAssets(tmpDir)
+	const res = await assets.fetch(makeRequest('/digits.txt', { Range: 'bytes=0-2,-3' }))
+	expect(res.status).toBe(206)
+	const boundary = res.headers.get('Content-Type')!.match(/^multipart\/byteranges; boundary=(.+)$/)![1]!
+	const body = await res.text()
+	expect(body).toContain(`--${boundary}\r\nContent-Type: text/plain;charset=utf-8\r\nContent-Range: bytes 0-2/100\r\n\r\n012\r\n`)
+	expect(body).toContain('Content-Range: bytes 97-99/100\r\n\r\n789\r\n')
+	expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true)
+})
+
+test('unsatisfiable Range returns 416', async () => {
+	createFile('digits.txt', DIGITS)
+	assets = new StaticAssets(tmpDir)
+	const res = await assets.fetch(makeRequest('/digits.txt', { Range: 'bytes=500-' }))
+	expect(res.status).toBe(416)
+	expect(res.headers.get('Content-Range')).toBe('bytes */100')
+})
+
+test('If-Range with a stale ETag serves the full file', async () => {
+	createFile('digits.txt', DIGITS)
+	assets = new StaticAssets(tmpDir)
+	const etag = (await assets.fetch(makeRequest('/digits.txt'))).headers.get('ETag')!
+
+	const fresh = await assets.fetch(makeRequest('/digits.txt', { Range: 'bytes=0-0', 'If-Range': etag }))
+	expect(fresh.status).toBe(206)
+	const stale = await assets.fetch(makeRequest('/digits.txt', { Range: 'bytes=0-0', 'If-Range': '"old"' }))
+	expect(stale.status).toBe(200)
+	expect((await stale.text()).length).toBe(100)
+})
+
+// === Edge encoding and cache status ===
+
+test('edge responses compress compressible types per Accept-Encoding', async () => {
+	createFile('app.js', 'console.log(1)\n'.repeat(100))
+	assets = new StaticAssets(tmpDir)
+
+	const br = await assets.fetch(makeRequest('/app.js', { 'Accept-Encoding': 'gzip, br' }), { edge: true })
+	expect(br.headers.get('Content-Encoding')).toBe('br')
+	expect(br.headers.get('Vary')).toBe('Accept-Encoding')
+	expect(br.headers.get('ETag')!.startsWith('W/"')).toBe(true)
+	expect(br.headers.get('Accept-Ranges')).toBeNull()
+	expect(brotliDecompressSync(Buffer.from(await br.arrayBuffer())).toString()).toBe('console.log(1)\n'.repeat(100))
+
+	const gzip = await assets.fetch(makeRequest('/app.js', { 'Accept-Encoding': 'br;q=0.5, gzip' }), { edge: true })
+	expect(gzip.headers.get('Content-Encoding')).toBe('gzip')
+	expect(gunzipSync(Buffer.from(await gzip.arrayBuffer())).toString()).toBe('console.log(1)\n'.repeat(100))
+
+	const identity = await assets.fetch(makeRequest('/app.js'), { edge: true })
+	expect(identity.headers.get('Content-Encoding')).toBeNull()
+	expect(identity.headers.get('Vary')).toBe('Accept-Encoding')
+})
+
+test('the ASSETS binding and incompressible types are never encoded', async () => {
+	createFile('app.js', 'console.log(1)')
+	createFile('photo.png', 'not really a png')
+	assets = new StaticAssets(tmpDir)
+	const binding = await assets.fetch(makeRequest('/app.js', { 'Accept-Encoding': 'br' }))
+	expect(binding.headers.get('Content-Encoding')).toBeNull()
+	expect(await binding.text()).toBe('console.log(1)')
+	const png = await assets.fetch(makeRequest('/photo.png', { 'Accept-Encoding': 'br' }), { edge: true })
+	expect(png.headers.get('Content-Encoding')).toBeNull()
+	expect(png.headers.get('Vary')).toBeNull()
+})
+
+test('precompressed siblings are served when the client accepts them', async () => {
+	createFile('module.wasm', 'raw wasm bytes')
+	createFile('module.wasm.br', 'brotli bytes')
+	createFile('module.wasm.gz', 'gzip bytes')
+	assets = new StaticAssets(tmpDir)
+
+	const br = await assets.fetch(makeRequest('/module.wasm', { 'Accept-Encoding': 'gzip, br' }), { edge: true })
+	expect(br.headers.get('Content-Encoding')).toBe('br')
+	expect(br.headers.get('Content-Type')).toBe('application/wasm')
+	expect(await br.text()).toBe('brotli bytes')
+
+	const gzip = await assets.fetch(makeRequest('/module.wasm', { 'Accept-Encoding': 'gzip' }), { edge: true })
+	expect(await gzip.text()).toBe('gzip bytes')
+
+	// Range requests always use the identity representation
+	const range = await assets.fetch(makeRequest('/module.wasm', { 'Accept-Encoding': 'br', Range: 'bytes=0-2' }), { edge: true })
+	expect(range.status).toBe(206)
+	expect(range.headers.get('Content-Encoding')).toBeNull()
+	expect(await range.text()).toBe('raw')
+})
+
+test('edge responses report CF-Cache-Status MISS then HIT per variant', async () => {
+	createFile('style.css', 'body { color: red }')
+	assets = new StaticAssets(tmpDir)
+	const first = await assets.fetch(makeRequest('/style.css', { 'Accept-Encoding': 'gzip' }), { edge: true })
+	expect(first.headers.get('CF-Cache-Status')).toBe('MISS')
+	const second = await assets.fetch(makeRequest('/style.css', { 'Accept-Encoding': 'gzip' }), { edge: true })
+	expect(second.headers.get('CF-Cache-Status')).toBe('HIT')
+	const otherVariant = await assets.fetch(makeRequest('/style.css'), { edge: true })
+	expect(otherVariant.headers.get('CF-Cache-Status')).toBe('MISS')
+	expect((await assets.fetch(makeRequest('/style.css'))).headers.get('CF-Cache-Status')).toBeNull()
+
+	// A weak ETag from a compressed response still revalidates
+	const revalidated = await assets.fetch(
+		makeRequest('/style.css', { 'Accept-Encoding': 'gzip', 'If-None-Match': first.headers.get('ETag')! }),
+		{ edge: true },
+	)
+	expect(revalidated.status).toBe(304)
+	expect(revalidated.headers.get('Vary')).toBe('Accept-Encoding')
+})
@@ -0,0 +1,148 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { buildTailItem, recordTailRequest, TailForwarder, type TailItem, type TailRequest, toTailEvents } from '../src/bindings/tail'
+import { runTracingMigrations } from '../src/tracing/db'
+import { addSpanEvent, persistError, setSpanAttribute, startSpan } from '../src/tracing/span'
+import { setTraceStore, TraceStore } from '../src/tracing/store'
+import type { SpanData } from '../src/tracing/types'
+import type { WorkerRegistry } from '../src/worker-registry'
+
+let store: TraceStore
+
+beforeEach(() => {
+	const db = new Database(':memory:')
+	runTracingMigrations(db)
+	store = new TraceStore(db)
+	setTraceStore(store)
+})
+
+afterEach(() => {
+	setTraceStore(null)
+})
+
+function rootSpans(): SpanData[] {
+	return store.listTraces({}).items.map(t => store.getTrace(t.traceId).spans.find(s => !s.parentSpanId)!)
+}
+
+/** Registry stub: `producer` tails into `consumer`, whose executor records deliveries. */
+function fakeRegistry(delivered: TailItem[][], opts: { noHandler?: boolean } = {}): WorkerRegistry {
+	const managers: Record<string, { config: Record<string, unknown> }> = {
+		producer: { config: { name: 'producer-script', tail_consumers: [{ service: 'consumer' }] } },
+		consumer: { config: { name: 'consumer' } },
+	}
+	return {
+		getManager: (name: string) => managers[name],
+		resolveTarget: (name: string) => {
+			if (name !== 'consumer') throw new Error(`Worker "${name}" is not registered in the worker registry`)
+			return {
+				kind: 'thread',
+				env: {},
+				executor: {
+					executeTail: async (items: TailItem[]) => {
+						delivered.push(items)
+						return opts.noHandler ? { ok: false, noHandler: true } : { ok: true }
+					},
+				},
+			}
+		},
+	} as unknown as WorkerRegistry
+}
+
+describe('buildTailItem', () => {
+	test('fetch invocation: request, response status, logs', async () => {
+		await startSpan({ name: 'GET /', kind: 'server', attributes: { 'http.method': 'GET', 'http.url': 'http://localhost/' }, workerName: 'w' }, async () => {
+			addSpanEvent('console.log', 'log', 'hello')
+			await startSpan({ name: 'kv.get' }, async () => {
+				addSpanEvent('console.warn', 'warn', 'nested')
+			})
+			setSpanAttribute('http.status_code', 201)
+			setSpanAttribute('lopata.cpu_ms', 1.25)
+		})
+		const root = rootSpans()[0]!
+		const item = buildTailItem(store, root, 'my-worker')
+		expect(item.scriptName).toBe('my-worker')
+		expect(item.outcome).toBe('ok')
+		expect(item.event).toEqual({ request: { url: 'http://localhost/', method: 'GET', headers: {} }, response: { status: 201 } })
+		expect(item.logs.map(l => [l.level, l.message])).toEqual([['log', ['hello']], ['warn', ['nested']]])
+		expect(item.exceptions).toEqual([])
+		expect(item.eventTimestamp).toBe(root.startTime)
+		expect(item.executionModel).toBe('stateless')
+		expect(item.cpuTime).toBe(1.25)
+	})
+
+	test('uncaught error → exception outcome, deduplicated across span event and errors table', async () => {
+		await startSpan({ name: 'scheduled', kind: 'server', attributes: { cron: '* * * * *' }, workerName: 'w' }, async () => {
+			const err = new TypeError('boom')
+			persistError(err, 'scheduled', 'w')
+			throw err
+		}).catch(() => {})
+		const item = buildTailItem(store, rootSpans()[0]!, 'w')
+		expect(item.outcome).toBe('exception')
+		expect(item.exceptions).toHaveLength(1)
+		expect(item.exceptions[0]).toMatchObject({ name: 'TypeError', message: 'boom' })
+		expect(item.event).toMatchObject({ cron: '* * * * *' })
+		expect(item.cpuTime).toBe(0)
+	})
+
+	test('console.error is a log, not an exception', async () => {
+		await startSpan({ name: 'queue q', kind: 'server', attributes: { 'messaging.queue': 'q', 'messaging.batch_size': 3 }, workerName: 'w' }, async () => {
+			addSpanEvent('console.error', 'error', 'careful')
+			persistError(new Error('careful'), 'console.error')
+		})
+		const item = buildTailItem(store, rootSpans()[0]!, 'w')
+		expect(item.outcome).toBe('ok')
+		expect(item.logs).toHaveLength(1)
+		expect(item.event).toEqual({ queue: 'q', batchSize: 3 })
+	})
+})
+
+describe('toTailEvents', () => {
+	test('redacts sensitive headers and exposes getUnredacted()', () => {
+		const request = { url: 'http://x/', method: 'POST', headers: { authorization: 'Bearer secret', 'content-type': 'text/plain' } }
+		const [item] = toTailEvents([{ event: { request } } as unknown as TailItem])
+		const tailRequest = (item!.event as { request: TailRequest }).request
+		expect(tailRequest.headers).toEqual({ authorization: 'REDACTED', 'content-type': 'text/plain' })
+		expect(tailRequest.getUnredacted().headers.authorization).toBe('Bearer secret')
+	})
+})
+
+describe('TailForwarder', () => {
+	test('delivers finished producer invocations to the consumer in one batch', async () => {
+		const delivered: TailItem[][] = []
+		const forwarder = new TailForwarder(fakeRegistry(delivered), store)
+		try {
+			for (const path of ['/a', '/b']) {
+				const request = new Request(`http://localhost${path}`, { headers: { 'x-test': path } })
+				await startSpan({ name: `GET ${path}`, kind: 'server', attributes: { 'http.method': 'GET', 'http.url': request.url }, workerName: 'producer' }, async () => {
+					recordTailRequest(request)
+				})
+			}
+			await forwarder.flush()
+		} finally {
+			forwarder.stop()
+		}
+		expect(delivered).toHaveLength(1)
+		expect(delivered[0]!.map(i => i.scriptName)).toEqual(['producer-script', 'producer-script'])
+		const requests = delivered[0]!.map(i => (i.event as { request: { url: string; headers: Record<string, string> } }).request)
+		expect(requests.map(r => r.headers['x-test'])).toEqual(['/a', '/b'])
+	})
+
+	test('ignores workers without tail_consumers and the tail invocation itself', async () => {
+		const delivered: TailItem[][] = []
+		const forwarder = new TailForwarder(fakeRegistry(delivered), store)
+		try {
+			await startSpan({ name: 'GET /', kind: 'server', attributes: { 'http.method': 'GET' }, workerName: 'consumer' }, async () => {})
+			await forwarder.flush()
+			expect(delivered).toHaveLength(0)
+
+			await startSpan({ name: 'scheduled', kind: 'server', attributes: { cron: '0 * * * *' }, workerName: 'producer' }, async () => {})
+			await forwarder.flush()
+			// The delivery's own `tail` span must not be tailed again.
+			await forwarder.flush()
+		} finally {
+			forwarder.stop()
+		}
+		expect(delivered).toHaveLength(1)
+		expect(rootSpans().some(s => s.name === 'tail' && s.workerName === 'consumer')).toBe(true)
+	})
+})
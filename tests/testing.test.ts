@@ -1,7 +1,7 @@
 import { afterEach, describe, expect, test } from 'bun:test'
 import { DurableObject, WorkerEntrypoint, WorkflowEntrypoint } from 'cloudflare:workers'
-import type { TestEnv } from '../src/testing'
-import { createTestEnv } from '../src/testing'
+import type { TestEnv, TestWorld } from '../src/testing'
+import { createTestEnv, createTestWorld, TestClock } from '../src/testing'
 
 let t: TestEnv | null = null
 
@@ -1569,3 +1569,451 @@ describe('createTestEnv — class entrypoints', () => {
 		expect(t.scheduled({ cron: '0 * * * *' })).rejects.toThrow(/No scheduled handler/)
 	})
 })
+
+describe('createTestEnv — binding specs', () => {
+	test('send_email, Analytics Engine and Flagship have inspectors', async () => {
+		t = await createTestEnv({
+			bindings: {
+				MAILER: { type: 'send-email', allowedDestinationAddresses: ['ops@example.com'] },
+				STATS: { type: 'analytics-engine', dataset: 'requests' },
+				FLAGS: { type: 'flagship', appId: 'web' },
+			},
+			worker: {
+				async fetch(_req: Request, env: any) {
+					if (await env.FLAGS.getBooleanValue('notify', false)) {
+						await env.MAILER.send({ from: 'app@example.com', to: 'ops@example.com', subject: 'Hit', text: 'someone came by' })
+					}
+					env.STATS.writeDataPoint({ indexes: ['home'], blobs: ['GET', null, '/'], doubles: [12.5] })
+					return new Response('ok')
+				},
+			},
+		})
+
+		await t.fetch('/')
+		expect(t.sendEmail('MAILER').messages).toEqual([])
+
+		t.flagship('FLAGS').set('notify', true)
+		expect(t.flagship('FLAGS').get('notify')).toMatchObject({ type: 'boolean', value: 'true' })
+		await t.fetch('/')
+		const sent = t.sendEmail('MAILER').messages
+		expect(sent).toMatchObject([{ from: 'app@example.com', to: 'ops@example.com' }])
+		expect(sent[0]!.raw).toContain('Subject: Hit')
+
+		expect(t.analyticsEngine('STATS').dataPoints).toMatchObject([
+			{ indexes: ['home'], blobs: ['GET', null, '/'], doubles: [12.5] },
+			{ indexes: ['home'], blobs: ['GET', null, '/'], doubles: [12.5] },
+		])
+		t.analyticsEngine('STATS').clear()
+		expect(t.analyticsEngine('STATS').dataPoints).toEqual([])
+
+		expect(() => t!.sendEmail('STATS' as never)).toThrow('send-email binding "STATS" not found. Available: MAILER')
+	})
+
+	test('AI runs on stub outputs and logs its calls; secrets, hyperdrive and version metadata', async () => {
+		t = await createTestEnv({
+			bindings: {
+				AI: { type: 'ai' },
+				API_KEY: { type: 'secret', value: 's3cret' },
+				MISSING: { type: 'secret' },
+				DB_PROXY: { type: 'hyperdrive', connectionString: 'postgres://user:pw@db.local:5433/app' },
+				VERSION: { type: 'version-metadata', id: 'v1' },
+				INDEX: { type: 'vectorize', dimensions: 2 },
+			},
+		})
+		const env = t.env as any
+
+		const out = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', { prompt: 'hello' })
+		expect(out.response).toContain('hello')
+		expect(t.aiRequests()).toMatchObject([{ model: '@cf/meta/llama-3.1-8b-instruct', status: 'ok', provider: 'stub' }])
+
+		expect(await env.API_KEY.get()).toBe('s3cret')
+		await expect(env.MISSING.get()).rejects.toThrow('does not exist')
+		expect([env.DB_PROXY.host, env.DB_PROXY.port, env.DB_PROXY.database]).toEqual(['db.local', 5433, 'app'])
+		expect(env.VERSION).toEqual({ id: 'v1', tag: '', timestamp: new Date(0).toISOString() })
+
+		await env.INDEX.upsert([{ id: 'a', values: [1, 0] }])
+		expect((await env.INDEX.query([1, 0])).matches.map((m: { id: string }) => m.id)).toEqual(['a'])
+	})
+
+	test('wrangler config maps every binding; assets resolve against the config and can be overridden', async () => {
+		const fs = await import('node:fs')
+		const path = await import('node:path')
+		const os = await import('node:os')
+
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lopata-bindings-test-'))
+		fs.mkdirSync(path.join(tmpDir, 'public'))
+		fs.writeFileSync(path.join(tmpDir, 'public', 'hello.txt'), 'from config dir')
+		fs.mkdirSync(path.join(tmpDir, 'test-public'))
+		fs.writeFileSync(path.join(tmpDir, 'test-public', 'hello.txt'), 'from override')
+		const wranglerPath = path.join(tmpDir, 'wrangler.jsonc')
+		fs.writeFileSync(
+			wranglerPath,
+			JSON.stringify({
+				name: 'bindings-worker',
+				assets: { directory: 'public', binding: 'ASSETS' },
+				send_email: [{ name: 'MAILER' }],
+				analytics_engine_datasets: [{ binding: 'STATS' }],
+				images: { binding: 'IMAGES' },
+				hyperdrive: [{ binding: 'HD', id: 'x', localConnectionString: 'postgres://localhost:5432/db' }],
+				flagship: { binding: 'FLAGS', app_id: 'app' },
+				ai: { binding: 'AI' },
+				vectorize: [{ binding: 'INDEX', index_name: 'docs' }],
+				secrets_store_secrets: [{ binding: 'SECRET', store_id: 's', secret_name: 'n' }],
+				version_metadata: { binding: 'VERSION' },
+			}),
+		)
+
+		try {
+			const { configToBindings } = await import('../src/testing/env-builder')
+			const { loadConfig } = await import('../src/config')
+			expect(configToBindings(await loadConfig(wranglerPath), tmpDir).bindings).toEqual({
+				ASSETS: { type: 'assets', directory: path.join(tmpDir, 'public'), htmlHandling: undefined, notFoundHandling: undefined },
+				MAILER: { type: 'send-email', destinationAddress: undefined, allowedDestinationAddresses: undefined },
+				STATS: { type: 'analytics-engine', dataset: undefined },
+				IMAGES: { type: 'images' },
+				HD: { type: 'hyperdrive', connectionString: 'postgres://localhost:5432/db' },
+				FLAGS: { type: 'flagship', appId: 'app' },
+				AI: { type: 'ai' },
+				INDEX: { type: 'vectorize', indexName: 'docs' },
+				SECRET: { type: 'secret' },
+				VERSION: { type: 'version-metadata' },
+			})
+
+			t = await createTestEnv({ wrangler: wranglerPath })
+			expect(await (await (t.env as any).ASSETS.fetch('http://localhost/hello.txt')).text()).toBe('from config dir')
+			t.dispose()
+
+			t = await createTestEnv({
+				wrangler: wranglerPath,
+				bindings: { ASSETS: { type: 'assets', directory: path.join(tmpDir, 'test-public') } },
+			})
+			expect(await (await (t.env as any).ASSETS.fetch('http://localhost/hello.txt')).text()).toBe('from override')
+			t.flagship('FLAGS').set('theme', 'dark')
+			expect(await (t.env as any).FLAGS.getStringValue('theme', 'light')).toBe('dark')
+		} finally {
+			fs.rmSync(tmpDir, { recursive: true, force: true })
+		}
+	})
+
+	test('caches exposes the Cache API storage', async () => {
+		t = await createTestEnv({
+			worker: {
+				async fetch() {
+					await caches.default.put('http://localhost/cached', new Response('cached body'))
+					return new Response('ok')
+				},
+			},
+		})
+		await t.fetch('/')
+		expect(await (await t.caches.default.match('http://localhost/cached'))!.text()).toBe('cached body')
+	})
+})
+
+describe('createTestEnv — queues', () => {
+	test('sent() shows what the code under test produced', async () => {
+		t = await createTestEnv({
+			worker: {
+				async fetch(_request, env) {
+					await (env.JOBS as any).send({ job: 'resize' })
+					await (env.JOBS as any).send('later', { contentType: 'text', delaySeconds: 30 })
+					return new Response('queued')
+				},
+			},
+			bindings: { JOBS: { type: 'queue', queue: 'jobs-queue' } },
+			clock: new TestClock(1_000_000),
+		})
+		await t.fetch('/')
+
+		const sent = t.testQueue('jobs-queue').sent()
+		expect(sent.map(m => m.body)).toEqual([{ job: 'resize' }, 'later'])
+		expect(sent.map(m => m.visibleAt)).toEqual([1_000_000, 1_030_000])
+		expect(sent.every(m => m.status === 'pending' && m.attempts === 0)).toBe(true)
+	})
+
+	test('drain() runs the consumer through retries using the clock', async () => {
+		const seen: unknown[] = []
+		t = await createTestEnv({
+			worker: {
+				async queue(batch: any) {
+					for (const msg of batch.messages) {
+						seen.push(msg.body)
+						if (msg.body === 'flaky' && msg.attempts < 2) msg.retry({ delaySeconds: 60 })
+						else msg.ack()
+					}
+				},
+			},
+			bindings: { Q: 'queue' },
+			clock: new TestClock(0),
+		})
+		await (t.env.Q as any).send('ok')
+		await (t.env.Q as any).send('flaky')
+
+		const outcomes = await t.testQueue('Q').drain()
+		expect(outcomes.map(o => [o.body, o.attempts, o.outcome, o.delaySeconds])).toEqual([
+			['ok', 1, 'ack', undefined],
+			['flaky', 1, 'retry', 60],
+			['flaky', 2, 'ack', undefined],
+		])
+		expect(seen).toEqual(['ok', 'flaky', 'flaky'])
+		expect(t.clock!.now()).toBe(60_000)
+		expect(t.testQueue('Q').sent().map(m => m.status)).toEqual(['acked', 'acked'])
+		expect(await t.testQueue('Q').drain()).toEqual([])
+	})
+
+	test('messages that run out of retries are dead-lettered', async () => {
+		t = await createTestEnv({
+			worker: {
+				async queue(batch: any) {
+					if (batch.queue === 'work') throw new Error('boom')
+				},
+			},
+			bindings: { WORK: { type: 'queue', queue: 'work' } },
+			clock: true,
+		})
+		await (t.env.WORK as any).sendBatch([{ body: 1 }, { body: 2 }])
+
+		const work = t.testQueue('work', { maxRetries: 2, deadLetterQueue: 'work-dlq', retryDelay: 5 })
+		const outcomes = await work.drain()
+		expect(outcomes.map(o => o.outcome)).toEqual(['retry', 'retry', 'dead-letter', 'dead-letter'])
+		expect(outcomes[0]!.delaySeconds).toBe(5)
+		expect(work.deadLettered().map(m => [m.body, m.attempts, m.status])).toEqual([[1, 2, 'pending'], [2, 2, 'pending']])
+		expect(work.sent()).toEqual([])
+
+		const dlq = t.testQueue('work-dlq')
+		expect(dlq.sent().map(m => m.body)).toEqual([1, 2])
+		expect((await dlq.drain()).map(o => o.outcome)).toEqual(['ack', 'ack'])
+		expect(work.deadLettered().map(m => m.status)).toEqual(['acked', 'acked'])
+	})
+
+	test('consumer settings come from the wrangler config', async () => {
+		const fs = await import('node:fs')
+		const path = await import('node:path')
+		const os = await import('node:os')
+
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lopata-queue-test-'))
+		const wranglerPath = path.join(tmpDir, 'wrangler.jsonc')
+		fs.writeFileSync(
+			wranglerPath,
+			JSON.stringify({
+				name: 'queue-worker',
+				queues: {
+					producers: [{ binding: 'EVENTS', queue: 'events', delivery_delay: 10 }],
+					consumers: [{ queue: 'events', max_retries: 1 }],
+				},
+			}),
+		)
+
+		try {
+			t = await createTestEnv({
+				wrangler: wranglerPath,
+				worker: {
+					queue(batch: any) {
+						batch.retryAll()
+					},
+				},
+				clock: true,
+			})
+			await (t.env.EVENTS as any).send('e')
+			const events = t.testQueue('events')
+			expect(events.sent()[0]!.visibleAt).toBe(t.clock!.now() + 10_000)
+			expect((await events.drain()).map(o => o.outcome)).toEqual(['failed'])
+			expect(events.sent().map(m => m.status)).toEqual(['failed'])
+		} finally {
+			fs.rmSync(tmpDir, { recursive: true, force: true })
+		}
+	})
+
+	test('draining delayed messages without a clock fails', async () => {
+		t = await createTestEnv({ worker: { queue() {} }, bindings: { Q: 'queue' } })
+		await (t.env.Q as any).send('x', { delaySeconds: 5 })
+		await expect(t.testQueue('Q').drain()).rejects.toThrow('requires clock: true')
+
+		t.dispose()
+		t = await createTestEnv({ bindings: { Q: 'queue' } })
+		await expect(t.testQueue('Q').drain()).rejects.toThrow('No queue handler found')
+	})
+})
+
+describe('createTestWorld', () => {
+	let world: TestWorld | null = null
+
+	afterEach(() => {
+		world?.dispose()
+		world = null
+	})
+
+	class Session extends DurableObject {
+		async touch(user: string) {
+			const count = (((await this.ctx.storage.get(user)) as number | undefined) ?? 0) + 1
+			await this.ctx.storage.put(user, count)
+			return count
+		}
+	}
+
+	class Auth extends WorkerEntrypoint<{ SESSIONS: any; SECRET: string }> {
+		async fetch(request: Request) {
+			return new Response(`auth saw ${new URL(request.url).pathname}`)
+		}
+
+		async verify(token: string) {
+			if (token !== this.env.SECRET) return null
+			return this.env.SESSIONS.get(this.env.SESSIONS.idFromName('alice')).touch('alice')
+		}
+	}
+
+	class Admin extends WorkerEntrypoint {
+		async role(user: string) {
+			return user === 'alice' ? 'admin' : 'guest'
+		}
+	}
+
+	const auth = {
+		worker: { default: Auth, Admin, Session },
+		bindings: { SESSIONS: { type: 'durable-object' as const, className: 'Session' } },
+		vars: { SECRET: 's3cret' },
+	}
+
+	test('service bindings and named entrypoints resolve to other workers', async () => {
+		world = await createTestWorld({
+			workers: {
+				api: {
+					worker: {
+						async fetch(request: Request, env: any) {
+							const token = new URL(request.url).searchParams.get('token') ?? ''
+							const visits = await env.AUTH.verify(token)
+							if (visits === null) return new Response('forbidden', { status: 403 })
+							const role = await env.ADMIN.role('alice')
+							const proxied = await (await env.AUTH.fetch('http://auth/check')).text()
+							return new Response(`${role} ${visits} ${proxied}`)
+						},
+					},
+					bindings: {
+						AUTH: { type: 'service', service: 'auth' },
+						ADMIN: { type: 'service', service: 'auth', entrypoint: 'Admin' },
+					},
+				},
+				auth,
+			},
+		})
+
+		const api = world.worker('api')
+		expect((await api.fetch('/?token=nope')).status).toBe(403)
+		expect(await (await api.fetch('/?token=s3cret')).text()).toBe('admin 1 auth saw /check')
+		expect(await (await world.worker('auth').fetch('/direct')).text()).toBe('auth saw /direct')
+		expect(api.db).toBe(world.db)
+		expect(() => world!.worker('billing')).toThrow('Worker "billing" not found. Available: api, auth')
+	})
+
+	test('Durable Objects with a scriptName share the defining worker\'s namespace', async () => {
+		world = await createTestWorld({
+			workers: {
+				api: {
+					bindings: {
+						SESSIONS: { type: 'durable-object', className: 'Session', scriptName: 'auth' },
+						AUTH: { type: 'service', service: 'auth' },
+					},
+				},
+				auth,
+				reports: {
+					bindings: { COUNTERS: { type: 'durable-object', className: 'Counter', scriptName: 'stats' } },
+				},
+				stats: {
+					worker: {
+						Counter: class extends DurableObject {
+							async increment() {
+								const value = (((await this.ctx.storage.get('value')) as number | undefined) ?? 0) + 1
+								await this.ctx.storage.put('value', value)
+								return value
+							}
+						},
+					},
+				},
+			},
+		})
+
+		const api = world.worker<{ SESSIONS: any; AUTH: any }>('api')
+		expect(api.env.SESSIONS).toBe(world.worker<{ SESSIONS: any }>('auth').env.SESSIONS)
+		expect(await api.env.SESSIONS.get(api.env.SESSIONS.idFromName('alice')).touch('alice')).toBe(1)
+		expect(await api.env.AUTH.verify('s3cret')).toBe(2)
+
+		// The defining worker doesn't bind the class itself.
+		const counters = world.worker<{ COUNTERS: any }>('reports').env.COUNTERS
+		expect(await counters.get(counters.idFromName('a')).increment()).toBe(1)
+		expect(await counters.get(counters.idFromName('a')).increment()).toBe(2)
+	})
+
+	test('workers share D1 databases and KV namespaces by name, not by binding', async () => {
+		world = await createTestWorld({
+			workers: {
+				api: {
+					bindings: {
+						DB: { type: 'd1', databaseName: 'app' },
+						CACHE: { type: 'kv', namespaceId: 'cache' },
+						OWN: 'kv',
+					},
+				},
+				jobs: {
+					bindings: {
+						APP_DB: { type: 'd1', databaseName: 'app' },
+						SHARED_CACHE: { type: 'kv', namespaceId: 'cache' },
+						OWN: 'kv',
+					},
+				},
+			},
+		})
+
+		const api = world.worker<{ DB: any; CACHE: any; OWN: any }>('api').env
+		const jobs = world.worker<{ APP_DB: any; SHARED_CACHE: any; OWN: any }>('jobs').env
+		await api.DB.exec('CREATE TABLE users (name TEXT)')
+		await api.DB.prepare('INSERT INTO users (name) VALUES (?)').bind('alice').run()
+		expect(await jobs.APP_DB.prepare('SELECT name FROM users').first('name')).toBe('alice')
+
+		await jobs.SHARED_CACHE.put('greeting', 'hello')
+		expect(await api.CACHE.get('greeting')).toBe('hello')
+		// Bindings without a resource name are still keyed by binding name.
+		await api.OWN.put('k', 'v')
+		expect(await jobs.OWN.get('k')).toBe('v')
+	})
+
+	test('unknown workers are reported', async () => {
+		world = await createTestWorld({
+			workers: { api: { bindings: { BILLING: { type: 'service', service: 'billing' } } } },
+		})
+		expect(() => (world!.worker('api').env as any).BILLING.charge()).toThrow('Worker "billing" is not part of the test world. Workers: api')
+
+		await expect(createTestWorld({
+			workers: { api: { bindings: { DO: { type: 'durable-object', className: 'X', scriptName: 'billing' } } } },
+		})).rejects.toThrow('refers to worker "billing", which is not part of the test world')
+	})
+
+	test('advanceTime fires alarms of every worker', async () => {
+		const fired: string[] = []
+		world = await createTestWorld({
+			clock: new TestClock(0),
+			workers: {
+				api: {
+					bindings: { REMINDERS: { type: 'durable-object', className: 'Reminder', scriptName: 'jobs' } },
+				},
+				jobs: {
+					worker: {
+						Reminder: class extends DurableObject {
+							async schedule() {
+								await this.ctx.storage.setAlarm(60_000)
+							}
+
+							async alarm() {
+								fired.push('reminder')
+							}
+						},
+					},
+				},
+			},
+		})
+
+		const reminders = world.worker<{ REMINDERS: any }>('api').env.REMINDERS
+		await reminders.get(reminders.idFromName('r')).schedule()
+		await world.worker('api').advanceTime(60_000)
+		expect(fired).toEqual(['reminder'])
+		expect(world.clock!.now()).toBe(60_000)
+	})
+})
@@ -63,6 +63,16 @@ describe('Multi-worker thread mode + cross-thread service bindings', () => {
 		expect(await res.text()).toBe('main->aux: aux echo ?msg=hello')
 	})
 
+	test('env.AUX.connect() opens a TCP socket to the aux connect handler', async () => {
+		const res = await fetch(`${base}/aux-connect?msg=hello`)
+		expect(await res.text()).toBe('aux heard hello')
+	})
+
+	test('cloudflare:sockets connect() works inside a worker thread', async () => {
+		const res = await fetch(`${base}/raw-tcp`)
+		expect(await res.text()).toBe('main says hi')
+	})
+
 	test('RPC method with a primitive return crosses the thread boundary', async () => {
 		const res = await fetch(`${base}/aux-rpc/double?n=21`)
 		expect(await res.text()).toBe('42')
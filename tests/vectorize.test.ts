@@ -0,0 +1,151 @@
+import { Database } from 'bun:sqlite'
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { compileFilter, createVectorizeIndex, deleteVectorizeIndex, listVectorizeIndexes, SqliteVectorizeIndex } from '../src/bindings/vectorize'
+import { runMigrations } from '../src/db'
+
+let db: Database
+
+beforeEach(() => {
+	db = new Database(':memory:')
+	runMigrations(db)
+})
+
+function index(name = 'docs', dimensions = 3, metric: 'cosine' | 'euclidean' | 'dot-product' = 'cosine') {
+	createVectorizeIndex(db, name, { dimensions, metric })
+	return new SqliteVectorizeIndex(db, name)
+}
+
+describe('SqliteVectorizeIndex', () => {
+	test('insert keeps existing ids, upsert replaces them', async () => {
+		const vi = index()
+		await vi.insert([{ id: 'a', values: [1, 0, 0], metadata: { v: 1 } }])
+		await vi.insert([{ id: 'a', values: [0, 1, 0], metadata: { v: 2 } }, { id: 'b', values: [0, 0, 1] }])
+		expect((await vi.getByIds(['a']))[0]!.metadata).toEqual({ v: 1 })
+
+		await vi.upsert([{ id: 'a', values: [0, 1, 0], metadata: { v: 2 }, namespace: 'ns' }])
+		expect(await vi.getByIds(['b', 'missing', 'a'])).toEqual([
+			{ id: 'b', values: [0, 0, 1] },
+			{ id: 'a', values: [0, 1, 0], metadata: { v: 2 }, namespace: 'ns' },
+		])
+
+		const info = await vi.describe()
+		expect(info.vectorCount).toBe(2)
+		expect(info.dimensions).toBe(3)
+		expect(info.processedUpToMutation).toBe(3)
+	})
+
+	test('cosine ranks by angle, highest first', async () => {
+		const vi = index()
+		await vi.insert([
+			{ id: 'same', values: [2, 0, 0] },
+			{ id: 'close', values: [1, 1, 0] },
+			{ id: 'opposite', values: [-1, 0, 0] },
+		])
+		const { matches, count } = await vi.query([1, 0, 0], { topK: 3 })
+		expect(count).toBe(3)
+		expect(matches.map(m => m.id)).toEqual(['same', 'close', 'opposite'])
+		expect(matches[0]!.score).toBeCloseTo(1)
+		expect(matches[1]!.score).toBeCloseTo(Math.SQRT1_2)
+		expect(matches[2]!.score).toBeCloseTo(-1)
+		expect(matches[0]!.values).toBeUndefined()
+	})
+
+	test('euclidean ranks by distance, closest first; dot-product by magnitude', async () => {
+		const euclidean = index('euclid', 2, 'euclidean')
+		await euclidean.insert([{ id: 'far', values: [10, 10] }, { id: 'near', values: [1, 1] }])
+		const near = await euclidean.query([0, 0])
+		expect(near.matches.map(m => m.id)).toEqual(['near', 'far'])
+		expect(near.matches[0]!.score).toBeCloseTo(Math.SQRT2)
+
+		const dot = index('dot', 2, 'dot-product')
+		await dot.insert([{ id: 'small', values: [1, 0] }, { id: 'big', values: [5, 0] }])
+		expect((await dot.query([1, 0])).matches.map(m => [m.id, m.score])).toEqual([['big', 5], ['small', 1]])
+	})
+
+	test('query options: topK, namespace, returnValues, returnMetadata', async () => {
+		const vi = index()
+		await vi.insert([
+			{ id: 'a', values: [1, 0, 0], namespace: 'one', metadata: { tag: 'x' } },
+			{ id: 'b', values: [0.9, 0.1, 0], namespace: 'two', metadata: { tag: 'y' } },
+			{ id: 'c', values: [0, 1, 0], namespace: 'one' },
+		])
+		const top1 = await vi.query([1, 0, 0], { topK: 1, returnValues: true, returnMetadata: 'all' })
+		expect(top1.matches).toEqual([{ id: 'a', score: expect.closeTo(1), values: [1, 0, 0], metadata: { tag: 'x' }, namespace: 'one' }])
+
+		const inTwo = await vi.query([1, 0, 0], { namespace: 'two', returnMetadata: true })
+		expect(inTwo.matches.map(m => [m.id, m.metadata])).toEqual([['b', { tag: 'y' }]])
+
+		await expect(vi.query([1, 0, 0], { topK: 60, returnValues: true })).rejects.toThrow('topK must be between 1 and 50')
+		await expect(vi.query([1, 0, 0], { topK: 101 })).rejects.toThrow('topK must be between 1 and 100')
+	})
+
+	test('metadata filters narrow the candidates before ranking', async () => {
+		const vi = index()
+		await vi.insert([
+			{ id: 'a', values: [1, 0, 0], metadata: { lang: 'en', year: 2020, author: { name: 'ann' } } },
+			{ id: 'b', values: [0.9, 0.1, 0], metadata: { lang: 'cs', year: 2024, author: { name: 'bob' } } },
+			{ id: 'c', values: [0, 1, 0], metadata: { lang: 'en', year: 2024 } },
+		])
+		const ids = async (filter: Parameters<typeof compileFilter>[0]) => (await vi.query([1, 0, 0], { filter })).matches.map(m => m.id)
+		expect(await ids({ lang: 'en' })).toEqual(['a', 'c'])
+		expect(await ids({ lang: { $ne: 'en' } })).toEqual(['b'])
+		expect(await ids({ year: { $gte: 2021, $lt: 2030 } })).toEqual(['b', 'c'])
+		expect(await ids({ lang: { $in: ['cs', 'de'] } })).toEqual(['b'])
+		expect(await ids({ 'author.name': { $nin: ['ann'] } })).toEqual(['b', 'c'])
+		expect(await ids({ lang: 'en', year: 2024 })).toEqual(['c'])
+	})
+
+	test('queryById uses the stored vector', async () => {
+		const vi = index()
+		await vi.insert([{ id: 'a', values: [1, 0, 0] }, { id: 'b', values: [0, 1, 0] }])
+		expect((await vi.queryById('b', { topK: 1 })).matches.map(m => m.id)).toEqual(['b'])
+		expect((await vi.queryById('missing')).matches).toEqual([])
+	})
+
+	test('deleteByIds removes vectors', async () => {
+		const vi = index()
+		await vi.insert([{ id: 'a', values: [1, 0, 0] }, { id: 'b', values: [0, 1, 0] }])
+		await vi.deleteByIds(['a', 'missing'])
+		expect((await vi.describe()).vectorCount).toBe(1)
+		expect(await vi.getByIds(['a'])).toEqual([])
+	})
+
+	test('validates dimensions, ids and metadata size', async () => {
+		const vi = index()
+		await expect(vi.insert([{ id: 'a', values: [1, 0] }])).rejects.toThrow('has 2 dimensions, index expects 3')
+		await expect(vi.query([1, 0])).rejects.toThrow('query vector has 2 dimensions')
+		await expect(vi.insert([{ id: 'x'.repeat(65), values: [1, 0, 0] }])).rejects.toThrow('exceeds 64 bytes')
+		await expect(vi.insert([{ id: 'a', values: [1, 0, 0], metadata: { blob: 'x'.repeat(11 * 1024) } }])).rejects.toThrow('metadata')
+	})
+
+	test('an index is created on its first write, with the cosine metric', async () => {
+		const vi = new SqliteVectorizeIndex(db, 'auto')
+		expect((await vi.query([1, 2])).matches).toEqual([])
+		await expect(vi.describe()).rejects.toThrow('does not exist')
+
+		await vi.upsert([{ id: 'a', values: new Float32Array([1, 2]) }])
+		expect(listVectorizeIndexes(db)).toEqual([
+			expect.objectContaining({ name: 'auto', dimensions: 2, metric: 'cosine', vectorCount: 1 }),
+		])
+	})
+})
+
+describe('index management', () => {
+	test('create validates, delete drops the vectors', async () => {
+		expect(() => createVectorizeIndex(db, 'Bad_Name', { dimensions: 3, metric: 'cosine' })).toThrow('lowercase')
+		expect(() => createVectorizeIndex(db, 'docs', { dimensions: 0, metric: 'cosine' })).toThrow('dimensions')
+		const vi = index()
+		expect(() => createVectorizeIndex(db, 'docs', { dimensions: 3, metric: 'cosine' })).toThrow('already exists')
+
+		await vi.insert([{ id: 'a', values: [1, 0, 0] }])
+		expect(deleteVectorizeIndex(db, 'docs')).toBe(true)
+		expect(deleteVectorizeIndex(db, 'docs')).toBe(false)
+		expect(db.query('SELECT COUNT(*) AS cnt FROM vectorize_vectors').get()).toEqual({ cnt: 0 })
+	})
+
+	test('compileFilter rejects unknown operators and misplaced arrays', () => {
+		expect(() => compileFilter({ a: { $regex: 'x' } as never })).toThrow('unsupported operator "$regex"')
+		expect(() => compileFilter({ a: { $in: 'x' } })).toThrow('requires an array')
+		expect(() => compileFilter({ a: { $eq: ['x'] } })).toThrow('does not take an array')
+	})
+})